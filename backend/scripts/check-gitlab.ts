@@ -0,0 +1,144 @@
+// Exercise the GitLab provider against a local mock of the GitLab API:
+// tsx scripts/check-gitlab.ts
+//
+// The mock is registered as a self-hosted instance whose `apiBase` points at
+// it, so nothing leaves the machine. Exits non-zero on the first mismatch.
+import assert from "assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+const HOST = "gitlab.mock.test";
+const TOKEN = "glpat-check";
+const PROJECT = "/api/v4/projects/group%2Fsub%2Fproject";
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+const routes: Record<string, unknown> = {
+  [`${PROJECT}/repository/commits/${SHA}/merge_requests`]: [
+    {
+      iid: 12,
+      title: "Add the widget",
+      state: "merged",
+      web_url: `https://${HOST}/group/sub/project/-/merge_requests/12`,
+      author: { username: "alice" },
+      created_at: "2026-01-02T03:04:05Z",
+      merged_at: "2026-01-03T03:04:05Z",
+    },
+  ],
+  [`${PROJECT}/issues/7`]: {
+    iid: 7,
+    title: "Widget is missing",
+    state: "opened",
+    web_url: `https://${HOST}/group/sub/project/-/issues/7`,
+    labels: ["bug", { name: "ui" }],
+  },
+  [PROJECT]: {
+    description: "A project",
+    default_branch: "main",
+    star_count: 3,
+    forks_count: 1,
+    visibility: "private",
+  },
+};
+
+const RESET = 1_900_000_000;
+const requests: { url: string; token?: string }[] = [];
+
+const server = http.createServer((req, res) => {
+  const url = req.url ?? "";
+  requests.push({ url, token: req.headers["private-token"] as string });
+
+  const body = routes[url];
+  res.writeHead(body === undefined ? 404 : 200, {
+    "Content-Type": "application/json",
+    "RateLimit-Limit": "2000",
+    "RateLimit-Remaining": String(2000 - requests.length),
+    "RateLimit-Reset": String(RESET),
+  });
+  res.end(body === undefined ? "{}" : JSON.stringify(body));
+});
+
+await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+const { port } = server.address() as AddressInfo;
+
+// Services read CONFIG_FILE when they load, so import them afterwards
+const configDir = mkdtempSync(path.join(os.tmpdir(), "check-gitlab-"));
+process.env.CONFIG_FILE = path.join(configDir, "config.json");
+writeFileSync(
+  process.env.CONFIG_FILE,
+  JSON.stringify({
+    forgeHosts: [
+      {
+        host: HOST,
+        forge: "gitlab",
+        apiBase: `http://127.0.0.1:${port}/api/v4`,
+        token: TOKEN,
+      },
+    ],
+  }),
+);
+
+try {
+  const { forgeRegistry } = await import("../src/services/forges/registry.js");
+
+  const detected = await forgeRegistry.parseRemoteUrl(
+    `git@${HOST}:group/sub/project.git`,
+  );
+  assert(detected, "remote not recognised");
+  const { provider, repo } = detected;
+  assert.equal(provider.type, "gitlab");
+  assert.equal(repo.apiBase, `http://127.0.0.1:${port}/api/v4`);
+  assert.equal(repo.owner, "group/sub");
+  console.log("ok - remote resolved to the configured apiBase");
+
+  assert.deepEqual(await provider.getPullRequestsForCommit(repo, SHA), [
+    {
+      number: 12,
+      title: "Add the widget",
+      state: "merged",
+      url: `https://${HOST}/group/sub/project/-/merge_requests/12`,
+      author: "alice",
+      createdAt: "2026-01-02T03:04:05Z",
+      mergedAt: "2026-01-03T03:04:05Z",
+    },
+  ]);
+  console.log("ok - merge requests for a commit");
+
+  assert.deepEqual(await provider.getIssue(repo, 7), {
+    number: 7,
+    title: "Widget is missing",
+    state: "open",
+    url: `https://${HOST}/group/sub/project/-/issues/7`,
+    labels: ["bug", "ui"],
+  });
+  assert.equal(await provider.getIssue(repo, 8), null);
+  console.log("ok - issues, and null for a missing one");
+
+  assert.deepEqual(await provider.getRepoMetadata(repo), {
+    description: "A project",
+    defaultBranch: "main",
+    stars: 3,
+    forks: 1,
+    visibility: "private",
+  });
+  console.log("ok - repository metadata");
+
+  const seen = requests.length;
+  assert.deepEqual(await provider.getRateLimitStatus(repo), {
+    remaining: 2000 - seen,
+    limit: 2000,
+    resetAt: new Date(RESET * 1000).toISOString(),
+  });
+  assert.equal(requests.length, seen, "rate limit should come from headers");
+  console.log("ok - rate limit from the RateLimit headers");
+
+  for (const { url, token } of requests) {
+    assert.equal(token, TOKEN, `${url} sent without PRIVATE-TOKEN`);
+  }
+  console.log(`ok - PRIVATE-TOKEN sent on all ${requests.length} requests`);
+} finally {
+  server.close();
+  rmSync(configDir, { recursive: true, force: true });
+}
@@ -0,0 +1,8 @@
+// Write the OpenAPI document to a file so the frontend can generate its
+// client without a running server: tsx scripts/export-openapi.ts <file>
+import { writeFileSync } from "fs";
+import { getOpenApiDocument } from "../src/app.js";
+
+const target = process.argv[2] ?? "openapi.json";
+writeFileSync(target, JSON.stringify(getOpenApiDocument(), null, 2) + "\n");
+console.log(`Wrote ${target}`);
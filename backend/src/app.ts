@@ -5,9 +5,13 @@
 import express from "express";
 import cors from "cors";
 import compression from "compression";
+import multer from "multer";
 import { repositoryRoutes } from "./routes/repository.routes.js";
 import { uploadRoutes } from "./routes/upload.routes.js";
-import { githubRoutes } from "./routes/github.routes.js";
+import { forgeRoutes } from "./routes/forge.routes.js";
+import { ApiError, sendError } from "./errors.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import type { JsonSchema } from "./schemas/registry.js";
 
 export const app = express();
 
@@ -19,18 +23,44 @@ app.get("/api/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
+let openApiDocument: JsonSchema | undefined;
+
+// Built from the route table on first use; the routes can't change afterwards
+export function getOpenApiDocument(): JsonSchema {
+  openApiDocument ??= buildOpenApiDocument(
+    [
+      { tag: "repository", router: repositoryRoutes },
+      { tag: "upload", router: uploadRoutes },
+      { tag: "forge", router: forgeRoutes },
+    ],
+    { title: "Git Visualizer API", version: "1.0.0" },
+  );
+  return openApiDocument;
+}
+
+app.get("/api/openapi.json", (_req, res) => {
+  res.json(getOpenApiDocument());
+});
+
 app.use("/api", repositoryRoutes);
 app.use("/api", uploadRoutes);
-app.use("/api", githubRoutes);
+app.use("/api", forgeRoutes);
 
 app.use(
   (
-    err: Error,
+    err: Error & { type?: string },
     _req: express.Request,
     res: express.Response,
     _next: express.NextFunction,
   ) => {
-    console.error("Error:", err.message);
-    res.status(500).json({ error: err.message });
+    // Malformed JSON bodies and rejected uploads are the client's fault
+    if (
+      err.type === "entity.parse.failed" ||
+      err instanceof multer.MulterError
+    ) {
+      sendError(res, new ApiError("INVALID_REQUEST", err.message));
+      return;
+    }
+    sendError(res, err);
   },
 );
@@ -0,0 +1,103 @@
+import { Response } from "express";
+
+/**
+ * Stable, machine-readable error codes. Clients branch on these instead of
+ * matching messages, so existing codes must keep their meaning; messages
+ * are for people and may change freely.
+ */
+export const ERROR_STATUS = {
+  INVALID_REQUEST: 400, // Parameters failed validation
+  NOT_A_REPO: 400, // The directory or upload isn't a git repository
+  UNSUPPORTED_OPERATION: 400, // Not possible for this kind of repository
+  AUTH_REQUIRED: 401, // The remote needs (different) credentials
+  PATH_FORBIDDEN: 403, // Outside the allowed repository roots
+  PATH_NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404, // Unknown or expired repoId
+  REF_NOT_FOUND: 404, // Commit, branch, tag or revision doesn't exist
+  FILE_NOT_FOUND: 404, // Path doesn't exist (or didn't change) at a revision
+  SUBMODULE_NOT_FOUND: 404,
+  JOB_NOT_FOUND: 404, // Unknown job, or finished too long ago
+  SUBMODULE_NOT_INITIALIZED: 409,
+  JOB_CANCELLED: 409, // The job was cancelled before it finished
+  RATE_LIMITED: 429, // An upstream API (e.g. GitHub, GitLab) is rate limiting us
+  INTERNAL_ERROR: 500,
+  REMOTE_ERROR: 502, // Clone, fetch or API call to a remote failed
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  details?: unknown; // Validation issues, rate limit reset time, ...
+}
+
+// Body of every failed JSON response
+export interface ErrorEnvelope {
+  success: false;
+  error: ErrorBody;
+}
+
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = details;
+  }
+
+  toJSON(): ErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+// Messages git prints for revisions it can't resolve
+const UNKNOWN_REVISION_PATTERNS = [
+  /unknown revision/i,
+  /bad revision/i,
+  /bad object/i,
+  /not a valid object name/i,
+  /ambiguous argument/i,
+  /invalid object name/i,
+  /not a tree object/i,
+];
+
+/**
+ * Turn anything a route caught into an ApiError. Errors thrown by git itself
+ * are classified by message; everything unrecognised is an INTERNAL_ERROR.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (UNKNOWN_REVISION_PATTERNS.some((pattern) => pattern.test(message))) {
+    return new ApiError("REF_NOT_FOUND", message);
+  }
+  if (/not a git repository/i.test(message)) {
+    return new ApiError("NOT_A_REPO", message);
+  }
+  if (/does not exist in '|exists on disk, but not in '/i.test(message)) {
+    return new ApiError("FILE_NOT_FOUND", message);
+  }
+  return new ApiError("INTERNAL_ERROR", message);
+}
+
+export function sendError(res: Response, error: unknown): void {
+  const apiError = toApiError(error);
+  if (apiError.code === "INTERNAL_ERROR") {
+    console.error("Error:", apiError.message);
+  }
+  const envelope: ErrorEnvelope = { success: false, error: apiError.toJSON() };
+  res.status(apiError.status).json(envelope);
+}
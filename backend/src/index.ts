@@ -3,9 +3,16 @@
 // Commercial use requires a paid license.
 
 import { app } from "./app.js";
+import { sessionService } from "./services/session.service.js";
 
 const PORT = process.env.PORT || 3001;
 
-app.listen(PORT, () => {
-  console.log(`Git Visualizer API running on http://localhost:${PORT}`);
-});
+// Reap temp directories left behind by a previous run before serving
+sessionService
+  .start()
+  .catch((error) => console.warn("Session startup failed:", error))
+  .finally(() => {
+    app.listen(PORT, () => {
+      console.log(`Git Visualizer API running on http://localhost:${PORT}`);
+    });
+  });
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { gitService } from "../services/git.service.js";
+import { ApiError, sendError } from "../errors.js";
+
+/**
+ * Answer NOT_A_REPO unless the path found by resolveRepo is (still) a git
+ * repository. Must run after resolveRepo.
+ */
+export async function requireRepository(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!(await gitService.validateRepository(req.body.validatedPath))) {
+      sendError(res, new ApiError("NOT_A_REPO", "Not a valid git repository"));
+      return;
+    }
+  } catch (error) {
+    sendError(res, error);
+    return;
+  }
+  next();
+}
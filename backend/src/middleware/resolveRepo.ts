@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { sessionService } from "../services/session.service.js";
+import { ApiError, sendError } from "../errors.js";
+
+/**
+ * Resolve the opaque repository ID sent by the client to the session's path
+ * on the server. Routes read the result from `req.body.validatedPath`.
+ */
+export function resolveRepo(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const repoId = req.body.repoId || req.query.repoId;
+
+  if (!repoId || typeof repoId !== "string") {
+    sendError(res, new ApiError("INVALID_REQUEST", "repoId is required"));
+    return;
+  }
+
+  const session = sessionService.resolve(repoId);
+  if (!session) {
+    sendError(
+      res,
+      new ApiError(
+        "SESSION_NOT_FOUND",
+        "Repository session not found or expired",
+      ),
+    );
+    return;
+  }
+
+  req.body.validatedPath = session.path;
+  req.body.repoSession = session;
+  next();
+}
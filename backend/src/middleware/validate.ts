@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { ApiError, sendError } from "../errors.js";
+
+/**
+ * Schemas describing one route. Request parts are validated before the
+ * handler runs; `response` (the success body) and `events` (payloads of
+ * Server-Sent Events, by event name) document what the route returns.
+ * Together with `operationId` they make up the route's entry in the OpenAPI
+ * document, from which the frontend's client is generated.
+ */
+export interface RouteSchemas {
+  operationId: string; // Name of the generated client function
+  summary?: string;
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response?: z.ZodTypeAny;
+  events?: Record<string, z.ZodTypeAny>;
+  // Multipart file fields, parsed by multer rather than validated here
+  files?: Record<string, "single" | "array">;
+}
+
+// The middleware keeps its schemas so the route table can be introspected
+export type ValidatingMiddleware = RequestHandler & { schemas: RouteSchemas };
+
+const REQUEST_PARTS = ["params", "query", "body"] as const;
+
+/**
+ * Validate a request against zod schemas and answer INVALID_REQUEST with the
+ * zod issues when it doesn't match. Parsed values (with coercions and
+ * defaults applied) are stored on `res.locals.params`, `res.locals.query`
+ * and `res.locals.body`; `req` is left untouched for later middleware.
+ */
+export function validate(schemas: RouteSchemas): ValidatingMiddleware {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    for (const part of REQUEST_PARTS) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (!result.success) {
+        const [issue] = result.error.issues;
+        const where = [part, ...issue.path].join(".");
+        sendError(
+          res,
+          new ApiError(
+            "INVALID_REQUEST",
+            `Invalid ${where}: ${issue.message}`,
+            result.error.issues,
+          ),
+        );
+        return;
+      }
+      res.locals[part] = result.data;
+    }
+    next();
+  };
+  return Object.assign(middleware, { schemas });
+}
@@ -1,18 +1,16 @@
 import { Request, Response, NextFunction } from "express";
-import { stat } from "fs/promises";
-import { resolve } from "path";
-
-const FORBIDDEN_PATHS = [
-  "/etc",
-  "/var",
-  "/usr",
-  "/bin",
-  "/sbin",
-  "/root",
-  "/proc",
-  "/sys",
-];
+import { realpath, stat } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { configService } from "../services/config.service.js";
+import { ApiError, sendError } from "../errors.js";
 
+/**
+ * Check a client-supplied directory against the allowed repository roots.
+ * Symlinks are resolved first, so a link inside a root can't lead outside
+ * it. Anything outside the roots is forbidden whether or not it exists, so
+ * the answer doesn't reveal what's on disk there. Routes read the resolved
+ * path from `req.body.validatedPath`.
+ */
 export async function validatePath(
   req: Request,
   res: Response,
@@ -21,34 +19,58 @@ export async function validatePath(
   const repoPath = req.body.path || req.query.repoPath;
 
   if (!repoPath || typeof repoPath !== "string") {
-    res.status(400).json({ error: "Path is required" });
+    sendError(res, new ApiError("INVALID_REQUEST", "Path is required"));
     return;
   }
 
-  const absolutePath = resolve(repoPath);
+  const { path: realPath, exists } = await resolveSymlinks(resolve(repoPath));
 
-  // Check for forbidden system paths
-  for (const forbidden of FORBIDDEN_PATHS) {
-    if (absolutePath.startsWith(forbidden)) {
-      res
-        .status(403)
-        .json({ error: "Access to system directories is forbidden" });
-      return;
-    }
+  if (!(await configService.isAllowedPath(realPath))) {
+    sendError(
+      res,
+      new ApiError(
+        "PATH_FORBIDDEN",
+        "Path is outside the allowed repository roots",
+      ),
+    );
+    return;
+  }
+
+  if (!exists) {
+    sendError(res, new ApiError("PATH_NOT_FOUND", "Path does not exist"));
+    return;
   }
 
-  // Verify path exists and is a directory
+  // Verify path is a directory
   try {
-    const stats = await stat(absolutePath);
+    const stats = await stat(realPath);
     if (!stats.isDirectory()) {
-      res.status(400).json({ error: "Path must be a directory" });
+      sendError(
+        res,
+        new ApiError("INVALID_REQUEST", "Path must be a directory"),
+      );
       return;
     }
   } catch {
-    res.status(404).json({ error: "Path does not exist" });
+    sendError(res, new ApiError("PATH_NOT_FOUND", "Path does not exist"));
     return;
   }
 
-  req.body.validatedPath = absolutePath;
+  req.body.validatedPath = realPath;
   next();
 }
+
+// Resolve symlinks in the longest existing part of a path and keep the
+// missing rest as given; `exists` says whether the whole path was found
+async function resolveSymlinks(
+  target: string,
+): Promise<{ path: string; exists: boolean }> {
+  try {
+    return { path: await realpath(target), exists: true };
+  } catch {
+    const parent = dirname(target);
+    if (parent === target) return { path: target, exists: false };
+    const resolved = await resolveSymlinks(parent);
+    return { path: join(resolved.path, basename(target)), exists: false };
+  }
+}
@@ -0,0 +1,318 @@
+import { Router } from "express";
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import type {
+  RouteSchemas,
+  ValidatingMiddleware,
+} from "./middleware/validate.js";
+import { errorEnvelopeSchema } from "./schemas/common.schemas.js";
+import { getName, getWireFormat, JsonSchema } from "./schemas/registry.js";
+
+/**
+ * OpenAPI document generated from the route table. Every route declares its
+ * schemas with `validate()`, so the document can't drift from what the
+ * server actually accepts and returns. The frontend generates its types and
+ * client from it (see frontend/scripts/generate-api.mjs).
+ */
+
+// Requests are described as clients send them, responses as servers send them
+type Direction = "input" | "output";
+
+interface Context {
+  direction: Direction;
+  components: Record<string, JsonSchema>;
+}
+
+// ===== ZOD TO JSON SCHEMA =====
+
+function isOptional(schema: ZodTypeAny, direction: Direction): boolean {
+  // What parses without a value is optional for clients
+  if (direction === "input") return schema.isOptional();
+
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+    case ZodFirstPartyTypeKind.ZodAny:
+      return true;
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return isOptional(def.innerType, direction);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return isOptional(def.schema, direction);
+    default:
+      return false;
+  }
+}
+
+function convert(schema: ZodTypeAny, context: Context): JsonSchema {
+  const name = getName(schema);
+  if (name) {
+    if (!(name in context.components)) {
+      context.components[name] = {}; // Placeholder for recursive references
+      context.components[name] = describe(schema, context);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+  return describe(schema, context);
+}
+
+// `.describe()` texts become doc comments in generated clients
+function describe(schema: ZodTypeAny, context: Context): JsonSchema {
+  const json = convertType(schema, context);
+  return schema.description
+    ? { ...json, description: schema.description }
+    : json;
+}
+
+function convertType(schema: ZodTypeAny, context: Context): JsonSchema {
+  const wire = getWireFormat(schema);
+  if (wire && context.direction === "input") return wire;
+
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "min") json.minLength = check.value;
+        if (check.kind === "max") json.maxLength = check.value;
+        if (check.kind === "regex") json.pattern = check.regex.source;
+      }
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: "number" };
+      for (const check of def.checks) {
+        if (check.kind === "int") json.type = "integer";
+        if (check.kind === "min") json.minimum = check.value;
+        if (check.kind === "max") json.maximum = check.value;
+      }
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case ZodFirstPartyTypeKind.ZodUnknown:
+    case ZodFirstPartyTypeKind.ZodAny:
+      return {};
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value, const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case ZodFirstPartyTypeKind.ZodArray:
+      return { type: "array", items: convert(def.type, context) };
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: "object",
+        additionalProperties: convert(def.valueType, context),
+      };
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = convert(field, context);
+        if (!isOptional(field, context.direction)) required.push(key);
+      }
+      return {
+        type: "object",
+        properties,
+        ...(required.length > 0 && { required }),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return {
+        anyOf: def.options.map((option: ZodTypeAny) =>
+          convert(option, context),
+        ),
+      };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, context);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [convert(def.innerType, context), { type: "null" }] };
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const json = convert(def.innerType, context);
+      return context.direction === "input"
+        ? { ...json, default: def.defaultValue() }
+        : json;
+    }
+    // Refinements and transforms: the wire format is the inner schema's
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, context);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(context.direction === "input" ? def.in : def.out, context);
+    default:
+      throw new Error(`Can't describe ${def.typeName} in OpenAPI`);
+  }
+}
+
+// ===== DOCUMENT =====
+
+function parameters(
+  schema: ZodTypeAny | undefined,
+  location: "path" | "query",
+  context: Context,
+): JsonSchema[] {
+  if (!schema) return [];
+  const object = convert(schema, context) as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(object.properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || !!object.required?.includes(name),
+    schema: property,
+    // Lists are sent comma-separated: authors=a@x.com,b@y.com
+    ...(property.type === "array" && { style: "form", explode: false }),
+  }));
+}
+
+function requestBody(
+  schemas: RouteSchemas,
+  context: Context,
+): JsonSchema | undefined {
+  if (schemas.files) {
+    const properties = Object.fromEntries(
+      Object.entries(schemas.files).map(([field, kind]) => {
+        const file = { type: "string", format: "binary" };
+        return [
+          field,
+          kind === "array" ? { type: "array", items: file } : file,
+        ];
+      }),
+    );
+    return {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            properties,
+            required: Object.keys(properties),
+          },
+        },
+      },
+    };
+  }
+  if (!schemas.body) return undefined;
+  return {
+    required: !schemas.body.isOptional(),
+    content: {
+      "application/json": { schema: convert(schemas.body, context) },
+    },
+  };
+}
+
+function successResponse(schemas: RouteSchemas, output: Context): JsonSchema {
+  if (schemas.events) {
+    // Payloads by event name; each arrives as `event: <name>\ndata: <json>`
+    const events = Object.fromEntries(
+      Object.entries(schemas.events).map(([event, schema]) => [
+        event,
+        convert(schema, output),
+      ]),
+    );
+    return {
+      description: "Server-Sent Events",
+      content: { "text/event-stream": { schema: { type: "string" } } },
+      "x-events": events,
+    };
+  }
+  return {
+    description: "Success",
+    content: {
+      "application/json": {
+        schema: schemas.response ? convert(schemas.response, output) : {},
+      },
+    },
+  };
+}
+
+function operation(
+  schemas: RouteSchemas,
+  tag: string,
+  components: Record<string, JsonSchema>,
+): JsonSchema {
+  const input: Context = { direction: "input", components };
+  const output: Context = { direction: "output", components };
+  const body = requestBody(schemas, input);
+
+  return {
+    operationId: schemas.operationId,
+    ...(schemas.summary && { summary: schemas.summary }),
+    tags: [tag],
+    parameters: [
+      ...parameters(schemas.params, "path", input),
+      ...parameters(schemas.query, "query", input),
+    ],
+    ...(body && { requestBody: body }),
+    responses: {
+      "200": successResponse(schemas, output),
+      default: {
+        description: "Error",
+        content: {
+          "application/json": { schema: convert(errorEnvelopeSchema, output) },
+        },
+      },
+    },
+  };
+}
+
+// Express paths (/commit/:hash) in OpenAPI notation (/commit/{hash})
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+// The parts of Express's (untyped) router internals the routes are read from
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: unknown }[];
+  };
+}
+
+export interface DocumentedRouter {
+  tag: string;
+  router: Router;
+}
+
+/**
+ * Build the document from the routers mounted under /api. Routes without a
+ * `validate()` middleware aren't part of the API contract and are left out.
+ */
+export function buildOpenApiDocument(
+  routers: DocumentedRouter[],
+  info: { title: string; version: string },
+): JsonSchema {
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const { tag, router } of routers) {
+    for (const { route } of router.stack as RouteLayer[]) {
+      if (!route) continue;
+
+      const validator = route.stack
+        .map((entry) => entry.handle)
+        .find(
+          (handle: unknown): handle is ValidatingMiddleware =>
+            typeof handle === "function" && "schemas" in handle,
+        );
+      if (!validator) continue;
+
+      const path = toOpenApiPath(route.path);
+      for (const method of Object.keys(route.methods)) {
+        paths[path] ??= {};
+        paths[path][method] = operation(validator.schemas, tag, components);
+      }
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    servers: [{ url: "/api" }],
+    paths,
+    components: { schemas: components },
+  };
+}
@@ -0,0 +1,28 @@
+import { Response } from "express";
+import { toApiError } from "../errors.js";
+
+// Set up a response as a Server-Sent Events stream
+export function startEventStream(res: Response): void {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+}
+
+export function writeEvent(
+  res: Response,
+  event: string,
+  data: unknown,
+  id?: string,
+): void {
+  const idField = id ? `id: ${id}\n` : "";
+  res.write(`${idField}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // Push the event past the gzip buffer instead of holding it until the end
+  res.flush();
+}
+
+// Report a failure on an open stream with the same body as an error response
+export function writeError(res: Response, error: unknown): void {
+  writeEvent(res, "error", toApiError(error).toJSON());
+  res.end();
+}
@@ -0,0 +1,394 @@
+import { Router, Request, Response } from "express";
+import { DetectedForge, forgeService } from "../services/forge.service.js";
+import { forgeRegistry } from "../services/forges/registry.js";
+import { gitService } from "../services/git.service.js";
+import { resolveRepo } from "../middleware/resolveRepo.js";
+import { requireRepository } from "../middleware/requireRepository.js";
+import { validate } from "../middleware/validate.js";
+import { ApiError, sendError, toApiError } from "../errors.js";
+import { startEventStream, writeError, writeEvent } from "./eventStream.js";
+import { commitParams, repoIdBody } from "../schemas/common.schemas.js";
+import {
+  checkStateStreamEvents,
+  commitBatchBody,
+  CommitBatchBody,
+  commitStreamEvents,
+  forgeConfigBody,
+  ForgeConfigBody,
+  pullRequestStreamEvents,
+  responses,
+} from "../schemas/forge.schemas.js";
+
+export const forgeRoutes = Router();
+
+// Set a forge host's token for authenticated requests
+forgeRoutes.post(
+  "/forge/config",
+  validate({
+    operationId: "setForgeToken",
+    summary: "Set or clear the token for a forge host",
+    body: forgeConfigBody,
+    response: responses.config,
+  }),
+  async (_req: Request, res: Response) => {
+    try {
+      const { host, token }: ForgeConfigBody = res.locals.body;
+
+      const entry = await forgeRegistry.findHost(host);
+      if (!entry) {
+        throw new ApiError("INVALID_REQUEST", `Unknown forge host: ${host}`);
+      }
+
+      forgeRegistry.setToken(entry, token || null);
+      res.json({
+        success: true,
+        host: entry.host,
+        forge: entry.forge,
+        hasToken: !!forgeRegistry.getToken(entry),
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Get rate limit status of the forge hosting a repository
+forgeRoutes.post(
+  "/forge/rate-limit",
+  validate({
+    operationId: "getForgeRateLimit",
+    summary: "API rate limit status of the repository's forge",
+    body: repoIdBody,
+    response: responses.rateLimit,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const detected = await forgeService.detect(req.body.validatedPath);
+      const status = detected
+        ? await forgeService.getRateLimitStatus(detected)
+        : null;
+      res.json({ success: true, data: status });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Get forge repo info from repository remote URLs
+forgeRoutes.post(
+  "/forge/repo-info",
+  validate({
+    operationId: "getForgeRepoInfo",
+    summary: "Forge, project and metadata of the repository's remote",
+    body: repoIdBody,
+    response: responses.repoInfo,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const repoInfo = await forgeService.getRepoInfo(req.body.validatedPath);
+      res.json({ success: true, data: repoInfo });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Get forge info (PRs/MRs and issues) for a specific commit
+forgeRoutes.post(
+  "/forge/commit/:hash",
+  validate({
+    operationId: "getCommitForgeInfo",
+    summary: "Pull (merge) requests and linked issues for a commit",
+    params: commitParams,
+    body: repoIdBody,
+    response: responses.commit,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+      const { hash } = req.params;
+
+      // Get commit details
+      const commit = await gitService.getCommitDetails(path, hash);
+      if (!commit) {
+        throw new ApiError("REF_NOT_FOUND", "Commit not found");
+      }
+
+      const detected = await forgeService.detect(path);
+      if (!detected) {
+        res.json({
+          success: true,
+          data: { pullRequests: [], linkedIssues: [] },
+          warning: "Repository is not hosted on a supported forge",
+        });
+        return;
+      }
+
+      const forgeInfo = await forgeService.getCommitInfo(detected, {
+        hash: commit.hash,
+        message: commit.message,
+        body: commit.body,
+      });
+
+      res.json({ success: true, data: forgeInfo });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Stream forge info with progress updates (SSE)
+forgeRoutes.post(
+  "/forge/commit/:hash/stream",
+  validate({
+    operationId: "streamCommitForgeInfo",
+    summary:
+      "Pull (merge) requests and linked issues for a commit, with progress events",
+    params: commitParams,
+    body: repoIdBody,
+    events: commitStreamEvents,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    const path = req.body.validatedPath;
+    const { hash } = req.params;
+
+    // Set up SSE headers
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: any) => {
+      res.write(`event: ${event}\n`);
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      sendEvent("progress", {
+        step: "validate",
+        status: "start",
+        message: "Validating repository...",
+      });
+
+      const isValid = await gitService.validateRepository(path);
+      if (!isValid) {
+        sendEvent(
+          "error",
+          new ApiError("NOT_A_REPO", "Not a valid git repository").toJSON(),
+        );
+        res.end();
+        return;
+      }
+      sendEvent("progress", {
+        step: "validate",
+        status: "success",
+        message: "Repository validated",
+      });
+
+      // Get commit details
+      sendEvent("progress", {
+        step: "commit",
+        status: "start",
+        message: "Loading commit details...",
+      });
+      const commit = await gitService.getCommitDetails(path, hash);
+      if (!commit) {
+        sendEvent(
+          "error",
+          new ApiError("REF_NOT_FOUND", "Commit not found").toJSON(),
+        );
+        res.end();
+        return;
+      }
+      sendEvent("progress", {
+        step: "commit",
+        status: "success",
+        message: `Loaded commit ${commit.hash.substring(0, 7)}`,
+      });
+
+      // Find the forge hosting the repository
+      sendEvent("progress", {
+        step: "remote",
+        status: "start",
+        message: "Checking remote URLs...",
+      });
+      const detected = await forgeService.detect(path);
+
+      if (!detected) {
+        sendEvent("progress", {
+          step: "remote",
+          status: "error",
+          message: "Repository is not hosted on a supported forge",
+        });
+        sendEvent("complete", { data: { pullRequests: [], linkedIssues: [] } });
+        res.end();
+        return;
+      }
+
+      const { provider, repo } = detected;
+      sendEvent("progress", {
+        step: "remote",
+        status: "success",
+        message: `Found ${provider.label} repo: ${repo.owner}/${repo.repo}`,
+      });
+
+      // Fetch forge info with progress callback
+      const forgeInfo = await forgeService.getCommitInfo(
+        detected,
+        {
+          hash: commit.hash,
+          message: commit.message,
+          body: commit.body,
+        },
+        (step, status, message, data) => {
+          sendEvent("progress", { step, status, message, data });
+        },
+      );
+
+      sendEvent("complete", { data: forgeInfo });
+      res.end();
+    } catch (error) {
+      sendEvent("error", toApiError(error).toJSON());
+      res.end();
+    }
+  },
+);
+
+// Get CI statuses and check runs for a specific commit
+forgeRoutes.post(
+  "/forge/commit/:hash/checks",
+  validate({
+    operationId: "getCommitChecks",
+    summary: "CI statuses and check runs of a commit",
+    params: commitParams,
+    body: repoIdBody,
+    response: responses.checks,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+
+      const commit = await gitService.getCommitDetails(path, req.params.hash);
+      if (!commit) {
+        throw new ApiError("REF_NOT_FOUND", "Commit not found");
+      }
+
+      const detected = await requireForge(path);
+      const checks = await forgeService.getCommitChecks(detected, commit.hash);
+      res.json({ success: true, data: checks });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Stream pull requests for many commits at once, for the graph overlay (SSE)
+forgeRoutes.post(
+  "/forge/pull-requests/stream",
+  validate({
+    operationId: "streamForgePullRequests",
+    summary: "Pull requests for many commits, streamed in batches",
+    body: commitBatchBody,
+    events: pullRequestStreamEvents,
+  }),
+  resolveRepo,
+  requireRepository,
+  (req: Request, res: Response) =>
+    streamCommitBatches(req, res, "pullRequests", (...args) =>
+      forgeService.streamPullRequests(...args),
+    ),
+);
+
+// Stream combined check states for many commits, for the graph's status dots
+// (SSE)
+forgeRoutes.post(
+  "/forge/checks/stream",
+  validate({
+    operationId: "streamForgeCheckStates",
+    summary: "Combined CI check states of many commits, streamed in batches",
+    body: commitBatchBody,
+    events: checkStateStreamEvents,
+  }),
+  resolveRepo,
+  requireRepository,
+  (req: Request, res: Response) =>
+    streamCommitBatches(req, res, "checkStates", (...args) =>
+      forgeService.streamCheckStates(...args),
+    ),
+);
+
+// The forge hosting a repository, which lookups beyond the panel require
+async function requireForge(path: string): Promise<DetectedForge> {
+  const detected = await forgeService.detect(path);
+  if (!detected) {
+    throw new ApiError(
+      "UNSUPPORTED_OPERATION",
+      "Repository is not hosted on a supported forge",
+    );
+  }
+  return detected;
+}
+
+/**
+ * Run a batched per-commit lookup over the requested hashes, streaming each
+ * batch as an `event` event with progress counts, then `complete`
+ */
+async function streamCommitBatches<T>(
+  req: Request,
+  res: Response,
+  event: string,
+  lookup: (
+    detected: DetectedForge,
+    hashes: string[],
+    onBatch: (batch: Record<string, T>) => void,
+    signal: AbortSignal,
+  ) => Promise<void>,
+): Promise<void> {
+  const { hashes }: CommitBatchBody = res.locals.body;
+  const unique = [...new Set(hashes)];
+
+  let detected;
+  try {
+    detected = await requireForge(req.body.validatedPath);
+  } catch (error) {
+    sendError(res, error);
+    return;
+  }
+
+  startEventStream(res);
+
+  // Stop querying the forge once the client goes away
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  try {
+    let done = 0;
+    await lookup(
+      detected,
+      unique,
+      (batch) => {
+        done += Object.keys(batch).length;
+        writeEvent(res, event, {
+          [event]: batch,
+          done,
+          total: unique.length,
+        });
+      },
+      controller.signal,
+    );
+
+    writeEvent(res, "complete", { total: unique.length });
+    res.end();
+  } catch (error) {
+    writeError(res, error);
+  }
+}
@@ -1,19 +1,156 @@
 import { Router, Request, Response } from "express";
-import { gitService } from "../services/git.service.js";
+import { gitService, RefreshDelta } from "../services/git.service.js";
+import { analyticsService } from "../services/analytics.service.js";
+import { identityService } from "../services/identity.service.js";
+import { sessionService, RepoSession } from "../services/session.service.js";
+import { watcherService } from "../services/watcher.service.js";
+import { configService } from "../services/config.service.js";
+import { discoveryService } from "../services/discovery.service.js";
+import { jobService, JobInfo } from "../services/job.service.js";
 import { validatePath } from "../middleware/validatePath.js";
+import { resolveRepo } from "../middleware/resolveRepo.js";
+import { requireRepository } from "../middleware/requireRepository.js";
+import { validate } from "../middleware/validate.js";
+import { ApiError, sendError } from "../errors.js";
+import { startEventStream, writeError, writeEvent } from "./eventStream.js";
+import {
+  commitParams,
+  repoIdBody,
+  repoIdQuery,
+} from "../schemas/common.schemas.js";
+import {
+  activityQuery,
+  ActivityQuery,
+  analyticsJobBody,
+  AnalyticsJobBody,
+  branchCompareBody,
+  BranchCompareBody,
+  busFactorQuery,
+  BusFactorQuery,
+  cleanupBody,
+  cloneBody,
+  CloneBody,
+  cloneEvents,
+  codeChurnQuery,
+  CodeChurnQuery,
+  commitsQuery,
+  CommitsQuery,
+  discoverQuery,
+  DiscoverQuery,
+  fileHistoryQuery,
+  FileHistoryQuery,
+  filePathQuery,
+  FilePathQuery,
+  jobEvents,
+  jobParams,
+  JobParams,
+  loadSubmoduleBody,
+  LoadSubmoduleBody,
+  openRepositoryBody,
+  rangeFileQuery,
+  RangeFileQuery,
+  rangeQuery,
+  RangeQuery,
+  responses,
+  saveIdentitiesBody,
+  SaveIdentitiesBody,
+  streamEvents,
+  streamQuery,
+  StreamQuery,
+  treeQuery,
+  TreeQuery,
+  watchEvents,
+  watchQuery,
+  WatchQuery,
+} from "../schemas/repository.schemas.js";
 
 export const repositoryRoutes = Router();
 
+// Open a repository on the server's filesystem and start a session for it
+repositoryRoutes.post(
+  "/repository/open",
+  validate({
+    operationId: "openRepository",
+    summary: "Open a local repository and start a session",
+    body: openRepositoryBody,
+    response: responses.session,
+  }),
+  validatePath,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+
+      const isValid = await gitService.validateRepository(path);
+      if (!isValid) {
+        throw new ApiError("NOT_A_REPO", "Not a valid git repository");
+      }
+
+      const session = sessionService.open(path);
+      res.json({ success: true, data: sessionService.describe(session) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Directories local repositories may be opened from
+repositoryRoutes.get(
+  "/repository/roots",
+  validate({
+    operationId: "getAllowedRoots",
+    summary: "Directories local repositories may be opened from",
+    response: responses.roots,
+  }),
+  async (_req: Request, res: Response) => {
+    try {
+      const roots = await configService.getAllowedRoots();
+      res.json({ success: true, data: roots });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Git repositories found under the allowed roots
+repositoryRoutes.get(
+  "/repository/discover",
+  validate({
+    operationId: "discoverRepositories",
+    summary: "Git repositories found under the allowed roots",
+    query: discoverQuery,
+    response: responses.discover,
+  }),
+  async (_req: Request, res: Response) => {
+    try {
+      const { maxDepth, refresh }: DiscoverQuery = res.locals.query;
+
+      const { repositories, truncated } = await discoveryService.discover({
+        maxDepth,
+        refresh,
+      });
+      res.json({ success: true, data: repositories, truncated });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
 repositoryRoutes.get(
   "/repository/validate",
-  validatePath,
+  validate({
+    operationId: "validateRepository",
+    summary: "Whether a session is still open",
+    query: repoIdQuery,
+    response: responses.validate,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
       const isValid = await gitService.validateRepository(path);
       res.json({ valid: isValid });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -21,21 +158,20 @@ repositoryRoutes.get(
 // Get repository stats (commit count, recommended mode) - fast endpoint for large repo detection
 repositoryRoutes.post(
   "/repository/stats",
-  validatePath,
+  validate({
+    operationId: "getRepoStats",
+    summary: "Commit count and recommended loading mode",
+    body: repoIdBody,
+    response: responses.stats,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res.status(400).json({ error: "Not a valid git repository" });
-        return;
-      }
-
-      const stats = await gitService.getRepoStats(path);
+      const stats = await gitService.getRepoStats(req.body.validatedPath);
       res.json({ success: true, data: stats });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -43,135 +179,145 @@ repositoryRoutes.post(
 // Get repository metadata (branches, tags, stats) without commits
 repositoryRoutes.post(
   "/repository/metadata",
-  validatePath,
+  validate({
+    operationId: "getRepoMetadata",
+    summary: "Branches, tags and stats without commits",
+    body: repoIdBody,
+    response: responses.metadata,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res.status(400).json({ error: "Not a valid git repository" });
-        return;
-      }
-
-      const metadata = await gitService.getRepositoryMetadata(path);
-      res.json({ success: true, data: metadata });
+      const metadata = await gitService.getRepositoryMetadata(
+        req.body.validatedPath,
+      );
+      res.json({
+        success: true,
+        data: sessionService.present(req.body.repoSession, metadata),
+      });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
 
 repositoryRoutes.post(
   "/repository/load",
-  validatePath,
+  validate({
+    operationId: "loadRepository",
+    summary: "Full repository with every commit",
+    body: repoIdBody,
+    response: responses.repository,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res.status(400).json({ error: "Not a valid git repository" });
-        return;
-      }
-
-      const repository = await gitService.getRepository(path);
-      res.json({ success: true, data: repository });
+      const repository = await gitService.getRepository(req.body.validatedPath);
+      res.json({
+        success: true,
+        data: sessionService.present(req.body.repoSession, repository),
+      });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
 
+// Stream a session's metadata followed by its commits in chunks
+async function streamSession(
+  res: Response,
+  session: RepoSession,
+  options: { chunkSize: number; firstParent: boolean },
+): Promise<void> {
+  // Stop the underlying git process if the client goes away
+  let clientGone = false;
+  res.on("close", () => {
+    clientGone = true;
+  });
+
+  // Send metadata first
+  const metadata = sessionService.present(
+    session,
+    await gitService.getRepositoryMetadata(session.path),
+  );
+  writeEvent(res, "metadata", metadata);
+
+  // Stream commits in chunks
+  for await (const chunk of gitService.streamCommits(session.path, options)) {
+    if (clientGone) break;
+    writeEvent(res, "commits", chunk);
+  }
+
+  // Signal completion
+  writeEvent(res, "complete", {});
+  res.end();
+}
+
 // SSE endpoint for streaming commits in chunks
 repositoryRoutes.post(
   "/repository/stream",
-  validatePath,
+  validate({
+    operationId: "streamRepository",
+    summary: "Stream metadata and commits in chunks",
+    query: streamQuery,
+    body: repoIdBody,
+    events: streamEvents,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const chunkSize = parseInt(req.query.chunkSize as string) || 500;
-      const firstParent = req.query.firstParent === "true";
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res.status(400).json({ error: "Not a valid git repository" });
-        return;
-      }
+      const { chunkSize, firstParent }: StreamQuery = res.locals.query;
 
-      // Set up SSE
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
-      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
-
-      // Send metadata first
-      const metadata = await gitService.getRepositoryMetadata(path);
-      res.write(`event: metadata\ndata: ${JSON.stringify(metadata)}\n\n`);
-
-      // Stream commits in chunks
-      for await (const chunk of gitService.streamCommits(path, {
+      startEventStream(res);
+      await streamSession(res, req.body.repoSession, {
         chunkSize,
         firstParent,
-      })) {
-        res.write(`event: commits\ndata: ${JSON.stringify(chunk)}\n\n`);
-      }
-
-      // Signal completion
-      res.write(`event: complete\ndata: {}\n\n`);
-      res.end();
+      });
     } catch (error) {
-      // Send error as SSE event
-      res.write(
-        `event: error\ndata: ${JSON.stringify({ error: (error as Error).message })}\n\n`,
-      );
-      res.end();
+      writeError(res, error);
     }
   },
 );
 
 repositoryRoutes.post(
   "/repository/commits",
-  validatePath,
+  validate({
+    operationId: "getCommitsPaginated",
+    summary: "One page of commits, optionally filtered",
+    query: commitsQuery,
+    body: repoIdBody,
+    response: responses.commits,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const maxCount = parseInt(req.query.maxCount as string) || 500;
-      const skip = parseInt(req.query.skip as string) || 0;
-      const firstParent = req.query.firstParent === "true";
-      const since = req.query.since as string | undefined;
-      const until = req.query.until as string | undefined;
-      const branch = req.query.branch as string | undefined;
-      const authorsParam = req.query.authors as string | undefined;
-      const authors = authorsParam
-        ? authorsParam.split(",").filter(Boolean)
-        : undefined;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res.status(400).json({ error: "Not a valid git repository" });
-        return;
-      }
-
-      const result = await gitService.getCommitsPaginated(path, {
-        maxCount,
-        skip,
-        firstParent,
-        since,
-        until,
-        branch,
-        authors,
-      });
+      const options: CommitsQuery = res.locals.query;
+      const result = await gitService.getCommitsPaginated(
+        req.body.validatedPath,
+        options,
+        req.body.repoId,
+      );
       res.json({ success: true, data: result });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
 
 repositoryRoutes.get(
   "/commit/:hash",
-  validatePath,
+  validate({
+    operationId: "getCommit",
+    summary: "A single commit",
+    params: commitParams,
+    query: repoIdQuery,
+    response: responses.commit,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
@@ -179,13 +325,12 @@ repositoryRoutes.get(
 
       const commit = await gitService.getCommitDetails(path, hash);
       if (!commit) {
-        res.status(404).json({ error: "Commit not found" });
-        return;
+        throw new ApiError("REF_NOT_FOUND", "Commit not found");
       }
 
       res.json({ commit });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -193,7 +338,14 @@ repositoryRoutes.get(
 // Get diff stats for a commit (changed files with additions/deletions)
 repositoryRoutes.post(
   "/commit/:hash/diff-stats",
-  validatePath,
+  validate({
+    operationId: "getCommitDiffStats",
+    summary: "Files a commit changed, with line counts",
+    params: commitParams,
+    body: repoIdBody,
+    response: responses.diffStats,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
@@ -202,7 +354,7 @@ repositoryRoutes.post(
       const stats = await gitService.getCommitDiffStats(path, hash);
       res.json({ success: true, data: stats });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -210,25 +362,73 @@ repositoryRoutes.post(
 // Get detailed diff for a specific file in a commit
 repositoryRoutes.post(
   "/commit/:hash/file-diff",
-  validatePath,
+  validate({
+    operationId: "getCommitFileDiff",
+    summary: "Diff of one file in a commit",
+    params: commitParams,
+    query: filePathQuery,
+    body: repoIdBody,
+    response: responses.fileDiff,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
       const { hash } = req.params;
-      const filePath = req.query.filePath as string;
-
-      if (!filePath) {
-        res.status(400).json({
-          success: false,
-          error: "filePath query parameter is required",
-        });
-        return;
-      }
+      const { filePath }: FilePathQuery = res.locals.query;
 
       const diff = await gitService.getFileDiff(path, hash, filePath);
       res.json({ success: true, data: diff });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
+    }
+  },
+);
+
+// Get diff stats between two arbitrary revisions
+repositoryRoutes.post(
+  "/repository/diff",
+  validate({
+    operationId: "getRangeDiff",
+    summary: "Files changed between two revisions",
+    query: rangeQuery,
+    body: repoIdBody,
+    response: responses.rangeDiff,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+      const { from, to }: RangeQuery = res.locals.query;
+
+      const diff = await gitService.diff(path, from, to);
+      res.json({ success: true, data: diff });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Get detailed diff for one file between two arbitrary revisions
+repositoryRoutes.post(
+  "/repository/diff/file",
+  validate({
+    operationId: "getRangeFileDiff",
+    summary: "Diff of one file between two revisions",
+    query: rangeFileQuery,
+    body: repoIdBody,
+    response: responses.fileDiff,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+      const { from, to, filePath }: RangeFileQuery = res.locals.query;
+
+      const diff = await gitService.diffFile(path, from, to, filePath);
+      res.json({ success: true, data: diff });
+    } catch (error) {
+      sendError(res, error);
     }
   },
 );
@@ -236,17 +436,25 @@ repositoryRoutes.post(
 // Get file tree at a specific commit
 repositoryRoutes.post(
   "/commit/:hash/tree",
-  validatePath,
+  validate({
+    operationId: "getFileTree",
+    summary: "Directory listing at a commit",
+    params: commitParams,
+    query: treeQuery,
+    body: repoIdBody,
+    response: responses.tree,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
       const { hash } = req.params;
-      const treePath = (req.query.treePath as string) || "";
+      const { treePath }: TreeQuery = res.locals.query;
 
       const tree = await gitService.getFileTree(path, hash, treePath);
       res.json({ success: true, data: tree });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -254,25 +462,79 @@ repositoryRoutes.post(
 // Get file content at a specific commit
 repositoryRoutes.post(
   "/commit/:hash/file",
-  validatePath,
+  validate({
+    operationId: "getFileContent",
+    summary: "File content at a commit",
+    params: commitParams,
+    query: filePathQuery,
+    body: repoIdBody,
+    response: responses.fileContent,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
       const { hash } = req.params;
-      const filePath = req.query.filePath as string;
-
-      if (!filePath) {
-        res.status(400).json({
-          success: false,
-          error: "filePath query parameter is required",
-        });
-        return;
-      }
+      const { filePath }: FilePathQuery = res.locals.query;
 
       const content = await gitService.getFileContent(path, hash, filePath);
       res.json({ success: true, data: content });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
+    }
+  },
+);
+
+// Get line-by-line blame for a file at a specific commit
+repositoryRoutes.post(
+  "/commit/:hash/blame",
+  validate({
+    operationId: "getBlame",
+    summary: "Line-by-line blame of a file at a commit",
+    params: commitParams,
+    query: filePathQuery,
+    body: repoIdBody,
+    response: responses.blame,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const path = req.body.validatedPath;
+      const { hash } = req.params;
+      const { filePath }: FilePathQuery = res.locals.query;
+
+      const blame = await gitService.getBlame(path, hash, filePath);
+      res.json({ success: true, data: blame });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+// Get the history of a single file, following renames
+repositoryRoutes.post(
+  "/repository/file-history",
+  validate({
+    operationId: "getFileHistory",
+    summary: "Commits that changed a file, following renames",
+    query: fileHistoryQuery,
+    body: repoIdBody,
+    response: responses.fileHistory,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const { filePath, ...options }: FileHistoryQuery = res.locals.query;
+
+      const history = await gitService.getFileHistory(
+        req.body.validatedPath,
+        filePath,
+        options,
+      );
+      res.json({ success: true, data: history });
+    } catch (error) {
+      sendError(res, error);
     }
   },
 );
@@ -280,23 +542,72 @@ repositoryRoutes.post(
 // Get contributor statistics
 repositoryRoutes.post(
   "/repository/contributors",
-  validatePath,
+  validate({
+    operationId: "getContributorStats",
+    summary: "Commit and line counts per contributor",
+    body: repoIdBody,
+    response: responses.contributors,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
+      const contributors = await analyticsService.getContributorStats(
+        req.body.validatedPath,
+      );
+      res.json({
+        success: true,
+        data: contributors.data,
+        coverage: contributors.coverage,
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
 
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+// Get the user-defined identity merges that extend the repository's .mailmap
+repositoryRoutes.post(
+  "/repository/identities",
+  validate({
+    operationId: "getIdentityMerges",
+    summary: "User-defined identity merges",
+    body: repoIdBody,
+    response: responses.identities,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const merges = await identityService.getMerges(req.body.validatedPath);
+      res.json({ success: true, data: merges });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
 
-      const contributors = await gitService.getContributorStats(path);
-      res.json({ success: true, data: contributors });
+// Replace the identity merges; returns the merges as stored
+repositoryRoutes.put(
+  "/repository/identities",
+  validate({
+    operationId: "saveIdentityMerges",
+    summary: "Replace the identity merges",
+    body: saveIdentitiesBody,
+    response: responses.identities,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const { merges }: SaveIdentitiesBody = res.locals.body;
+
+      const saved = await identityService.saveMerges(
+        req.body.validatedPath,
+        merges,
+      );
+      res.json({ success: true, data: saved });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -304,24 +615,30 @@ repositoryRoutes.post(
 // Get activity heatmap data
 repositoryRoutes.post(
   "/repository/activity",
-  validatePath,
+  validate({
+    operationId: "getActivityHeatmap",
+    summary: "Commits per day",
+    query: activityQuery,
+    body: repoIdBody,
+    response: responses.activity,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const days = parseInt(req.query.days as string) || 365;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+      const { days }: ActivityQuery = res.locals.query;
 
-      const activity = await gitService.getActivityHeatmap(path, days);
-      res.json({ success: true, data: activity });
+      const activity = await analyticsService.getActivityHeatmap(
+        req.body.validatedPath,
+        days,
+      );
+      res.json({
+        success: true,
+        data: activity.data,
+        coverage: activity.coverage,
+      });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -329,24 +646,30 @@ repositoryRoutes.post(
 // Get code churn analysis
 repositoryRoutes.post(
   "/repository/code-churn",
-  validatePath,
+  validate({
+    operationId: "getCodeChurn",
+    summary: "Most frequently changed files",
+    query: codeChurnQuery,
+    body: repoIdBody,
+    response: responses.codeChurn,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const limit = parseInt(req.query.limit as string) || 50;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+      const { limit }: CodeChurnQuery = res.locals.query;
 
-      const churn = await gitService.getCodeChurn(path, limit);
-      res.json({ success: true, data: churn });
+      const churn = await analyticsService.getCodeChurn(
+        req.body.validatedPath,
+        limit,
+      );
+      res.json({
+        success: true,
+        data: churn.data,
+        coverage: churn.coverage,
+      });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -354,24 +677,30 @@ repositoryRoutes.post(
 // Get bus factor analysis
 repositoryRoutes.post(
   "/repository/bus-factor",
-  validatePath,
+  validate({
+    operationId: "getBusFactor",
+    summary: "Knowledge concentration per file",
+    query: busFactorQuery,
+    body: repoIdBody,
+    response: responses.busFactor,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const minCommits = parseInt(req.query.minCommits as string) || 5;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+      const { minCommits }: BusFactorQuery = res.locals.query;
 
-      const busFactor = await gitService.getBusFactor(path, minCommits);
-      res.json({ success: true, data: busFactor });
+      const busFactor = await analyticsService.getBusFactor(
+        req.body.validatedPath,
+        minCommits,
+      );
+      res.json({
+        success: true,
+        data: busFactor.data,
+        coverage: busFactor.coverage,
+      });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -379,23 +708,26 @@ repositoryRoutes.post(
 // Get commit patterns (hourly/daily distribution)
 repositoryRoutes.post(
   "/repository/commit-patterns",
-  validatePath,
+  validate({
+    operationId: "getCommitPatterns",
+    summary: "Commits by hour and day of week",
+    body: repoIdBody,
+    response: responses.commitPatterns,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
-
-      const patterns = await gitService.getCommitPatterns(path);
-      res.json({ success: true, data: patterns });
+      const patterns = await analyticsService.getCommitPatterns(
+        req.body.validatedPath,
+      );
+      res.json({
+        success: true,
+        data: patterns.data,
+        coverage: patterns.coverage,
+      });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -403,23 +735,136 @@ repositoryRoutes.post(
 // Get branch lifespans
 repositoryRoutes.post(
   "/repository/branch-lifespans",
-  validatePath,
+  validate({
+    operationId: "getBranchLifespans",
+    summary: "Creation, merge and age of branches",
+    body: repoIdBody,
+    response: responses.branchLifespans,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
+      const lifespans = await gitService.getBranchLifespans(
+        req.body.validatedPath,
+      );
+      res.json({ success: true, data: lifespans });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
 
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+// Run an analysis in the background; poll or watch the returned job
+repositoryRoutes.post(
+  "/repository/analytics/jobs",
+  validate({
+    operationId: "startAnalyticsJob",
+    summary: "Start an analysis as a background job",
+    body: analyticsJobBody,
+    response: responses.job,
+  }),
+  resolveRepo,
+  requireRepository,
+  async (req: Request, res: Response) => {
+    try {
+      const { kind, days, limit, minCommits }: AnalyticsJobBody =
+        res.locals.body;
+
+      const job = analyticsService.startJob(
+        req.body.validatedPath,
+        req.body.repoSession.id,
+        kind,
+        { days, limit, minCommits },
+      );
+      res.json({ success: true, data: job });
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
 
-      const lifespans = await gitService.getBranchLifespans(path);
-      res.json({ success: true, data: lifespans });
+repositoryRoutes.get(
+  "/jobs/:jobId",
+  validate({
+    operationId: "getJob",
+    summary: "Progress, partial results and result of a job",
+    params: jobParams,
+    query: repoIdQuery,
+    response: responses.job,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const { jobId }: JobParams = res.locals.params;
+
+      const job = jobService.get(jobId, req.body.repoSession.id);
+      res.json({ success: true, data: job });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
+    }
+  },
+);
+
+// Stream a job's state on every change until it finishes
+repositoryRoutes.get(
+  "/jobs/:jobId/events",
+  validate({
+    operationId: "watchJob",
+    summary: "Live progress of a job",
+    params: jobParams,
+    query: repoIdQuery,
+    events: jobEvents,
+  }),
+  resolveRepo,
+  (req: Request, res: Response) => {
+    const { jobId }: JobParams = res.locals.params;
+    const sessionId: string = req.body.repoSession.id;
+
+    let job: JobInfo;
+    try {
+      job = jobService.get(jobId, sessionId);
+    } catch (error) {
+      sendError(res, error);
+      return;
+    }
+
+    startEventStream(res);
+    writeEvent(res, "update", job);
+    if (job.finishedAt) {
+      res.end();
+      return;
+    }
+
+    const unsubscribe = jobService.subscribe(jobId, sessionId, (update) => {
+      writeEvent(res, "update", update);
+      if (update.finishedAt) res.end();
+    });
+    res.on("close", unsubscribe);
+  },
+);
+
+// Stop waiting on a job; it's cancelled once no session that joined it is left
+repositoryRoutes.delete(
+  "/jobs/:jobId",
+  validate({
+    operationId: "cancelJob",
+    summary: "Leave a job, cancelling it if no other session waits on it",
+    params: jobParams,
+    query: repoIdQuery,
+    response: responses.job,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const { jobId }: JobParams = res.locals.params;
+
+      res.json({
+        success: true,
+        data: jobService.leave(jobId, req.body.repoSession.id),
+      });
+    } catch (error) {
+      sendError(res, error);
     }
   },
 );
@@ -427,23 +872,20 @@ repositoryRoutes.post(
 // Get submodules list
 repositoryRoutes.post(
   "/repository/submodules",
-  validatePath,
+  validate({
+    operationId: "getSubmodules",
+    summary: "Submodules of the repository",
+    body: repoIdBody,
+    response: responses.submodules,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
-
-      const submodules = await gitService.getSubmodules(path);
+      const submodules = await gitService.getSubmodules(req.body.validatedPath);
       res.json({ success: true, data: submodules });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -451,26 +893,18 @@ repositoryRoutes.post(
 // Load a submodule as a separate repository
 repositoryRoutes.post(
   "/repository/submodules/load",
-  validatePath,
+  validate({
+    operationId: "loadSubmoduleRepository",
+    summary: "Open a submodule as its own session",
+    body: loadSubmoduleBody,
+    response: responses.repository,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
       const path = req.body.validatedPath;
-      const { submodulePath } = req.body;
-
-      if (!submodulePath || typeof submodulePath !== "string") {
-        res
-          .status(400)
-          .json({ success: false, error: "submodulePath is required" });
-        return;
-      }
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+      const { submodulePath }: LoadSubmoduleBody = res.locals.body;
 
       // Get the full path to the submodule
       const submoduleFullPath = await gitService.loadSubmoduleRepository(
@@ -478,11 +912,18 @@ repositoryRoutes.post(
         submodulePath,
       );
 
-      // Load the submodule as a repository
+      // Load the submodule as a repository in its own session
+      const parent = req.body.repoSession;
+      const session = sessionService.open(submoduleFullPath, {
+        displayPath: `${parent.displayPath}/${submodulePath}`,
+      });
       const repository = await gitService.getRepository(submoduleFullPath);
-      res.json({ success: true, data: repository });
+      res.json({
+        success: true,
+        data: sessionService.present(session, repository),
+      });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
@@ -490,96 +931,253 @@ repositoryRoutes.post(
 // Compare two branches
 repositoryRoutes.post(
   "/repository/branch-compare",
-  validatePath,
+  validate({
+    operationId: "compareBranches",
+    summary: "Commits and files two branches differ by",
+    body: branchCompareBody,
+    response: responses.branchCompare,
+  }),
+  resolveRepo,
+  requireRepository,
   async (req: Request, res: Response) => {
     try {
-      const path = req.body.validatedPath;
-      const { baseBranch, compareBranch } = req.body;
-
-      if (!baseBranch || !compareBranch) {
-        res.status(400).json({
-          success: false,
-          error: "baseBranch and compareBranch are required",
-        });
-        return;
-      }
-
-      const isValid = await gitService.validateRepository(path);
-      if (!isValid) {
-        res
-          .status(400)
-          .json({ success: false, error: "Not a valid git repository" });
-        return;
-      }
+      const { baseBranch, compareBranch }: BranchCompareBody = res.locals.body;
 
       const comparison = await gitService.compareBranches(
-        path,
+        req.body.validatedPath,
         baseBranch,
         compareBranch,
       );
       res.json({ success: true, data: comparison });
     } catch (error) {
-      res.status(500).json({ success: false, error: (error as Error).message });
+      sendError(res, error);
     }
   },
 );
 
+/**
+ * Clone a remote repository as an SSE stream: `progress` events while git
+ * counts, receives and resolves objects, then the same metadata/commits/
+ * complete events as /repository/stream. Closing the request cancels the
+ * clone and deletes whatever was downloaded.
+ */
 repositoryRoutes.post(
   "/repository/clone",
-  async (req: Request, res: Response) => {
-    try {
-      const { url, token } = req.body;
+  validate({
+    operationId: "cloneRepository",
+    summary: "Clone a remote, then stream it like /repository/stream",
+    query: streamQuery,
+    body: cloneBody,
+    events: cloneEvents,
+  }),
+  async (_req: Request, res: Response) => {
+    const { url, token, strategy, shallowSince, branch }: CloneBody =
+      res.locals.body;
+    const { chunkSize, firstParent }: StreamQuery = res.locals.query;
 
-      if (!url || typeof url !== "string") {
-        res.status(400).json({ error: "URL is required" });
-        return;
+    try {
+      if (!(await gitService.validateGitUrl(url))) {
+        throw new ApiError(
+          "INVALID_REQUEST",
+          "Invalid git repository URL. Supported: repositories on a configured forge host, or any .git URL",
+        );
       }
+    } catch (error) {
+      sendError(res, error);
+      return;
+    }
 
-      if (!gitService.validateGitUrl(url)) {
-        res.status(400).json({
-          error:
-            "Invalid git repository URL. Supported: GitHub, GitLab, Bitbucket, or any public .git URL",
-        });
-        return;
+    startEventStream(res);
+
+    const controller = new AbortController();
+    let session: RepoSession | null = null;
+    res.on("close", () => {
+      if (res.writableFinished) return;
+      // Kills git mid-clone; once cloned, drop the half-loaded session
+      controller.abort();
+      if (session) {
+        sessionService.release(session.id).catch(() => {});
       }
+    });
+
+    try {
+      // Only forward progress when the stage or whole percentage changes
+      let lastStage = "";
+      let lastProgress = -1;
 
       // Clone the repository as bare (only .git folder) with optional token
       const repoPath = await gitService.cloneRepository(url, {
-        token: token || undefined,
+        token,
+        strategy,
+        shallowSince,
+        branch,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (
+            progress.stage === lastStage &&
+            progress.progress === lastProgress
+          ) {
+            return;
+          }
+          lastStage = progress.stage;
+          lastProgress = progress.progress;
+          writeEvent(res, "progress", progress);
+        },
       });
 
-      // Get repository data
-      const repository = await gitService.getRepository(repoPath);
+      session = sessionService.openTemporary(repoPath, repoPath, {
+        source: "clone",
+        name: gitService.extractRepoName(url),
+        displayPath: gitService.redactUrl(url),
+      });
+      if (controller.signal.aborted) {
+        await sessionService.release(session.id);
+        return;
+      }
 
-      res.json({ success: true, data: repository });
+      await streamSession(res, session, {
+        chunkSize,
+        firstParent,
+      });
     } catch (error) {
-      const errorMessage = (error as Error).message;
+      if (controller.signal.aborted) return;
 
-      // Return 401 for auth errors to trigger frontend auth flow
-      if (errorMessage.startsWith("AUTH_REQUIRED:")) {
-        res.status(401).json({ error: errorMessage, authRequired: true });
-        return;
+      // An AUTH_REQUIRED code triggers the frontend's token prompt
+      writeError(res, error);
+    }
+  },
+);
+
+// Fetch new commits into a clone and return what changed
+repositoryRoutes.post(
+  "/repository/refresh",
+  validate({
+    operationId: "refreshRepository",
+    summary: "Fetch new commits into a clone",
+    body: repoIdBody,
+    response: responses.refresh,
+  }),
+  resolveRepo,
+  async (req: Request, res: Response) => {
+    try {
+      const session: RepoSession = req.body.repoSession;
+
+      if (session.source !== "clone") {
+        throw new ApiError(
+          "UNSUPPORTED_OPERATION",
+          "Only cloned repositories can be refreshed",
+        );
       }
 
-      res.status(500).json({ error: errorMessage });
+      const delta = await gitService.refreshRepository(session.path);
+      res.json({ success: true, data: delta });
+    } catch (error) {
+      sendError(res, error);
     }
   },
 );
 
-// Cleanup temporary repository
-repositoryRoutes.post(
-  "/repository/cleanup",
+// How often a watch stream is kept alive (and its session with it)
+const WATCH_HEARTBEAT_MS = 30 * 1000;
+
+// Push ref changes and new commits of a local repository as they happen
+repositoryRoutes.get(
+  "/repository/watch",
+  validate({
+    operationId: "watchRepository",
+    summary: "Live ref and commit changes of a local repository",
+    query: watchQuery,
+    events: watchEvents,
+  }),
+  resolveRepo,
   async (req: Request, res: Response) => {
+    const session: RepoSession = req.body.repoSession;
+
+    if (session.source !== "local") {
+      sendError(
+        res,
+        new ApiError(
+          "UNSUPPORTED_OPERATION",
+          "Only local repositories can be watched",
+        ),
+      );
+      return;
+    }
+
+    let unsubscribe: (() => void) | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    let closed = false;
+    const stop = () => {
+      closed = true;
+      unsubscribe?.();
+      if (heartbeat) clearInterval(heartbeat);
+    };
+    res.on("close", stop);
+
+    // Each refs event is tagged with the ref state it brings the client to,
+    // so a reconnecting EventSource picks up where it left off
+    const sendDelta = (delta: RefreshDelta) => {
+      const { addedCommits, removedCommits, ...refs } = delta;
+      if (addedCommits.length || removedCommits.length) {
+        writeEvent(res, "commits", { addedCommits, removedCommits });
+      }
+      writeEvent(res, "refs", refs, refs.refsFingerprint);
+    };
+
+    const { since }: WatchQuery = res.locals.query;
+    const lastSeen = req.get("Last-Event-ID") || since;
+
+    let missed: RefreshDelta | null;
+    let resync: string | null;
     try {
-      const { path } = req.body;
+      const subscription = await watcherService.subscribe(
+        session.path,
+        sendDelta,
+        lastSeen,
+      );
+      if (closed) {
+        subscription.unsubscribe();
+        return;
+      }
+      ({ unsubscribe, missed, resync } = subscription);
+    } catch (error) {
+      stop();
+      sendError(res, error);
+      return;
+    }
 
-      if (!path || typeof path !== "string") {
-        res.status(400).json({ success: false, error: "Path is required" });
+    startEventStream(res);
+    res.flushHeaders();
+    // Changes since the client's ref state can't be told, so it must reload;
+    // the id keeps a reconnect from asking for another resync
+    if (resync) writeEvent(res, "resync", {}, resync);
+    if (missed) sendDelta(missed);
+
+    heartbeat = setInterval(() => {
+      // A watched repository is in use; stop once its session is gone anyway
+      if (!sessionService.resolve(session.id)) {
+        stop();
+        res.end();
         return;
       }
+      res.write(": heartbeat\n\n");
+      res.flush();
+    }, WATCH_HEARTBEAT_MS);
+  },
+);
 
-      // Cleanup the repository (delete temporary directory)
-      await gitService.cleanupRepository(path);
+// End a repository session (deletes the temp directory of clones and uploads)
+repositoryRoutes.post(
+  "/repository/cleanup",
+  validate({
+    operationId: "cleanupRepository",
+    summary: "End a session",
+    body: cleanupBody,
+    response: responses.cleanup,
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      await sessionService.release(req.body.repoId);
 
       res.json({
         success: true,
@@ -5,6 +5,10 @@ import { mkdtemp, rm, mkdir, writeFile } from "fs/promises";
 import { tmpdir } from "os";
 import { join, dirname } from "path";
 import { gitService } from "../services/git.service.js";
+import { sessionService } from "../services/session.service.js";
+import { validate } from "../middleware/validate.js";
+import { ApiError, sendError } from "../errors.js";
+import { responses } from "../schemas/upload.schemas.js";
 
 export const uploadRoutes = Router();
 
@@ -41,7 +45,7 @@ const uploadZip = multer({
     ) {
       cb(null, true);
     } else {
-      cb(new Error("Only .zip files are allowed"));
+      cb(new ApiError("INVALID_REQUEST", "Only .zip files are allowed"));
     }
   },
 });
@@ -59,13 +63,19 @@ const uploadFolder = multer({
 // Upload a zip file containing a git repository
 uploadRoutes.post(
   "/upload",
+  validate({
+    operationId: "uploadRepository",
+    summary: "Open a zipped repository",
+    files: { gitZip: "single" },
+    response: responses.repository,
+  }),
   uploadZip.single("gitZip"),
   async (req: Request, res: Response) => {
     let tempDir: string | null = null;
 
     try {
       if (!req.file) {
-        res.status(400).json({ error: "No file uploaded" });
+        sendError(res, new ApiError("INVALID_REQUEST", "No file uploaded"));
         return;
       }
 
@@ -93,36 +103,49 @@ uploadRoutes.post(
       const repoPath = await findGitRepo(tempDir);
 
       if (!repoPath) {
-        res
-          .status(400)
-          .json({ error: "No valid git repository found in the uploaded zip" });
+        sendError(
+          res,
+          new ApiError(
+            "NOT_A_REPO",
+            "No valid git repository found in the uploaded zip",
+          ),
+        );
         return;
       }
 
       // Validate it's a git repo
       const isValid = await gitService.validateRepository(repoPath);
       if (!isValid) {
-        res
-          .status(400)
-          .json({
-            error: "The uploaded content is not a valid git repository",
-          });
+        sendError(
+          res,
+          new ApiError(
+            "NOT_A_REPO",
+            "The uploaded content is not a valid git repository",
+          ),
+        );
         return;
       }
 
+      // The session owns the extracted files from here on
+      const session = sessionService.openTemporary(repoPath, tempDir, {
+        source: "upload",
+        name: req.file.originalname.replace(".zip", ""),
+        displayPath: "(uploaded)",
+      });
+      tempDir = null;
+
       // Get repository data
       const repository = await gitService.getRepository(repoPath);
 
-      // Override the name with the uploaded filename
-      repository.name = req.file.originalname.replace(".zip", "");
-      repository.path = "(uploaded)";
-
-      res.json({ success: true, data: repository });
+      res.json({
+        success: true,
+        data: sessionService.present(session, repository),
+      });
     } catch (error) {
       console.error("Upload error:", error);
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     } finally {
-      // Clean up temp directory
+      // Clean up temp directory unless a session took it over
       if (tempDir) {
         try {
           await rm(tempDir, { recursive: true, force: true });
@@ -137,6 +160,12 @@ uploadRoutes.post(
 // Upload a folder (multiple files with relative paths)
 uploadRoutes.post(
   "/upload-folder",
+  validate({
+    operationId: "uploadFolder",
+    summary: "Open a repository from the files of a .git folder",
+    files: { files: "array" },
+    response: responses.repository,
+  }),
   uploadFolder.array("files"),
   async (req: Request, res: Response) => {
     let tempDir: string | null = null;
@@ -145,7 +174,7 @@ uploadRoutes.post(
       const files = req.files as Express.Multer.File[];
 
       if (!files || files.length === 0) {
-        res.status(400).json({ error: "No files uploaded" });
+        sendError(res, new ApiError("INVALID_REQUEST", "No files uploaded"));
         return;
       }
 
@@ -172,34 +201,49 @@ uploadRoutes.post(
       const repoPath = await findGitRepo(tempDir);
 
       if (!repoPath) {
-        res
-          .status(400)
-          .json({ error: "No .git folder found in the selected directory" });
+        sendError(
+          res,
+          new ApiError(
+            "NOT_A_REPO",
+            "No .git folder found in the selected directory",
+          ),
+        );
         return;
       }
 
       // Validate it's a git repo
       const isValid = await gitService.validateRepository(repoPath);
       if (!isValid) {
-        res
-          .status(400)
-          .json({ error: "The selected folder is not a valid git repository" });
+        sendError(
+          res,
+          new ApiError(
+            "NOT_A_REPO",
+            "The selected folder is not a valid git repository",
+          ),
+        );
         return;
       }
 
+      // The session owns the uploaded files from here on
+      const session = sessionService.openTemporary(repoPath, tempDir, {
+        source: "upload",
+        name: folderName,
+        displayPath: "(uploaded)",
+      });
+      tempDir = null;
+
       // Get repository data
       const repository = await gitService.getRepository(repoPath);
 
-      // Override the name with the folder name
-      repository.name = folderName;
-      repository.path = "(uploaded)";
-
-      res.json({ success: true, data: repository });
+      res.json({
+        success: true,
+        data: sessionService.present(session, repository),
+      });
     } catch (error) {
       console.error("Folder upload error:", error);
-      res.status(500).json({ error: (error as Error).message });
+      sendError(res, error);
     } finally {
-      // Clean up temp directory
+      // Clean up temp directory unless a session took it over
       if (tempDir) {
         try {
           await rm(tempDir, { recursive: true, force: true });
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { ERROR_CODES, ErrorCode } from "../errors.js";
+import { named, wireFormat } from "./registry.js";
+
+// ===== REQUEST BUILDING BLOCKS =====
+
+// Query strings arrive as text; "true"/"false" become booleans
+export const booleanParam = (defaultValue: boolean) =>
+  wireFormat(
+    z
+      .enum(["true", "false"])
+      .optional()
+      .transform((value) =>
+        value === undefined ? defaultValue : value === "true",
+      ),
+    { type: "boolean", default: defaultValue },
+  );
+
+// Whole numbers from the query string; empty means "use the default"
+export const integerParam = (
+  defaultValue: number,
+  {
+    min = 0,
+    max = Number.MAX_SAFE_INTEGER,
+  }: { min?: number; max?: number } = {},
+) =>
+  wireFormat(
+    z
+      .string()
+      .optional()
+      .transform((value) => (value ? Number(value) : defaultValue))
+      .pipe(z.number().int().min(min).max(max)),
+    {
+      type: "integer",
+      default: defaultValue,
+      minimum: min,
+      ...(max < Number.MAX_SAFE_INTEGER && { maximum: max }),
+    },
+  );
+
+// Comma-separated list, e.g. authors=a@x.com,b@y.com
+export const listParam = wireFormat(
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      const items = value?.split(",").filter(Boolean);
+      return items?.length ? items : undefined;
+    }),
+  { type: "array", items: { type: "string" } },
+);
+
+// Empty strings mean "not set"
+export const optionalString = z
+  .string()
+  .optional()
+  .transform((value) => value || undefined);
+
+export const commitHash = z
+  .string()
+  .regex(/^[0-9a-f]{4,64}$/i, "must be a commit hash");
+
+// Anything git can resolve (hash, branch, tag, HEAD~2, ...) but not an option
+export const revision = z
+  .string()
+  .min(1)
+  .refine((value) => !value.startsWith("-"), "must not start with '-'");
+
+export const filePath = z.string().min(1);
+
+export const repoIdBody = z.object({ repoId: z.string().min(1) });
+export const repoIdQuery = z.object({ repoId: z.string().min(1) });
+
+export const commitParams = z.object({ hash: commitHash });
+
+// ===== RESPONSE BUILDING BLOCKS =====
+
+export const errorCodeSchema = named(
+  "ApiErrorCode",
+  z
+    .enum(ERROR_CODES as [ErrorCode, ...ErrorCode[]])
+    .describe(
+      "Stable codes the API reports failures with; branch on these, not messages",
+    ),
+);
+
+// Also the payload of `error` events on Server-Sent Event streams
+export const errorBodySchema = named(
+  "ApiErrorBody",
+  z
+    .object({
+      code: errorCodeSchema,
+      message: z.string(),
+      details: z.unknown().optional(),
+    })
+    .describe(
+      "The `error` of a failed response, and the payload of stream `error` events",
+    ),
+);
+
+export const errorEnvelopeSchema = named(
+  "ErrorEnvelope",
+  z.object({
+    success: z.literal(false),
+    error: errorBodySchema,
+  }),
+);
+
+// `{ success: true, data }`, plus any fields the route adds next to data
+export const successEnvelope = <
+  T extends z.ZodTypeAny,
+  E extends z.ZodRawShape,
+>(
+  data: T,
+  extra?: E,
+) => z.object({ success: z.literal(true), data }).extend(extra ?? ({} as E));
@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { FORGE_TYPES } from "../services/forges/provider.js";
+import type {
+  CommitCheck,
+  CommitChecks,
+  CommitForgeInfo,
+  ForgeRepoInfo,
+  ForgeRepoMetadata,
+  Issue,
+  PullRequest,
+} from "../services/forge.service.js";
+import {
+  commitHash,
+  errorBodySchema,
+  repoIdBody,
+  successEnvelope,
+} from "./common.schemas.js";
+import { named } from "./registry.js";
+
+const forgeTypeSchema = named("ForgeType", z.enum(FORGE_TYPES));
+
+// ===== REQUEST SCHEMAS =====
+
+// An empty or missing token clears the one set at runtime, falling back to
+// the host's configured token
+export const forgeConfigBody = z.object({
+  host: z.string().min(1).describe("Forge host, e.g. github.com"),
+  token: z.string().nullish(),
+});
+export type ForgeConfigBody = z.infer<typeof forgeConfigBody>;
+
+// About a graph's worth of commits at a time
+export const commitBatchBody = repoIdBody.extend({
+  hashes: z.array(commitHash).min(1).max(2000),
+});
+export type CommitBatchBody = z.infer<typeof commitBatchBody>;
+
+// ===== RESPONSE SCHEMAS =====
+
+// Merge requests on GitLab; `number` is the project-level number (iid)
+const pullRequestSchema: z.ZodType<PullRequest> = named(
+  "PullRequest",
+  z.object({
+    number: z.number(),
+    title: z.string(),
+    state: z.enum(["open", "closed", "merged"]),
+    url: z.string(),
+    author: z.string(),
+    createdAt: z.string(),
+    mergedAt: z.string().optional(),
+  }),
+);
+
+const issueSchema: z.ZodType<Issue> = named(
+  "Issue",
+  z.object({
+    number: z.number(),
+    title: z.string(),
+    state: z.enum(["open", "closed"]),
+    url: z.string(),
+    labels: z.array(z.string()),
+  }),
+);
+
+const commitForgeInfoSchema: z.ZodType<CommitForgeInfo> = named(
+  "CommitForgeInfo",
+  z.object({
+    pullRequests: z.array(pullRequestSchema),
+    linkedIssues: z.array(issueSchema),
+  }),
+);
+
+const checkStateSchema = named(
+  "CheckState",
+  z.enum(["success", "failure", "pending", "neutral"]),
+);
+
+const commitCheckSchema: z.ZodType<CommitCheck> = named(
+  "CommitCheck",
+  z.object({
+    name: z.string(),
+    kind: z.enum(["check", "status"]), // Check run or commit status
+    workflow: z.string().nullable(),
+    state: checkStateSchema,
+    conclusion: z.string().nullable(),
+    url: z.string().nullable(),
+    startedAt: z.string().nullable(),
+    completedAt: z.string().nullable(),
+    durationSeconds: z.number().nullable(),
+  }),
+);
+
+const commitChecksSchema: z.ZodType<CommitChecks> = named(
+  "CommitChecks",
+  z.object({
+    state: checkStateSchema.nullable(), // Null when no checks ran
+    checks: z.array(commitCheckSchema),
+  }),
+);
+
+const rateLimitSchema = named(
+  "ForgeRateLimit",
+  z.object({
+    remaining: z.number(),
+    limit: z.number(),
+    resetAt: z.string(),
+  }),
+);
+
+const repoMetadataSchema: z.ZodType<ForgeRepoMetadata> = named(
+  "ForgeRepoMetadata",
+  z.object({
+    description: z.string().nullable(),
+    defaultBranch: z.string().nullable(),
+    stars: z.number().nullable(),
+    forks: z.number().nullable(),
+    visibility: z.string().nullable(),
+  }),
+);
+
+// The forge fields are null when no remote is on a supported forge
+const repoInfoSchema: z.ZodType<ForgeRepoInfo> = named(
+  "ForgeRepoInfo",
+  z.object({
+    forge: forgeTypeSchema.nullable(),
+    label: z.string().nullable(),
+    host: z.string().nullable(),
+    owner: z.string().nullable(),
+    repo: z.string().nullable(),
+    webUrl: z.string().nullable(),
+    hasToken: z.boolean(),
+    pullRequestOverlay: z.boolean(), // Whether streamForgePullRequests works
+    checks: z.boolean(), // Whether getCommitChecks works
+    checkOverlay: z.boolean(), // Whether streamForgeCheckStates works
+    metadata: repoMetadataSchema.nullable(), // Null if the forge didn't return it
+  }),
+);
+
+export const responses = {
+  config: z.object({
+    success: z.literal(true),
+    host: z.string(),
+    forge: forgeTypeSchema,
+    hasToken: z.boolean(),
+  }),
+  rateLimit: successEnvelope(rateLimitSchema.nullable()),
+  repoInfo: successEnvelope(repoInfoSchema),
+  commit: successEnvelope(commitForgeInfoSchema, {
+    warning: z.string().optional(), // Why no lookup was made
+  }),
+  checks: successEnvelope(commitChecksSchema),
+};
+
+export const commitStreamEvents = {
+  progress: named(
+    "ForgeProgressEvent",
+    z.object({
+      step: z.string(),
+      status: z.enum(["start", "success", "error", "info"]),
+      message: z.string(),
+      data: z.unknown().optional(),
+    }),
+  ),
+  complete: z.object({ data: commitForgeInfoSchema }),
+  error: errorBodySchema,
+};
+
+export const pullRequestStreamEvents = {
+  // Every requested commit is in exactly one batch, with [] for no PRs
+  pullRequests: named(
+    "CommitPullRequestsBatch",
+    z.object({
+      pullRequests: z.record(z.array(pullRequestSchema)),
+      done: z.number(), // Commits reported so far, this batch included
+      total: z.number(),
+    }),
+  ),
+  complete: z.object({ total: z.number() }),
+  error: errorBodySchema,
+};
+
+export const checkStateStreamEvents = {
+  // Every requested commit is in exactly one batch, with null for no checks
+  checkStates: named(
+    "CommitCheckStatesBatch",
+    z.object({
+      checkStates: z.record(checkStateSchema.nullable()),
+      done: z.number(),
+      total: z.number(),
+    }),
+  ),
+  complete: z.object({ total: z.number() }),
+  error: errorBodySchema,
+};
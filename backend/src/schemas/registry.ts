@@ -0,0 +1,38 @@
+import type { ZodTypeAny } from "zod";
+
+// JSON Schema as it appears in the OpenAPI document
+export type JsonSchema = Record<string, unknown>;
+
+const names = new WeakMap<ZodTypeAny, string>();
+const wireFormats = new WeakMap<ZodTypeAny, JsonSchema>();
+
+/**
+ * Publish a schema as a named component of the OpenAPI document. Generated
+ * clients turn components into named types, so the name should be the one
+ * the frontend uses for the same data.
+ */
+export function named<T extends ZodTypeAny>(name: string, schema: T): T {
+  names.set(schema, name);
+  return schema;
+}
+
+/**
+ * Describe what a schema accepts on the wire when zod can't tell: query
+ * parameters arrive as strings and are transformed into numbers, booleans
+ * and lists, which clients should send in their documented form.
+ */
+export function wireFormat<T extends ZodTypeAny>(
+  schema: T,
+  json: JsonSchema,
+): T {
+  wireFormats.set(schema, json);
+  return schema;
+}
+
+export function getName(schema: ZodTypeAny): string | undefined {
+  return names.get(schema);
+}
+
+export function getWireFormat(schema: ZodTypeAny): JsonSchema | undefined {
+  return wireFormats.get(schema);
+}
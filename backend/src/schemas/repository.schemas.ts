@@ -0,0 +1,813 @@
+import { z } from "zod";
+import type {
+  ActivityDay,
+  BlameLine,
+  Branch,
+  BranchComparison,
+  BranchLifespan,
+  CloneProgress,
+  CloneStrategy,
+  Commit,
+  CommitPatterns,
+  ContributorStats,
+  DiffStats,
+  FileBusFactor,
+  FileChurnStats,
+  FileContent,
+  FileDiff,
+  FileDiffDetail,
+  FileHistoryEntry,
+  PaginatedCommits,
+  RangeDiff,
+  RefInfo,
+  RefreshDelta,
+  RefUpdate,
+  RepoStats,
+  Repository,
+  RepositoryMetadata,
+  Submodule,
+  Tag,
+  TreeEntry,
+} from "../services/git.service.js";
+import { CLONE_STRATEGIES } from "../services/git.service.js";
+import type { AnalyticsCoverage } from "../services/analytics.service.js";
+import { ANALYTICS_KINDS } from "../services/analytics.service.js";
+import type { IdentityMerge } from "../services/identity.service.js";
+import type { RepoSessionInfo } from "../services/session.service.js";
+import type { DiscoveredRepository } from "../services/discovery.service.js";
+import { MAX_DISCOVERY_DEPTH } from "../services/discovery.service.js";
+import {
+  booleanParam,
+  errorBodySchema,
+  filePath,
+  integerParam,
+  listParam,
+  optionalString,
+  revision,
+  repoIdBody,
+  repoIdQuery,
+  successEnvelope,
+} from "./common.schemas.js";
+import { named } from "./registry.js";
+
+// ===== REQUEST SCHEMAS =====
+
+const cloneStrategySchema = named(
+  "CloneStrategy",
+  z
+    .enum(CLONE_STRATEGIES as [CloneStrategy, ...CloneStrategy[]])
+    .describe(
+      'How much of a remote was cloned (see README "Clone Strategies")',
+    ),
+);
+
+export const openRepositoryBody = z.object({ path: z.string().min(1) });
+
+export const discoverQuery = z.object({
+  maxDepth: integerParam(-1, { min: -1, max: MAX_DISCOVERY_DEPTH }).transform(
+    (depth) => (depth < 0 ? undefined : depth),
+  ),
+  refresh: booleanParam(false),
+});
+export type DiscoverQuery = z.infer<typeof discoverQuery>;
+
+export const streamQuery = z.object({
+  chunkSize: integerParam(500, { min: 1, max: 10000 }),
+  firstParent: booleanParam(false),
+});
+export type StreamQuery = z.infer<typeof streamQuery>;
+
+export const commitsQuery = z.object({
+  maxCount: integerParam(500, { min: 1, max: 10000 }),
+  skip: integerParam(0),
+  cursor: optionalString,
+  firstParent: booleanParam(false),
+  since: optionalString,
+  until: optionalString,
+  branch: revision.optional(),
+  authors: listParam,
+  committers: listParam,
+  paths: listParam,
+  grep: optionalString,
+  pickaxe: optionalString,
+  pickaxeMode: z.enum(["string", "regex"]).default("string"),
+});
+export type CommitsQuery = z.infer<typeof commitsQuery>;
+
+export const commitQuery = repoIdQuery;
+
+export const watchQuery = repoIdQuery.extend({
+  since: optionalString.describe(
+    "refsFingerprint of the graph the client holds; what changed since is sent first",
+  ),
+});
+export type WatchQuery = z.infer<typeof watchQuery>;
+
+export const filePathQuery = z.object({ filePath });
+export type FilePathQuery = z.infer<typeof filePathQuery>;
+
+export const rangeQuery = z.object({ from: revision, to: revision });
+export type RangeQuery = z.infer<typeof rangeQuery>;
+
+export const rangeFileQuery = rangeQuery.extend({ filePath });
+export type RangeFileQuery = z.infer<typeof rangeFileQuery>;
+
+export const treeQuery = z.object({ treePath: z.string().default("") });
+export type TreeQuery = z.infer<typeof treeQuery>;
+
+export const fileHistoryQuery = z.object({
+  filePath,
+  ref: revision.optional(),
+  follow: booleanParam(true),
+  maxCount: integerParam(1000, { min: 1, max: 100000 }),
+});
+export type FileHistoryQuery = z.infer<typeof fileHistoryQuery>;
+
+export const identityMergeSchema: z.ZodType<IdentityMerge> = named(
+  "IdentityMerge",
+  z
+    .object({
+      aliasEmail: z.string(),
+      name: z.string(),
+      email: z.string(),
+    })
+    .describe(
+      "User-defined identity merge layered over the repository's .mailmap",
+    ),
+);
+
+export const saveIdentitiesBody = repoIdBody.extend({
+  merges: z.array(identityMergeSchema),
+});
+export type SaveIdentitiesBody = z.infer<typeof saveIdentitiesBody>;
+
+export const activityQuery = z.object({
+  days: integerParam(365, { min: 1, max: 36500 }),
+});
+export type ActivityQuery = z.infer<typeof activityQuery>;
+
+export const codeChurnQuery = z.object({
+  limit: integerParam(50, { min: 1, max: 10000 }),
+});
+export type CodeChurnQuery = z.infer<typeof codeChurnQuery>;
+
+export const busFactorQuery = z.object({
+  minCommits: integerParam(5, { min: 1 }),
+});
+export type BusFactorQuery = z.infer<typeof busFactorQuery>;
+
+const analyticsKindSchema = named(
+  "AnalyticsKind",
+  z.enum(ANALYTICS_KINDS).describe("Analyses that can run as background jobs"),
+);
+
+// Options default like the query parameters of the matching routes
+export const analyticsJobBody = repoIdBody.extend({
+  kind: analyticsKindSchema,
+  days: z.number().int().min(1).max(36500).optional(),
+  limit: z.number().int().min(1).max(10000).optional(),
+  minCommits: z.number().int().min(1).optional(),
+});
+export type AnalyticsJobBody = z.infer<typeof analyticsJobBody>;
+
+export const jobParams = z.object({ jobId: z.string().min(1) });
+export type JobParams = z.infer<typeof jobParams>;
+
+export const loadSubmoduleBody = repoIdBody.extend({
+  submodulePath: z.string().min(1),
+});
+export type LoadSubmoduleBody = z.infer<typeof loadSubmoduleBody>;
+
+export const branchCompareBody = repoIdBody.extend({
+  baseBranch: revision,
+  compareBranch: revision,
+});
+export type BranchCompareBody = z.infer<typeof branchCompareBody>;
+
+export const cloneBody = z
+  .object({
+    url: z.string().min(1),
+    token: optionalString,
+    strategy: cloneStrategySchema.default("full"),
+    shallowSince: optionalString,
+    branch: optionalString,
+  })
+  .refine(
+    (body) =>
+      body.strategy !== "shallow" ||
+      (body.shallowSince !== undefined &&
+        !isNaN(Date.parse(body.shallowSince))),
+    {
+      message: "shallowSince must be a date for shallow clones",
+      path: ["shallowSince"],
+    },
+  );
+export type CloneBody = z.infer<typeof cloneBody>;
+
+export const cleanupBody = repoIdBody;
+
+// ===== RESPONSE SCHEMAS =====
+
+const authorSchema = named(
+  "Author",
+  z.object({ name: z.string(), email: z.string() }),
+);
+
+const refInfoSchema: z.ZodType<RefInfo> = named(
+  "RefInfo",
+  z.object({
+    name: z.string(),
+    type: z.enum(["branch", "tag", "remote"]),
+    isHead: z.boolean(),
+  }),
+);
+
+export const commitSchema: z.ZodType<Commit> = named(
+  "Commit",
+  z.object({
+    hash: z.string(),
+    shortHash: z.string(),
+    message: z.string(),
+    body: z.string(),
+    author: authorSchema,
+    date: z.string(),
+    parents: z.array(z.string()),
+    refs: z.array(refInfoSchema),
+  }),
+);
+
+const branchSchema: z.ZodType<Branch> = named(
+  "Branch",
+  z.object({
+    name: z.string(),
+    commit: z.string(),
+    isRemote: z.boolean(),
+    isHead: z.boolean(),
+  }),
+);
+
+const tagSchema: z.ZodType<Tag> = named(
+  "Tag",
+  z.object({
+    name: z.string(),
+    commit: z.string(),
+  }),
+);
+
+const repoStatsSchema: z.ZodType<RepoStats> = named(
+  "RepoStats",
+  z.object({
+    totalCommits: z.number(),
+    isLargeRepo: z.boolean(),
+    recommendedMode: z.enum(["full", "paginated", "simplified"]),
+    cloneStrategy: cloneStrategySchema,
+    lazyFetch: z
+      .boolean()
+      .describe("File contents are fetched from the remote on demand"),
+    shallowSince: z
+      .string()
+      .describe("History before this date wasn't cloned")
+      .optional(),
+  }),
+);
+
+const repoSourceSchema = named(
+  "RepoSource",
+  z
+    .enum(["local", "clone", "upload"])
+    .describe(
+      "Where a repository session came from; only clones can be refreshed",
+    ),
+);
+
+// Repository data labelled with its session (see sessionService.present)
+const sessionFields = {
+  id: z
+    .string()
+    .describe("Opaque server-side session ID used by every API call"),
+  source: repoSourceSchema,
+};
+
+const sessionInfoSchema: z.ZodType<RepoSessionInfo> = named(
+  "RepoSession",
+  z
+    .object({
+      id: z.string(),
+      source: repoSourceSchema,
+      name: z.string(),
+      path: z.string(),
+      temporary: z.boolean(),
+      expiresAt: z.string(),
+    })
+    .describe("Server-side session for an opened repository"),
+);
+
+const refsFingerprintSchema = z
+  .string()
+  .describe(
+    "Ref state the data was read at; watchRepository takes it as `since` to catch up from there",
+  );
+
+const metadataSchema = named(
+  "RepositoryMetadata",
+  z
+    .object({
+      path: z.string(),
+      name: z.string(),
+      currentBranch: z.string(),
+      branches: z.array(branchSchema),
+      tags: z.array(tagSchema),
+      stats: repoStatsSchema,
+      refsFingerprint: refsFingerprintSchema,
+    } satisfies Record<keyof RepositoryMetadata, z.ZodTypeAny>)
+    .extend(sessionFields),
+);
+
+export const repositorySchema = named(
+  "Repository",
+  z
+    .object({
+      path: z
+        .string()
+        .describe('Display only: local path, clone URL or "(uploaded)"'),
+      name: z.string(),
+      currentBranch: z.string(),
+      commits: z.array(commitSchema),
+      branches: z.array(branchSchema),
+      tags: z.array(tagSchema),
+      refsFingerprint: refsFingerprintSchema,
+    } satisfies Record<keyof Repository, z.ZodTypeAny>)
+    .extend(sessionFields),
+);
+
+const discoveredRepositorySchema: z.ZodType<DiscoveredRepository> = named(
+  "DiscoveredRepository",
+  z
+    .object({
+      name: z.string(),
+      path: z.string(),
+      kind: z.enum(["repository", "bare", "submodule", "worktree"]),
+      currentBranch: z.string(),
+      lastCommitDate: z
+        .string()
+        .nullable()
+        .describe("null for repositories without commits"),
+      commitCount: z.number(),
+    })
+    .describe("A repository found by scanning the allowed roots"),
+);
+
+const paginatedCommitsSchema: z.ZodType<PaginatedCommits> = named(
+  "PaginatedCommits",
+  z.object({
+    commits: z.array(commitSchema),
+    total: z.number(),
+    hasMore: z.boolean(),
+    cursor: z.string().optional(),
+  }),
+);
+
+const fileDiffFields = {
+  path: z.string(),
+  oldPath: z.string().optional(),
+  status: z.enum(["added", "deleted", "modified", "renamed", "copied"]),
+  additions: z.number(),
+  deletions: z.number(),
+  binary: z.boolean(),
+};
+
+const fileDiffSchema: z.ZodType<FileDiff> = named(
+  "FileDiff",
+  z.object(fileDiffFields),
+);
+
+const diffStatsFields = {
+  files: z.array(fileDiffSchema),
+  totalAdditions: z.number(),
+  totalDeletions: z.number(),
+};
+
+const diffStatsSchema: z.ZodType<DiffStats> = named(
+  "DiffStats",
+  z.object(diffStatsFields),
+);
+
+const rangeDiffSchema: z.ZodType<RangeDiff> = named(
+  "RangeDiff",
+  z
+    .object({
+      ...diffStatsFields,
+      from: z.string(),
+      to: z.string(),
+    })
+    .describe(
+      "Diff between two arbitrary commits, squashing everything in between",
+    ),
+);
+
+const diffHunkSchema = named(
+  "DiffHunk",
+  z.object({
+    oldStart: z.number(),
+    oldLines: z.number(),
+    newStart: z.number(),
+    newLines: z.number(),
+    content: z.string(),
+  }),
+);
+
+const fileDiffDetailSchema: z.ZodType<FileDiffDetail> = named(
+  "FileDiffDetail",
+  z.object({
+    ...fileDiffFields,
+    hunks: z.array(diffHunkSchema),
+  }),
+);
+
+const treeEntrySchema: z.ZodType<TreeEntry> = named(
+  "TreeEntry",
+  z.object({
+    name: z.string(),
+    path: z.string(),
+    type: z.enum(["file", "directory"]),
+    size: z.number().optional(),
+  }),
+);
+
+const fileContentSchema: z.ZodType<FileContent> = named(
+  "FileContent",
+  z.object({
+    path: z.string(),
+    content: z.string(),
+    size: z.number(),
+    binary: z.boolean(),
+  }),
+);
+
+const blameLineSchema: z.ZodType<BlameLine> = named(
+  "BlameLine",
+  z.object({
+    lineNumber: z.number().describe("Line number in the blamed revision"),
+    originalLineNumber: z
+      .number()
+      .describe("Line number in the commit that introduced it"),
+    hash: z.string(),
+    author: authorSchema,
+    date: z.string(),
+    summary: z.string(),
+    originalPath: z
+      .string()
+      .describe("File path in the commit that introduced the line"),
+    previous: z
+      .object({ hash: z.string(), path: z.string() })
+      .describe('Parent revision to "blame parent"')
+      .optional(),
+    content: z.string(),
+  }),
+);
+
+const fileHistoryEntrySchema: z.ZodType<FileHistoryEntry> = named(
+  "FileHistoryEntry",
+  z.object({
+    commit: commitSchema,
+    path: z.string().describe("Path of the file at this commit"),
+    oldPath: z
+      .string()
+      .describe("Previous path when this commit renamed the file")
+      .optional(),
+    additions: z.number(),
+    deletions: z.number(),
+    binary: z.boolean(),
+  }),
+);
+
+const coverageSchema: z.ZodType<AnalyticsCoverage> = named(
+  "AnalyticsCoverage",
+  z
+    .object({
+      complete: z.boolean(),
+      analyzedCommits: z.number(),
+      totalCommits: z.number(),
+    })
+    .describe(
+      "Whether an analysis covered the full history or stopped at a commit budget",
+    ),
+);
+
+const contributorStatsSchema: z.ZodType<ContributorStats> = named(
+  "ContributorStats",
+  z.object({
+    name: z.string(),
+    email: z.string(),
+    commitCount: z.number(),
+    additions: z.number(),
+    deletions: z.number(),
+    firstCommit: z.string(),
+    lastCommit: z.string(),
+  }),
+);
+
+const activityDaySchema: z.ZodType<ActivityDay> = named(
+  "ActivityDay",
+  z.object({
+    date: z.string().describe("YYYY-MM-DD"),
+    count: z.number(),
+  }),
+);
+
+const fileChurnSchema: z.ZodType<FileChurnStats> = named(
+  "FileChurnStats",
+  z.object({
+    path: z.string().describe("Most recent name of the file"),
+    previousPaths: z
+      .array(z.string())
+      .describe("Earlier names, followed through renames"),
+    changeCount: z.number(),
+    totalAdditions: z.number(),
+    totalDeletions: z.number(),
+    authors: z.array(z.string()),
+    lastModified: z.string(),
+    churnScore: z.number(),
+  }),
+);
+
+const fileBusFactorSchema: z.ZodType<FileBusFactor> = named(
+  "FileBusFactor",
+  z.object({
+    path: z.string().describe("Most recent name of the file"),
+    previousPaths: z
+      .array(z.string())
+      .describe("Earlier names, followed through renames"),
+    primaryAuthor: z.object({
+      name: z.string(),
+      email: z.string(),
+      percentage: z.number(),
+    }),
+    totalCommits: z.number(),
+    uniqueContributors: z.number(),
+    busFactor: z.number(),
+    contributors: z.array(
+      z.object({
+        name: z.string(),
+        email: z.string(),
+        commits: z.number(),
+        percentage: z.number(),
+      }),
+    ),
+  }),
+);
+
+const commitPatternCellSchema = named(
+  "CommitPatternCell",
+  z.object({
+    hour: z.number().describe("0-23"),
+    dayOfWeek: z.number().describe("0-6 (Sunday-Saturday)"),
+    count: z.number(),
+  }),
+);
+
+const commitPatternsSchema: z.ZodType<CommitPatterns> = named(
+  "CommitPatterns",
+  z.object({
+    hourlyDistribution: z.array(commitPatternCellSchema),
+    peakHour: z.number(),
+    peakDay: z.number(),
+    totalCommits: z.number(),
+  }),
+);
+
+const branchLifespanSchema: z.ZodType<BranchLifespan> = named(
+  "BranchLifespan",
+  z.object({
+    branchName: z.string(),
+    createdAt: z.string(),
+    mergedAt: z.string().nullable(),
+    lifespanDays: z.number().nullable(),
+    status: z.enum(["active", "merged", "stale"]),
+    commitCount: z.number(),
+  }),
+);
+
+const submoduleSchema: z.ZodType<Submodule> = named(
+  "Submodule",
+  z.object({
+    name: z.string(),
+    path: z.string(),
+    url: z.string(),
+    currentCommit: z.string(),
+    initialized: z.boolean(),
+  }),
+);
+
+const branchComparisonSchema: z.ZodType<BranchComparison> = named(
+  "BranchComparison",
+  z.object({
+    baseBranch: z.string(),
+    compareBranch: z.string(),
+    aheadCount: z.number(),
+    behindCount: z.number(),
+    aheadCommits: z.array(commitSchema),
+    behindCommits: z.array(commitSchema),
+    ...diffStatsFields,
+  }),
+);
+
+const refUpdateSchema: z.ZodType<RefUpdate> = named(
+  "RefUpdate",
+  z
+    .object({
+      name: z.string(),
+      type: z.enum(["branch", "tag"]),
+      from: z.string().describe("Absent for new refs").optional(),
+      to: z.string().describe("Absent for deleted refs").optional(),
+    })
+    .describe("A branch or tag that a refresh created, deleted or moved"),
+);
+
+const refreshDeltaSchema: z.ZodType<RefreshDelta> = named(
+  "RefreshDelta",
+  z
+    .object({
+      addedCommits: z.array(commitSchema),
+      removedCommits: z.array(z.string()),
+      redecoratedCommits: z.array(
+        z.object({ hash: z.string(), refs: z.array(refInfoSchema) }),
+      ),
+      addedRefs: z.array(refUpdateSchema),
+      deletedRefs: z.array(refUpdateSchema),
+      movedRefs: z.array(refUpdateSchema),
+      branches: z.array(branchSchema),
+      tags: z.array(tagSchema),
+      currentBranch: z.string(),
+      stats: repoStatsSchema,
+      refsFingerprint: refsFingerprintSchema,
+    })
+    .describe(
+      "What changed in a repository's history: after refreshing a clone from its remote, or pushed by the watcher when a local repository's refs move",
+    ),
+);
+
+const cloneProgressSchema: z.ZodType<CloneProgress> = named(
+  "CloneProgress",
+  z
+    .object({
+      stage: z.string(),
+      progress: z.number().describe("0-100 within the stage"),
+      processed: z.number(),
+      total: z.number(),
+    })
+    .describe(
+      "A phase of `git clone --progress` (counting, receiving, resolving, ...)",
+    ),
+);
+
+const jobProgressSchema = named(
+  "JobProgress",
+  z.object({
+    completed: z.number(),
+    total: z
+      .number()
+      .nullable()
+      .describe("null while the amount of work isn't known yet"),
+    message: z
+      .string()
+      .describe("What is being counted, e.g. commits or branches")
+      .optional(),
+  }),
+);
+
+const analyticsJobResultSchema = named(
+  "AnalyticsJobResult",
+  z.union([
+    z.object({
+      data: z.array(contributorStatsSchema),
+      coverage: coverageSchema,
+    }),
+    z.object({ data: z.array(activityDaySchema), coverage: coverageSchema }),
+    z.object({ data: z.array(fileChurnSchema), coverage: coverageSchema }),
+    z.object({
+      data: z.array(fileBusFactorSchema),
+      coverage: coverageSchema,
+    }),
+    z.object({ data: commitPatternsSchema, coverage: coverageSchema }),
+    z.object({ data: z.array(branchLifespanSchema) }),
+  ]),
+);
+
+const analyticsJobSchema = named(
+  "AnalyticsJob",
+  z
+    .object({
+      id: z.string(),
+      kind: analyticsKindSchema,
+      status: named(
+        "JobStatus",
+        z.enum(["queued", "running", "completed", "failed", "cancelled"]),
+      ),
+      progress: jobProgressSchema,
+      // Results so far, for analyses that produce them gradually
+      partial: analyticsJobResultSchema.optional(),
+      result: analyticsJobResultSchema.optional(),
+      error: errorBodySchema.optional(),
+      createdAt: z.string(),
+      finishedAt: z.string().optional(),
+    })
+    .describe(
+      "An analysis running in the background; `result` is set once it completed, `error` once it failed",
+    ),
+);
+
+// Analytics routes report how much history they covered next to the data
+const withCoverage = <T extends z.ZodTypeAny>(data: T) =>
+  successEnvelope(data, { coverage: coverageSchema });
+
+export const responses = {
+  session: successEnvelope(sessionInfoSchema),
+  roots: successEnvelope(z.array(z.string())),
+  discover: successEnvelope(z.array(discoveredRepositorySchema), {
+    truncated: z
+      .boolean()
+      .describe("The scan stopped before covering every directory"),
+  }),
+  validate: z.object({ valid: z.boolean() }),
+  stats: successEnvelope(repoStatsSchema),
+  metadata: successEnvelope(metadataSchema),
+  repository: successEnvelope(repositorySchema),
+  commits: successEnvelope(paginatedCommitsSchema),
+  commit: z.object({ commit: commitSchema }),
+  diffStats: successEnvelope(diffStatsSchema),
+  fileDiff: successEnvelope(fileDiffDetailSchema),
+  rangeDiff: successEnvelope(rangeDiffSchema),
+  tree: successEnvelope(z.array(treeEntrySchema)),
+  fileContent: successEnvelope(fileContentSchema),
+  blame: successEnvelope(z.array(blameLineSchema)),
+  fileHistory: successEnvelope(z.array(fileHistoryEntrySchema)),
+  contributors: withCoverage(z.array(contributorStatsSchema)),
+  identities: successEnvelope(z.array(identityMergeSchema)),
+  activity: withCoverage(z.array(activityDaySchema)),
+  codeChurn: withCoverage(z.array(fileChurnSchema)),
+  busFactor: withCoverage(z.array(fileBusFactorSchema)),
+  commitPatterns: withCoverage(commitPatternsSchema),
+  branchLifespans: successEnvelope(z.array(branchLifespanSchema)),
+  job: successEnvelope(analyticsJobSchema),
+  submodules: successEnvelope(z.array(submoduleSchema)),
+  branchCompare: successEnvelope(branchComparisonSchema),
+  refresh: successEnvelope(refreshDeltaSchema),
+  cleanup: z.object({ success: z.literal(true), message: z.string() }),
+};
+
+export const streamEvents = {
+  metadata: metadataSchema,
+  commits: named(
+    "CommitChunk",
+    z.object({
+      commits: z.array(commitSchema),
+      progress: z.number(),
+      total: z.number(),
+      cached: z.boolean(),
+    }),
+  ),
+  complete: z.object({}),
+  error: errorBodySchema,
+};
+
+export const cloneEvents = {
+  progress: cloneProgressSchema,
+  ...streamEvents,
+};
+
+export const watchEvents = {
+  commits: named(
+    "WatchCommitsEvent",
+    z.object({
+      addedCommits: z.array(commitSchema),
+      removedCommits: z.array(z.string()),
+    }),
+  ),
+  refs: named(
+    "WatchRefsEvent",
+    z.object({
+      redecoratedCommits: z.array(
+        z.object({ hash: z.string(), refs: z.array(refInfoSchema) }),
+      ),
+      addedRefs: z.array(refUpdateSchema),
+      deletedRefs: z.array(refUpdateSchema),
+      movedRefs: z.array(refUpdateSchema),
+      branches: z.array(branchSchema),
+      tags: z.array(tagSchema),
+      currentBranch: z.string(),
+      stats: repoStatsSchema,
+      refsFingerprint: refsFingerprintSchema,
+    }),
+  ),
+  resync: z
+    .object({})
+    .describe(
+      "The ref state given as `since` is unknown to the server (e.g. after a restart); reload the repository",
+    ),
+};
+
+// Every change to a job; the stream ends after the one that finishes it
+export const jobEvents = {
+  update: analyticsJobSchema,
+};
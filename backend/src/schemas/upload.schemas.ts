@@ -0,0 +1,7 @@
+import { repositorySchema } from "./repository.schemas.js";
+import { successEnvelope } from "./common.schemas.js";
+
+// Request bodies are multipart form data, validated by multer
+export const responses = {
+  repository: successEnvelope(repositorySchema),
+};
@@ -0,0 +1,590 @@
+import { spawn } from "child_process";
+import readline from "readline";
+import { identityService } from "./identity.service.js";
+import { gitProcesses, jobService, JobInfo } from "./job.service.js";
+import {
+  gitService,
+  parseNumstatPath,
+  ActivityDay,
+  BranchLifespan,
+  CommitPatternCell,
+  CommitPatterns,
+  ContributorStats,
+  FileBusFactor,
+  FileChurnStats,
+} from "./git.service.js";
+
+// Whether an analysis saw every commit or stopped at the commit budget
+export interface AnalyticsCoverage {
+  complete: boolean;
+  analyzedCommits: number;
+  totalCommits: number;
+}
+
+export interface AnalyticsResult<T> {
+  data: T;
+  coverage: AnalyticsCoverage;
+}
+
+// Called as the history pass gets through commits
+export type AnalyticsProgress = (analyzedCommits: number) => void;
+
+export const ANALYTICS_KINDS = [
+  "contributors",
+  "activity",
+  "codeChurn",
+  "busFactor",
+  "commitPatterns",
+  "branchLifespans",
+] as const;
+
+export type AnalyticsKind = (typeof ANALYTICS_KINDS)[number];
+
+export interface AnalyticsOptions {
+  days?: number; // activity
+  limit?: number; // codeChurn
+  minCommits?: number; // busFactor
+}
+
+// What an analytics job produces; branch lifespans don't walk the history
+export type AnalyticsJobResult =
+  | AnalyticsResult<unknown>
+  | { data: BranchLifespan[] };
+
+interface FileAggregate {
+  previousPaths: Set<string>;
+  changeCount: number;
+  additions: number;
+  deletions: number;
+  lastModified: string;
+  authors: Map<string, { name: string; email: string; commits: number }>;
+}
+
+interface AuthorAggregate {
+  name: string;
+  email: string;
+  commitCount: number;
+  additions: number;
+  deletions: number;
+  firstCommit: string;
+  lastCommit: string;
+}
+
+// Everything the analytics views need, gathered in one pass over history
+interface RepoAggregate {
+  fingerprint: string;
+  files: Map<string, FileAggregate>;
+  authors: Map<string, AuthorAggregate>;
+  days: Map<string, number>; // YYYY-MM-DD -> commits
+  patterns: Map<string, number>; // "dayOfWeek-hour" -> commits
+  coverage: AnalyticsCoverage;
+}
+
+const RECORD_SEP = "\x1e";
+const FIELD_SEP = "\x1f";
+
+// Optional cap for machines that can't afford a full pass; unset = no cap
+const MAX_COMMITS = parseInt(process.env.ANALYTICS_MAX_COMMITS || "", 10) || 0;
+
+// Aggregates kept in memory; each is invalidated when the ref tips move
+const MAX_CACHED_REPOS = 5;
+
+// Commits between progress reports during the history pass
+const PROGRESS_INTERVAL = 500;
+
+interface PendingAggregate {
+  build: Promise<RepoAggregate>;
+  listeners: Set<AnalyticsProgress>;
+}
+
+/**
+ * Repository analytics computed from a single streaming
+ * `git log --all --numstat` pass. The per-file, per-author and per-day
+ * aggregate is shared by contributors, activity, churn, bus factor and
+ * commit patterns, so all of them cover the same (full) history.
+ */
+class AnalyticsService {
+  private aggregates = new Map<string, RepoAggregate>();
+  private pending = new Map<string, PendingAggregate>();
+
+  async getContributorStats(
+    repoPath: string,
+    onProgress?: AnalyticsProgress,
+  ): Promise<AnalyticsResult<ContributorStats[]>> {
+    const aggregate = await this.getAggregate(repoPath, onProgress);
+
+    // Sort by commit count descending
+    const data = Array.from(aggregate.authors.values())
+      .map((author) => ({ ...author }))
+      .sort((a, b) => b.commitCount - a.commitCount);
+
+    return { data, coverage: aggregate.coverage };
+  }
+
+  async getActivityHeatmap(
+    repoPath: string,
+    days: number = 365,
+    onProgress?: AnalyticsProgress,
+  ): Promise<AnalyticsResult<ActivityDay[]>> {
+    const aggregate = await this.getAggregate(repoPath, onProgress);
+
+    // Calculate date range
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    // Generate array for all days in range
+    const data: ActivityDay[] = [];
+    const currentDate = new Date(startDate);
+
+    while (currentDate <= endDate) {
+      const dateStr = currentDate.toISOString().split("T")[0];
+      data.push({
+        date: dateStr,
+        count: aggregate.days.get(dateStr) || 0,
+      });
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return { data, coverage: aggregate.coverage };
+  }
+
+  async getCodeChurn(
+    repoPath: string,
+    limit: number = 50,
+    onProgress?: AnalyticsProgress,
+  ): Promise<AnalyticsResult<FileChurnStats[]>> {
+    const aggregate = await this.getAggregate(repoPath, onProgress);
+
+    // Calculate churn score and convert to array
+    const result: FileChurnStats[] = [];
+    const now = new Date();
+
+    for (const [path, stats] of aggregate.files) {
+      // Churn score: weighted combination of change frequency, author count, and recency
+      const daysSinceModified = Math.max(
+        1,
+        (now.getTime() - new Date(stats.lastModified).getTime()) /
+          (1000 * 60 * 60 * 24),
+      );
+      const recencyScore = Math.min(1, 30 / daysSinceModified); // Higher if modified recently
+      const churnScore =
+        stats.changeCount * 0.6 +
+        stats.authors.size * 0.2 * 10 +
+        recencyScore * 0.2 * 100;
+
+      result.push({
+        path,
+        previousPaths: Array.from(stats.previousPaths),
+        changeCount: stats.changeCount,
+        totalAdditions: stats.additions,
+        totalDeletions: stats.deletions,
+        authors: Array.from(stats.authors.keys()),
+        lastModified: stats.lastModified,
+        churnScore: Math.round(churnScore * 100) / 100,
+      });
+    }
+
+    // Sort by churn score and limit
+    const data = result
+      .sort((a, b) => b.churnScore - a.churnScore)
+      .slice(0, limit);
+    return { data, coverage: aggregate.coverage };
+  }
+
+  async getBusFactor(
+    repoPath: string,
+    minCommits: number = 5,
+    onProgress?: AnalyticsProgress,
+  ): Promise<AnalyticsResult<FileBusFactor[]>> {
+    const aggregate = await this.getAggregate(repoPath, onProgress);
+
+    // Calculate bus factor for each file
+    const result: FileBusFactor[] = [];
+
+    for (const [path, stats] of aggregate.files) {
+      const contributorArray = Array.from(stats.authors.values());
+      const totalCommits = stats.changeCount;
+
+      // Skip files with few commits
+      if (totalCommits < minCommits) continue;
+
+      // Sort by commits descending
+      contributorArray.sort((a, b) => b.commits - a.commits);
+
+      const primary = contributorArray[0];
+      const primaryPercentage = (primary.commits / totalCommits) * 100;
+
+      // Calculate bus factor: count of contributors with >10% of commits
+      const significantContributors = contributorArray.filter(
+        (a) => a.commits / totalCommits >= 0.1,
+      ).length;
+
+      result.push({
+        path,
+        previousPaths: Array.from(stats.previousPaths),
+        primaryAuthor: {
+          name: primary.name,
+          email: primary.email,
+          percentage: Math.round(primaryPercentage * 10) / 10,
+        },
+        totalCommits,
+        uniqueContributors: contributorArray.length,
+        busFactor: significantContributors,
+        contributors: contributorArray.slice(0, 5).map((c) => ({
+          name: c.name,
+          email: c.email,
+          commits: c.commits,
+          percentage: Math.round((c.commits / totalCommits) * 1000) / 10,
+        })),
+      });
+    }
+
+    // Sort by bus factor ascending (lower = higher risk)
+    const data = result.sort((a, b) => a.busFactor - b.busFactor);
+    return { data, coverage: aggregate.coverage };
+  }
+
+  async getCommitPatterns(
+    repoPath: string,
+    onProgress?: AnalyticsProgress,
+  ): Promise<AnalyticsResult<CommitPatterns>> {
+    const aggregate = await this.getAggregate(repoPath, onProgress);
+
+    const hourTotals = new Map<number, number>();
+    const dayTotals = new Map<number, number>();
+    for (const [key, count] of aggregate.patterns) {
+      const [dayOfWeek, hour] = key.split("-").map(Number);
+      hourTotals.set(hour, (hourTotals.get(hour) || 0) + count);
+      dayTotals.set(dayOfWeek, (dayTotals.get(dayOfWeek) || 0) + count);
+    }
+
+    // Find peak hour and day
+    let peakHour = 0;
+    let peakHourCount = 0;
+    for (const [hour, count] of hourTotals) {
+      if (count > peakHourCount) {
+        peakHour = hour;
+        peakHourCount = count;
+      }
+    }
+
+    let peakDay = 0;
+    let peakDayCount = 0;
+    for (const [day, count] of dayTotals) {
+      if (count > peakDayCount) {
+        peakDay = day;
+        peakDayCount = count;
+      }
+    }
+
+    // Convert matrix to array
+    const hourlyDistribution: CommitPatternCell[] = [];
+    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+      for (let hour = 0; hour < 24; hour++) {
+        hourlyDistribution.push({
+          dayOfWeek,
+          hour,
+          count: aggregate.patterns.get(`${dayOfWeek}-${hour}`) || 0,
+        });
+      }
+    }
+
+    return {
+      data: {
+        hourlyDistribution,
+        peakHour,
+        peakDay,
+        totalCommits: aggregate.coverage.analyzedCommits,
+      },
+      coverage: aggregate.coverage,
+    };
+  }
+
+  /**
+   * Run an analysis as a background job (see jobService). Jobs report the
+   * commits or branches done so far; asking for an analysis that's already
+   * running joins its job on behalf of `sessionId`.
+   */
+  startJob(
+    repoPath: string,
+    sessionId: string,
+    kind: AnalyticsKind,
+    options: AnalyticsOptions = {},
+  ): JobInfo<AnalyticsJobResult> {
+    const key = [kind, repoPath, JSON.stringify(options)].join("\0");
+
+    return jobService.start<AnalyticsJobResult>(
+      kind,
+      key,
+      sessionId,
+      async (context) => {
+        if (kind === "branchLifespans") {
+          const data = await gitService.getBranchLifespans(repoPath, {
+            signal: context.signal,
+            onProgress: (completed, total) =>
+              context.progress(completed, total, "branches"),
+            onPartial: (partial) => context.partial({ data: partial }),
+          });
+          return { data };
+        }
+
+        const allCommits = await gitService.countAllCommits(repoPath);
+        const total = MAX_COMMITS
+          ? Math.min(allCommits, MAX_COMMITS)
+          : allCommits;
+        context.progress(0, total, "commits");
+        const onProgress = (analyzed: number) =>
+          context.progress(Math.min(analyzed, total), total, "commits");
+
+        const result = await this.analyze(repoPath, kind, options, onProgress);
+        context.progress(total, total, "commits");
+        return result;
+      },
+    );
+  }
+
+  private analyze(
+    repoPath: string,
+    kind: Exclude<AnalyticsKind, "branchLifespans">,
+    options: AnalyticsOptions,
+    onProgress: AnalyticsProgress,
+  ): Promise<AnalyticsResult<unknown>> {
+    switch (kind) {
+      case "contributors":
+        return this.getContributorStats(repoPath, onProgress);
+      case "activity":
+        return this.getActivityHeatmap(repoPath, options.days, onProgress);
+      case "codeChurn":
+        return this.getCodeChurn(repoPath, options.limit, onProgress);
+      case "busFactor":
+        return this.getBusFactor(repoPath, options.minCommits, onProgress);
+      case "commitPatterns":
+        return this.getCommitPatterns(repoPath, onProgress);
+    }
+  }
+
+  // Reuse the aggregate until the refs move; concurrent callers share a pass
+  private async getAggregate(
+    repoPath: string,
+    onProgress?: AnalyticsProgress,
+  ): Promise<RepoAggregate> {
+    const { fingerprint } = await gitService.getRefTips(repoPath);
+
+    const cached = this.aggregates.get(repoPath);
+    if (cached && cached.fingerprint === fingerprint) return cached;
+
+    const key = `${repoPath}\0${fingerprint}`;
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      if (onProgress) inFlight.listeners.add(onProgress);
+      return inFlight.build;
+    }
+
+    const listeners = new Set<AnalyticsProgress>();
+    if (onProgress) listeners.add(onProgress);
+    const report = (analyzed: number) => {
+      for (const listener of listeners) listener(analyzed);
+    };
+
+    // Cancelling a job doesn't stop the pass: other requests may share it,
+    // and the aggregate is cached for the next one either way
+    const build = gitProcesses
+      .run(() => this.buildAggregate(repoPath, fingerprint, report))
+      .then((aggregate) => {
+        this.aggregates.delete(repoPath);
+        this.aggregates.set(repoPath, aggregate);
+        // Map iteration order is insertion order, so the first key is oldest
+        if (this.aggregates.size > MAX_CACHED_REPOS) {
+          const oldest = this.aggregates.keys().next().value;
+          if (oldest !== undefined) this.aggregates.delete(oldest);
+        }
+        return aggregate;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, { build, listeners });
+    return build;
+  }
+
+  private async buildAggregate(
+    repoPath: string,
+    fingerprint: string,
+    onProgress: AnalyticsProgress,
+  ): Promise<RepoAggregate> {
+    const aggregate: RepoAggregate = {
+      fingerprint,
+      files: new Map(),
+      authors: new Map(),
+      days: new Map(),
+      patterns: new Map(),
+      coverage: { complete: true, analyzedCommits: 0, totalCommits: 0 },
+    };
+
+    const child = spawn(
+      "git",
+      [
+        ...identityService.gitConfigArgs(repoPath),
+        "log",
+        "--all",
+        "--numstat",
+        "--find-renames",
+        `--format=${RECORD_SEP}%aN${FIELD_SEP}%aE${FIELD_SEP}%aI`,
+      ],
+      { cwd: repoPath },
+    );
+    child.stdin.end();
+
+    let stderr = "";
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.on("error", reject);
+      child.on("close", resolve);
+    });
+
+    let author: { name: string; email: string } | null = null;
+    let date = "";
+    let stopped = false;
+
+    // Old path -> the file's most recent name. History arrives newest first,
+    // so a rename is seen before the older commits that used the old name.
+    const renamedTo = new Map<string, string>();
+
+    const lines = readline.createInterface({
+      input: child.stdout,
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.startsWith(RECORD_SEP)) {
+        if (MAX_COMMITS && aggregate.coverage.analyzedCommits >= MAX_COMMITS) {
+          stopped = true;
+          break;
+        }
+        const [name, email, commitDate] = line.slice(1).split(FIELD_SEP);
+        author = { name, email };
+        date = commitDate;
+        this.addCommit(aggregate, author, date);
+        if (aggregate.coverage.analyzedCommits % PROGRESS_INTERVAL === 0) {
+          onProgress(aggregate.coverage.analyzedCommits);
+        }
+      } else if (author && line) {
+        // Numstat line: additions\tdeletions\tpath ("-" for binary files)
+        const [added, deleted, rawPath] = line.split("\t");
+        if (rawPath === undefined) continue;
+
+        const { path, oldPath } = parseNumstatPath(rawPath);
+        const filePath = renamedTo.get(path) ?? path;
+        const previousPath = oldPath !== filePath ? oldPath : undefined;
+        if (previousPath) {
+          renamedTo.set(previousPath, filePath);
+        }
+
+        this.addFileChange(
+          aggregate,
+          filePath,
+          previousPath,
+          parseInt(added, 10) || 0,
+          parseInt(deleted, 10) || 0,
+          author,
+          date,
+        );
+      }
+    }
+
+    if (stopped) {
+      lines.close();
+      child.kill();
+      await exited.catch(() => null);
+      aggregate.coverage.complete = false;
+      aggregate.coverage.totalCommits =
+        await gitService.countAllCommits(repoPath);
+    } else {
+      const code = await exited;
+      if (code !== 0) {
+        throw new Error(stderr.trim() || `git log exited with code ${code}`);
+      }
+      aggregate.coverage.totalCommits = aggregate.coverage.analyzedCommits;
+    }
+
+    return aggregate;
+  }
+
+  private addCommit(
+    aggregate: RepoAggregate,
+    author: { name: string; email: string },
+    date: string,
+  ): void {
+    aggregate.coverage.analyzedCommits++;
+
+    // Commits arrive newest first, so the first date seen is the latest
+    const stats = aggregate.authors.get(author.email);
+    if (stats) {
+      stats.commitCount++;
+      stats.firstCommit = date;
+    } else {
+      aggregate.authors.set(author.email, {
+        ...author,
+        commitCount: 1,
+        additions: 0,
+        deletions: 0,
+        firstCommit: date,
+        lastCommit: date,
+      });
+    }
+
+    const day = date.split("T")[0]; // Extract YYYY-MM-DD
+    aggregate.days.set(day, (aggregate.days.get(day) || 0) + 1);
+
+    const when = new Date(date);
+    const slot = `${when.getDay()}-${when.getHours()}`;
+    aggregate.patterns.set(slot, (aggregate.patterns.get(slot) || 0) + 1);
+  }
+
+  private addFileChange(
+    aggregate: RepoAggregate,
+    filePath: string,
+    previousPath: string | undefined,
+    additions: number,
+    deletions: number,
+    author: { name: string; email: string },
+    date: string,
+  ): void {
+    const authorStats = aggregate.authors.get(author.email)!;
+    authorStats.additions += additions;
+    authorStats.deletions += deletions;
+
+    let stats = aggregate.files.get(filePath);
+    if (!stats) {
+      stats = {
+        previousPaths: new Set(),
+        changeCount: 0,
+        additions: 0,
+        deletions: 0,
+        lastModified: date,
+        authors: new Map(),
+      };
+      aggregate.files.set(filePath, stats);
+    }
+
+    if (previousPath) {
+      stats.previousPaths.add(previousPath);
+    }
+
+    stats.changeCount++;
+    stats.additions += additions;
+    stats.deletions += deletions;
+    if (date > stats.lastModified) {
+      stats.lastModified = date;
+    }
+
+    const fileAuthor = stats.authors.get(author.email);
+    if (fileAuthor) {
+      fileAuthor.commits++;
+    } else {
+      stats.authors.set(author.email, { ...author, commits: 1 });
+    }
+  }
+}
+
+export const analyticsService = new AnalyticsService();
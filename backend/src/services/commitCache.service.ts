@@ -0,0 +1,207 @@
+import { createReadStream, createWriteStream, WriteStream } from "fs";
+import fs from "fs/promises";
+import readline from "readline";
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import type { Commit } from "./git.service.js";
+
+// Bump when the stored Commit shape changes so old caches are rebuilt
+const CACHE_VERSION = 3;
+
+// Lines between entries of the byte offset index
+const INDEX_STEP = 1000;
+
+export interface CommitCacheMeta {
+  version: number;
+  repoPath: string;
+  fingerprint: string; // Hash of every ref tip when the cache was written
+  tips: string[]; // Commit hashes the cached history was walked from
+  mailmap: string; // Mailmap the cached authors were resolved with
+  total: number;
+  file: string; // Data file holding one JSON commit per line, in graph order
+  index: number[]; // Byte offset of every INDEX_STEP-th line of the data file
+  updatedAt: string;
+}
+
+export type CommitCacheEntry = Pick<
+  CommitCacheMeta,
+  "repoPath" | "fingerprint" | "tips" | "mailmap" | "total"
+>;
+
+export interface CommitCacheWriter {
+  write(commits: Commit[]): Promise<void>;
+  save(entry: CommitCacheEntry): Promise<void>;
+  discard(): Promise<void>;
+}
+
+/**
+ * On-disk store of parsed commits, keyed by repository path. Commits are
+ * kept as newline-delimited JSON so large histories can be streamed back in
+ * chunks without loading them into memory. A new data file is written for
+ * every update and the metadata swapped atomically, so readers never see a
+ * half-written cache.
+ */
+class CommitCacheService {
+  private readonly cacheDir =
+    process.env.COMMIT_CACHE_DIR ||
+    path.join(os.homedir(), ".cache", "git-visualizer", "commits");
+
+  private keyFor(repoPath: string): string {
+    return crypto
+      .createHash("sha1")
+      .update(path.resolve(repoPath))
+      .digest("hex");
+  }
+
+  private metaPath(repoPath: string): string {
+    return path.join(this.cacheDir, `${this.keyFor(repoPath)}.json`);
+  }
+
+  async readMeta(repoPath: string): Promise<CommitCacheMeta | null> {
+    try {
+      const meta = JSON.parse(
+        await fs.readFile(this.metaPath(repoPath), "utf8"),
+      ) as CommitCacheMeta;
+      if (
+        meta.version !== CACHE_VERSION ||
+        meta.repoPath !== path.resolve(repoPath)
+      ) {
+        return null;
+      }
+      return meta;
+    } catch {
+      // No cache yet, or an unreadable one
+      return null;
+    }
+  }
+
+  // Stream cached commits in chunks, starting `offset` commits in
+  async *readCommits(
+    meta: CommitCacheMeta,
+    options: { offset?: number; chunkSize?: number } = {},
+  ): AsyncGenerator<Commit[]> {
+    const { offset = 0, chunkSize = 500 } = options;
+    // Seek to the nearest indexed line so later pages don't rescan the file
+    const entry = Math.min(
+      Math.floor(offset / INDEX_STEP),
+      meta.index.length - 1,
+    );
+    const input = createReadStream(path.join(this.cacheDir, meta.file), {
+      encoding: "utf8",
+      start: entry > 0 ? meta.index[entry] : 0,
+    });
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let index = Math.max(entry, 0) * INDEX_STEP;
+    let chunk: Commit[] = [];
+    try {
+      for await (const line of lines) {
+        if (index++ < offset || !line) continue;
+
+        chunk.push(JSON.parse(line) as Commit);
+        if (chunk.length >= chunkSize) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) yield chunk;
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  async readPage(
+    meta: CommitCacheMeta,
+    offset: number,
+    count: number,
+  ): Promise<Commit[]> {
+    for await (const chunk of this.readCommits(meta, {
+      offset,
+      chunkSize: count,
+    })) {
+      return chunk;
+    }
+    return [];
+  }
+
+  // Start a replacement cache; nothing becomes visible until save()
+  createWriter(repoPath: string): CommitCacheWriter {
+    const file = `${this.keyFor(repoPath)}-${crypto.randomUUID()}.ndjson`;
+    const dataPath = path.join(this.cacheDir, file);
+    let stream: WriteStream | null = null;
+    const index: number[] = [];
+    let lineCount = 0;
+    let byteCount = 0;
+
+    const open = async (): Promise<WriteStream> => {
+      if (!stream) {
+        await fs.mkdir(this.cacheDir, { recursive: true });
+        stream = createWriteStream(dataPath, { encoding: "utf8" });
+      }
+      return stream;
+    };
+
+    const close = async () => {
+      const out = stream;
+      if (out) await new Promise<void>((resolve) => out.end(resolve));
+    };
+
+    return {
+      write: async (commits) => {
+        if (commits.length === 0) return;
+        const out = await open();
+        const lines = commits.map((c) => JSON.stringify(c));
+        for (const line of lines) {
+          if (lineCount++ % INDEX_STEP === 0) index.push(byteCount);
+          byteCount += Buffer.byteLength(line) + 1;
+        }
+        const data = lines.join("\n") + "\n";
+        await new Promise<void>((resolve, reject) => {
+          out.write(data, (error) => (error ? reject(error) : resolve()));
+        });
+      },
+      save: async (entry) => {
+        await open();
+        await close();
+
+        const previous = await this.readMeta(repoPath);
+        const meta: CommitCacheMeta = {
+          ...entry,
+          repoPath: path.resolve(entry.repoPath),
+          version: CACHE_VERSION,
+          file,
+          index,
+          updatedAt: new Date().toISOString(),
+        };
+        const metaPath = this.metaPath(repoPath);
+        const tempMeta = `${metaPath}.${crypto.randomUUID()}.tmp`;
+        await fs.writeFile(tempMeta, JSON.stringify(meta));
+        await fs.rename(tempMeta, metaPath);
+
+        if (previous && previous.file !== file) {
+          await fs
+            .rm(path.join(this.cacheDir, previous.file), { force: true })
+            .catch(() => {});
+        }
+      },
+      discard: async () => {
+        await close();
+        await fs.rm(dataPath, { force: true }).catch(() => {});
+      },
+    };
+  }
+
+  async invalidate(repoPath: string): Promise<void> {
+    const meta = await this.readMeta(repoPath);
+    await fs.rm(this.metaPath(repoPath), { force: true }).catch(() => {});
+    if (meta) {
+      await fs
+        .rm(path.join(this.cacheDir, meta.file), { force: true })
+        .catch(() => {});
+    }
+  }
+}
+
+export const commitCache = new CommitCacheService();
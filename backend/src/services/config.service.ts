@@ -0,0 +1,203 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { FORGE_TYPES, ForgeType } from "./forges/provider.js";
+
+const CONFIG_FILE =
+  process.env.CONFIG_FILE ||
+  path.join(os.homedir(), ".config", "git-visualizer", "config.json");
+
+// A forge instance remotes may point at
+export interface ForgeHost {
+  host: string; // hostname[:port] as it appears in remote URLs
+  forge: ForgeType;
+  apiBase?: string; // Derived from the remote's origin when left out
+  token?: string; // Used for clones and API requests to this host
+}
+
+// Shape of CONFIG_FILE; every field is optional
+export interface AppConfig {
+  allowedRoots?: string[]; // Directories local repositories may be opened from
+  forgeHosts?: ForgeHost[]; // Self-hosted forges, or overrides for public ones
+}
+
+// Public forges known without configuration
+const PUBLIC_FORGE_HOSTS: ForgeHost[] = [
+  {
+    host: "github.com",
+    forge: "github",
+    apiBase: "https://api.github.com",
+    token: process.env.GITHUB_TOKEN,
+  },
+  { host: "gitlab.com", forge: "gitlab", token: process.env.GITLAB_TOKEN },
+  { host: "codeberg.org", forge: "gitea", token: process.env.GITEA_TOKEN },
+  { host: "gitea.com", forge: "gitea", token: process.env.GITEA_TOKEN },
+  {
+    host: "bitbucket.org",
+    forge: "bitbucket",
+    apiBase: "https://api.bitbucket.org/2.0",
+    token: process.env.BITBUCKET_TOKEN,
+  },
+];
+
+// Hosts from a comma-separated environment variable, sharing one token
+function hostsFromEnv(
+  value: string | undefined,
+  forge: ForgeType,
+  token: string | undefined,
+): ForgeHost[] {
+  return (value ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+    .map((host) => ({ host, forge, token }));
+}
+
+// Expand a leading "~" and resolve relative paths against `baseDir`
+function expandPath(input: string, baseDir: string): string {
+  const expanded =
+    input === "~" || input.startsWith("~/")
+      ? path.join(os.homedir(), input.slice(1))
+      : input;
+  return path.resolve(baseDir, expanded);
+}
+
+// Whether `target` is `root` or somewhere below it
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Server configuration read from CONFIG_FILE, with environment variables
+ * taking precedence over the file. Loaded once on first use; restart the
+ * server to pick up changes.
+ */
+class ConfigService {
+  private config: Promise<AppConfig> | null = null;
+  private allowedRoots: Promise<string[]> | null = null;
+  private forgeHosts: Promise<ForgeHost[]> | null = null;
+
+  private load(): Promise<AppConfig> {
+    this.config ??= fs
+      .readFile(CONFIG_FILE, "utf8")
+      .then((content) => JSON.parse(content) as AppConfig)
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.warn(
+            `Ignoring unreadable config file ${CONFIG_FILE}:`,
+            (error as Error).message,
+          );
+        }
+        return {};
+      });
+    return this.config;
+  }
+
+  /**
+   * Directories local repositories may be opened from, with symlinks
+   * resolved. ALLOWED_ROOTS (separated like PATH) overrides `allowedRoots`
+   * in the config file; with neither, only the home directory of the user
+   * running the server is allowed.
+   */
+  getAllowedRoots(): Promise<string[]> {
+    this.allowedRoots ??= this.resolveAllowedRoots();
+    return this.allowedRoots;
+  }
+
+  // Whether a path (already passed through realpath) is inside an allowed root
+  async isAllowedPath(realPath: string): Promise<boolean> {
+    const roots = await this.getAllowedRoots();
+    return roots.some((root) => isWithin(root, realPath));
+  }
+
+  /**
+   * Forge instances by host: the public forges, then GITLAB_HOSTS and
+   * GITEA_HOSTS, then `forgeHosts` in the config file. A later entry for
+   * the same host replaces an earlier one.
+   */
+  getForgeHosts(): Promise<ForgeHost[]> {
+    this.forgeHosts ??= this.resolveForgeHosts();
+    return this.forgeHosts;
+  }
+
+  private async resolveForgeHosts(): Promise<ForgeHost[]> {
+    const { forgeHosts = [] } = await this.load();
+    const configured: ForgeHost[] = [];
+    for (const entry of Array.isArray(forgeHosts) ? forgeHosts : []) {
+      if (
+        typeof entry?.host !== "string" ||
+        !FORGE_TYPES.includes(entry.forge)
+      ) {
+        console.warn(
+          `Ignoring forge host without a host or a known forge (${FORGE_TYPES.join(", ")}):`,
+          JSON.stringify(entry),
+        );
+        continue;
+      }
+      configured.push({
+        host: entry.host.trim().toLowerCase(),
+        forge: entry.forge,
+        apiBase: entry.apiBase?.replace(/\/+$/, "") || undefined,
+        token: entry.token || undefined,
+      });
+    }
+
+    const hosts = new Map<string, ForgeHost>();
+    for (const entry of [
+      ...PUBLIC_FORGE_HOSTS,
+      ...hostsFromEnv(
+        process.env.GITLAB_HOSTS,
+        "gitlab",
+        process.env.GITLAB_TOKEN,
+      ),
+      ...hostsFromEnv(
+        process.env.GITEA_HOSTS,
+        "gitea",
+        process.env.GITEA_TOKEN,
+      ),
+      ...configured,
+    ]) {
+      hosts.set(entry.host, entry);
+    }
+    return [...hosts.values()];
+  }
+
+  private async resolveAllowedRoots(): Promise<string[]> {
+    // An empty entry would expand to the base directory; drop those
+    const expandAll = (entries: unknown[], base: string) =>
+      entries
+        .map((root) => String(root).trim())
+        .filter(Boolean)
+        .map((root) => expandPath(root, base));
+
+    let configured: string[];
+    if (process.env.ALLOWED_ROOTS) {
+      configured = expandAll(
+        process.env.ALLOWED_ROOTS.split(path.delimiter),
+        process.cwd(),
+      );
+    } else {
+      const { allowedRoots } = await this.load();
+      configured = Array.isArray(allowedRoots)
+        ? expandAll(allowedRoots, path.dirname(CONFIG_FILE))
+        : [os.homedir()];
+    }
+
+    const roots = new Set<string>();
+    for (const root of configured) {
+      try {
+        roots.add(await fs.realpath(root));
+      } catch {
+        console.warn(`Ignoring allowed root that does not exist: ${root}`);
+      }
+    }
+    return [...roots];
+  }
+}
+
+export const configService = new ConfigService();
@@ -0,0 +1,171 @@
+import fs from "fs/promises";
+import path from "path";
+import { gitService } from "./git.service.js";
+import { configService } from "./config.service.js";
+
+const DEFAULT_MAX_DEPTH = Number(process.env.DISCOVERY_MAX_DEPTH) || 4;
+export const MAX_DISCOVERY_DEPTH = 8;
+
+// Stop walking after this many directories so huge roots can't stall a scan
+const MAX_DIRECTORIES = 20000;
+const SUMMARY_CONCURRENCY = 4;
+const CACHE_TTL_MS = 60 * 1000;
+
+// Directories that never hold repositories worth listing
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "bower_components"]);
+
+export type DiscoveredRepositoryKind =
+  | "repository"
+  | "bare"
+  | "submodule"
+  | "worktree";
+
+export interface DiscoveredRepository {
+  name: string;
+  path: string;
+  kind: DiscoveredRepositoryKind;
+  currentBranch: string;
+  lastCommitDate: string | null; // null for repositories without commits
+  commitCount: number;
+}
+
+export interface DiscoveryResult {
+  repositories: DiscoveredRepository[];
+  truncated: boolean; // The directory budget ran out before the walk finished
+}
+
+/**
+ * Finds git repositories under the allowed roots so users can pick one
+ * instead of typing its path. The walk is breadth-first, doesn't follow
+ * symlinks, skips hidden directories, and keeps descending into working
+ * trees to find nested submodules. Results are cached briefly.
+ */
+class DiscoveryService {
+  private cache = new Map<
+    number,
+    { result: Promise<DiscoveryResult>; expiresAt: number }
+  >();
+
+  discover(
+    options: { maxDepth?: number; refresh?: boolean } = {},
+  ): Promise<DiscoveryResult> {
+    const maxDepth = Math.min(
+      Math.max(options.maxDepth ?? DEFAULT_MAX_DEPTH, 0),
+      MAX_DISCOVERY_DEPTH,
+    );
+
+    const cached = this.cache.get(maxDepth);
+    if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const result = this.scan(maxDepth);
+    this.cache.set(maxDepth, {
+      result,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    result.catch(() => this.cache.delete(maxDepth));
+    return result;
+  }
+
+  private async scan(maxDepth: number): Promise<DiscoveryResult> {
+    const roots = await configService.getAllowedRoots();
+    const found = new Map<string, DiscoveredRepositoryKind>();
+    const queue = roots.map((dir) => ({ dir, depth: 0 }));
+    let visited = 0;
+    let truncated = false;
+
+    while (queue.length > 0) {
+      if (visited >= MAX_DIRECTORIES) {
+        truncated = true;
+        break;
+      }
+      const { dir, depth } = queue.shift()!;
+      visited++;
+
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue; // Unreadable or vanished
+      }
+
+      const kind = await this.detectRepository(dir, entries);
+      if (kind && !found.has(dir)) found.set(dir, kind);
+      // A bare repository's subdirectories are git internals
+      if (kind === "bare" || depth >= maxDepth) continue;
+
+      for (const entry of entries) {
+        if (
+          entry.isDirectory() &&
+          !entry.name.startsWith(".") &&
+          !SKIPPED_DIRECTORIES.has(entry.name)
+        ) {
+          queue.push({ dir: path.join(dir, entry.name), depth: depth + 1 });
+        }
+      }
+    }
+
+    const repositories = await this.summarize([...found]);
+    repositories.sort((a, b) => a.path.localeCompare(b.path));
+    return { repositories, truncated };
+  }
+
+  private async detectRepository(
+    dir: string,
+    entries: { name: string; isFile(): boolean; isDirectory(): boolean }[],
+  ): Promise<DiscoveredRepositoryKind | null> {
+    const dotGit = entries.find((entry) => entry.name === ".git");
+    if (dotGit?.isDirectory()) return "repository";
+
+    // Submodules and linked worktrees point at their git dir from a file
+    if (dotGit?.isFile()) {
+      try {
+        const content = await fs.readFile(path.join(dir, ".git"), "utf8");
+        const gitDir = content.match(/^gitdir:\s*(.+)$/m)?.[1].trim();
+        if (!gitDir) return null;
+        return /[\\/]worktrees[\\/]/.test(gitDir) ? "worktree" : "submodule";
+      } catch {
+        return null;
+      }
+    }
+
+    const names = new Set(entries.map((entry) => entry.name));
+    if (names.has("HEAD") && names.has("objects") && names.has("refs")) {
+      return "bare";
+    }
+    return null;
+  }
+
+  // Read branch and history details, a few repositories at a time
+  private async summarize(
+    found: [string, DiscoveredRepositoryKind][],
+  ): Promise<DiscoveredRepository[]> {
+    const repositories: DiscoveredRepository[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < found.length) {
+        const [repoPath, kind] = found[next++];
+        try {
+          const summary = await gitService.getRepositorySummary(repoPath);
+          repositories.push({
+            name: path.basename(repoPath).replace(/\.git$/, "") || repoPath,
+            path: repoPath,
+            kind,
+            ...summary,
+          });
+        } catch {
+          // Looked like a repository but git can't read it; leave it out
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: SUMMARY_CONCURRENCY }, () => worker()),
+    );
+    return repositories;
+  }
+}
+
+export const discoveryService = new DiscoveryService();
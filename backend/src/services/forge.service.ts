@@ -0,0 +1,321 @@
+// Pull requests, issues, CI checks and repository data from whichever forge
+// hosts a repository's remote
+import { ApiError } from "../errors.js";
+import { gitService } from "./git.service.js";
+import { DetectedForge, forgeRegistry } from "./forges/registry.js";
+import {
+  CommitChecks,
+  CommitCheckStates,
+  CommitForgeInfo,
+  CommitPullRequests,
+  createForgeLog,
+  ForgeRateLimit,
+  ForgeRepoMetadata,
+  ForgeType,
+  Issue,
+  parseIssueReferences,
+  ProgressCallback,
+  PullRequest,
+} from "./forges/provider.js";
+
+export type {
+  CheckState,
+  CommitCheck,
+  CommitChecks,
+  CommitCheckStates,
+  CommitForgeInfo,
+  CommitPullRequests,
+  ForgeRateLimit,
+  ForgeRepo,
+  ForgeRepoMetadata,
+  ForgeType,
+  Issue,
+  ProgressCallback,
+  PullRequest,
+} from "./forges/provider.js";
+export type { DetectedForge } from "./forges/registry.js";
+
+const log = createForgeLog("Forge");
+
+// A repository's forge as the client sees it; the forge fields are null when
+// no remote is on a supported forge
+export interface ForgeRepoInfo {
+  forge: ForgeType | null;
+  label: string | null;
+  host: string | null;
+  owner: string | null;
+  repo: string | null;
+  webUrl: string | null;
+  hasToken: boolean;
+  pullRequestOverlay: boolean; // Pull requests can be looked up graph-wide
+  checks: boolean; // The forge reports CI checks per commit
+  checkOverlay: boolean; // Check states can be looked up graph-wide
+  metadata: ForgeRepoMetadata | null;
+}
+
+class ForgeService {
+  /**
+   * Find the forge hosting a repository, preferring the 'origin' remote and
+   * falling back to the first other remote on a supported forge
+   */
+  async detect(repoPath: string): Promise<DetectedForge | null> {
+    const remotes = await gitService.getRemoteUrls(repoPath);
+    const ordered = [
+      ...remotes.filter((r) => r.name === "origin"),
+      ...remotes.filter((r) => r.name !== "origin"),
+    ];
+
+    for (const remote of ordered) {
+      const detected = await forgeRegistry.parseRemoteUrl(remote.url);
+      if (detected) return detected;
+    }
+    return null;
+  }
+
+  /**
+   * Describe a repository's forge, with the project's metadata when the
+   * forge returns it
+   */
+  async getRepoInfo(repoPath: string): Promise<ForgeRepoInfo> {
+    const detected = await this.detect(repoPath);
+    if (!detected) {
+      return {
+        forge: null,
+        label: null,
+        host: null,
+        owner: null,
+        repo: null,
+        webUrl: null,
+        hasToken: false,
+        pullRequestOverlay: false,
+        checks: false,
+        checkOverlay: false,
+        metadata: null,
+      };
+    }
+
+    const { provider, repo } = detected;
+    let metadata: ForgeRepoMetadata | null = null;
+    try {
+      metadata = await provider.getRepoMetadata(repo);
+    } catch (err) {
+      // The panel still works without it
+      log.warn(`Could not fetch ${provider.label} metadata: ${err}`);
+    }
+
+    return {
+      forge: provider.type,
+      label: provider.label,
+      host: repo.host,
+      owner: repo.owner,
+      repo: repo.repo,
+      webUrl: repo.webUrl,
+      hasToken: !!repo.token,
+      pullRequestOverlay: this.supportsPullRequestOverlay(detected),
+      checks: !!provider.getCommitChecks,
+      checkOverlay: this.supportsCheckOverlay(detected),
+      metadata,
+    };
+  }
+
+  // Batch lookups exist on GitHub only, whose GraphQL API needs a token
+  private supportsPullRequestOverlay({ provider, repo }: DetectedForge) {
+    return !!provider.getPullRequestsForCommits && !!repo.token;
+  }
+
+  private supportsCheckOverlay({ provider, repo }: DetectedForge) {
+    return !!provider.getCheckStatesForCommits && !!repo.token;
+  }
+
+  /**
+   * Look up pull requests for many commits (the graph overlay), passing
+   * them to `onBatch` as the forge answers
+   */
+  async streamPullRequests(
+    detected: DetectedForge,
+    hashes: string[],
+    onBatch: (batch: CommitPullRequests) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const { provider, repo } = detected;
+    if (!provider.getPullRequestsForCommits) {
+      throw new ApiError(
+        "UNSUPPORTED_OPERATION",
+        `${provider.label} has no batched pull request lookup`,
+      );
+    }
+
+    log.info(
+      `Looking up PRs for ${hashes.length} commit(s) in ${repo.owner}/${repo.repo}`,
+    );
+    await provider.getPullRequestsForCommits(repo, hashes, onBatch, signal);
+  }
+
+  /**
+   * Get a commit's CI checks
+   */
+  async getCommitChecks(
+    { provider, repo }: DetectedForge,
+    hash: string,
+  ): Promise<CommitChecks> {
+    if (!provider.getCommitChecks) {
+      throw new ApiError(
+        "UNSUPPORTED_OPERATION",
+        `CI checks aren't available from ${provider.label}`,
+      );
+    }
+
+    log.info(
+      `Fetching checks for ${repo.owner}/${repo.repo}@${hash.substring(0, 7)}`,
+    );
+    return provider.getCommitChecks(repo, hash);
+  }
+
+  /**
+   * Look up the combined check state of many commits (the graph's status
+   * dots), passing them to `onBatch` as the forge answers
+   */
+  async streamCheckStates(
+    detected: DetectedForge,
+    hashes: string[],
+    onBatch: (batch: CommitCheckStates) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const { provider, repo } = detected;
+    if (!provider.getCheckStatesForCommits) {
+      throw new ApiError(
+        "UNSUPPORTED_OPERATION",
+        `${provider.label} has no batched check lookup`,
+      );
+    }
+
+    log.info(
+      `Looking up checks for ${hashes.length} commit(s) in ${repo.owner}/${repo.repo}`,
+    );
+    await provider.getCheckStatesForCommits(repo, hashes, onBatch, signal);
+  }
+
+  async getRateLimitStatus(
+    detected: DetectedForge,
+  ): Promise<ForgeRateLimit | null> {
+    return detected.provider.getRateLimitStatus(detected.repo);
+  }
+
+  /**
+   * Get combined forge info for a commit (with optional progress callback)
+   */
+  async getCommitInfo(
+    { provider, repo }: DetectedForge,
+    commit: { hash: string; message: string; body: string },
+    onProgress?: ProgressCallback,
+  ): Promise<CommitForgeInfo> {
+    const shortHash = commit.hash.substring(0, 7);
+    const label = provider.label;
+    log.info(`Fetching ${label} info for commit ${shortHash}`);
+    onProgress?.(
+      "init",
+      "start",
+      `Starting ${label} lookup for ${shortHash}...`,
+    );
+
+    // Step 1: Fetch pull (merge) requests
+    onProgress?.("prs", "start", "Searching for pull requests...");
+    log.debug(`Looking up PRs for ${repo.owner}/${repo.repo}@${shortHash}`);
+
+    let pullRequests: PullRequest[] = [];
+    try {
+      pullRequests = await provider.getPullRequestsForCommit(repo, commit.hash);
+      if (pullRequests.length > 0) {
+        log.success(
+          `Found ${pullRequests.length} PR(s) for commit ${shortHash}`,
+        );
+        onProgress?.(
+          "prs",
+          "success",
+          `Found ${pullRequests.length} pull request(s)`,
+          { count: pullRequests.length },
+        );
+      } else {
+        log.info(`No PRs found for commit ${shortHash}`);
+        onProgress?.("prs", "info", "No pull requests found");
+      }
+    } catch (err) {
+      log.error(`Failed to fetch PRs: ${err}`);
+      onProgress?.("prs", "error", `Failed to fetch PRs: ${err}`);
+    }
+
+    // Step 2: Parse issue references
+    onProgress?.(
+      "parse",
+      "start",
+      "Parsing commit message for issue references...",
+    );
+    const issueNumbers = parseIssueReferences(commit.message, commit.body);
+    if (issueNumbers.length > 0) {
+      log.info(
+        `Found ${issueNumbers.length} issue reference(s): #${issueNumbers.join(", #")}`,
+      );
+      onProgress?.(
+        "parse",
+        "success",
+        `Found ${issueNumbers.length} issue reference(s): #${issueNumbers.join(", #")}`,
+        { issues: issueNumbers },
+      );
+    } else {
+      log.debug("No issue references found in commit message");
+      onProgress?.("parse", "info", "No issue references in commit message");
+    }
+
+    // Step 3: Fetch issue details
+    const linkedIssues: Issue[] = [];
+    if (issueNumbers.length > 0) {
+      onProgress?.(
+        "issues",
+        "start",
+        `Fetching details for ${issueNumbers.length} issue(s)...`,
+      );
+
+      for (let i = 0; i < issueNumbers.length; i++) {
+        const issueNum = issueNumbers[i];
+        onProgress?.(
+          "issues",
+          "info",
+          `Fetching issue #${issueNum} (${i + 1}/${issueNumbers.length})...`,
+          { current: i + 1, total: issueNumbers.length },
+        );
+
+        try {
+          const issue = await provider.getIssue(repo, issueNum);
+          if (issue) {
+            linkedIssues.push(issue);
+            log.success(
+              `Fetched issue #${issueNum}: "${issue.title.substring(0, 40)}..."`,
+            );
+          }
+        } catch (err) {
+          log.warn(`Could not fetch issue #${issueNum}: ${err}`);
+        }
+      }
+
+      onProgress?.(
+        "issues",
+        "success",
+        `Loaded ${linkedIssues.length} issue(s)`,
+        { count: linkedIssues.length },
+      );
+    }
+
+    // Complete
+    log.success(
+      `${label} lookup complete: ${pullRequests.length} PR(s), ${linkedIssues.length} issue(s)`,
+    );
+    onProgress?.("complete", "success", `${label} info loaded`, {
+      pullRequests: pullRequests.length,
+      linkedIssues: linkedIssues.length,
+    });
+
+    return { pullRequests, linkedIssues };
+  }
+}
+
+export const forgeService = new ForgeService();
@@ -0,0 +1,156 @@
+// Bitbucket Cloud API provider: pull requests, issues and repository data
+import {
+  CloneCredentials,
+  createForgeLog,
+  fetchForgeApi,
+  ForgeProvider,
+  ForgeRateLimit,
+  ForgeRepo,
+  ForgeRepoMetadata,
+  Issue,
+  LRUCache,
+  PullRequest,
+  repoCacheKey,
+} from "./provider.js";
+
+const log = createForgeLog("Bitbucket");
+
+// Issue states that still need work; the rest (resolved, invalid,
+// duplicate, wontfix, closed) count as closed
+const OPEN_ISSUE_STATES = ["new", "open", "on hold"];
+
+class BitbucketProvider implements ForgeProvider {
+  readonly type = "bitbucket" as const;
+  readonly label = "Bitbucket";
+
+  private prCache = new LRUCache<PullRequest[]>();
+  private issueCache = new LRUCache<Issue>();
+
+  /**
+   * Parse workspace/repository from a remote's path
+   */
+  parseRepoPath(path: string): { owner: string; repo: string } | null {
+    const match = path.match(/^([^/]+)\/([^/]+)$/);
+    return match ? { owner: match[1], repo: match[2] } : null;
+  }
+
+  // Only Bitbucket Cloud is supported; its API host is in the registry
+  defaultApiBase(origin: string): string {
+    return `${origin}/2.0`;
+  }
+
+  cloneCredentials(token: string): CloneCredentials {
+    // "username:app_password" pairs, or access tokens
+    const separator = token.indexOf(":");
+    return separator >= 0
+      ? {
+          username: token.slice(0, separator),
+          password: token.slice(separator + 1),
+        }
+      : { username: "x-token-auth", password: token };
+  }
+
+  private fetchBitbucket<T>(repo: ForgeRepo, path: string): Promise<T | null> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (repo.token) {
+      // "username:app_password" pairs use basic auth, access tokens bearer auth
+      headers["Authorization"] = repo.token.includes(":")
+        ? `Basic ${Buffer.from(repo.token).toString("base64")}`
+        : `Bearer ${repo.token}`;
+    }
+
+    return fetchForgeApi<T>(
+      `${repo.apiBase}/repositories/${repo.owner}/${repo.repo}${path}`,
+      {
+        label: this.label,
+        log,
+        headers,
+        // Bitbucket answers 429 without saying how much is left
+        readRateLimit: () => null,
+      },
+    );
+  }
+
+  /**
+   * Get pull requests that contain a specific commit. Bitbucket indexes
+   * them lazily and answers 202 with no values until it has.
+   */
+  async getPullRequestsForCommit(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<PullRequest[]> {
+    const cacheKey = repoCacheKey(repo, commitSha);
+    const cached = this.prCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.fetchBitbucket<any>(
+      repo,
+      `/commit/${commitSha}/pullrequests`,
+    );
+
+    // Not indexed yet (202) or not visible (404): ask again next time
+    if (!data?.values) return [];
+
+    const prs: PullRequest[] = data.values.map((pr: any) => ({
+      number: pr.id,
+      title: pr.title,
+      state:
+        pr.state === "MERGED"
+          ? "merged"
+          : pr.state === "OPEN"
+            ? "open"
+            : "closed", // DECLINED, SUPERSEDED
+      url: pr.links?.html?.href,
+      author: pr.author?.nickname || pr.author?.display_name || "unknown",
+      createdAt: pr.created_on,
+    }));
+
+    this.prCache.set(cacheKey, prs);
+    return prs;
+  }
+
+  /**
+   * Fetch issue details (null when the issue tracker is disabled)
+   */
+  async getIssue(repo: ForgeRepo, issueNumber: number): Promise<Issue | null> {
+    const cacheKey = repoCacheKey(repo, "issue", String(issueNumber));
+    const cached = this.issueCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.fetchBitbucket<any>(repo, `/issues/${issueNumber}`);
+
+    if (!data) return null;
+
+    const issue: Issue = {
+      number: data.id,
+      title: data.title,
+      state: OPEN_ISSUE_STATES.includes(data.state) ? "open" : "closed",
+      url: data.links?.html?.href,
+      // Bitbucket has no labels; kind and component play their part
+      labels: [data.kind, data.component?.name].filter(Boolean),
+    };
+
+    this.issueCache.set(cacheKey, issue);
+    return issue;
+  }
+
+  async getRepoMetadata(repo: ForgeRepo): Promise<ForgeRepoMetadata | null> {
+    const data = await this.fetchBitbucket<any>(repo, "");
+    if (!data) return null;
+
+    return {
+      description: data.description || null,
+      defaultBranch: data.mainbranch?.name ?? null,
+      stars: null, // Bitbucket has no stars
+      forks: null,
+      visibility: data.is_private ? "private" : "public",
+    };
+  }
+
+  // Bitbucket doesn't report remaining requests
+  async getRateLimitStatus(): Promise<ForgeRateLimit | null> {
+    return null;
+  }
+}
+
+export const bitbucketProvider = new BitbucketProvider();
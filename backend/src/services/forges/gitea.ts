@@ -0,0 +1,145 @@
+// Gitea API provider (also serves Forgejo, e.g. Codeberg, which keeps the
+// same API): pull requests, issues and repository data
+import {
+  CloneCredentials,
+  createForgeLog,
+  fetchForgeApi,
+  ForgeProvider,
+  ForgeRateLimit,
+  ForgeRepo,
+  ForgeRepoMetadata,
+  Issue,
+  LRUCache,
+  PullRequest,
+  repoCacheKey,
+} from "./provider.js";
+
+const log = createForgeLog("Gitea");
+
+class GiteaProvider implements ForgeProvider {
+  readonly type = "gitea" as const;
+  readonly label = "Gitea";
+
+  private prCache = new LRUCache<PullRequest[]>();
+  private issueCache = new LRUCache<Issue>();
+
+  /**
+   * Parse owner/repo from a remote's path
+   */
+  parseRepoPath(path: string): { owner: string; repo: string } | null {
+    const match = path.match(/^([^/]+)\/([^/]+)$/);
+    return match ? { owner: match[1], repo: match[2] } : null;
+  }
+
+  defaultApiBase(origin: string): string {
+    return `${origin}/api/v1`;
+  }
+
+  cloneCredentials(token: string): CloneCredentials {
+    // Gitea takes the token as username
+    return { username: token, password: "" };
+  }
+
+  private fetchGitea<T>(repo: ForgeRepo, path: string): Promise<T | null> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (repo.token) {
+      headers["Authorization"] = `token ${repo.token}`;
+    }
+
+    return fetchForgeApi<T>(
+      `${repo.apiBase}/repos/${repo.owner}/${repo.repo}${path}`,
+      {
+        label: this.label,
+        log,
+        headers,
+        // Instances don't report rate limits
+        readRateLimit: () => null,
+      },
+    );
+  }
+
+  /**
+   * Get the pull request that merged a commit. Gitea only tracks the
+   * merging one, and instances older than 1.18 lack the endpoint (404).
+   */
+  async getPullRequestsForCommit(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<PullRequest[]> {
+    const cacheKey = repoCacheKey(repo, commitSha);
+    const cached = this.prCache.get(cacheKey);
+    if (cached) return cached;
+
+    const pr = await this.fetchGitea<any>(repo, `/commits/${commitSha}/pull`);
+
+    // A 404 may only mean the repository is private and no token is set yet,
+    // so it isn't cached
+    if (!pr) return [];
+
+    const prs: PullRequest[] = [
+      {
+        number: pr.number,
+        title: pr.title,
+        state: pr.merged ? "merged" : (pr.state as "open" | "closed"),
+        url: pr.html_url,
+        author: pr.user?.login || "unknown",
+        createdAt: pr.created_at,
+        mergedAt: pr.merged_at || undefined,
+      },
+    ];
+
+    this.prCache.set(cacheKey, prs);
+    return prs;
+  }
+
+  /**
+   * Fetch issue details
+   */
+  async getIssue(repo: ForgeRepo, issueNumber: number): Promise<Issue | null> {
+    const cacheKey = repoCacheKey(repo, "issue", String(issueNumber));
+    const cached = this.issueCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.fetchGitea<any>(repo, `/issues/${issueNumber}`);
+
+    if (!data) return null;
+
+    // Skip pull requests (they share the issue numbering)
+    if (data.pull_request) return null;
+
+    const issue: Issue = {
+      number: data.number,
+      title: data.title,
+      state: data.state as "open" | "closed",
+      url: data.html_url,
+      labels: data.labels?.map((l: any) => l.name) || [],
+    };
+
+    this.issueCache.set(cacheKey, issue);
+    return issue;
+  }
+
+  async getRepoMetadata(repo: ForgeRepo): Promise<ForgeRepoMetadata | null> {
+    const data = await this.fetchGitea<any>(repo, "");
+    if (!data) return null;
+
+    return {
+      description: data.description || null,
+      defaultBranch: data.default_branch ?? null,
+      stars: data.stars_count ?? null,
+      forks: data.forks_count ?? null,
+      visibility: data.private
+        ? "private"
+        : data.internal
+          ? "internal"
+          : "public",
+    };
+  }
+
+  // Gitea doesn't expose rate limits
+  async getRateLimitStatus(): Promise<ForgeRateLimit | null> {
+    return null;
+  }
+}
+
+export const giteaProvider = new GiteaProvider();
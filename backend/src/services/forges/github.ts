@@ -0,0 +1,456 @@
+// GitHub API provider for fetching PR, issue and CI check information
+import { ApiError } from "../../errors.js";
+import {
+  CheckState,
+  CloneCredentials,
+  combineCheckStates,
+  CommitCheck,
+  CommitChecks,
+  CommitCheckStates,
+  CommitPullRequests,
+  createForgeLog,
+  fetchForgeApi,
+  ForgeProvider,
+  ForgeRateLimit,
+  ForgeRepo,
+  ForgeRepoMetadata,
+  Issue,
+  LRUCache,
+  PullRequest,
+  readRateLimitHeaders,
+  repoCacheKey,
+} from "./provider.js";
+
+const log = createForgeLog("GitHub");
+
+// Commits per GraphQL query; each costs about one point of the hourly 5000
+const GRAPHQL_BATCH_SIZE = 250;
+// Pull requests listed per commit; more is rare outside of backports
+const GRAPHQL_PRS_PER_COMMIT = 5;
+
+// Check run conclusions that mark a commit as broken
+const FAILED_CONCLUSIONS = [
+  "failure",
+  "timed_out",
+  "action_required",
+  "startup_failure",
+];
+
+// statusCheckRollup states; EXPECTED is a required check yet to report
+const ROLLUP_STATES: Record<string, CheckState> = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+  ERROR: "failure",
+  PENDING: "pending",
+  EXPECTED: "pending",
+};
+
+// A field selection looked up on many commits, and how to read and cache it
+interface CommitQuery<T> {
+  what: string; // What's looked up, for messages
+  fields: string; // Selected on each Commit
+  cache: LRUCache<T>;
+  read: (commit: any) => T;
+  keep?: (value: T) => boolean; // Whether to cache a value of a known commit
+}
+
+class GitHubProvider implements ForgeProvider {
+  readonly type = "github" as const;
+  readonly label = "GitHub";
+
+  private prCache = new LRUCache<PullRequest[]>();
+  private issueCache = new LRUCache<Issue>();
+  private checksCache = new LRUCache<CommitChecks>();
+  private checkStateCache = new LRUCache<CheckState | null>();
+
+  /**
+   * Parse owner/repo from a remote's path
+   */
+  parseRepoPath(path: string): { owner: string; repo: string } | null {
+    // Note: Repo names can contain dots (e.g., username.github.io)
+    const match = path.match(/^([^/]+)\/([^/]+)$/);
+    return match ? { owner: match[1], repo: match[2] } : null;
+  }
+
+  // GitHub Enterprise Server; github.com's API host is in the registry
+  defaultApiBase(origin: string): string {
+    return `${origin}/api/v3`;
+  }
+
+  cloneCredentials(token: string): CloneCredentials {
+    // GitHub uses TOKEN as username
+    return { username: token, password: "" };
+  }
+
+  // Shared by single and batched lookups, so each fills the other's cache
+  private commitKey(repo: ForgeRepo, commitSha: string): string {
+    return repoCacheKey(repo, commitSha);
+  }
+
+  private fetchGitHub<T>(
+    repo: ForgeRepo,
+    url: string,
+    body?: unknown,
+  ): Promise<T | null> {
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+    if (repo.token) {
+      headers["Authorization"] = `Bearer ${repo.token}`;
+    }
+
+    return fetchForgeApi<T>(url, {
+      label: this.label,
+      log,
+      headers,
+      body,
+      readRateLimit: (response) =>
+        readRateLimitHeaders(response, "X-RateLimit"),
+    });
+  }
+
+  /**
+   * Get pull requests that contain a specific commit
+   */
+  async getPullRequestsForCommit(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<PullRequest[]> {
+    const cacheKey = this.commitKey(repo, commitSha);
+    const cached = this.prCache.get(cacheKey);
+    if (cached) return cached;
+
+    const url = `${repo.apiBase}/repos/${repo.owner}/${repo.repo}/commits/${commitSha}/pulls`;
+    const data = await this.fetchGitHub<any[]>(repo, url);
+
+    if (!data) return [];
+
+    const prs: PullRequest[] = data.map((pr: any) => ({
+      number: pr.number,
+      title: pr.title,
+      state: pr.merged_at ? "merged" : (pr.state as "open" | "closed"),
+      url: pr.html_url,
+      author: pr.user?.login || "unknown",
+      createdAt: pr.created_at,
+      mergedAt: pr.merged_at || undefined,
+    }));
+
+    this.prCache.set(cacheKey, prs);
+    return prs;
+  }
+
+  /**
+   * Get pull requests for many commits through GraphQL's
+   * `associatedPullRequests`
+   */
+  async getPullRequestsForCommits(
+    repo: ForgeRepo,
+    commitShas: string[],
+    onBatch: (batch: CommitPullRequests) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.queryCommitBatches(
+      repo,
+      commitShas,
+      {
+        what: "pull requests",
+        fields: `associatedPullRequests(first: ${GRAPHQL_PRS_PER_COMMIT}) { nodes { number title state url createdAt mergedAt author { login } } }`,
+        cache: this.prCache,
+        read: (commit): PullRequest[] =>
+          (commit?.associatedPullRequests?.nodes ?? []).map((pr: any) => ({
+            number: pr.number,
+            title: pr.title,
+            state: pr.state.toLowerCase() as PullRequest["state"],
+            url: pr.url,
+            author: pr.author?.login || "unknown",
+            createdAt: pr.createdAt,
+            mergedAt: pr.mergedAt || undefined,
+          })),
+      },
+      onBatch,
+      signal,
+    );
+  }
+
+  /**
+   * Get the combined check state of many commits through GraphQL's
+   * `statusCheckRollup`, which covers both check runs and commit statuses
+   */
+  async getCheckStatesForCommits(
+    repo: ForgeRepo,
+    commitShas: string[],
+    onBatch: (batch: CommitCheckStates) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.queryCommitBatches(
+      repo,
+      commitShas,
+      {
+        what: "CI checks",
+        fields: "statusCheckRollup { state }",
+        cache: this.checkStateCache,
+        // Null rollup: no checks ran
+        read: (commit) =>
+          commit?.statusCheckRollup
+            ? (ROLLUP_STATES[commit.statusCheckRollup.state] ?? "neutral")
+            : null,
+        // Running checks are looked up again next time
+        keep: (state) => state !== "pending",
+      },
+      onBatch,
+      signal,
+    );
+  }
+
+  /**
+   * Look up a field selection on many commits, GRAPHQL_BATCH_SIZE commits per
+   * query. Cached commits are reported first. Stops with RATE_LIMITED when
+   * the next query would exceed what's left of the rate limit.
+   */
+  private async queryCommitBatches<T>(
+    repo: ForgeRepo,
+    commitShas: string[],
+    { what, fields, cache, read, keep }: CommitQuery<T>,
+    onBatch: (batch: Record<string, T>) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    // GitHub's GraphQL API doesn't answer anonymous requests
+    if (!repo.token) {
+      throw new ApiError(
+        "AUTH_REQUIRED",
+        `Looking up ${what} for many commits needs a GitHub token.`,
+      );
+    }
+
+    const cached: Record<string, T> = {};
+    const pending: string[] = [];
+    for (const sha of commitShas) {
+      const value = cache.get(this.commitKey(repo, sha));
+      if (value !== undefined) cached[sha] = value;
+      else pending.push(sha);
+    }
+    if (Object.keys(cached).length > 0) onBatch(cached);
+
+    for (let i = 0; i < pending.length; i += GRAPHQL_BATCH_SIZE) {
+      if (signal?.aborted) return;
+
+      const shas = pending.slice(i, i + GRAPHQL_BATCH_SIZE);
+      const data = await this.queryCommits(repo, shas, fields);
+
+      const batch: Record<string, T> = {};
+      shas.forEach((sha, index) => {
+        // Null for commits GitHub doesn't have (e.g. not pushed yet); those
+        // are looked up again once they may have been pushed
+        const commit = data.repository[`c${index}`];
+        const value = read(commit);
+        if (commit && (!keep || keep(value))) {
+          cache.set(this.commitKey(repo, sha), value);
+        }
+        batch[sha] = value;
+      });
+      onBatch(batch);
+
+      const { cost, remaining, resetAt } = data.rateLimit ?? {};
+      const more = i + GRAPHQL_BATCH_SIZE < pending.length;
+      if (more && typeof remaining === "number" && remaining < cost) {
+        log.error(`Rate limit nearly exhausted (${remaining} points left)`);
+        throw new ApiError(
+          "RATE_LIMITED",
+          `${this.label} rate limit exceeded. Resets at ${new Date(resetAt).toLocaleTimeString()}.`,
+          { resetAt },
+        );
+      }
+    }
+  }
+
+  private async queryCommits(repo: ForgeRepo, shas: string[], fields: string) {
+    // One aliased field per commit; hashes are validated hex, safe to inline
+    const commits = shas
+      .map(
+        (sha, index) =>
+          `c${index}: object(expression: "${sha}") { ... on Commit { ${fields} } }`,
+      )
+      .join("\n");
+    const query = `query($owner: String!, $name: String!) {
+      repository(owner: $owner, name: $name) {
+        ${commits}
+      }
+      rateLimit { cost remaining resetAt }
+    }`;
+
+    const response = await this.fetchGitHub<{ data?: any; errors?: any[] }>(
+      repo,
+      this.graphqlUrl(repo),
+      { query, variables: { owner: repo.owner, name: repo.repo } },
+    );
+    // GraphQL reports failures in the body with a 200; a repository the
+    // token can't see comes back as null with a NOT_FOUND error
+    if (!response?.data?.repository) {
+      const message = response?.errors?.[0]?.message ?? "no data";
+      log.error(`GraphQL query failed: ${message}`);
+      throw new ApiError("REMOTE_ERROR", `${this.label} API error: ${message}`);
+    }
+    return response.data;
+  }
+
+  // api.github.com/graphql, or <instance>/api/graphql on GitHub Enterprise
+  private graphqlUrl(repo: ForgeRepo): string {
+    return `${repo.apiBase.replace(/\/api\/v3$/, "/api")}/graphql`;
+  }
+
+  /**
+   * Get a commit's check runs, named after the Actions workflow they ran in,
+   * and its commit statuses (the latest per context, as the combined status
+   * lists them)
+   */
+  async getCommitChecks(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<CommitChecks> {
+    const cacheKey = this.commitKey(repo, commitSha);
+    const cached = this.checksCache.get(cacheKey);
+    if (cached) return cached;
+
+    const base = `${repo.apiBase}/repos/${repo.owner}/${repo.repo}`;
+    const [checkRuns, workflowRuns, status] = await Promise.all([
+      this.fetchGitHub<any>(
+        repo,
+        `${base}/commits/${commitSha}/check-runs?per_page=100`,
+      ),
+      this.fetchGitHub<any>(
+        repo,
+        `${base}/actions/runs?head_sha=${commitSha}&per_page=100`,
+      ),
+      this.fetchGitHub<any>(repo, `${base}/commits/${commitSha}/status`),
+    ]);
+
+    // Actions jobs belong to the workflow run sharing their check suite
+    const workflows = new Map<number, string>();
+    for (const run of workflowRuns?.workflow_runs ?? []) {
+      workflows.set(run.check_suite_id, run.name);
+    }
+
+    const checks: CommitCheck[] = [
+      ...(checkRuns?.check_runs ?? []).map((run: any): CommitCheck => {
+        const completed = run.status === "completed";
+        return {
+          name: run.name,
+          kind: "check",
+          workflow: workflows.get(run.check_suite?.id) ?? null,
+          state: !completed
+            ? "pending"
+            : run.conclusion === "success"
+              ? "success"
+              : FAILED_CONCLUSIONS.includes(run.conclusion)
+                ? "failure"
+                : "neutral",
+          conclusion: completed ? run.conclusion : run.status,
+          url: run.html_url ?? run.details_url ?? null,
+          startedAt: run.started_at ?? null,
+          completedAt: run.completed_at ?? null,
+          durationSeconds:
+            run.started_at && run.completed_at
+              ? Math.round(
+                  (Date.parse(run.completed_at) - Date.parse(run.started_at)) /
+                    1000,
+                )
+              : null,
+        };
+      }),
+      ...(status?.statuses ?? []).map(
+        (commitStatus: any): CommitCheck => ({
+          name: commitStatus.context,
+          kind: "status",
+          workflow: null,
+          state:
+            commitStatus.state === "error" ? "failure" : commitStatus.state,
+          conclusion: commitStatus.state,
+          url: commitStatus.target_url || null,
+          startedAt: null, // Statuses only record their latest change
+          completedAt:
+            commitStatus.state === "pending" ? null : commitStatus.updated_at,
+          durationSeconds: null,
+        }),
+      ),
+    ];
+
+    const result: CommitChecks = {
+      state: combineCheckStates(checks.map((check) => check.state)),
+      checks,
+    };
+    // Running checks are looked up again next time
+    if (result.state !== "pending") {
+      this.checksCache.set(cacheKey, result);
+      this.checkStateCache.set(cacheKey, result.state);
+    }
+    return result;
+  }
+
+  /**
+   * Fetch issue details
+   */
+  async getIssue(repo: ForgeRepo, issueNumber: number): Promise<Issue | null> {
+    const cacheKey = repoCacheKey(repo, "issue", String(issueNumber));
+    const cached = this.issueCache.get(cacheKey);
+    if (cached) return cached;
+
+    const url = `${repo.apiBase}/repos/${repo.owner}/${repo.repo}/issues/${issueNumber}`;
+    const data = await this.fetchGitHub<any>(repo, url);
+
+    if (!data) return null;
+
+    // Skip pull requests (GitHub API returns PRs as issues too)
+    if (data.pull_request) return null;
+
+    const issue: Issue = {
+      number: data.number,
+      title: data.title,
+      state: data.state as "open" | "closed",
+      url: data.html_url,
+      labels: data.labels?.map((l: any) => l.name) || [],
+    };
+
+    this.issueCache.set(cacheKey, issue);
+    return issue;
+  }
+
+  async getRepoMetadata(repo: ForgeRepo): Promise<ForgeRepoMetadata | null> {
+    const data = await this.fetchGitHub<any>(
+      repo,
+      `${repo.apiBase}/repos/${repo.owner}/${repo.repo}`,
+    );
+    if (!data) return null;
+
+    return {
+      description: data.description ?? null,
+      defaultBranch: data.default_branch ?? null,
+      stars: data.stargazers_count ?? 0,
+      forks: data.forks_count ?? 0,
+      visibility: data.visibility ?? (data.private ? "private" : "public"),
+    };
+  }
+
+  /**
+   * Get rate limit status
+   */
+  async getRateLimitStatus(repo: ForgeRepo): Promise<ForgeRateLimit | null> {
+    try {
+      const data = await this.fetchGitHub<any>(
+        repo,
+        `${repo.apiBase}/rate_limit`,
+      );
+      if (!data) return null;
+
+      return {
+        remaining: data.rate.remaining,
+        limit: data.rate.limit,
+        resetAt: new Date(data.rate.reset * 1000).toISOString(),
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const githubProvider = new GitHubProvider();
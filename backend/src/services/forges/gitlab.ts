@@ -0,0 +1,172 @@
+// GitLab API provider: merge requests, issues and project data for gitlab.com
+// and self-hosted instances
+import {
+  CloneCredentials,
+  createForgeLog,
+  fetchForgeApi,
+  ForgeProvider,
+  ForgeRateLimit,
+  ForgeRepo,
+  ForgeRepoMetadata,
+  Issue,
+  LRUCache,
+  PullRequest,
+  readRateLimitHeaders,
+  repoCacheKey,
+} from "./provider.js";
+
+const log = createForgeLog("GitLab");
+
+class GitLabProvider implements ForgeProvider {
+  readonly type = "gitlab" as const;
+  readonly label = "GitLab";
+
+  private mrCache = new LRUCache<PullRequest[]>();
+  private issueCache = new LRUCache<Issue>();
+  // GitLab has no rate limit endpoint; remember what the last response said
+  private rateLimits = new Map<string, ForgeRateLimit>();
+
+  /**
+   * Parse the project path from a remote's path. Projects can live in
+   * nested groups, so everything before the last segment is the owner.
+   */
+  parseRepoPath(path: string): { owner: string; repo: string } | null {
+    const segments = path.split("/");
+    if (segments.length < 2 || segments.some((segment) => !segment)) {
+      return null;
+    }
+    return {
+      owner: segments.slice(0, -1).join("/"),
+      repo: segments[segments.length - 1],
+    };
+  }
+
+  defaultApiBase(origin: string): string {
+    return `${origin}/api/v4`;
+  }
+
+  cloneCredentials(token: string): CloneCredentials {
+    // GitLab uses oauth2:TOKEN format
+    return { username: "oauth2", password: token };
+  }
+
+  private fetchGitLab<T>(repo: ForgeRepo, path: string): Promise<T | null> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (repo.token) {
+      headers["PRIVATE-TOKEN"] = repo.token;
+    }
+
+    return fetchForgeApi<T>(`${repo.apiBase}${path}`, {
+      label: this.label,
+      log,
+      headers,
+      readRateLimit: (response) => {
+        const rateLimit = readRateLimitHeaders(response, "RateLimit");
+        if (rateLimit) this.rateLimits.set(repo.host, rateLimit);
+        return rateLimit;
+      },
+    });
+  }
+
+  // Projects are addressed by their URL-encoded full path
+  private projectPath(repo: ForgeRepo): string {
+    return `/projects/${encodeURIComponent(`${repo.owner}/${repo.repo}`)}`;
+  }
+
+  /**
+   * Get merge requests that contain a specific commit
+   */
+  async getPullRequestsForCommit(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<PullRequest[]> {
+    const cacheKey = repoCacheKey(repo, commitSha);
+    const cached = this.mrCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.fetchGitLab<any[]>(
+      repo,
+      `${this.projectPath(repo)}/repository/commits/${commitSha}/merge_requests`,
+    );
+
+    if (!data) return [];
+
+    const mrs: PullRequest[] = data.map((mr: any) => ({
+      number: mr.iid,
+      title: mr.title,
+      state:
+        mr.state === "merged"
+          ? "merged"
+          : mr.state === "opened"
+            ? "open"
+            : "closed", // closed, locked
+      url: mr.web_url,
+      author: mr.author?.username || "unknown",
+      createdAt: mr.created_at,
+      mergedAt: mr.merged_at || undefined,
+    }));
+
+    this.mrCache.set(cacheKey, mrs);
+    return mrs;
+  }
+
+  /**
+   * Fetch issue details by project-level number (iid)
+   */
+  async getIssue(repo: ForgeRepo, issueNumber: number): Promise<Issue | null> {
+    const cacheKey = repoCacheKey(repo, "issue", String(issueNumber));
+    const cached = this.issueCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.fetchGitLab<any>(
+      repo,
+      `${this.projectPath(repo)}/issues/${issueNumber}`,
+    );
+
+    if (!data) return null;
+
+    const issue: Issue = {
+      number: data.iid,
+      title: data.title,
+      state: data.state === "opened" ? "open" : "closed",
+      url: data.web_url,
+      // Plain names, or objects with `with_labels_details`
+      labels:
+        data.labels?.map((l: any) => (typeof l === "string" ? l : l.name)) ||
+        [],
+    };
+
+    this.issueCache.set(cacheKey, issue);
+    return issue;
+  }
+
+  async getRepoMetadata(repo: ForgeRepo): Promise<ForgeRepoMetadata | null> {
+    const data = await this.fetchGitLab<any>(repo, this.projectPath(repo));
+    if (!data) return null;
+
+    return {
+      description: data.description || null,
+      defaultBranch: data.default_branch ?? null,
+      stars: data.star_count ?? 0,
+      forks: data.forks_count ?? 0,
+      visibility: data.visibility ?? null,
+    };
+  }
+
+  /**
+   * Get rate limit status, as reported by the instance's RateLimit headers.
+   * Makes a request first if none has been made to the host yet.
+   */
+  async getRateLimitStatus(repo: ForgeRepo): Promise<ForgeRateLimit | null> {
+    if (!this.rateLimits.has(repo.host)) {
+      try {
+        await this.fetchGitLab<any>(repo, this.projectPath(repo));
+      } catch {
+        return null;
+      }
+    }
+    return this.rateLimits.get(repo.host) ?? null;
+  }
+}
+
+export const gitlabProvider = new GitLabProvider();
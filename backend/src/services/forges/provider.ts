@@ -0,0 +1,414 @@
+// What every forge (GitHub, GitLab, Gitea, Bitbucket) integration provides, and the HTTP,
+// caching and logging helpers they share
+import chalk from "chalk";
+import { ApiError } from "../../errors.js";
+
+export const FORGE_TYPES = ["github", "gitlab", "gitea", "bitbucket"] as const;
+
+export type ForgeType = (typeof FORGE_TYPES)[number];
+
+// A repository on a forge, as parsed from a remote URL
+export interface ForgeRepo {
+  forge: ForgeType;
+  host: string; // May include a port
+  owner: string; // User, organization, workspace or (GitLab) group path
+  repo: string;
+  apiBase: string; // REST API root, without trailing slash
+  webUrl: string;
+  token?: string; // Credentials for the host, if any are configured
+}
+
+// Username and password to embed in a clone URL
+export interface CloneCredentials {
+  username: string;
+  password: string;
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  state: "open" | "closed" | "merged";
+  url: string;
+  author: string;
+  createdAt: string;
+  mergedAt?: string;
+}
+
+export interface Issue {
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  url: string;
+  labels: string[];
+}
+
+export interface CommitForgeInfo {
+  pullRequests: PullRequest[];
+  linkedIssues: Issue[];
+}
+
+export interface ForgeRepoMetadata {
+  description: string | null;
+  defaultBranch: string | null;
+  stars: number | null; // Null where the forge has no such thing
+  forks: number | null;
+  visibility: string | null; // public, private, internal
+}
+
+export interface ForgeRateLimit {
+  remaining: number;
+  limit: number;
+  resetAt: string;
+}
+
+// Pull requests by commit hash, as a batch lookup reports them
+export type CommitPullRequests = Record<string, PullRequest[]>;
+
+// Outcome of a CI check; neutral covers skipped, cancelled and the like
+export type CheckState = "success" | "failure" | "pending" | "neutral";
+
+// A check run (e.g. a GitHub Actions job) or a commit status
+export interface CommitCheck {
+  name: string;
+  kind: "check" | "status";
+  workflow: string | null; // Actions workflow the job ran in
+  state: CheckState;
+  conclusion: string | null; // The forge's own word, e.g. "timed_out"
+  url: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null; // Null until the check has finished
+}
+
+export interface CommitChecks {
+  state: CheckState | null; // Combined over all checks; null if there are none
+  checks: CommitCheck[];
+}
+
+// Combined check state by commit hash, as a batch lookup reports them
+export type CommitCheckStates = Record<string, CheckState | null>;
+
+// Progress callback type for streaming updates
+export type ProgressCallback = (
+  step: string,
+  status: "start" | "success" | "error" | "info",
+  message: string,
+  data?: any,
+) => void;
+
+/**
+ * One forge's API. Which hosts run which forge is up to the host registry;
+ * providers understand the forge's repository paths and translate its pull
+ * requests (merge requests on GitLab), issues and project data into the
+ * shared shapes above.
+ */
+export interface ForgeProvider {
+  readonly type: ForgeType;
+  readonly label: string; // Name shown to people, e.g. "GitLab"
+
+  // Owner and repository from the path of a remote URL on one of its hosts
+  parseRepoPath(path: string): { owner: string; repo: string } | null;
+  // API root of an instance served at `origin`, unless the registry sets one
+  defaultApiBase(origin: string): string;
+  cloneCredentials(token: string): CloneCredentials;
+
+  getPullRequestsForCommit(
+    repo: ForgeRepo,
+    commitSha: string,
+  ): Promise<PullRequest[]>;
+  /**
+   * Pull requests for many commits in few requests, passed to `onBatch` as
+   * they arrive. Only forges with a batch API implement it; stops between
+   * requests once `signal` aborts.
+   */
+  getPullRequestsForCommits?(
+    repo: ForgeRepo,
+    commitShas: string[],
+    onBatch: (batch: CommitPullRequests) => void,
+    signal?: AbortSignal,
+  ): Promise<void>;
+  // CI statuses and check runs of a commit; forges without them leave it out
+  getCommitChecks?(repo: ForgeRepo, commitSha: string): Promise<CommitChecks>;
+  // Combined check states for many commits, like getPullRequestsForCommits
+  getCheckStatesForCommits?(
+    repo: ForgeRepo,
+    commitShas: string[],
+    onBatch: (batch: CommitCheckStates) => void,
+    signal?: AbortSignal,
+  ): Promise<void>;
+  getIssue(repo: ForgeRepo, issueNumber: number): Promise<Issue | null>;
+  getRepoMetadata(repo: ForgeRepo): Promise<ForgeRepoMetadata | null>;
+  getRateLimitStatus(repo: ForgeRepo): Promise<ForgeRateLimit | null>;
+}
+
+// ===== REMOTE URLS =====
+
+/**
+ * Split a remote URL into host and repository path. Handles HTTP(S) (with
+ * or without credentials), ssh:// and scp-like `git@host:path` remotes.
+ * `web` is set for HTTP(S) remotes, whose host includes the web port;
+ * `secure` is false only for plain http:// remotes.
+ */
+export function splitRemoteUrl(
+  url: string,
+): { host: string; path: string; web: boolean; secure: boolean } | null {
+  // Neither user nor host may start with "-", which git reads as an option
+  const scpLike = url.match(/^(?:[\w.][\w.-]*@)?([\w.][\w.-]*):(?!\/\/)(.+)$/);
+  if (scpLike) {
+    return {
+      host: scpLike[1].toLowerCase(),
+      path: trimRepoPath(scpLike[2]),
+      web: false,
+      secure: true,
+    };
+  }
+
+  try {
+    const parsed = new URL(url);
+    if (!["http:", "https:", "ssh:", "git:"].includes(parsed.protocol)) {
+      return null;
+    }
+    // SSH ports aren't web ports
+    const web = parsed.protocol.startsWith("http");
+    return {
+      host: (web ? parsed.host : parsed.hostname).toLowerCase(),
+      path: trimRepoPath(decodeURIComponent(parsed.pathname)),
+      web,
+      secure: parsed.protocol !== "http:",
+    };
+  } catch {
+    return null;
+  }
+}
+
+function trimRepoPath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+}
+
+// ===== ISSUE REFERENCES =====
+
+/**
+ * Parse issue references from commit message and body
+ * Supports: fixes #123, closes #456, resolves #789, etc.
+ */
+export function parseIssueReferences(
+  message: string,
+  body: string = "",
+): number[] {
+  const text = `${message}\n${body}`;
+  const patterns = [
+    // Closing keywords (GitHub and GitLab)
+    /(?:fix(?:es|ed|ing)?|close[sd]?|closing|resolve[sd]?|resolving|implement(?:s|ed|ing)?)\s*#(\d+)/gi,
+    // Simple #number references
+    /(?:^|\s)#(\d+)(?:\s|$|[,.])/gm,
+  ];
+
+  const issues = new Set<number>();
+
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      issues.add(parseInt(match[1], 10));
+    }
+  }
+
+  return Array.from(issues).sort((a, b) => a - b);
+}
+
+// ===== CHECKS =====
+
+/**
+ * Combine the states of a commit's checks the way forges badge a commit:
+ * any failure fails it, then anything still running keeps it pending
+ */
+export function combineCheckStates(states: CheckState[]): CheckState | null {
+  if (states.length === 0) return null;
+  for (const state of ["failure", "pending", "success"] as const) {
+    if (states.includes(state)) return state;
+  }
+  return "neutral";
+}
+
+// ===== HTTP =====
+
+export type ForgeLog = ReturnType<typeof createForgeLog>;
+
+// Logger for one forge's operations
+export function createForgeLog(label: string) {
+  const tag = chalk.gray(`[${label}]`);
+  return {
+    info: (msg: string) => console.log(chalk.blue("ℹ"), tag, msg),
+    success: (msg: string) => console.log(chalk.green("✓"), tag, msg),
+    warn: (msg: string) => console.log(chalk.yellow("⚠"), tag, msg),
+    error: (msg: string) => console.log(chalk.red("✗"), tag, msg),
+    debug: (msg: string) =>
+      console.log(chalk.magenta("●"), tag, chalk.dim(msg)),
+  };
+}
+
+export interface ForgeRequest {
+  label: string;
+  log: ForgeLog;
+  headers: Record<string, string>;
+  body?: unknown; // Sent as JSON in a POST when set
+  // The rate limit the response reports, if the forge sends one
+  readRateLimit: (response: Response) => ForgeRateLimit | null;
+}
+
+/**
+ * GET (or POST, given a body) a forge API URL with error handling and rate
+ * limit awareness. Returns null for 404s; other failures become ApiErrors
+ * (AUTH_REQUIRED, RATE_LIMITED or REMOTE_ERROR).
+ */
+export async function fetchForgeApi<T>(
+  url: string,
+  { label, log, headers, body, readRateLimit }: ForgeRequest,
+): Promise<T | null> {
+  const shortUrl = url.replace(/^https?:\/\/[^/]+/, "");
+  log.debug(`Fetching: ${shortUrl}`);
+  const startTime = Date.now();
+
+  let response: Response;
+  try {
+    response = await fetch(
+      url,
+      body === undefined
+        ? { headers }
+        : {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          },
+    );
+  } catch {
+    log.error(`Network error - cannot reach ${label} API`);
+    throw new ApiError(
+      "REMOTE_ERROR",
+      `Network error: Unable to reach ${label} API`,
+    );
+  }
+  const elapsed = Date.now() - startTime;
+
+  // Log rate limit info
+  const rateLimit = readRateLimit(response);
+  if (rateLimit && rateLimit.limit > 0) {
+    const pct = Math.round((rateLimit.remaining / rateLimit.limit) * 100);
+    log.debug(
+      `Rate limit: ${rateLimit.remaining}/${rateLimit.limit} (${pct}%) remaining`,
+    );
+  }
+
+  if (response.status === 401) {
+    log.error("Authentication failed - invalid token");
+    throw new ApiError(
+      "AUTH_REQUIRED",
+      `${label} authentication failed. Please check your token.`,
+    );
+  }
+
+  if (
+    response.status === 429 ||
+    (response.status === 403 && rateLimit?.remaining === 0)
+  ) {
+    const resetDate = rateLimit
+      ? new Date(rateLimit.resetAt).toLocaleTimeString()
+      : "soon";
+    log.error(`Rate limit exceeded! Resets at ${resetDate}`);
+    throw new ApiError(
+      "RATE_LIMITED",
+      `${label} rate limit exceeded. Resets at ${resetDate}.`,
+      rateLimit ? { resetAt: rateLimit.resetAt } : undefined,
+    );
+  }
+
+  if (response.status === 403) {
+    log.error("Access forbidden");
+    throw new ApiError("AUTH_REQUIRED", `${label} access forbidden.`);
+  }
+
+  if (response.status === 404) {
+    log.debug(`Not found: ${shortUrl} (${elapsed}ms)`);
+    return null;
+  }
+
+  // Accepted but not ready, e.g. Bitbucket still indexing pull requests
+  if (response.status === 202) {
+    log.debug(`Not ready yet: ${shortUrl} (${elapsed}ms)`);
+    return null;
+  }
+
+  if (!response.ok) {
+    log.error(`API error ${response.status}: ${shortUrl}`);
+    throw new ApiError(
+      "REMOTE_ERROR",
+      `${label} API error: ${response.status}`,
+    );
+  }
+
+  log.debug(`Fetched: ${shortUrl} (${elapsed}ms)`);
+  return response.json() as Promise<T>;
+}
+
+// Rate limit from `<prefix>-Remaining/-Limit/-Reset` headers (reset in epoch seconds)
+export function readRateLimitHeaders(
+  response: Response,
+  prefix: string,
+): ForgeRateLimit | null {
+  const remaining = response.headers.get(`${prefix}-Remaining`);
+  const limit = response.headers.get(`${prefix}-Limit`);
+  const reset = response.headers.get(`${prefix}-Reset`);
+  if (remaining === null || limit === null) return null;
+
+  return {
+    remaining: parseInt(remaining, 10),
+    limit: parseInt(limit, 10),
+    resetAt: new Date(
+      reset ? parseInt(reset, 10) * 1000 : Date.now(),
+    ).toISOString(),
+  };
+}
+
+// ===== CACHE =====
+
+// Cache key for data about a repository. Whether a token was sent is part of
+// it: without one, a private repository looks empty or missing.
+export function repoCacheKey(repo: ForgeRepo, ...parts: string[]): string {
+  const auth = repo.token ? "token" : "anonymous";
+  return [repo.host, repo.owner, repo.repo, auth, ...parts].join("/");
+}
+
+// Simple LRU cache for API responses
+export class LRUCache<T> {
+  private cache = new Map<string, { value: T; timestamp: number }>();
+  private maxSize: number;
+  private ttlMs: number;
+
+  constructor(maxSize: number = 1000, ttlMs: number = 5 * 60 * 1000) {
+    this.maxSize = maxSize;
+    this.ttlMs = ttlMs;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.timestamp > this.ttlMs) {
+      this.cache.delete(key);
+      return undefined;
+    }
+
+    // Move to end (most recently used)
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    if (this.cache.size >= this.maxSize) {
+      // Delete oldest entry
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey) this.cache.delete(firstKey);
+    }
+    this.cache.set(key, { value, timestamp: Date.now() });
+  }
+}
@@ -0,0 +1,126 @@
+// Which forge runs on which host, and the credentials to use there
+import { configService, ForgeHost } from "../config.service.js";
+import { bitbucketProvider } from "./bitbucket.js";
+import { giteaProvider } from "./gitea.js";
+import { githubProvider } from "./github.js";
+import { gitlabProvider } from "./gitlab.js";
+import {
+  ForgeProvider,
+  ForgeRepo,
+  ForgeType,
+  splitRemoteUrl,
+} from "./provider.js";
+
+export interface DetectedForge {
+  provider: ForgeProvider;
+  repo: ForgeRepo;
+}
+
+/**
+ * Resolves remote URLs against the configured forge hosts (see
+ * configService.getForgeHosts). Tokens set at runtime take precedence over
+ * configured ones for the same host.
+ */
+class ForgeRegistry {
+  private providers: Record<ForgeType, ForgeProvider> = {
+    github: githubProvider,
+    gitlab: gitlabProvider,
+    gitea: giteaProvider,
+    bitbucket: bitbucketProvider,
+  };
+  private tokens = new Map<string, string>(); // By host
+
+  getProvider(forge: ForgeType): ForgeProvider {
+    return this.providers[forge];
+  }
+
+  async findHost(host: string): Promise<ForgeHost | undefined> {
+    const hosts = await configService.getForgeHosts();
+    return hosts.find((entry) => entry.host === host.toLowerCase());
+  }
+
+  setToken(host: ForgeHost, token: string | null): void {
+    if (token) this.tokens.set(host.host, token);
+    else this.tokens.delete(host.host);
+  }
+
+  getToken(host: ForgeHost): string | undefined {
+    return this.tokens.get(host.host) ?? host.token;
+  }
+
+  /**
+   * Find the forge hosting a remote URL
+   */
+  async parseRemoteUrl(url: string): Promise<DetectedForge | null> {
+    const remote = splitRemoteUrl(url);
+    if (!remote) return null;
+
+    const host = await this.matchHost(remote.host, remote.web);
+    if (!host) return null;
+
+    const provider = this.providers[host.forge];
+    const path = provider.parseRepoPath(remote.path);
+    if (!path) return null;
+
+    // SSH remotes don't say how the web interface is served; assume HTTPS
+    const origin = `${remote.secure ? "https" : "http"}://${host.host}`;
+    return {
+      provider,
+      repo: {
+        forge: host.forge,
+        host: host.host,
+        owner: path.owner,
+        repo: path.repo,
+        apiBase: host.apiBase ?? provider.defaultApiBase(origin),
+        webUrl: `${origin}/${path.owner}/${path.repo}`,
+        token: this.getToken(host),
+      },
+    };
+  }
+
+  /**
+   * Add a token to an HTTP(S) clone URL, in the form its forge expects:
+   * `token` if given, else the one configured for the host on the server.
+   * Tokens set at runtime through the API are never used, since any client
+   * can set them. URLs on unknown hosts get the token as the username, which
+   * most servers accept.
+   */
+  async injectToken(url: string, token?: string): Promise<string> {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      // If URL parsing fails, return original
+      return url;
+    }
+    if (!urlObj.protocol.startsWith("http")) return url;
+
+    const host = await this.matchHost(urlObj.host, true);
+    const credentials = token ?? host?.token;
+    if (!credentials) return url;
+
+    const { username, password } = host
+      ? this.providers[host.forge].cloneCredentials(credentials)
+      : { username: credentials, password: "" };
+    urlObj.username = encodeURIComponent(username);
+    urlObj.password = encodeURIComponent(password);
+    return urlObj.toString();
+  }
+
+  // SSH remotes carry no web port, so match them on the hostname alone
+  private async matchHost(
+    remoteHost: string,
+    isWeb: boolean,
+  ): Promise<ForgeHost | undefined> {
+    const hosts = await configService.getForgeHosts();
+    const name = remoteHost.toLowerCase().replace(/^www\./, "");
+    return (
+      hosts.find((entry) => entry.host === name) ??
+      (isWeb
+        ? undefined
+        : hosts.find((entry) => entry.host.split(":")[0] === name))
+    );
+  }
+}
+
+export const forgeRegistry = new ForgeRegistry();
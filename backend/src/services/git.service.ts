@@ -1,7 +1,14 @@
 import simpleGit, { SimpleGit } from "simple-git";
+import { spawn, ChildProcessWithoutNullStreams } from "child_process";
+import { createHash, randomUUID } from "crypto";
 import os from "os";
 import path from "path";
 import fs from "fs/promises";
+import { commitCache, CommitCacheMeta } from "./commitCache.service.js";
+import { forgeRegistry } from "./forges/registry.js";
+import { identityService } from "./identity.service.js";
+import { gitProcesses } from "./job.service.js";
+import { ApiError } from "../errors.js";
 
 export interface Author {
   name: string;
@@ -44,28 +51,65 @@ export interface Repository {
   commits: Commit[];
   branches: Branch[];
   tags: Tag[];
+  refsFingerprint: string; // Ref state the commits were read at; see getRefTips
 }
 
 export interface PaginationOptions {
   maxCount?: number; // Default: 500
-  skip?: number; // Offset for pagination
+  cursor?: string; // Opaque cursor from a previous page; its filters win
+  skip?: number; // Offset for pagination when no cursor is given
   firstParent?: boolean; // Only follow first parent (simplified view)
   since?: string; // ISO date string for --since filter
   until?: string; // ISO date string for --until filter
   branch?: string; // Filter commits by specific branch
   authors?: string[]; // Filter commits by specific author emails
+  committers?: string[]; // Filter commits by committer name/email
+  grep?: string; // Case-insensitive regex matched against commit messages
+  pickaxe?: string; // Code string to search for in diffs (-S / -G)
+  pickaxeMode?: "string" | "regex"; // -S: occurrence count changed, -G: diff lines match
+  paths?: string[]; // Only commits touching these paths
 }
 
 export interface PaginatedCommits {
   commits: Commit[];
   total: number;
   hasMore: boolean;
+  cursor?: string; // Pass back to continue after this page; set when hasMore
+}
+
+// Filters that define a commit walk
+type CommitFilters = Omit<PaginationOptions, "maxCount" | "cursor" | "skip">;
+
+// Only names a walk; its filters stay on the server, where they were checked
+interface CommitCursor {
+  id: string; // Key of the walk in the walk registry
+  offset: number; // Commits already returned by this walk
+}
+
+// How a repository was cloned; see getCloneInfo
+interface CloneInfo {
+  strategy: CloneStrategy;
+  shallowSince?: string;
+  promisorRemote: string | null; // Remote missing objects are fetched from
+}
+
+// A paged commit walk, remembered between pages
+interface CommitWalk {
+  repoPath: string;
+  client?: string; // Session that started the walk
+  filters: CommitFilters;
+  total: number;
+  walker: CommitWalker | null; // Open git log process, while one is parked
+  timer: NodeJS.Timeout | null; // Closes the parked walker if unclaimed
 }
 
 export interface RepoStats {
   totalCommits: number;
   isLargeRepo: boolean; // > 10,000 commits
   recommendedMode: "full" | "paginated" | "simplified";
+  cloneStrategy: CloneStrategy;
+  lazyFetch: boolean; // File contents are fetched from the remote on demand
+  shallowSince?: string; // History before this date wasn't cloned
 }
 
 export interface RepositoryMetadata {
@@ -75,6 +119,7 @@ export interface RepositoryMetadata {
   branches: Branch[];
   tags: Tag[];
   stats: RepoStats;
+  refsFingerprint: string; // Ref state the metadata was read at
 }
 
 // Diff-related interfaces
@@ -105,6 +150,11 @@ export interface FileDiffDetail extends FileDiff {
   hunks: DiffHunk[];
 }
 
+export interface RangeDiff extends DiffStats {
+  from: string; // Resolved commit hash
+  to: string;
+}
+
 // File tree interfaces
 export interface TreeEntry {
   name: string;
@@ -120,6 +170,35 @@ export interface FileContent {
   binary: boolean;
 }
 
+// File history interfaces
+export interface FileHistoryEntry {
+  commit: Commit;
+  path: string; // Path of the file at this commit
+  oldPath?: string; // Previous path when this commit renamed the file
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface FileHistoryOptions {
+  follow?: boolean; // Follow the file through renames (default: true)
+  ref?: string; // Start the walk at this commit (default: HEAD)
+  maxCount?: number;
+}
+
+// Blame interfaces
+export interface BlameLine {
+  lineNumber: number; // Line number in the blamed revision
+  originalLineNumber: number; // Line number in the commit that introduced it
+  hash: string;
+  author: Author;
+  date: string;
+  summary: string;
+  originalPath: string; // File path in the commit that introduced the line
+  previous?: { hash: string; path: string }; // Parent revision to "blame parent"
+  content: string;
+}
+
 // Contributor stats interfaces
 export interface ContributorStats {
   name: string;
@@ -145,6 +224,73 @@ export interface Submodule {
   initialized: boolean;
 }
 
+// Progress reported by `git clone --progress`
+export interface CloneProgress {
+  stage: string; // counting, compressing, receiving, resolving, ...
+  progress: number; // 0-100 within the stage
+  processed: number;
+  total: number;
+}
+
+/**
+ * How much of a remote to clone. Partial clones (blobless, treeless) skip
+ * file contents and fetch them lazily; shallow and single-branch clones
+ * leave out part of the history entirely.
+ */
+export type CloneStrategy =
+  | "full"
+  | "blobless"
+  | "treeless"
+  | "shallow"
+  | "single-branch";
+
+export const CLONE_STRATEGIES: CloneStrategy[] = [
+  "full",
+  "blobless",
+  "treeless",
+  "shallow",
+  "single-branch",
+];
+
+export interface CloneOptions {
+  token?: string;
+  strategy?: CloneStrategy;
+  shallowSince?: string; // Required for "shallow"
+  branch?: string; // Optional for "single-branch"; defaults to the remote HEAD
+  onProgress?: (progress: CloneProgress) => void;
+  signal?: AbortSignal; // Aborting kills the git process and removes the clone
+}
+
+// A branch or tag that was created, deleted or moved
+export interface RefUpdate {
+  name: string;
+  type: "branch" | "tag";
+  from?: string; // Commit before the change; absent for new refs
+  to?: string; // Commit after the change; absent for deleted refs
+}
+
+// Ref state compared by diffRefSnapshots
+export interface RefSnapshot {
+  fingerprint: string; // See getRefTips
+  tips: string[];
+  targets: Map<string, string>; // Branch/tag refname -> commit
+}
+
+// What changed between two ref snapshots (a refresh, or a local commit)
+export interface RefreshDelta {
+  addedCommits: Commit[]; // Newest first, in graph order
+  removedCommits: string[]; // Hashes no longer reachable from any ref
+  redecoratedCommits: { hash: string; refs: RefInfo[] }[];
+  addedRefs: RefUpdate[];
+  deletedRefs: RefUpdate[];
+  movedRefs: RefUpdate[];
+  branches: Branch[];
+  tags: Tag[];
+  currentBranch: string;
+  stats: RepoStats;
+  refsFingerprint: string; // Ref state the delta brings a graph up to
+}
+
 // Branch comparison interfaces
 export interface BranchComparison {
   baseBranch: string;
@@ -160,7 +306,8 @@ export interface BranchComparison {
 
 // Code Churn Analysis interfaces
 export interface FileChurnStats {
-  path: string;
+  path: string; // Most recent name of the file
+  previousPaths: string[]; // Earlier names, followed through renames
   changeCount: number;
   totalAdditions: number;
   totalDeletions: number;
@@ -171,7 +318,8 @@ export interface FileChurnStats {
 
 // Bus Factor interfaces
 export interface FileBusFactor {
-  path: string;
+  path: string; // Most recent name of the file
+  previousPaths: string[]; // Earlier names, followed through renames
   primaryAuthor: {
     name: string;
     email: string;
@@ -212,6 +360,24 @@ export interface BranchLifespan {
   commitCount: number;
 }
 
+export interface BranchLifespanOptions {
+  signal?: AbortSignal; // Stops starting git processes once aborted
+  onProgress?: (analyzed: number, total: number) => void;
+  onPartial?: (lifespans: BranchLifespan[]) => void; // Branches done so far
+}
+
+// Remove credentials embedded in URLs (e.g. clone tokens) from git output
+function stripCredentials(text: string): string {
+  return text.replace(/\/\/[^/@\s]+@/g, "//");
+}
+
+// "refs/heads/main" -> { name: "main", type: "branch" }
+function describeRef(ref: string): Pick<RefUpdate, "name" | "type"> {
+  return ref.startsWith("refs/tags/")
+    ? { name: ref.slice("refs/tags/".length), type: "tag" }
+    : { name: ref.replace(/^refs\/heads\//, ""), type: "branch" };
+}
+
 function parseRefs(refsString: string): RefInfo[] {
   if (!refsString || refsString.trim() === "") return [];
 
@@ -251,9 +417,292 @@ function parseRefs(refsString: string): RefInfo[] {
   return refs;
 }
 
+// Parse a numstat path, expanding rename forms like "src/{old => new}/file.ts"
+export function parseNumstatPath(raw: string): {
+  path: string;
+  oldPath?: string;
+} {
+  if (!raw.includes(" => ")) return { path: raw };
+
+  const braced = raw.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (braced) {
+    const [, prefix, from, to, suffix] = braced;
+    // "{ => dir}/" style renames leave doubled slashes behind
+    return {
+      path: (prefix + to + suffix).replace(/\/\//g, "/"),
+      oldPath: (prefix + from + suffix).replace(/\/\//g, "/"),
+    };
+  }
+
+  const [from, to] = raw.split(" => ");
+  return { path: to, oldPath: from };
+}
+
+// Record/field separators for streamed log output (bodies contain newlines)
+const LOG_RECORD_SEP = "\x1e";
+const LOG_FIELD_SEP = "\x1f";
+const LOG_FORMAT =
+  "%x1e" +
+  ["%H", "%h", "%s", "%b", "%aN", "%aE", "%aI", "%P", "%D"].join("%x1f");
+
+function parseLogRecord(record: string): Commit {
+  const [hash, shortHash, message, body, name, email, date, parents, refs] =
+    record.split(LOG_FIELD_SEP);
+  return {
+    hash,
+    shortHash,
+    message,
+    body: body.trim(),
+    author: { name, email },
+    date,
+    parents: parents ? parents.split(" ").filter(Boolean) : [],
+    refs: parseRefs(refs.trim()),
+  };
+}
+
+// Cursor id for pages served from the commit cache rather than a walker
+const CACHED_WALK_ID = "cache";
+
+// The commit cache only holds the plain `--all` walk
+function isUnfiltered(filters: CommitFilters): boolean {
+  return (
+    !filters.firstParent &&
+    !filters.since &&
+    !filters.until &&
+    !filters.branch &&
+    !filters.authors?.length &&
+    !filters.committers?.length &&
+    !filters.grep &&
+    !filters.pickaxe &&
+    !filters.paths?.length
+  );
+}
+
+function encodeCursor(cursor: CommitCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CommitCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      typeof decoded.id === "string" &&
+      Number.isInteger(decoded.offset) &&
+      decoded.offset >= 0
+    ) {
+      return { id: decoded.id, offset: decoded.offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ApiError("INVALID_REQUEST", "Invalid commit cursor");
+}
+
+/**
+ * Reads one long-lived `git log` process incrementally. Each take() continues
+ * where the previous one stopped, so paging through the whole history walks
+ * it once instead of re-walking from the tips with --skip for every page.
+ * Output is paused once enough commits are buffered for the current request.
+ */
+class CommitWalker {
+  private child: ChildProcessWithoutNullStreams;
+  private buffer = "";
+  private queue: Commit[] = [];
+  private wanted = 0;
+  private ended = false;
+  private error: Error | null = null;
+  private notify: (() => void) | null = null;
+  position: number;
+
+  // `input` is fed to git's stdin, for revision lists passed with --stdin
+  constructor(repoPath: string, args: string[], position = 0, input?: string) {
+    this.position = position;
+    this.child = spawn(
+      "git",
+      [
+        ...identityService.gitConfigArgs(repoPath),
+        "log",
+        `--format=${LOG_FORMAT}`,
+        ...args,
+      ],
+      { cwd: repoPath },
+    );
+    this.child.stdin.end(input);
+
+    let stderr = "";
+    this.child.stdout.setEncoding("utf8");
+    this.child.stderr.setEncoding("utf8");
+    this.child.stdout.on("data", (chunk: string) => this.onData(chunk));
+    this.child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    this.child.on("error", (error) => this.finish(error));
+    this.child.on("close", (code) => {
+      if (this.buffer.trim()) {
+        this.queue.push(parseLogRecord(this.buffer));
+        this.buffer = "";
+      }
+      this.finish(
+        code && code !== 0
+          ? new Error(stderr.trim() || `git log exited with code ${code}`)
+          : null,
+      );
+    });
+  }
+
+  // True while commits remain after the ones already taken
+  get hasMore(): boolean {
+    return this.queue.length > 0 || !this.ended;
+  }
+
+  // Resolve the next `count` commits (fewer at the end of history)
+  async take(count: number): Promise<Commit[]> {
+    this.wanted = count;
+    // Buffer one extra commit so hasMore is exact once we return
+    while (this.queue.length <= count && !this.ended) {
+      await new Promise<void>((resolve) => {
+        this.notify = resolve;
+        this.child.stdout.resume();
+      });
+    }
+    if (this.error) throw this.error;
+
+    const commits = this.queue.splice(0, count);
+    this.position += commits.length;
+    return commits;
+  }
+
+  close(): void {
+    if (!this.ended) {
+      this.ended = true;
+      this.child.kill();
+    }
+  }
+
+  private onData(chunk: string): void {
+    const records = (this.buffer + chunk).split(LOG_RECORD_SEP);
+    this.buffer = records.pop() ?? "";
+    for (const record of records) {
+      if (record) this.queue.push(parseLogRecord(record));
+    }
+    if (this.queue.length > this.wanted) {
+      this.child.stdout.pause();
+      this.wake();
+    }
+  }
+
+  private finish(error: Error | null): void {
+    if (error && !this.ended) this.error = error;
+    this.ended = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}
+
+// "Receiving objects:  42% (420/1000), 1.2 MiB | 3 MiB/s", optionally
+// prefixed with "remote: " for phases that run on the server
+const CLONE_PROGRESS_PATTERN =
+  /^(?:remote:\s*)?(\w+)[\w ]*:\s+(\d+)% \((\d+)\/(\d+)\)/;
+
+/**
+ * Run `git clone --progress`, reporting each phase from its stderr. Aborting
+ * kills git; the promise settles only once the process has exited, so the
+ * caller can safely delete the target directory afterwards.
+ */
+function runClone(
+  args: string[],
+  onProgress?: (progress: CloneProgress) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Clone cancelled"));
+      return;
+    }
+
+    const child = spawn("git", ["clone", "--progress", ...args], {
+      // Fail instead of waiting for credentials nobody can type
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+    });
+    child.stdin.end();
+
+    const kill = () => child.kill();
+    signal?.addEventListener("abort", kill);
+
+    // Progress lines are redrawn with \r; keep the rest for error messages
+    let pending = "";
+    let stderr = "";
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      const lines = (pending + chunk).split(/[\r\n]/);
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        const match = CLONE_PROGRESS_PATTERN.exec(line);
+        if (match) {
+          onProgress?.({
+            stage: match[1].toLowerCase(),
+            progress: Number(match[2]),
+            processed: Number(match[3]),
+            total: Number(match[4]),
+          });
+        } else if (line.trim()) {
+          stderr += line + "\n";
+        }
+      }
+    });
+
+    child.on("error", (error) => {
+      signal?.removeEventListener("abort", kill);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      signal?.removeEventListener("abort", kill);
+      if (signal?.aborted) {
+        reject(new Error("Clone cancelled"));
+      } else if (code !== 0) {
+        reject(
+          new Error(
+            (stderr + pending).trim() || `git clone exited with code ${code}`,
+          ),
+        );
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
 class GitService {
+  // Paged walks by the id inside their cursors, least recently used first
+  private walks = new Map<string, CommitWalk>();
+
+  // How long an unclaimed walker's git process is kept alive
+  private readonly WALKER_IDLE_MS = 60_000;
+  // Walks remembered for their cursors; the oldest are forgotten first
+  private readonly MAX_WALKS = 500;
+  // Parked git processes kept alive, per repository and overall
+  private readonly MAX_PARKED_PER_REPO = 4;
+  private readonly MAX_PARKED = 16;
+
+  // Recent ref snapshots by repository and fingerprint, oldest first
+  private refSnapshots = new Map<string, RefSnapshot>();
+  private readonly MAX_REF_SNAPSHOTS = 100;
+
+  // Clone info by repository, read once per session
+  private cloneInfos = new Map<string, Promise<CloneInfo>>();
+
+  // In-flight cache updates, so concurrent requests share one delta walk
+  private cacheSyncs = new Map<string, Promise<CommitCacheMeta | null>>();
+
+  // Author fields (%aN/%aE, blame, --author) honour .mailmap and identity merges
   private getGit(repoPath: string): SimpleGit {
-    return simpleGit(repoPath);
+    return simpleGit({
+      baseDir: repoPath,
+      config: [`mailmap.file=${identityService.mailmapPathFor(repoPath)}`],
+    });
   }
 
   async validateRepository(repoPath: string): Promise<boolean> {
@@ -277,17 +726,15 @@ class GitService {
     }
   }
 
-  validateGitUrl(url: string): boolean {
-    // Support GitHub, GitLab, Bitbucket, and generic git URLs
-    const patterns = [
-      /^https?:\/\/(www\.)?github\.com\/[\w.-]+\/[\w.-]+/,
-      /^https?:\/\/(www\.)?gitlab\.com\/[\w.-]+\/[\w.-]+/,
-      /^https?:\/\/(www\.)?bitbucket\.org\/[\w.-]+\/[\w.-]+/,
-      /^git@github\.com:[\w.-]+\/[\w.-]+/,
-      /^git@gitlab\.com:[\w.-]+\/[\w.-]+/,
-      /^https?:\/\/.*\.git$/,
-      /^git:\/\/.*/,
-    ];
+  /**
+   * Accept repositories on a configured forge host (see
+   * configService.getForgeHosts) and any .git or git:// URL. Nothing that
+   * git could take for an option, e.g. "-uecho@host:path".
+   */
+  async validateGitUrl(url: string): Promise<boolean> {
+    if (url.startsWith("-")) return false;
+    if (await forgeRegistry.parseRemoteUrl(url)) return true;
+    const patterns = [/^https?:\/\/.*\.git$/, /^git:\/\/.*/];
     return patterns.some((pattern) => pattern.test(url));
   }
 
@@ -297,41 +744,99 @@ class GitService {
     return match ? match[1].replace(".git", "") : "repository";
   }
 
-  /**
-   * Injects a token into a git URL for authenticated cloning.
-   * Supports GitHub, GitLab, and Bitbucket URL formats.
-   */
-  private injectTokenIntoUrl(url: string, token: string): string {
+  // URL without any embedded credentials, safe to show to clients
+  redactUrl(url: string): string {
     try {
       const urlObj = new URL(url);
-
-      // Determine the auth format based on the host
-      if (urlObj.host.includes("gitlab")) {
-        // GitLab uses oauth2:TOKEN format
-        urlObj.username = "oauth2";
-        urlObj.password = token;
-      } else {
-        // GitHub and others use TOKEN as username
-        urlObj.username = token;
-        urlObj.password = "";
-      }
-
+      urlObj.username = "";
+      urlObj.password = "";
       return urlObj.toString();
     } catch {
-      // If URL parsing fails, return original
       return url;
     }
   }
 
+  /**
+   * Extra `git clone` arguments for a strategy. The strategy is also written
+   * to the clone's config so getRepoStats can report it later.
+   */
+  private getCloneStrategyArgs(
+    strategy: CloneStrategy,
+    shallowSince?: string,
+    branch?: string,
+  ): string[] {
+    const args = [`--config=gitvis.cloneStrategy=${strategy}`];
+
+    switch (strategy) {
+      case "full":
+        break;
+      case "blobless":
+        args.push("--filter=blob:none");
+        break;
+      case "treeless":
+        args.push("--filter=tree:0");
+        break;
+      case "shallow": {
+        const since = shallowSince ? new Date(shallowSince) : null;
+        if (!since || isNaN(since.getTime())) {
+          throw new ApiError(
+            "INVALID_REQUEST",
+            "Shallow clones need a valid shallowSince date",
+          );
+        }
+        const date = since.toISOString();
+        args.push(
+          `--shallow-since=${date}`,
+          `--config=gitvis.shallowSince=${date}`,
+        );
+        break;
+      }
+      case "single-branch":
+        args.push("--single-branch");
+        if (branch) {
+          if (branch.startsWith("-") || !/^[\w./-]+$/.test(branch)) {
+            throw new ApiError(
+              "INVALID_REQUEST",
+              `Invalid branch name: ${branch}`,
+            );
+          }
+          args.push(`--branch=${branch}`);
+        }
+        break;
+      default:
+        throw new ApiError(
+          "INVALID_REQUEST",
+          `Unknown clone strategy: ${strategy}`,
+        );
+    }
+
+    return args;
+  }
+
   async cloneRepository(
     url: string,
-    options: { token?: string } = {},
+    options: CloneOptions = {},
   ): Promise<string> {
-    if (!this.validateGitUrl(url)) {
-      throw new Error("Invalid git repository URL");
+    if (!(await this.validateGitUrl(url))) {
+      throw new ApiError(
+        "INVALID_REQUEST",
+        "Invalid git repository URL. Supported: repositories on a configured forge host, or any .git URL",
+      );
     }
 
-    const { token } = options;
+    const {
+      token,
+      strategy = "full",
+      shallowSince,
+      branch,
+      onProgress,
+      signal,
+    } = options;
+    const strategyArgs = this.getCloneStrategyArgs(
+      strategy,
+      shallowSince,
+      branch,
+    );
 
     const repoName = this.extractRepoName(url);
     const tempDir = path.join(
@@ -342,22 +847,28 @@ class GitService {
     // Create temp directory
     await fs.mkdir(tempDir, { recursive: true });
 
-    const git = simpleGit();
-
     try {
       // Use --bare to clone only the .git folder (repository data without working tree)
-      const cloneArgs: string[] = ["--bare"];
+      const cloneArgs: string[] = ["--bare", ...strategyArgs];
 
-      // Use authenticated URL if token provided
-      const cloneUrl = token ? this.injectTokenIntoUrl(url, token) : url;
+      // Authenticate with the given token, else the host's configured one
+      const cloneUrl = await forgeRegistry.injectToken(url, token);
 
-      await git.clone(cloneUrl, tempDir, cloneArgs);
+      await runClone(
+        [...cloneArgs, "--", cloneUrl, tempDir],
+        onProgress,
+        signal,
+      );
 
       return tempDir;
     } catch (error) {
       // Clean up on failure
       await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
 
+      if (signal?.aborted) {
+        throw new Error("Clone cancelled");
+      }
+
       const errorMessage = (error as Error).message;
 
       // Detect authentication errors and provide helpful message
@@ -368,27 +879,216 @@ class GitService {
         errorMessage.includes("401") ||
         errorMessage.includes("403")
       ) {
-        throw new Error(
-          "AUTH_REQUIRED: This repository requires authentication. Please provide a personal access token.",
+        throw new ApiError(
+          "AUTH_REQUIRED",
+          "This repository requires authentication. Please provide a personal access token.",
         );
       }
 
-      throw new Error(`Failed to clone repository: ${errorMessage}`);
+      throw new ApiError(
+        "REMOTE_ERROR",
+        `Failed to clone repository: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Fetch new history into a clone made by cloneRepository and report what
+   * changed. Bare clones have no remote-tracking refs, so branches and tags
+   * are fetched straight onto their local counterparts; --prune drops the
+   * ones deleted on the remote.
+   */
+  async refreshRepository(repoPath: string): Promise<RefreshDelta> {
+    const git = this.getGit(repoPath);
+
+    const remotes = (await git.raw(["remote"])).split("\n").filter(Boolean);
+    if (!remotes.includes("origin")) {
+      throw new ApiError(
+        "UNSUPPORTED_OPERATION",
+        "Repository has no remote to refresh from",
+      );
+    }
+
+    const { strategy } = await this.getCloneInfo(repoPath);
+    let refspecs: string[];
+    if (strategy === "single-branch") {
+      // Only update the branch that was cloned; tags follow as usual
+      const branches = await git.raw([
+        "for-each-ref",
+        "--format=%(refname)",
+        "refs/heads",
+      ]);
+      refspecs = branches
+        .split("\n")
+        .filter(Boolean)
+        .map((ref) => `+${ref}:${ref}`);
+    } else {
+      refspecs = ["+refs/heads/*:refs/heads/*", "+refs/tags/*:refs/tags/*"];
+    }
+
+    const before = await this.snapshotRefs(repoPath);
+
+    try {
+      await git.raw(["fetch", "--prune", "origin", ...refspecs]);
+    } catch (error) {
+      throw new ApiError(
+        "REMOTE_ERROR",
+        `Failed to fetch from the remote: ${stripCredentials((error as Error).message)}`,
+      );
+    }
+
+    return this.diffRefSnapshots(
+      repoPath,
+      before,
+      await this.snapshotRefs(repoPath),
+    );
+  }
+
+  /**
+   * Current ref tips and branch/tag targets, to diff against a later
+   * snapshot. Recent snapshots are kept by fingerprint, so a client that
+   * loaded the graph at one can later catch up from it (see findRefSnapshot).
+   */
+  async snapshotRefs(repoPath: string): Promise<RefSnapshot> {
+    const [{ fingerprint, tips }, targets] = await Promise.all([
+      this.getRefTips(repoPath),
+      this.getRefTargets(this.getGit(repoPath)),
+    ]);
+    const snapshot = { fingerprint, tips, targets };
+
+    // Re-inserted so the map stays in least recently used order
+    const key = `${repoPath}\0${fingerprint}`;
+    this.refSnapshots.delete(key);
+    this.refSnapshots.set(key, snapshot);
+    for (const oldest of this.refSnapshots.keys()) {
+      if (this.refSnapshots.size <= this.MAX_REF_SNAPSHOTS) break;
+      this.refSnapshots.delete(oldest);
+    }
+    return snapshot;
+  }
+
+  // A snapshot taken earlier by snapshotRefs, if it is still remembered
+  findRefSnapshot(
+    repoPath: string,
+    fingerprint: string,
+  ): RefSnapshot | undefined {
+    return this.refSnapshots.get(`${repoPath}\0${fingerprint}`);
+  }
+
+  /**
+   * Everything a loaded graph needs to catch up from one ref snapshot to a
+   * later one: new and unreachable commits, redecorated tips, the refs that
+   * changed, and fresh branch/tag lists.
+   */
+  async diffRefSnapshots(
+    repoPath: string,
+    before: RefSnapshot,
+    after: RefSnapshot,
+  ): Promise<RefreshDelta> {
+    const { added, removed, redecorated } =
+      after.fingerprint === before.fingerprint
+        ? { added: [], removed: [], redecorated: new Map<string, RefInfo[]>() }
+        : await this.computeCommitDelta(repoPath, before.tips, after.tips);
+
+    const addedRefs: RefUpdate[] = [];
+    const deletedRefs: RefUpdate[] = [];
+    const movedRefs: RefUpdate[] = [];
+    for (const [ref, to] of after.targets) {
+      const from = before.targets.get(ref);
+      if (!from) addedRefs.push({ ...describeRef(ref), to });
+      else if (from !== to) movedRefs.push({ ...describeRef(ref), from, to });
+    }
+    for (const [ref, from] of before.targets) {
+      if (!after.targets.has(ref)) {
+        deletedRefs.push({ ...describeRef(ref), from });
+      }
+    }
+
+    const metadata = await this.getRepositoryMetadata(repoPath);
+
+    return {
+      addedCommits: added,
+      removedCommits: removed,
+      redecoratedCommits: Array.from(redecorated, ([hash, refs]) => ({
+        hash,
+        refs,
+      })),
+      addedRefs,
+      deletedRefs,
+      movedRefs,
+      branches: metadata.branches,
+      tags: metadata.tags,
+      currentBranch: metadata.currentBranch,
+      stats: metadata.stats,
+      refsFingerprint: after.fingerprint,
+    };
+  }
+
+  /**
+   * Where a repository keeps HEAD (gitDir) and its refs and packed-refs
+   * (commonDir). They only differ for linked worktrees.
+   */
+  async getGitDirs(
+    repoPath: string,
+  ): Promise<{ gitDir: string; commonDir: string }> {
+    const output = await this.getGit(repoPath).raw([
+      "rev-parse",
+      "--absolute-git-dir",
+      "--git-common-dir",
+    ]);
+    const [gitDir, commonDir] = output.trim().split("\n");
+    return { gitDir, commonDir: path.resolve(repoPath, commonDir) };
+  }
+
+  // Commit each local branch and tag points to (tags peeled to commits)
+  private async getRefTargets(git: SimpleGit): Promise<Map<string, string>> {
+    const output = await git.raw([
+      "for-each-ref",
+      "--format=%(refname) %(objectname) %(*objectname)",
+      "refs/heads",
+      "refs/tags",
+    ]);
+    const targets = new Map<string, string>();
+    for (const line of output.split("\n").filter(Boolean)) {
+      const [ref, hash, peeled] = line.split(" ");
+      targets.set(ref, peeled || hash);
+    }
+    return targets;
+  }
+
+  // Drop what was kept for a repository whose session ended
+  releaseRepository(repoPath: string): void {
+    for (const [id, walk] of this.walks) {
+      if (walk.repoPath === repoPath) this.forgetWalk(id);
+    }
+    this.cloneInfos.delete(repoPath);
+    for (const key of this.refSnapshots.keys()) {
+      if (key.startsWith(`${repoPath}\0`)) this.refSnapshots.delete(key);
     }
   }
 
-  async cleanupRepository(repoPath: string): Promise<void> {
-    // Only clean up temp directories
-    if (repoPath.startsWith(os.tmpdir())) {
-      await fs.rm(repoPath, { recursive: true, force: true }).catch(() => {});
+  /**
+   * Delete a clone or upload. Only called with directories the session
+   * registry created; anything outside the system temp directory is refused.
+   */
+  async cleanupRepository(repoPath: string, tempDir: string): Promise<void> {
+    const tempRoot = os.tmpdir();
+    if (path.dirname(path.resolve(tempDir)) !== tempRoot) {
+      throw new Error("Refusing to delete a directory outside the temp dir");
     }
+
+    this.releaseRepository(repoPath);
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+    await commitCache.invalidate(repoPath);
   }
 
   async getRepository(repoPath: string): Promise<Repository> {
     const git = this.getGit(repoPath);
+    // Taken first, so the commits are at least as new as the fingerprint
+    const snapshot = await this.snapshotRefs(repoPath);
 
     const [commits, branches, tags, currentBranch] = await Promise.all([
-      this.getCommits(git),
+      this.loadAllCommits(repoPath),
       this.getBranches(git),
       this.getTags(git),
       this.getCurrentBranch(git),
@@ -403,6 +1103,7 @@ class GitService {
       commits,
       branches,
       tags,
+      refsFingerprint: snapshot.fingerprint,
     };
   }
 
@@ -424,15 +1125,161 @@ class GitService {
       recommendedMode = "paginated";
     }
 
+    const { strategy, shallowSince, promisorRemote } =
+      await this.getCloneInfo(repoPath);
+
     return {
       totalCommits,
       isLargeRepo: totalCommits > LARGE_REPO_THRESHOLD,
       recommendedMode,
+      cloneStrategy: strategy,
+      lazyFetch: promisorRemote !== null,
+      shallowSince,
+    };
+  }
+
+  // ===== PARTIAL CLONE METHODS =====
+
+  /**
+   * How a repository was cloned: the strategy recorded by cloneRepository,
+   * or one inferred from its config for clones made elsewhere. Read once and
+   * kept until the repository is released.
+   */
+  private getCloneInfo(repoPath: string): Promise<CloneInfo> {
+    let info = this.cloneInfos.get(repoPath);
+    if (!info) {
+      info = this.readCloneInfo(this.getGit(repoPath));
+      this.cloneInfos.set(repoPath, info);
+    }
+    return info;
+  }
+
+  private async readCloneInfo(git: SimpleGit): Promise<CloneInfo> {
+    const config = await git
+      .raw(["config", "--get-regexp", "^(gitvis|remote)\\."])
+      .catch(() => "");
+
+    const values = new Map<string, string>();
+    for (const line of config.split("\n")) {
+      const space = line.indexOf(" ");
+      if (space > 0) values.set(line.slice(0, space), line.slice(space + 1));
+    }
+
+    // remote.<name>.promisor marks the remote missing objects come from
+    let promisorRemote: string | null = null;
+    let filter: string | undefined;
+    for (const [key, value] of values) {
+      const match = key.match(/^remote\.(.+)\.promisor$/);
+      if (match && value === "true") {
+        promisorRemote = match[1];
+        filter = values.get(`remote.${match[1]}.partialclonefilter`);
+        break;
+      }
+    }
+
+    const recorded = values.get("gitvis.clonestrategy") as CloneStrategy;
+    const shallowSince = values.get("gitvis.shallowsince");
+    if (CLONE_STRATEGIES.includes(recorded)) {
+      return { strategy: recorded, shallowSince, promisorRemote };
+    }
+
+    let strategy: CloneStrategy = "full";
+    if (filter === "blob:none") {
+      strategy = "blobless";
+    } else if (filter === "tree:0") {
+      strategy = "treeless";
+    } else {
+      const shallow = await git
+        .raw(["rev-parse", "--is-shallow-repository"])
+        .catch(() => "false");
+      if (shallow.trim() === "true") strategy = "shallow";
+    }
+    return { strategy, promisorRemote };
+  }
+
+  /**
+   * In a partial clone, fetch the blobs of `paths` at each of `revs` that
+   * aren't local yet, in one request. Git would otherwise fetch them one at
+   * a time as it hits them, and fail with an unhelpful message if the
+   * remote can't be reached.
+   */
+  private async fetchMissingBlobs(
+    repoPath: string,
+    revs: string[],
+    paths: string[],
+  ): Promise<void> {
+    const { promisorRemote } = await this.getCloneInfo(repoPath);
+    if (!promisorRemote) return;
+    const git = this.getGit(repoPath);
+
+    const walkRevs = revs.filter((rev) => rev !== this.EMPTY_TREE_HASH);
+    if (walkRevs.length === 0 || paths.length === 0) return;
+
+    // The same request git makes for a lazy fetch, batched
+    const fetchObjects = async (oids: string[]) => {
+      try {
+        await git.raw([
+          "-c",
+          "fetch.negotiationAlgorithm=noop",
+          "fetch",
+          promisorRemote,
+          "--no-tags",
+          "--no-write-fetch-head",
+          "--recurse-submodules=no",
+          "--filter=blob:none",
+          ...oids,
+        ]);
+      } catch (error) {
+        throw new ApiError(
+          "REMOTE_ERROR",
+          `Failed to fetch file contents from the remote: ${stripCredentials((error as Error).message)}`,
+        );
+      }
+    };
+
+    // --missing=print lists absent blobs without fetching them. --sparse
+    // keeps the revs that didn't change the paths, which --no-walk would
+    // otherwise drop along with their unchanged blobs.
+    const listMissing = async () => {
+      const objects = await git.raw([
+        "rev-list",
+        "--objects",
+        "--no-walk",
+        "--sparse",
+        "--missing=print",
+        ...walkRevs,
+        "--",
+        ...paths,
+      ]);
+      return objects
+        .split("\n")
+        .filter((line) => line.startsWith("?"))
+        .map((line) => line.slice(1).trim());
     };
+
+    // Treeless clones can't walk to the paths yet: the listing fails or
+    // reports the root trees missing. Fetching the root trees brings their
+    // subtrees along (but no blobs), then retry.
+    const trees = (
+      await git.raw(["rev-parse", ...walkRevs.map((rev) => `${rev}^{tree}`)])
+    )
+      .split("\n")
+      .filter(Boolean);
+    let missing = await listMissing().catch(() => null);
+    if (!missing || missing.some((oid) => trees.includes(oid))) {
+      await fetchObjects(trees);
+      missing = await listMissing();
+    }
+
+    if (missing.length > 0) {
+      await fetchObjects(missing);
+    }
   }
 
   async getRepositoryMetadata(repoPath: string): Promise<RepositoryMetadata> {
     const git = this.getGit(repoPath);
+    // Taken first, so the refs are at least as new as the fingerprint
+    const snapshot = await this.snapshotRefs(repoPath);
 
     const [branches, tags, currentBranch, stats] = await Promise.all([
       this.getBranches(git),
@@ -450,6 +1297,7 @@ class GitService {
       branches,
       tags,
       stats,
+      refsFingerprint: snapshot.fingerprint,
     };
   }
 
@@ -462,8 +1310,8 @@ class GitService {
         shortHash: "%h",
         message: "%s",
         body: "%b",
-        authorName: "%an",
-        authorEmail: "%ae",
+        authorName: "%aN",
+        authorEmail: "%aE",
         date: "%aI",
         parents: "%P",
         refs: "%D",
@@ -531,7 +1379,30 @@ class GitService {
     }
   }
 
-  private async getTotalCommitCount(git: SimpleGit): Promise<number> {
+  // Branch, last commit date and commit count shown in repository listings
+  async getRepositorySummary(repoPath: string): Promise<{
+    currentBranch: string;
+    lastCommitDate: string | null;
+    commitCount: number;
+  }> {
+    const git = this.getGit(repoPath);
+    const [currentBranch, lastCommitDate, commitCount] = await Promise.all([
+      this.getCurrentBranch(git),
+      // Empty repositories have no commits yet
+      git
+        .raw(["log", "-1", "--all", "--format=%cI"])
+        .then((output) => output.trim() || null)
+        .catch(() => null),
+      this.getTotalCommitCount(git),
+    ]);
+    return { currentBranch, lastCommitDate, commitCount };
+  }
+
+  async countAllCommits(repoPath: string): Promise<number> {
+    return this.getTotalCommitCount(this.getGit(repoPath));
+  }
+
+  private async getTotalCommitCount(git: SimpleGit): Promise<number> {
     try {
       const result = await git.raw(["rev-list", "--all", "--count"]);
       return parseInt(result.trim(), 10);
@@ -540,134 +1411,290 @@ class GitService {
     }
   }
 
+  /**
+   * One page of commits. `client` identifies the session paging, so that a
+   * new walk (e.g. the next search) frees the walker of the one it replaces.
+   */
   async getCommitsPaginated(
     repoPath: string,
     options: PaginationOptions = {},
+    client?: string,
   ): Promise<PaginatedCommits> {
-    const git = this.getGit(repoPath);
-    const {
-      maxCount = 500,
-      skip = 0,
-      firstParent = false,
-      since,
-      until,
-      branch,
-      authors,
-    } = options;
+    const { maxCount = 500, cursor, skip = 0, ...optionFilters } = options;
+
+    // A cursor continues a walk whose filters were checked when it started
+    const resumed = cursor ? decodeCursor(cursor) : null;
+    const walk =
+      resumed && resumed.id !== CACHED_WALK_ID
+        ? this.walks.get(resumed.id)
+        : undefined;
+    if (
+      resumed &&
+      resumed.id !== CACHED_WALK_ID &&
+      walk?.repoPath !== repoPath
+    ) {
+      throw new ApiError(
+        "INVALID_REQUEST",
+        "Commit cursor expired; start again without it",
+      );
+    }
+    const filters = walk ? walk.filters : resumed ? {} : optionFilters;
+    const offset = resumed ? resumed.offset : skip;
+
+    // The plain history walk can be paged straight out of the commit cache
+    if (isUnfiltered(filters) && (!resumed || resumed.id === CACHED_WALK_ID)) {
+      const meta = await this.syncCommitCache(repoPath);
+      if (meta) {
+        const page = await commitCache.readPage(meta, offset, maxCount + 1);
+        const commits = page.slice(0, maxCount);
+        const hasMore = page.length > maxCount;
+        return {
+          commits,
+          total: meta.total,
+          hasMore,
+          cursor: hasMore
+            ? encodeCursor({
+                id: CACHED_WALK_ID,
+                offset: offset + commits.length,
+              })
+            : undefined,
+        };
+      }
+    }
 
-    const format = {
-      hash: "%H",
-      shortHash: "%h",
-      message: "%s",
-      body: "%b",
-      authorName: "%an",
-      authorEmail: "%ae",
-      date: "%aI",
-      parents: "%P",
-      refs: "%D",
-    };
+    let walker = walk ? this.claimWalker(walk, offset) : null;
+    if (!resumed && client) {
+      for (const other of this.walks.values()) {
+        if (other.client === client) this.releaseWalker(other);
+      }
+    }
 
-    type LogEntry = {
-      hash: string;
-      shortHash: string;
-      message: string;
-      body: string;
-      authorName: string;
-      authorEmail: string;
-      date: string;
-      parents: string;
-      refs: string;
-    };
+    if (!walker) {
+      // Expired walker or a fresh walk: start at the offset with --skip
+      const args = ["--date-order", ...this.buildLogArgs(filters)];
+      if (offset > 0) args.unshift(`--skip=${offset}`);
+      walker = new CommitWalker(repoPath, args, offset);
+    }
 
-    // Build log options with optional date and branch filters
-    const logOptions: Record<string, any> = {
-      "--date-order": null,
-      maxCount: maxCount + 1,
-      "--skip": skip,
-      format,
-    };
+    try {
+      const [commits, total] = await Promise.all([
+        walker.take(maxCount),
+        // The total is counted once per walk
+        walk?.total ?? this.countCommits(repoPath, filters),
+      ]);
 
-    // Use specific branch or all branches
-    if (branch) {
-      logOptions[branch] = null;
-    } else {
-      logOptions["--all"] = null;
+      const id =
+        resumed && resumed.id !== CACHED_WALK_ID ? resumed.id : randomUUID();
+      if (!walker.hasMore) {
+        walker.close();
+        this.forgetWalk(id);
+        return { commits, total, hasMore: false };
+      }
+
+      this.parkWalker(
+        id,
+        { repoPath, client: walk?.client ?? client, filters, total },
+        walker,
+      );
+      return {
+        commits,
+        total,
+        hasMore: true,
+        cursor: encodeCursor({ id, offset: walker.position }),
+      };
+    } catch (error) {
+      walker.close();
+      throw error;
     }
+  }
 
-    if (firstParent) {
-      logOptions["--first-parent"] = null;
+  // Take a walk's parked walker if it is exactly where the cursor says
+  private claimWalker(walk: CommitWalk, offset: number): CommitWalker | null {
+    const { walker } = walk;
+    if (walk.timer) clearTimeout(walk.timer);
+    walk.walker = null;
+    walk.timer = null;
+    if (!walker) return null;
+
+    if (walker.position !== offset) {
+      walker.close();
+      return null;
     }
+    return walker;
+  }
 
-    if (since) {
-      logOptions["--since"] = since;
+  // Keep a walker open for the next page, closing it if nobody asks in time
+  private parkWalker(
+    id: string,
+    walk: Pick<CommitWalk, "repoPath" | "client" | "filters" | "total">,
+    walker: CommitWalker,
+  ): void {
+    const timer = setTimeout(() => {
+      const parked = this.walks.get(id);
+      if (parked?.walker === walker) {
+        parked.walker = null;
+        parked.timer = null;
+      }
+      walker.close();
+    }, this.WALKER_IDLE_MS);
+    timer.unref();
+
+    // Re-inserted so the map stays in least recently used order
+    this.walks.delete(id);
+    this.walks.set(id, { ...walk, walker, timer });
+    for (const oldest of this.walks.keys()) {
+      if (this.walks.size <= this.MAX_WALKS) break;
+      this.forgetWalk(oldest);
     }
 
-    if (until) {
-      logOptions["--until"] = until;
+    // Newest first, close the parked walkers beyond either cap
+    const parkedPerRepo = new Map<string, number>();
+    let parked = 0;
+    for (const other of [...this.walks.values()].reverse()) {
+      if (!other.walker) continue;
+      const inRepo = (parkedPerRepo.get(other.repoPath) ?? 0) + 1;
+      if (inRepo > this.MAX_PARKED_PER_REPO || parked >= this.MAX_PARKED) {
+        this.releaseWalker(other);
+        continue;
+      }
+      parkedPerRepo.set(other.repoPath, inRepo);
+      parked++;
     }
+  }
+
+  // Close a walk's parked walker; the walk restarts with --skip if paged again
+  private releaseWalker(walk: CommitWalk): void {
+    if (walk.timer) clearTimeout(walk.timer);
+    walk.walker?.close();
+    walk.walker = null;
+    walk.timer = null;
+  }
+
+  // Drop a walk and close its parked walker, if any
+  private forgetWalk(id: string): void {
+    const walk = this.walks.get(id);
+    if (!walk) return;
+    this.releaseWalker(walk);
+    this.walks.delete(id);
+  }
 
-    // Add author filters (multiple --author flags are OR'd together)
+  /**
+   * Build the revision, filter and pathspec arguments of a commit walk.
+   * Shared by git log and the rev-list count so both see the same commits.
+   */
+  private buildLogArgs(filters: CommitFilters): string[] {
+    const {
+      firstParent = false,
+      since,
+      until,
+      branch,
+      authors,
+      committers,
+      grep,
+      pickaxe,
+      pickaxeMode = "string",
+      paths,
+    } = filters;
+
+    // Use specific branch or all branches
+    const args = [branch || "--all"];
+
+    if (firstParent) args.push("--first-parent");
+    if (since) args.push(`--since=${since}`);
+    if (until) args.push(`--until=${until}`);
+
+    // Multiple --author flags are OR'd together
     if (authors && authors.length > 0) {
       for (const author of authors) {
-        logOptions[`--author=${author}`] = null;
+        args.push(`--author=${author}`);
       }
     }
 
-    // Get total count with filters
-    const getTotalWithFilters = async (): Promise<number> => {
-      const args = ["rev-list", "--count"];
-      if (branch) {
-        args.push(branch);
-      } else {
-        args.push("--all");
-      }
-      if (since) args.push(`--since=${since}`);
-      if (until) args.push(`--until=${until}`);
-      if (authors && authors.length > 0) {
-        for (const author of authors) {
-          args.push(`--author=${author}`);
-        }
+    args.push(
+      ...this.buildSearchArgs({ committers, grep, pickaxe, pickaxeMode }),
+    );
+
+    if (paths && paths.length > 0) {
+      args.push("--", ...paths);
+    }
+
+    return args;
+  }
+
+  // Count the commits a walk with these filters will produce
+  private async countCommits(
+    repoPath: string,
+    filters: CommitFilters,
+  ): Promise<number> {
+    const git = this.getGit(repoPath);
+    // rev-list doesn't understand pickaxe options, so count via log instead
+    const command = filters.pickaxe
+      ? ["log", "--format=%H"]
+      : ["rev-list", "--count"];
+    try {
+      const result = await git.raw([...command, ...this.buildLogArgs(filters)]);
+      if (filters.pickaxe) {
+        return result.trim().split("\n").filter(Boolean).length;
       }
-      try {
-        const result = await git.raw(args);
-        return parseInt(result.trim(), 10);
-      } catch {
-        return 0;
+      return parseInt(result.trim(), 10);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Build git log arguments for message, pickaxe and committer search.
+   * Also valid for rev-list, except for the pickaxe options.
+   */
+  private buildSearchArgs(
+    options: Pick<
+      PaginationOptions,
+      "committers" | "grep" | "pickaxe" | "pickaxeMode"
+    >,
+  ): string[] {
+    const { committers, grep, pickaxe, pickaxeMode = "string" } = options;
+    const args: string[] = [];
+
+    // Multiple --committer flags are OR'd together, like --author
+    if (committers && committers.length > 0) {
+      for (const committer of committers) {
+        args.push(`--committer=${committer}`);
       }
-    };
+    }
 
-    const [log, total] = await Promise.all([
-      git.log(logOptions),
-      getTotalWithFilters(),
-    ]);
+    if (grep) {
+      args.push(`--grep=${grep}`, "--regexp-ignore-case", "--extended-regexp");
+    }
 
-    const hasMore = log.all.length > maxCount;
-    const commits = (log.all as unknown as LogEntry[])
-      .slice(0, maxCount)
-      .map((entry) => ({
-        hash: entry.hash,
-        shortHash: entry.shortHash,
-        message: entry.message,
-        body: entry.body,
-        author: {
-          name: entry.authorName,
-          email: entry.authorEmail,
-        },
-        date: entry.date,
-        parents: entry.parents ? entry.parents.split(" ").filter(Boolean) : [],
-        refs: parseRefs(entry.refs),
-      }));
+    if (pickaxe) {
+      // -S finds commits that change the number of occurrences of the string,
+      // -G finds commits whose added/removed lines match the regex
+      args.push(pickaxeMode === "regex" ? `-G${pickaxe}` : `-S${pickaxe}`);
+    }
 
-    return { commits, total, hasMore };
+    return args;
   }
 
-  // Generator for streaming commits in chunks
+  /**
+   * Generator for streaming commits in chunks. The plain history is served
+   * from the commit cache (after walking only what's new since it was
+   * written); otherwise a single git log process is streamed, filling the
+   * cache on the way when it runs to completion.
+   */
   async *streamCommits(
     repoPath: string,
     options: { chunkSize?: number; firstParent?: boolean } = {},
-  ): AsyncGenerator<{ commits: Commit[]; progress: number; total: number }> {
-    const git = this.getGit(repoPath);
-    const total = await this.getTotalCommitCount(git);
+  ): AsyncGenerator<{
+    commits: Commit[];
+    progress: number;
+    total: number;
+    cached: boolean;
+  }> {
+    const { firstParent = false } = options;
+    const meta = firstParent ? null : await this.syncCommitCache(repoPath);
+    const total = meta
+      ? meta.total
+      : await this.countCommits(repoPath, { firstParent });
 
     //  For very large repos, use smaller chunks to avoid string length errors during JSON serialization
     let defaultChunkSize = 500;
@@ -681,29 +1708,58 @@ class GitService {
       defaultChunkSize = 250;
     }
 
-    const { chunkSize = defaultChunkSize, firstParent = false } = options;
+    const { chunkSize = defaultChunkSize } = options;
+    const progressOf = (loaded: number) =>
+      total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 100;
+
+    if (meta) {
+      let loaded = 0;
+      for await (const commits of commitCache.readCommits(meta, {
+        chunkSize,
+      })) {
+        loaded += commits.length;
+        yield { commits, progress: progressOf(loaded), total, cached: true };
+      }
+      return;
+    }
 
-    let skip = 0;
-    while (true) {
-      const result = await this.getCommitsPaginated(repoPath, {
-        maxCount: chunkSize,
-        skip,
-        firstParent,
-      });
+    // Snapshot the tips before walking so the cache never claims more than it holds
+    const snapshot = firstParent ? null : await this.getRefTips(repoPath);
+    const writer = snapshot ? commitCache.createWriter(repoPath) : null;
+    let complete = false;
 
-      yield {
-        commits: result.commits,
-        progress: Math.min(
-          100,
-          Math.round(((skip + result.commits.length) / total) * 100),
-        ),
-        total,
-      };
+    const walker = new CommitWalker(repoPath, [
+      "--date-order",
+      ...this.buildLogArgs({ firstParent }),
+    ]);
 
-      if (!result.hasMore || result.commits.length === 0) {
-        break;
+    // Closing in finally also stops git when the consumer bails out early
+    try {
+      while (true) {
+        const commits = await walker.take(chunkSize);
+        await writer?.write(commits);
+
+        yield {
+          commits,
+          progress: progressOf(walker.position),
+          total,
+          cached: false,
+        };
+
+        if (!walker.hasMore || commits.length === 0) {
+          complete = true;
+          break;
+        }
+      }
+    } finally {
+      walker.close();
+      if (writer && snapshot && complete) {
+        await writer
+          .save({ repoPath, ...snapshot, total: walker.position })
+          .catch(() => writer.discard());
+      } else {
+        await writer?.discard();
       }
-      skip += chunkSize;
     }
   }
 
@@ -719,7 +1775,7 @@ class GitService {
       const result = await git.raw([
         "show",
         "--no-patch",
-        `--format=%H${DELIM}%h${DELIM}%s${DELIM}%b${DELIM}%an${DELIM}%ae${DELIM}%aI${DELIM}%P${DELIM}%D`,
+        `--format=%H${DELIM}%h${DELIM}%s${DELIM}%b${DELIM}%aN${DELIM}%aE${DELIM}%aI${DELIM}%P${DELIM}%D`,
         hash,
       ]);
 
@@ -765,24 +1821,110 @@ class GitService {
     commitHash: string,
   ): Promise<DiffStats> {
     const git = this.getGit(repoPath);
+    const parentHash = await this.getParentOrEmptyTree(git, commitHash);
+    return this.getDiffStatsBetween(git, parentHash, commitHash);
+  }
+
+  async getFileDiff(
+    repoPath: string,
+    commitHash: string,
+    filePath: string,
+  ): Promise<FileDiffDetail> {
+    const git = this.getGit(repoPath);
+    const parentHash = await this.getParentOrEmptyTree(git, commitHash);
+    const stats = await this.getDiffStatsBetween(git, parentHash, commitHash);
+    const fileStats = stats.files.find((f) => f.path === filePath);
 
-    // Get parent commit hash (empty tree for root commit)
-    let parentHash = this.EMPTY_TREE_HASH;
+    if (!fileStats) {
+      throw new ApiError(
+        "FILE_NOT_FOUND",
+        `File ${filePath} not found in commit ${commitHash}`,
+      );
+    }
+
+    return this.getFileDiffBetween(repoPath, parentHash, commitHash, fileStats);
+  }
+
+  /**
+   * Diff between two arbitrary revisions, as if every commit in between had
+   * been squashed together. Both ends are resolved to commit hashes so the
+   * caller can tell exactly what was compared.
+   */
+  async diff(repoPath: string, from: string, to: string): Promise<RangeDiff> {
+    const git = this.getGit(repoPath);
+    const [fromHash, toHash] = await Promise.all([
+      this.resolveCommit(git, from),
+      this.resolveCommit(git, to),
+    ]);
+    const stats = await this.getDiffStatsBetween(git, fromHash, toHash);
+    return { from: fromHash, to: toHash, ...stats };
+  }
+
+  // Hunks for one file of a from..to diff
+  async diffFile(
+    repoPath: string,
+    from: string,
+    to: string,
+    filePath: string,
+  ): Promise<FileDiffDetail> {
+    const git = this.getGit(repoPath);
+    const [fromHash, toHash] = await Promise.all([
+      this.resolveCommit(git, from),
+      this.resolveCommit(git, to),
+    ]);
+    const stats = await this.getDiffStatsBetween(git, fromHash, toHash);
+    const fileStats = stats.files.find((f) => f.path === filePath);
+
+    if (!fileStats) {
+      throw new ApiError(
+        "FILE_NOT_FOUND",
+        `File ${filePath} not changed between ${from} and ${to}`,
+      );
+    }
+
+    return this.getFileDiffBetween(repoPath, fromHash, toHash, fileStats);
+  }
+
+  private async resolveCommit(git: SimpleGit, rev: string): Promise<string> {
+    try {
+      const hash = await git.raw([
+        "rev-parse",
+        "--verify",
+        "--end-of-options",
+        `${rev}^{commit}`,
+      ]);
+      return hash.trim();
+    } catch {
+      throw new ApiError("REF_NOT_FOUND", `Unknown revision: ${rev}`);
+    }
+  }
+
+  // Parent of a commit, or the empty tree for a root commit
+  private async getParentOrEmptyTree(
+    git: SimpleGit,
+    commitHash: string,
+  ): Promise<string> {
     try {
       const parent = await git.raw(["rev-parse", `${commitHash}^`]);
-      parentHash = parent.trim();
+      return parent.trim();
     } catch {
-      // Root commit - use empty tree
+      return this.EMPTY_TREE_HASH;
     }
+  }
 
+  private async getDiffStatsBetween(
+    git: SimpleGit,
+    from: string,
+    to: string,
+  ): Promise<DiffStats> {
     // Get numstat for additions/deletions count
     const numstat = await git.raw([
       "diff",
       "--numstat",
       "--find-renames",
       "--find-copies",
-      parentHash,
-      commitHash,
+      from,
+      to,
     ]);
 
     // Get name-status for file status (A/D/M/R/C)
@@ -791,8 +1933,8 @@ class GitService {
       "--name-status",
       "--find-renames",
       "--find-copies",
-      parentHash,
-      commitHash,
+      from,
+      to,
     ]);
 
     // Parse name-status to get file statuses
@@ -862,38 +2004,23 @@ class GitService {
     return { files, totalAdditions, totalDeletions };
   }
 
-  async getFileDiff(
+  private async getFileDiffBetween(
     repoPath: string,
-    commitHash: string,
-    filePath: string,
+    from: string,
+    to: string,
+    fileStats: FileDiff,
   ): Promise<FileDiffDetail> {
     const git = this.getGit(repoPath);
-
-    // Get parent hash
-    let parentHash = this.EMPTY_TREE_HASH;
-    try {
-      const parent = await git.raw(["rev-parse", `${commitHash}^`]);
-      parentHash = parent.trim();
-    } catch {
-      // Root commit
-    }
-
-    // Get file status and stats
-    const stats = await this.getCommitDiffStats(repoPath, commitHash);
-    const fileStats = stats.files.find((f) => f.path === filePath);
-
-    if (!fileStats) {
-      throw new Error(`File ${filePath} not found in commit ${commitHash}`);
-    }
-
-    // Get unified diff for the file
+    const filePath = fileStats.path;
     const diffPath = fileStats.oldPath ? `${fileStats.oldPath}` : filePath;
 
+    await this.fetchMissingBlobs(repoPath, [from, to], [diffPath, filePath]);
+
     const diffOutput = await git.raw([
       "diff",
       "--unified=3",
-      parentHash,
-      commitHash,
+      from,
+      to,
       "--",
       diffPath,
       ...(fileStats.oldPath ? [filePath] : []),
@@ -998,6 +2125,7 @@ class GitService {
     filePath: string,
   ): Promise<FileContent> {
     const git = this.getGit(repoPath);
+    await this.fetchMissingBlobs(repoPath, [commitHash], [filePath]);
 
     // Check if file is binary
     const isBinary = await this.isFileBinary(git, commitHash, filePath);
@@ -1063,136 +2191,397 @@ class GitService {
     }
   }
 
-  // ===== CONTRIBUTOR STATS METHODS =====
+  // ===== COMMIT CACHE METHODS =====
 
-  async getContributorStats(repoPath: string): Promise<ContributorStats[]> {
+  /**
+   * Snapshot every ref tip. The fingerprint changes whenever a ref is
+   * created, moved or deleted, HEAD switches to another branch, or the
+   * mailmap changes; `mailmap` fingerprints the mailmap alone, since a delta
+   * walk can't rewrite the authors of commits that are already cached.
+   */
+  async getRefTips(
+    repoPath: string,
+  ): Promise<{ fingerprint: string; tips: string[]; mailmap: string }> {
     const git = this.getGit(repoPath);
+    const [refs, head] = await Promise.all([
+      git.raw([
+        "for-each-ref",
+        "--format=%(objecttype) %(objectname) %(*objecttype) %(*objectname) %(refname)",
+      ]),
+      // Empty repositories have no HEAD commit yet
+      git
+        .raw(["rev-parse", "HEAD", "--symbolic-full-name", "HEAD"])
+        .catch(() => ""),
+    ]);
+
+    const tips = new Set<string>();
+    for (const line of refs.split("\n")) {
+      const [type, hash, peeledType, peeledHash] = line.split(" ");
+      // Annotated tags point at tag objects; walk from the commit they peel to
+      if (peeledType === "commit") {
+        tips.add(peeledHash);
+      } else if (type === "commit") {
+        tips.add(hash);
+      }
+    }
+    const headHash = head.split("\n")[0];
+    if (/^[0-9a-f]{40,64}$/.test(headHash)) tips.add(headHash);
+
+    // Mailmapped authors feed the stats, so mailmap edits count too
+    const mailmap = identityService.mailmapFingerprint(repoPath);
+    const fingerprint = createHash("sha1")
+      .update(refs)
+      .update(head)
+      .update(mailmap)
+      .digest("hex");
+    return { fingerprint, tips: [...tips], mailmap };
+  }
 
-    // Get commit counts per author using shortlog
-    const shortlog = await git.raw(["shortlog", "-sne", "--all"]);
+  // Run a git log over revisions fed through --stdin and collect everything
+  private async collectCommits(
+    repoPath: string,
+    args: string[],
+    revisions: string[],
+  ): Promise<Commit[]> {
+    const walker = new CommitWalker(
+      repoPath,
+      [...args, "--stdin"],
+      0,
+      revisions.join("\n") + "\n",
+    );
+    try {
+      return await walker.take(Infinity);
+    } finally {
+      walker.close();
+    }
+  }
 
-    // Parse shortlog output: "  123\tAuthor Name <email@example.com>"
-    const contributors = new Map<string, ContributorStats>();
+  /**
+   * How the history changed between two sets of ref tips: commits that
+   * became reachable, commits that are no longer reachable (deleted or
+   * force-pushed refs), and the current decorations of commits that were or
+   * are a tip, since refs may have moved on or off them.
+   */
+  private async computeCommitDelta(
+    repoPath: string,
+    oldTips: string[],
+    newTips: string[],
+  ): Promise<{
+    added: Commit[];
+    removed: string[];
+    redecorated: Map<string, RefInfo[]>;
+  }> {
+    const exclude = (tips: string[]) => tips.map((tip) => `^${tip}`);
+
+    // New commits: reachable from the new tips but not from the old ones
+    const added = newTips.length
+      ? await this.collectCommits(
+          repoPath,
+          ["--date-order"],
+          [...newTips, ...exclude(oldTips)],
+        )
+      : [];
+
+    // Dropped commits: only reachable from deleted or force-pushed refs
+    const removed = oldTips.length
+      ? await this.collectCommits(
+          repoPath,
+          [],
+          [...oldTips, ...exclude(newTips)],
+        )
+      : [];
+
+    const addedHashes = new Set(added.map((c) => c.hash));
+    const removedHashes = new Set(removed.map((c) => c.hash));
+
+    // Commits at an old or new tip may have gained or lost decorations
+    const retipped = [...new Set([...oldTips, ...newTips])].filter(
+      (hash) => !addedHashes.has(hash) && !removedHashes.has(hash),
+    );
+    const redecorated = new Map(
+      (retipped.length
+        ? await this.collectCommits(repoPath, ["--no-walk=unsorted"], retipped)
+        : []
+      ).map((c) => [c.hash, c.refs]),
+    );
 
-    for (const line of shortlog.trim().split("\n").filter(Boolean)) {
-      const match = line.match(/^\s*(\d+)\t(.+)\s<(.+)>$/);
-      if (match) {
-        const [, count, name, email] = match;
-        contributors.set(email, {
-          name,
-          email,
-          commitCount: parseInt(count, 10),
-          additions: 0,
-          deletions: 0,
-          firstCommit: "",
-          lastCommit: "",
-        });
-      }
+    return { added, removed: [...removedHashes], redecorated };
+  }
+
+  /**
+   * Bring the on-disk commit cache up to date with the current refs. Only the
+   * commits added since the cache was written are walked; commits that became
+   * unreachable are dropped and moved refs are redecorated. Returns null when
+   * there is no usable cache.
+   */
+  private syncCommitCache(repoPath: string): Promise<CommitCacheMeta | null> {
+    const pending = this.cacheSyncs.get(repoPath);
+    if (pending) return pending;
+
+    const sync = this.updateCommitCache(repoPath).finally(() =>
+      this.cacheSyncs.delete(repoPath),
+    );
+    this.cacheSyncs.set(repoPath, sync);
+    return sync;
+  }
+
+  private async updateCommitCache(
+    repoPath: string,
+  ): Promise<CommitCacheMeta | null> {
+    const meta = await commitCache.readMeta(repoPath);
+    if (!meta) return null;
+
+    const current = await this.getRefTips(repoPath).catch(() => null);
+    if (!current) return null;
+    if (current.fingerprint === meta.fingerprint) return meta;
+    if (current.mailmap !== meta.mailmap) {
+      // Every cached author may be renamed; only a full walk redoes them
+      await commitCache.invalidate(repoPath);
+      return null;
     }
 
-    // Get first and last commit dates per author
-    const dateLog = await git.raw(["log", "--all", "--format=%ae|%aI"]);
+    const writer = commitCache.createWriter(repoPath);
 
-    const authorDates = new Map<string, string[]>();
-    for (const line of dateLog.trim().split("\n").filter(Boolean)) {
-      const [email, date] = line.split("|");
-      if (!authorDates.has(email)) {
-        authorDates.set(email, []);
+    try {
+      const { added, removed, redecorated } = await this.computeCommitDelta(
+        repoPath,
+        meta.tips,
+        current.tips,
+      );
+      const addedHashes = new Set(added.map((c) => c.hash));
+      const removedHashes = new Set(removed);
+
+      // New commits are the newest, so they go first in graph order
+      await writer.write(added);
+      let total = added.length;
+      for await (const chunk of commitCache.readCommits(meta, {
+        chunkSize: 1000,
+      })) {
+        const kept = chunk
+          // A walk racing a ref update may have cached some "new" commits
+          .filter((c) => !removedHashes.has(c.hash) && !addedHashes.has(c.hash))
+          .map((c) => {
+            const refs = redecorated.get(c.hash);
+            return refs ? { ...c, refs } : c;
+          });
+        total += kept.length;
+        await writer.write(kept);
       }
-      authorDates.get(email)!.push(date);
+
+      await writer.save({ repoPath, ...current, total });
+      return await commitCache.readMeta(repoPath);
+    } catch {
+      // Old tips gone (e.g. garbage collected) or I/O failure: rebuild later
+      await writer.discard();
+      await commitCache.invalidate(repoPath);
+      return null;
     }
+  }
 
-    // Set first and last commit dates
-    for (const [email, dates] of authorDates) {
-      if (contributors.has(email) && dates.length > 0) {
-        const contributor = contributors.get(email)!;
-        // Dates come in reverse chronological order from git log
-        contributor.lastCommit = dates[0];
-        contributor.firstCommit = dates[dates.length - 1];
+  // Every commit of the plain history walk, from the cache when possible
+  private async loadAllCommits(repoPath: string): Promise<Commit[]> {
+    const meta = await this.syncCommitCache(repoPath);
+    if (meta) {
+      const commits: Commit[] = [];
+      for await (const chunk of commitCache.readCommits(meta, {
+        chunkSize: 5000,
+      })) {
+        commits.push(...chunk);
       }
+      return commits;
     }
 
-    // Get line stats per author (can be slow for large repos, so we sample)
-    try {
-      const statLog = await git.raw([
-        "log",
-        "--all",
-        "--shortstat",
-        "--format=%ae",
-        "-n",
-        "1000", // Limit to recent 1000 commits for performance
-      ]);
+    const snapshot = await this.getRefTips(repoPath);
+    const commits = await this.getCommits(this.getGit(repoPath));
 
-      let currentEmail = "";
-      for (const line of statLog.split("\n")) {
-        if (line.includes("@")) {
-          currentEmail = line.trim();
-        } else if (line.includes("insertion") || line.includes("deletion")) {
-          const insertMatch = line.match(/(\d+) insertion/);
-          const deleteMatch = line.match(/(\d+) deletion/);
-
-          if (contributors.has(currentEmail)) {
-            const contributor = contributors.get(currentEmail)!;
-            if (insertMatch) {
-              contributor.additions += parseInt(insertMatch[1], 10);
-            }
-            if (deleteMatch) {
-              contributor.deletions += parseInt(deleteMatch[1], 10);
-            }
-          }
-        }
+    // The cache is an optimisation; failing to write it isn't an error
+    const writer = commitCache.createWriter(repoPath);
+    await writer
+      .write(commits)
+      .then(() => writer.save({ repoPath, ...snapshot, total: commits.length }))
+      .catch(() => writer.discard());
+
+    return commits;
+  }
+
+  // ===== FILE HISTORY METHODS =====
+
+  /**
+   * List every commit that touched a file, newest first, with per-commit
+   * line stats. With `follow`, the walk continues across renames and the
+   * commits that renamed the file carry the previous path in `oldPath`.
+   */
+  async getFileHistory(
+    repoPath: string,
+    filePath: string,
+    options: FileHistoryOptions = {},
+  ): Promise<FileHistoryEntry[]> {
+    const git = this.getGit(repoPath);
+    const { follow = true, ref = "HEAD", maxCount = 1000 } = options;
+
+    // Record separator before each commit, unit separator between fields
+    const args = [
+      "log",
+      "--numstat",
+      "--format=%x1e%H%x1f%h%x1f%s%x1f%aN%x1f%aE%x1f%aI%x1f%P%x1f%D",
+      `--max-count=${maxCount}`,
+    ];
+    if (follow) {
+      args.push("--follow");
+    }
+    args.push(ref, "--", filePath);
+
+    const output = await git.raw(args);
+    const entries: FileHistoryEntry[] = [];
+
+    for (const record of output.split("\x1e").filter((r) => r.trim())) {
+      const [header, ...statLines] = record.split("\n");
+      const [
+        hash,
+        shortHash,
+        message,
+        authorName,
+        authorEmail,
+        date,
+        parents,
+        refs = "",
+      ] = header.split("\x1f");
+
+      const commit: Commit = {
+        hash,
+        shortHash,
+        message,
+        body: "",
+        author: { name: authorName, email: authorEmail },
+        date,
+        parents: parents ? parents.split(" ").filter(Boolean) : [],
+        refs: parseRefs(refs),
+      };
+
+      // Merge commits have no numstat output; keep them with zero stats
+      // under the name the file had in the next newer entry
+      const statLine = statLines.find((line) => line.includes("\t"));
+      if (!statLine) {
+        const newer = entries[entries.length - 1];
+        entries.push({
+          commit,
+          path: newer ? (newer.oldPath ?? newer.path) : filePath,
+          additions: 0,
+          deletions: 0,
+          binary: false,
+        });
+        continue;
       }
-    } catch {
-      // Line stats failed, continue without them
+
+      const [added, deleted, rawPath] = statLine.split("\t");
+      const { path: entryPath, oldPath } = parseNumstatPath(rawPath);
+
+      entries.push({
+        commit,
+        path: entryPath,
+        oldPath,
+        additions: added === "-" ? 0 : parseInt(added, 10),
+        deletions: deleted === "-" ? 0 : parseInt(deleted, 10),
+        binary: added === "-" && deleted === "-",
+      });
     }
 
-    // Sort by commit count descending
-    return Array.from(contributors.values()).sort(
-      (a, b) => b.commitCount - a.commitCount,
-    );
+    return entries;
   }
 
-  async getActivityHeatmap(
+  // ===== BLAME METHODS =====
+
+  /**
+   * Blame a file at a commit using the porcelain format. Commit headers are
+   * only printed the first time a commit appears, so they are cached by hash.
+   */
+  async getBlame(
     repoPath: string,
-    days: number = 365,
-  ): Promise<ActivityDay[]> {
+    commitHash: string,
+    filePath: string,
+  ): Promise<BlameLine[]> {
     const git = this.getGit(repoPath);
 
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Get all commit dates
-    const log = await git.raw([
-      "log",
-      "--all",
-      "--format=%aI",
-      `--since=${startDate.toISOString()}`,
+    const output = await git.raw([
+      "blame",
+      "--porcelain",
+      commitHash,
+      "--",
+      filePath,
     ]);
 
-    // Count commits per day
-    const dayCounts = new Map<string, number>();
+    type BlameCommitInfo = Omit<
+      BlameLine,
+      "lineNumber" | "originalLineNumber" | "content"
+    >;
 
-    for (const line of log.trim().split("\n").filter(Boolean)) {
-      const date = line.split("T")[0]; // Extract YYYY-MM-DD
-      dayCounts.set(date, (dayCounts.get(date) || 0) + 1);
-    }
+    const commitInfo = new Map<string, BlameCommitInfo>();
+    const lines: BlameLine[] = [];
+    let current: {
+      hash: string;
+      originalLineNumber: number;
+      lineNumber: number;
+    } | null = null;
+
+    for (const line of output.split("\n")) {
+      if (!current) {
+        // Group header: <hash> <original line> <final line> [<line count>]
+        const header = line.match(/^([a-f0-9]{40}) (\d+) (\d+)/);
+        if (!header) continue;
+
+        const [, hash, originalLine, finalLine] = header;
+        current = {
+          hash,
+          originalLineNumber: parseInt(originalLine, 10),
+          lineNumber: parseInt(finalLine, 10),
+        };
+        if (!commitInfo.has(hash)) {
+          commitInfo.set(hash, {
+            hash,
+            author: { name: "", email: "" },
+            date: "",
+            summary: "",
+            originalPath: filePath,
+          });
+        }
+        continue;
+      }
 
-    // Generate array for all days in range
-    const result: ActivityDay[] = [];
-    const currentDate = new Date(startDate);
+      const info = commitInfo.get(current.hash)!;
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
-      result.push({
-        date: dateStr,
-        count: dayCounts.get(dateStr) || 0,
-      });
-      currentDate.setDate(currentDate.getDate() + 1);
+      if (line.startsWith("\t")) {
+        // Content line ends the entry
+        lines.push({
+          ...info,
+          lineNumber: current.lineNumber,
+          originalLineNumber: current.originalLineNumber,
+          content: line.slice(1),
+        });
+        current = null;
+        continue;
+      }
+
+      const spaceIndex = line.indexOf(" ");
+      const key = spaceIndex === -1 ? line : line.slice(0, spaceIndex);
+      const value = spaceIndex === -1 ? "" : line.slice(spaceIndex + 1);
+
+      if (key === "author") {
+        info.author.name = value;
+      } else if (key === "author-mail") {
+        info.author.email = value.replace(/^<|>$/g, "");
+      } else if (key === "author-time") {
+        info.date = new Date(parseInt(value, 10) * 1000).toISOString();
+      } else if (key === "summary") {
+        info.summary = value;
+      } else if (key === "filename") {
+        info.originalPath = value;
+      } else if (key === "previous") {
+        const [previousHash, ...previousPath] = value.split(" ");
+        info.previous = { hash: previousHash, path: previousPath.join(" ") };
+      }
     }
 
-    return result;
+    return lines;
   }
 
   // ===== REMOTE METHODS =====
@@ -1322,11 +2711,15 @@ class GitService {
     const submodule = submodules.find((s) => s.path === submodulePath);
 
     if (!submodule) {
-      throw new Error(`Submodule not found: ${submodulePath}`);
+      throw new ApiError(
+        "SUBMODULE_NOT_FOUND",
+        `Submodule not found: ${submodulePath}`,
+      );
     }
 
     if (!submodule.initialized) {
-      throw new Error(
+      throw new ApiError(
+        "SUBMODULE_NOT_INITIALIZED",
         `Submodule "${submodulePath}" is not initialized. ` +
           `Run "git submodule update --init ${submodulePath}" to initialize it.`,
       );
@@ -1336,7 +2729,8 @@ class GitService {
     const isValid = await this.validateRepository(fullPath);
 
     if (!isValid) {
-      throw new Error(
+      throw new ApiError(
+        "NOT_A_REPO",
         `Submodule at "${submodulePath}" is not a valid git repository.`,
       );
     }
@@ -1358,7 +2752,7 @@ class GitService {
       "log",
       "--oneline",
       `${baseBranch}..${compareBranch}`,
-      "--format=%H|%h|%s|%an|%ae|%aI|%P|%D",
+      "--format=%H|%h|%s|%aN|%aE|%aI|%P|%D",
     ]);
 
     // Get commits behind (in base but not in compare)
@@ -1366,7 +2760,7 @@ class GitService {
       "log",
       "--oneline",
       `${compareBranch}..${baseBranch}`,
-      "--format=%H|%h|%s|%an|%ae|%aI|%P|%D",
+      "--format=%H|%h|%s|%aN|%aE|%aI|%P|%D",
     ]);
 
     const parseCommitLine = (line: string): Commit | null => {
@@ -1409,82 +2803,8 @@ class GitService {
       .filter((c): c is Commit => c !== null);
 
     // Get diff stats between branches
-    const numstat = await git.raw([
-      "diff",
-      "--numstat",
-      "--find-renames",
-      "--find-copies",
-      baseBranch,
-      compareBranch,
-    ]);
-
-    const nameStatus = await git.raw([
-      "diff",
-      "--name-status",
-      "--find-renames",
-      "--find-copies",
-      baseBranch,
-      compareBranch,
-    ]);
-
-    // Parse name-status
-    const statusMap = new Map<string, { status: string; oldPath?: string }>();
-    for (const line of nameStatus.trim().split("\n").filter(Boolean)) {
-      const parts = line.split("\t");
-      const status = parts[0];
-      if (status.startsWith("R") || status.startsWith("C")) {
-        statusMap.set(parts[2], { status: status[0], oldPath: parts[1] });
-      } else {
-        statusMap.set(parts[1], { status: status[0] });
-      }
-    }
-
-    // Parse numstat
-    const files: FileDiff[] = [];
-    let totalAdditions = 0;
-    let totalDeletions = 0;
-
-    for (const line of numstat.trim().split("\n").filter(Boolean)) {
-      const parts = line.split("\t");
-      const additions = parts[0] === "-" ? 0 : parseInt(parts[0], 10);
-      const deletions = parts[1] === "-" ? 0 : parseInt(parts[1], 10);
-      const binary = parts[0] === "-" && parts[1] === "-";
-
-      let filePath = parts[2];
-      if (filePath.includes(" => ")) {
-        const match =
-          filePath.match(/^(.*)?\{(.+) => (.+)\}(.*)$/) ||
-          filePath.match(/^(.+) => (.+)$/);
-        if (match) {
-          if (match.length === 5) {
-            filePath = match[1] + match[3] + match[4];
-          } else {
-            filePath = match[2];
-          }
-        }
-      }
-
-      const statusInfo = statusMap.get(filePath) || { status: "M" };
-      const statusChar = statusInfo.status;
-
-      let status: FileDiff["status"] = "modified";
-      if (statusChar === "A") status = "added";
-      else if (statusChar === "D") status = "deleted";
-      else if (statusChar === "R") status = "renamed";
-      else if (statusChar === "C") status = "copied";
-
-      files.push({
-        path: filePath,
-        oldPath: statusInfo.oldPath,
-        status,
-        additions,
-        deletions,
-        binary,
-      });
-
-      totalAdditions += additions;
-      totalDeletions += deletions;
-    }
+    const { files, totalAdditions, totalDeletions } =
+      await this.getDiffStatsBetween(git, baseBranch, compareBranch);
 
     return {
       baseBranch,
@@ -1499,273 +2819,24 @@ class GitService {
     };
   }
 
-  // ===== CODE CHURN ANALYSIS =====
-
-  async getCodeChurn(
-    repoPath: string,
-    limit: number = 50,
-  ): Promise<FileChurnStats[]> {
-    const git = this.getGit(repoPath);
-
-    // Get file changes with stats
-    const log = await git.raw([
-      "log",
-      "--all",
-      "--format=%H|%ae|%aI",
-      "--numstat",
-      "-n",
-      "5000", // Limit for performance
-    ]);
-
-    // Parse and aggregate file stats
-    const fileStats = new Map<
-      string,
-      {
-        changeCount: number;
-        additions: number;
-        deletions: number;
-        authors: Set<string>;
-        lastModified: string;
-      }
-    >();
-
-    let currentAuthor = "";
-    let currentDate = "";
-
-    for (const line of log.split("\n")) {
-      if (line.includes("|")) {
-        // Commit line: hash|author|date
-        const parts = line.split("|");
-        if (parts.length >= 3) {
-          currentAuthor = parts[1];
-          currentDate = parts[2];
-        }
-      } else if (line.match(/^\d+\t\d+\t/)) {
-        // Numstat line: additions\tdeletions\tfilepath
-        const parts = line.split("\t");
-        const additions = parseInt(parts[0], 10) || 0;
-        const deletions = parseInt(parts[1], 10) || 0;
-        const filePath = parts[2];
-
-        if (filePath && !filePath.includes(" => ")) {
-          if (!fileStats.has(filePath)) {
-            fileStats.set(filePath, {
-              changeCount: 0,
-              additions: 0,
-              deletions: 0,
-              authors: new Set(),
-              lastModified: currentDate,
-            });
-          }
-
-          const stats = fileStats.get(filePath)!;
-          stats.changeCount++;
-          stats.additions += additions;
-          stats.deletions += deletions;
-          stats.authors.add(currentAuthor);
-          if (currentDate > stats.lastModified) {
-            stats.lastModified = currentDate;
-          }
-        }
-      }
-    }
-
-    // Calculate churn score and convert to array
-    const result: FileChurnStats[] = [];
-    const now = new Date();
-
-    for (const [path, stats] of fileStats) {
-      // Churn score: weighted combination of change frequency, author count, and recency
-      const daysSinceModified = Math.max(
-        1,
-        (now.getTime() - new Date(stats.lastModified).getTime()) /
-          (1000 * 60 * 60 * 24),
-      );
-      const recencyScore = Math.min(1, 30 / daysSinceModified); // Higher if modified recently
-      const churnScore =
-        stats.changeCount * 0.6 +
-        stats.authors.size * 0.2 * 10 +
-        recencyScore * 0.2 * 100;
-
-      result.push({
-        path,
-        changeCount: stats.changeCount,
-        totalAdditions: stats.additions,
-        totalDeletions: stats.deletions,
-        authors: Array.from(stats.authors),
-        lastModified: stats.lastModified,
-        churnScore: Math.round(churnScore * 100) / 100,
-      });
-    }
-
-    // Sort by churn score and limit
-    return result.sort((a, b) => b.churnScore - a.churnScore).slice(0, limit);
-  }
-
-  // ===== BUS FACTOR ANALYSIS =====
+  // ===== BRANCH LIFESPAN =====
 
-  async getBusFactor(
+  /**
+   * Lifespan and status of every local branch. Branches are analyzed in
+   * parallel, with their git processes bounded by the shared job limiter;
+   * `onProgress` and `onPartial` report each finished branch.
+   */
+  async getBranchLifespans(
     repoPath: string,
-    minCommits: number = 5,
-  ): Promise<FileBusFactor[]> {
+    options: BranchLifespanOptions = {},
+  ): Promise<BranchLifespan[]> {
+    const { signal, onProgress, onPartial } = options;
     const git = this.getGit(repoPath);
-
-    // Get file authorship data
-    const log = await git.raw([
-      "log",
-      "--all",
-      "--format=%an|%ae",
-      "--name-only",
-      "-n",
-      "5000", // Limit for performance
-    ]);
-
-    // Aggregate commits per file per author
-    const fileAuthors = new Map<
-      string,
-      Map<string, { name: string; email: string; commits: number }>
-    >();
-
-    let currentAuthor = { name: "", email: "" };
-
-    for (const line of log.split("\n")) {
-      if (line.includes("|")) {
-        const [name, email] = line.split("|");
-        currentAuthor = { name, email };
-      } else if (line.trim() && !line.startsWith(" ")) {
-        const filePath = line.trim();
-        if (filePath) {
-          if (!fileAuthors.has(filePath)) {
-            fileAuthors.set(filePath, new Map());
-          }
-
-          const authors = fileAuthors.get(filePath)!;
-          const key = currentAuthor.email;
-          if (!authors.has(key)) {
-            authors.set(key, { ...currentAuthor, commits: 0 });
-          }
-          authors.get(key)!.commits++;
-        }
-      }
-    }
-
-    // Calculate bus factor for each file
-    const result: FileBusFactor[] = [];
-
-    for (const [path, authors] of fileAuthors) {
-      const contributorArray = Array.from(authors.values());
-      const totalCommits = contributorArray.reduce(
-        (sum, a) => sum + a.commits,
-        0,
-      );
-
-      // Skip files with few commits
-      if (totalCommits < minCommits) continue;
-
-      // Sort by commits descending
-      contributorArray.sort((a, b) => b.commits - a.commits);
-
-      const primary = contributorArray[0];
-      const primaryPercentage = (primary.commits / totalCommits) * 100;
-
-      // Calculate bus factor: count of contributors with >10% of commits
-      const significantContributors = contributorArray.filter(
-        (a) => a.commits / totalCommits >= 0.1,
-      ).length;
-
-      result.push({
-        path,
-        primaryAuthor: {
-          name: primary.name,
-          email: primary.email,
-          percentage: Math.round(primaryPercentage * 10) / 10,
-        },
-        totalCommits,
-        uniqueContributors: contributorArray.length,
-        busFactor: significantContributors,
-        contributors: contributorArray.slice(0, 5).map((c) => ({
-          name: c.name,
-          email: c.email,
-          commits: c.commits,
-          percentage: Math.round((c.commits / totalCommits) * 1000) / 10,
-        })),
+    const raw = (args: string[]) =>
+      gitProcesses.run(() => {
+        signal?.throwIfAborted();
+        return git.raw(args);
       });
-    }
-
-    // Sort by bus factor ascending (lower = higher risk)
-    return result.sort((a, b) => a.busFactor - b.busFactor);
-  }
-
-  // ===== COMMIT PATTERNS =====
-
-  async getCommitPatterns(repoPath: string): Promise<CommitPatterns> {
-    const git = this.getGit(repoPath);
-
-    // Get all commit timestamps
-    const log = await git.raw(["log", "--all", "--format=%aI"]);
-
-    // Build 7x24 matrix (dayOfWeek x hour)
-    const matrix = new Map<string, number>();
-    const hourTotals = new Map<number, number>();
-    const dayTotals = new Map<number, number>();
-    let totalCommits = 0;
-
-    for (const line of log.trim().split("\n").filter(Boolean)) {
-      const date = new Date(line);
-      const hour = date.getHours();
-      const dayOfWeek = date.getDay();
-      const key = `${dayOfWeek}-${hour}`;
-
-      matrix.set(key, (matrix.get(key) || 0) + 1);
-      hourTotals.set(hour, (hourTotals.get(hour) || 0) + 1);
-      dayTotals.set(dayOfWeek, (dayTotals.get(dayOfWeek) || 0) + 1);
-      totalCommits++;
-    }
-
-    // Find peak hour and day
-    let peakHour = 0;
-    let peakHourCount = 0;
-    for (const [hour, count] of hourTotals) {
-      if (count > peakHourCount) {
-        peakHour = hour;
-        peakHourCount = count;
-      }
-    }
-
-    let peakDay = 0;
-    let peakDayCount = 0;
-    for (const [day, count] of dayTotals) {
-      if (count > peakDayCount) {
-        peakDay = day;
-        peakDayCount = count;
-      }
-    }
-
-    // Convert matrix to array
-    const hourlyDistribution: CommitPatternCell[] = [];
-    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
-      for (let hour = 0; hour < 24; hour++) {
-        const key = `${dayOfWeek}-${hour}`;
-        hourlyDistribution.push({
-          dayOfWeek,
-          hour,
-          count: matrix.get(key) || 0,
-        });
-      }
-    }
-
-    return {
-      hourlyDistribution,
-      peakHour,
-      peakDay,
-      totalCommits,
-    };
-  }
-
-  // ===== BRANCH LIFESPAN =====
-
-  async getBranchLifespans(repoPath: string): Promise<BranchLifespan[]> {
-    const git = this.getGit(repoPath);
 
     // Get all branches
     const branches = await this.getBranches(git);
@@ -1779,10 +2850,11 @@ class GitService {
     // Get merged branches
     let mergedBranchesRaw = "";
     try {
-      mergedBranchesRaw = await git.raw(["branch", "--merged", defaultBranch]);
+      mergedBranchesRaw = await raw(["branch", "--merged", defaultBranch]);
     } catch {
       // Default branch might not exist
     }
+    signal?.throwIfAborted();
     const mergedBranches = new Set(
       mergedBranchesRaw
         .split("\n")
@@ -1791,104 +2863,116 @@ class GitService {
     );
 
     const result: BranchLifespan[] = [];
+    let analyzed = 0;
+    onProgress?.(0, localBranches.length);
+
+    await Promise.all(
+      localBranches.map(async (branch) => {
+        const isMerged =
+          mergedBranches.has(branch.name) && branch.name !== defaultBranch;
+        try {
+          result.push(
+            await this.getBranchLifespan(
+              raw,
+              branch.name,
+              defaultBranch,
+              isMerged,
+            ),
+          );
+          onPartial?.(sortBranchLifespans([...result]));
+        } catch {
+          // Skip branches that can't be analyzed
+        }
+        onProgress?.(++analyzed, localBranches.length);
+      }),
+    );
+    signal?.throwIfAborted();
+
+    return sortBranchLifespans(result);
+  }
+
+  private async getBranchLifespan(
+    raw: (args: string[]) => Promise<string>,
+    branchName: string,
+    defaultBranch: string,
+    isMerged: boolean,
+  ): Promise<BranchLifespan> {
     const now = new Date();
     const STALE_DAYS = 90;
 
-    for (const branch of localBranches) {
-      try {
-        // Get first commit on this branch (when it diverged)
-        const firstCommit = await git.raw([
-          "log",
-          branch.name,
-          "--reverse",
-          "--format=%aI",
-          "-1",
-        ]);
+    const [firstCommit, lastCommit, commitCountRaw] = await Promise.all([
+      // First commit on this branch (when it diverged)
+      raw(["log", branchName, "--reverse", "--format=%aI", "-1"]),
+      // Last commit on this branch
+      raw(["log", branchName, "--format=%aI", "-1"]),
+      raw(["rev-list", "--count", branchName]),
+    ]);
+
+    const createdAt = firstCommit.trim();
+    const lastActivity = lastCommit.trim();
+    const commitCount = parseInt(commitCountRaw.trim(), 10);
+
+    // Determine status
+    const daysSinceActivity =
+      (now.getTime() - new Date(lastActivity).getTime()) /
+      (1000 * 60 * 60 * 24);
+    const isStale = !isMerged && daysSinceActivity > STALE_DAYS;
 
-        // Get last commit on this branch
-        const lastCommit = await git.raw([
+    let status: "active" | "merged" | "stale" = "active";
+    if (isMerged) status = "merged";
+    else if (isStale) status = "stale";
+
+    // Calculate lifespan
+    let lifespanDays: number | null = null;
+    let mergedAt: string | null = null;
+
+    if (isMerged) {
+      // Find merge commit
+      try {
+        const mergeLog = await raw([
           "log",
-          branch.name,
+          defaultBranch,
+          "--merges",
           "--format=%aI",
+          "--ancestry-path",
+          `${branchName}..${defaultBranch}`,
           "-1",
         ]);
-
-        // Get commit count
-        const commitCountRaw = await git.raw([
-          "rev-list",
-          "--count",
-          branch.name,
-        ]);
-
-        const createdAt = firstCommit.trim();
-        const lastActivity = lastCommit.trim();
-        const commitCount = parseInt(commitCountRaw.trim(), 10);
-
-        // Determine status
-        const isMerged =
-          mergedBranches.has(branch.name) && branch.name !== defaultBranch;
-        const daysSinceActivity =
-          (now.getTime() - new Date(lastActivity).getTime()) /
-          (1000 * 60 * 60 * 24);
-        const isStale = !isMerged && daysSinceActivity > STALE_DAYS;
-
-        let status: "active" | "merged" | "stale" = "active";
-        if (isMerged) status = "merged";
-        else if (isStale) status = "stale";
-
-        // Calculate lifespan
-        let lifespanDays: number | null = null;
-        let mergedAt: string | null = null;
-
-        if (isMerged) {
-          // Find merge commit
-          try {
-            const mergeLog = await git.raw([
-              "log",
-              defaultBranch,
-              "--merges",
-              "--format=%aI",
-              "--ancestry-path",
-              `${branch.name}..${defaultBranch}`,
-              "-1",
-            ]);
-            if (mergeLog.trim()) {
-              mergedAt = mergeLog.trim();
-              lifespanDays = Math.round(
-                (new Date(mergedAt).getTime() - new Date(createdAt).getTime()) /
-                  (1000 * 60 * 60 * 24),
-              );
-            }
-          } catch {
-            // Merge commit not found
-          }
-        } else {
-          // Active/stale branch - lifespan is from creation to now
-          lifespanDays = Math.round(daysSinceActivity);
+        if (mergeLog.trim()) {
+          mergedAt = mergeLog.trim();
+          lifespanDays = Math.round(
+            (new Date(mergedAt).getTime() - new Date(createdAt).getTime()) /
+              (1000 * 60 * 60 * 24),
+          );
         }
-
-        result.push({
-          branchName: branch.name,
-          createdAt,
-          mergedAt,
-          lifespanDays,
-          status,
-          commitCount,
-        });
       } catch {
-        // Skip branches that can't be analyzed
+        // Merge commit not found
       }
+    } else {
+      // Active/stale branch - lifespan is from creation to now
+      lifespanDays = Math.round(daysSinceActivity);
     }
 
-    // Sort by status (active first, then stale, then merged), then by lifespan
-    return result.sort((a, b) => {
-      const statusOrder = { active: 0, stale: 1, merged: 2 };
-      if (a.status !== b.status) {
-        return statusOrder[a.status] - statusOrder[b.status];
-      }
-      return (b.lifespanDays || 0) - (a.lifespanDays || 0);
-    });
+    return {
+      branchName,
+      createdAt,
+      mergedAt,
+      lifespanDays,
+      status,
+      commitCount,
+    };
   }
 }
 
+// Active first, then stale, then merged; longest-lived first within each
+function sortBranchLifespans(lifespans: BranchLifespan[]): BranchLifespan[] {
+  const statusOrder = { active: 0, stale: 1, merged: 2 };
+  return lifespans.sort((a, b) => {
+    if (a.status !== b.status) {
+      return statusOrder[a.status] - statusOrder[b.status];
+    }
+    return (b.lifespanDays || 0) - (a.lifespanDays || 0);
+  });
+}
+
 export const gitService = new GitService();
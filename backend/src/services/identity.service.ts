@@ -0,0 +1,165 @@
+import simpleGit from "simple-git";
+import fs from "fs/promises";
+import { readFileSync } from "fs";
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+
+// One user-defined merge: commits by `aliasEmail` are attributed to name/email
+export interface IdentityMerge {
+  aliasEmail: string; // As shown after the repository's own .mailmap
+  name: string;
+  email: string;
+}
+
+/**
+ * Per-repository identity merges that extend or override the repository's
+ * .mailmap. They are stored as JSON and compiled into a mailmap file that git
+ * reads through `mailmap.file`, so every `%aN`/`%aE` and `--author` match
+ * sees the merged identities without any post-processing on our side.
+ */
+class IdentityService {
+  private readonly dir =
+    process.env.IDENTITY_DIR ||
+    path.join(os.homedir(), ".config", "git-visualizer", "identities");
+
+  private keyFor(repoPath: string): string {
+    return crypto
+      .createHash("sha1")
+      .update(path.resolve(repoPath))
+      .digest("hex");
+  }
+
+  // Path of the generated mailmap; git ignores it while it doesn't exist
+  mailmapPathFor(repoPath: string): string {
+    return path.join(this.dir, `${this.keyFor(repoPath)}.mailmap`);
+  }
+
+  // Git arguments that apply the merges, for commands spawned directly
+  gitConfigArgs(repoPath: string): string[] {
+    return ["-c", `mailmap.file=${this.mailmapPathFor(repoPath)}`];
+  }
+
+  /**
+   * Content hash of every mailmap source, so caches of parsed authors can be
+   * invalidated when either the repository's .mailmap or the merges change.
+   */
+  mailmapFingerprint(repoPath: string): string {
+    const hash = crypto.createHash("sha1");
+    for (const file of [
+      path.join(repoPath, ".mailmap"),
+      this.mailmapPathFor(repoPath),
+    ]) {
+      try {
+        hash.update(readFileSync(file));
+      } catch {
+        // Missing mailmap
+      }
+      hash.update("\0");
+    }
+    return hash.digest("hex");
+  }
+
+  async getMerges(repoPath: string): Promise<IdentityMerge[]> {
+    try {
+      const data = await fs.readFile(this.jsonPathFor(repoPath), "utf8");
+      return JSON.parse(data) as IdentityMerge[];
+    } catch {
+      return [];
+    }
+  }
+
+  async saveMerges(
+    repoPath: string,
+    merges: IdentityMerge[],
+  ): Promise<IdentityMerge[]> {
+    const cleaned = this.normalize(merges);
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const aliases = await this.getRepoMailmapAliases(repoPath);
+    const lines = ["# Generated by Git Visualizer identity merges"];
+    for (const merge of cleaned) {
+      // A mailmap entry matches the raw commit email, so also map every raw
+      // email the repository's .mailmap had already folded into the alias
+      const rawEmails = new Set([
+        merge.aliasEmail,
+        ...(aliases.get(merge.aliasEmail) ?? []),
+      ]);
+      for (const rawEmail of rawEmails) {
+        lines.push(`${merge.name} <${merge.email}> <${rawEmail}>`);
+      }
+    }
+
+    // Give commits made under the canonical email the same display name
+    const canonical = new Map(cleaned.map((m) => [m.email, m.name]));
+    for (const [email, name] of canonical) {
+      lines.push(`${name} <${email}>`);
+    }
+
+    await this.writeAtomic(
+      this.mailmapPathFor(repoPath),
+      lines.join("\n") + "\n",
+    );
+    await this.writeAtomic(
+      this.jsonPathFor(repoPath),
+      JSON.stringify(cleaned, null, 2),
+    );
+    return cleaned;
+  }
+
+  private jsonPathFor(repoPath: string): string {
+    return path.join(this.dir, `${this.keyFor(repoPath)}.json`);
+  }
+
+  // Drop incomplete rows and self-merges; the last rule for an alias wins
+  private normalize(merges: IdentityMerge[]): IdentityMerge[] {
+    const byAlias = new Map<string, IdentityMerge>();
+    for (const merge of merges) {
+      const aliasEmail = merge.aliasEmail?.trim().toLowerCase();
+      const name = merge.name?.trim();
+      const email = merge.email?.trim();
+      if (!aliasEmail || !name || !email) continue;
+      if (aliasEmail === email.toLowerCase()) continue;
+      // Angle brackets or newlines would corrupt the generated mailmap
+      if (/[<>\n]/.test(aliasEmail + name + email)) continue;
+      byAlias.set(aliasEmail, { aliasEmail, name, email });
+    }
+    return Array.from(byAlias.values());
+  }
+
+  // Canonical email -> raw emails it replaces in the repository's .mailmap
+  private async getRepoMailmapAliases(
+    repoPath: string,
+  ): Promise<Map<string, string[]>> {
+    let content = "";
+    try {
+      content = await fs.readFile(path.join(repoPath, ".mailmap"), "utf8");
+    } catch {
+      // Bare repositories read the mailmap from HEAD
+      content = await simpleGit(repoPath)
+        .raw(["show", "HEAD:.mailmap"])
+        .catch(() => "");
+    }
+
+    const aliases = new Map<string, string[]>();
+    for (const line of content.split("\n")) {
+      const entry = line.replace(/#.*$/, "").trim();
+      // "Proper Name <proper@email> Commit Name <commit@email>" and variants
+      const emails = [...entry.matchAll(/<([^>]*)>/g)].map((m) =>
+        m[1].trim().toLowerCase(),
+      );
+      if (emails.length < 2) continue;
+      const [canonical, raw] = emails;
+      aliases.set(canonical, [...(aliases.get(canonical) ?? []), raw]);
+    }
+    return aliases;
+  }
+
+  private async writeAtomic(file: string, content: string): Promise<void> {
+    const temp = `${file}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, file);
+  }
+}
+
+export const identityService = new IdentityService();
@@ -0,0 +1,271 @@
+import { randomUUID } from "crypto";
+import { ApiError, ErrorBody, toApiError } from "../errors.js";
+
+// Git processes background work may run at once, across all jobs
+const GIT_CONCURRENCY = Number(process.env.JOB_GIT_CONCURRENCY) || 4;
+
+// Jobs running at once; later ones wait in a queue
+const MAX_RUNNING_JOBS = Number(process.env.JOB_MAX_RUNNING) || 2;
+
+// How long a finished job can still be polled
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+// Progress and partial results are pushed to listeners at most this often
+const NOTIFY_INTERVAL_MS = 250;
+
+/**
+ * Runs async tasks with at most `limit` of them in flight; the rest wait
+ * their turn in order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The finishing task hands its slot over instead of releasing it
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+// Shared by everything that spawns git for a job
+export const gitProcesses = new ConcurrencyLimiter(GIT_CONCURRENCY);
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface JobProgress {
+  completed: number;
+  total: number | null; // null while the amount of work isn't known yet
+  message?: string;
+}
+
+// What clients see of a job
+export interface JobInfo<T = unknown> {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  progress: JobProgress;
+  partial?: T; // Results so far, for jobs that produce them incrementally
+  result?: T;
+  error?: ErrorBody;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+// Handed to the work function of a job
+export interface JobContext<T> {
+  signal: AbortSignal; // Aborted when the job is cancelled
+  progress(completed: number, total: number | null, message?: string): void;
+  partial(data: T): void;
+}
+
+export type JobListener = (job: JobInfo) => void;
+
+interface Job {
+  info: JobInfo;
+  key: string;
+  work: (context: JobContext<unknown>) => Promise<unknown>;
+  controller: AbortController;
+  sessions: Set<string>; // That started or joined the job and still want it
+  listeners: Set<JobListener>;
+  notifyTimer: NodeJS.Timeout | null;
+  finished: Promise<void>;
+  finish: () => void;
+}
+
+const isFinished = (status: JobStatus) =>
+  status === "completed" || status === "failed" || status === "cancelled";
+
+/**
+ * Runs expensive work outside the request that asked for it. Each job has an
+ * ID clients can poll or subscribe to for progress and partial results.
+ * Starting work that an unfinished job is already doing (same key) joins that
+ * job instead of repeating it. Jobs are only visible to the sessions that
+ * started or joined them, and are cancelled once all of them have left.
+ */
+class JobService {
+  private jobs = new Map<string, Job>();
+  private unfinished = new Map<string, Job>(); // By key
+  private queue: Job[] = [];
+  private running = 0;
+
+  start<T>(
+    kind: string,
+    key: string,
+    sessionId: string,
+    work: (context: JobContext<T>) => Promise<T>,
+  ): JobInfo<T> {
+    const existing = this.unfinished.get(key);
+    if (existing) {
+      existing.sessions.add(sessionId);
+      return existing.info as JobInfo<T>;
+    }
+
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const job: Job = {
+      info: {
+        id: randomUUID(),
+        kind,
+        status: "queued",
+        progress: { completed: 0, total: null },
+        createdAt: new Date().toISOString(),
+      },
+      key,
+      work: work as Job["work"],
+      controller: new AbortController(),
+      sessions: new Set([sessionId]),
+      listeners: new Set(),
+      notifyTimer: null,
+      finished,
+      finish,
+    };
+
+    this.jobs.set(job.info.id, job);
+    this.unfinished.set(key, job);
+    this.queue.push(job);
+    this.runQueued();
+    return job.info as JobInfo<T>;
+  }
+
+  get(id: string, sessionId: string): JobInfo {
+    return this.require(id, sessionId).info;
+  }
+
+  // Resolve with the job's result once it's done; reject if it wasn't completed
+  async wait<T>(id: string, sessionId: string): Promise<T> {
+    const job = this.require(id, sessionId);
+    await job.finished;
+
+    const { status, result, error } = job.info;
+    if (status === "completed") return result as T;
+    if (error) throw new ApiError(error.code, error.message, error.details);
+    throw new ApiError("JOB_CANCELLED", "Job was cancelled");
+  }
+
+  /**
+   * Stop waiting on a job. The job keeps running for the other sessions that
+   * joined it and is cancelled once none are left; finished jobs are left as
+   * they are.
+   */
+  leave(id: string, sessionId: string): JobInfo {
+    const job = this.require(id, sessionId);
+    job.sessions.delete(sessionId);
+    if (job.sessions.size > 0 || isFinished(job.info.status)) return job.info;
+
+    this.queue = this.queue.filter((queued) => queued !== job);
+    job.controller.abort();
+    this.settle(job, "cancelled");
+    return job.info;
+  }
+
+  // Report every change to a job until it finishes; returns an unsubscribe function
+  subscribe(id: string, sessionId: string, listener: JobListener): () => void {
+    const job = this.require(id, sessionId);
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  // Other sessions' jobs are reported as missing, not as forbidden
+  private require(id: string, sessionId: string): Job {
+    const job = this.jobs.get(id);
+    if (!job || !job.sessions.has(sessionId)) {
+      throw new ApiError("JOB_NOT_FOUND", "Job not found or expired");
+    }
+    return job;
+  }
+
+  private runQueued(): void {
+    while (this.running < MAX_RUNNING_JOBS && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running++;
+      this.execute(job).finally(() => {
+        this.running--;
+        this.runQueued();
+      });
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    job.info.status = "running";
+    this.notify(job);
+
+    const context: JobContext<unknown> = {
+      signal: job.controller.signal,
+      progress: (completed, total, message) => {
+        job.info.progress = { completed, total, message };
+        this.notify(job);
+      },
+      partial: (data) => {
+        job.info.partial = data;
+        this.notify(job);
+      },
+    };
+
+    try {
+      const result = await job.work(context);
+      if (isFinished(job.info.status)) return; // Cancelled meanwhile
+      job.info.result = result;
+      job.info.partial = undefined;
+      this.settle(job, "completed");
+    } catch (error) {
+      if (isFinished(job.info.status)) return;
+      const apiError = toApiError(error);
+      if (apiError.code === "INTERNAL_ERROR") {
+        console.error(`Job ${job.info.kind} failed:`, apiError.message);
+      }
+      job.info.error = apiError.toJSON();
+      this.settle(job, "failed");
+    }
+  }
+
+  private settle(job: Job, status: JobStatus): void {
+    job.info.status = status;
+    job.info.finishedAt = new Date().toISOString();
+    if (this.unfinished.get(job.key) === job) this.unfinished.delete(job.key);
+
+    if (job.notifyTimer) clearTimeout(job.notifyTimer);
+    job.notifyTimer = null;
+    this.emit(job);
+    job.listeners.clear();
+    job.finish();
+
+    setTimeout(
+      () => this.jobs.delete(job.info.id),
+      FINISHED_JOB_TTL_MS,
+    ).unref();
+  }
+
+  // Coalesce bursts of progress into one update per interval
+  private notify(job: Job): void {
+    if (job.notifyTimer || job.listeners.size === 0) return;
+    job.notifyTimer = setTimeout(() => {
+      job.notifyTimer = null;
+      this.emit(job);
+    }, NOTIFY_INTERVAL_MS);
+  }
+
+  private emit(job: Job): void {
+    for (const listener of job.listeners) listener(job.info);
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,213 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { gitService } from "./git.service.js";
+
+// Temp directory prefixes used by clone ("gitvis-") and upload ("git-visualizer-")
+const TEMP_DIR_PREFIXES = ["gitvis-", "git-visualizer-"];
+
+const SESSION_TTL_MS =
+  (Number(process.env.SESSION_TTL_MINUTES) || 60) * 60 * 1000;
+const REAP_INTERVAL_MS = 60 * 1000;
+
+// Where a session's repository came from
+export type RepoSource = "local" | "clone" | "upload";
+
+export interface RepoSession {
+  id: string;
+  source: RepoSource;
+  path: string; // Absolute path on the server; never sent to clients
+  name: string;
+  displayPath: string; // What clients see in place of the path
+  tempDir?: string; // Directory owned by the session, deleted on release
+  lastAccessedAt: number;
+}
+
+export interface RepoSessionInfo {
+  id: string;
+  source: RepoSource;
+  name: string;
+  path: string;
+  temporary: boolean;
+  expiresAt: string;
+}
+
+/**
+ * Registry of opened repositories. Clients only ever hold the opaque session
+ * ID; every route resolves it back to a path on the server, so clients can't
+ * point the API at arbitrary directories. Sessions expire after a period of
+ * inactivity, and expiring a clone or upload deletes its temp directory.
+ */
+class SessionService {
+  private sessions = new Map<string, RepoSession>();
+  private reaper: NodeJS.Timeout | null = null;
+
+  /**
+   * Reap temp directories left behind by a previous run and start expiring
+   * idle sessions. Only directories older than a session's lifetime go, as
+   * another server sharing the temp directory may still be using newer ones.
+   */
+  async start(): Promise<void> {
+    await this.reapOrphanedTempDirs(SESSION_TTL_MS);
+    if (!this.reaper) {
+      this.reaper = setInterval(() => {
+        this.reapExpired().catch((error) =>
+          console.warn("Session reaper failed:", (error as Error).message),
+        );
+      }, REAP_INTERVAL_MS);
+      this.reaper.unref();
+    }
+  }
+
+  // Open a repository the server may read in place; reuses a live session
+  open(
+    repoPath: string,
+    options: { name?: string; displayPath?: string } = {},
+  ) {
+    const absolutePath = path.resolve(repoPath);
+    for (const session of this.sessions.values()) {
+      if (session.path === absolutePath && !session.tempDir) {
+        session.lastAccessedAt = Date.now();
+        return session;
+      }
+    }
+    return this.create({
+      source: "local",
+      path: absolutePath,
+      name: options.name ?? this.nameFor(absolutePath),
+      displayPath: options.displayPath ?? absolutePath,
+    });
+  }
+
+  // Register a clone or upload; the session owns and eventually deletes tempDir
+  openTemporary(
+    repoPath: string,
+    tempDir: string,
+    options: { source: RepoSource; name: string; displayPath: string },
+  ): RepoSession {
+    return this.create({
+      path: path.resolve(repoPath),
+      tempDir: path.resolve(tempDir),
+      ...options,
+    });
+  }
+
+  // Look up a live session and extend its lifetime
+  resolve(id: string): RepoSession | null {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+    if (this.isExpired(session)) {
+      this.release(id).catch(() => {});
+      return null;
+    }
+    session.lastAccessedAt = Date.now();
+    return session;
+  }
+
+  describe(session: RepoSession): RepoSessionInfo {
+    return {
+      id: session.id,
+      source: session.source,
+      name: session.name,
+      path: session.displayPath,
+      temporary: !!session.tempDir,
+      expiresAt: new Date(
+        session.lastAccessedAt + SESSION_TTL_MS,
+      ).toISOString(),
+    };
+  }
+
+  // Label repository data with the session instead of the server path
+  present<T extends { path: string; name: string }>(
+    session: RepoSession,
+    data: T,
+  ): T & { id: string; source: RepoSource } {
+    return {
+      ...data,
+      id: session.id,
+      source: session.source,
+      name: session.name,
+      path: session.displayPath,
+    };
+  }
+
+  // End a session, deleting its temp directory if it owns one
+  async release(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+
+    if (session.tempDir) {
+      await gitService.cleanupRepository(session.path, session.tempDir);
+    } else {
+      gitService.releaseRepository(session.path);
+    }
+  }
+
+  private create(fields: Omit<RepoSession, "id" | "lastAccessedAt">) {
+    const session: RepoSession = {
+      ...fields,
+      id: randomUUID(),
+      lastAccessedAt: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  private nameFor(repoPath: string): string {
+    return repoPath.split(path.sep).filter(Boolean).pop() || "repository";
+  }
+
+  private isExpired(session: RepoSession): boolean {
+    return Date.now() - session.lastAccessedAt > SESSION_TTL_MS;
+  }
+
+  private async reapExpired(): Promise<void> {
+    for (const [id, session] of this.sessions) {
+      if (this.isExpired(session)) {
+        await this.release(id);
+      }
+    }
+    // Clones or uploads that failed before registering a session
+    await this.reapOrphanedTempDirs(SESSION_TTL_MS);
+  }
+
+  /**
+   * Delete our temp directories that no session owns. Only directories left
+   * untouched for `minAgeMs` are removed, so clones and uploads still in
+   * progress survive.
+   */
+  private async reapOrphanedTempDirs(minAgeMs: number): Promise<void> {
+    const tempRoot = os.tmpdir();
+    const owned = new Set(
+      Array.from(this.sessions.values(), (s) => s.tempDir).filter(Boolean),
+    );
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(tempRoot);
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!TEMP_DIR_PREFIXES.some((prefix) => entry.startsWith(prefix))) {
+        continue;
+      }
+      const dir = path.join(tempRoot, entry);
+      if (owned.has(dir)) continue;
+
+      try {
+        const stats = await fs.lstat(dir);
+        if (!stats.isDirectory()) continue;
+        if (Date.now() - stats.mtimeMs < minAgeMs) continue;
+        await fs.rm(dir, { recursive: true, force: true });
+      } catch {
+        // Already gone or not ours to remove
+      }
+    }
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,202 @@
+import { watch, FSWatcher } from "fs";
+import path from "path";
+import { gitService, RefSnapshot, RefreshDelta } from "./git.service.js";
+
+// Git updates refs through lock files and renames; let a burst settle first
+const DEBOUNCE_MS = 250;
+
+export type RepoChangeListener = (delta: RefreshDelta) => void;
+
+interface RepoWatch {
+  watchers: FSWatcher[];
+  listeners: Set<RepoChangeListener>;
+  snapshot: RefSnapshot; // Refs as of the last reported change
+  timer: NodeJS.Timeout | null;
+  checking: boolean;
+  recheck: boolean; // Refs changed again while a check was running
+  closed: boolean;
+}
+
+/**
+ * Watches HEAD, packed-refs and refs/ of local repositories that clients are
+ * viewing, and reports what changed in the history each time they move. One
+ * set of filesystem watchers is shared per repository and closed when its
+ * last subscriber leaves.
+ */
+class WatcherService {
+  private watches = new Map<string, Promise<RepoWatch>>();
+
+  /**
+   * Start reporting changes to a repository. Given the fingerprint the
+   * client's graph was read at, `missed` holds what changed between then and
+   * now; later changes go to the listener. When that snapshot is no longer
+   * known (evicted, or from before a restart), `resync` holds the current
+   * fingerprint instead and the client has to reload.
+   */
+  async subscribe(
+    repoPath: string,
+    listener: RepoChangeListener,
+    since?: string,
+  ): Promise<{
+    unsubscribe: () => void;
+    missed: RefreshDelta | null;
+    resync: string | null;
+  }> {
+    let pending = this.watches.get(repoPath);
+    if (!pending) {
+      pending = this.start(repoPath);
+      this.watches.set(repoPath, pending);
+      pending.catch(() => this.watches.delete(repoPath));
+    }
+
+    const entry = await pending;
+    const sinceSnapshot = since
+      ? gitService.findRefSnapshot(repoPath, since)
+      : undefined;
+    let missed: RefreshDelta | null = null;
+    for (
+      let current = entry.snapshot;
+      sinceSnapshot;
+      current = entry.snapshot
+    ) {
+      missed =
+        sinceSnapshot.fingerprint === current.fingerprint
+          ? null
+          : await gitService.diffRefSnapshots(repoPath, sinceSnapshot, current);
+      // Unless subscribers were told about a newer change in the meantime
+      if (entry.snapshot === current) break;
+    }
+
+    // The last subscriber left while this one was waiting; start over
+    if (entry.closed) return this.subscribe(repoPath, listener, since);
+
+    entry.listeners.add(listener);
+    return {
+      unsubscribe: () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) this.stop(repoPath, entry);
+      },
+      missed,
+      resync:
+        since && !sinceSnapshot && since !== entry.snapshot.fingerprint
+          ? entry.snapshot.fingerprint
+          : null,
+    };
+  }
+
+  private async start(repoPath: string): Promise<RepoWatch> {
+    const [{ gitDir, commonDir }, snapshot] = await Promise.all([
+      gitService.getGitDirs(repoPath),
+      gitService.snapshotRefs(repoPath),
+    ]);
+
+    const entry: RepoWatch = {
+      watchers: [],
+      listeners: new Set(),
+      snapshot,
+      timer: null,
+      checking: false,
+      recheck: false,
+      closed: false,
+    };
+    const onChange = () => this.schedule(repoPath, entry);
+
+    // HEAD and packed-refs are replaced by renaming a lock file over them
+    const watchFiles = (dir: string, names: string[]) =>
+      watch(dir, (_event, filename) => {
+        if (!filename || names.includes(filename)) onChange();
+      });
+
+    try {
+      if (commonDir === gitDir) {
+        entry.watchers.push(watchFiles(gitDir, ["HEAD", "packed-refs"]));
+      } else {
+        // Linked worktree: HEAD is its own, refs are shared with the main repo
+        entry.watchers.push(
+          watchFiles(gitDir, ["HEAD"]),
+          watchFiles(commonDir, ["packed-refs"]),
+        );
+      }
+      entry.watchers.push(
+        watch(
+          path.join(commonDir, "refs"),
+          { recursive: true },
+          (_event, filename) => {
+            if (!filename?.endsWith(".lock")) onChange();
+          },
+        ),
+      );
+    } catch (error) {
+      this.close(entry);
+      throw new Error(
+        `Failed to watch repository: ${(error as Error).message}`,
+      );
+    }
+
+    for (const watcher of entry.watchers) {
+      watcher.on("error", (error) =>
+        console.warn(`Watcher for ${repoPath} failed:`, error.message),
+      );
+    }
+
+    return entry;
+  }
+
+  private schedule(repoPath: string, entry: RepoWatch): void {
+    if (entry.closed) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.check(repoPath, entry);
+    }, DEBOUNCE_MS);
+  }
+
+  // Diff the refs against the last snapshot and notify subscribers
+  private async check(repoPath: string, entry: RepoWatch): Promise<void> {
+    if (entry.checking) {
+      entry.recheck = true;
+      return;
+    }
+    entry.checking = true;
+
+    try {
+      const snapshot = await gitService.snapshotRefs(repoPath);
+      if (snapshot.fingerprint !== entry.snapshot.fingerprint) {
+        const delta = await gitService.diffRefSnapshots(
+          repoPath,
+          entry.snapshot,
+          snapshot,
+        );
+        entry.snapshot = snapshot;
+        if (!entry.closed) {
+          for (const listener of entry.listeners) listener(delta);
+        }
+      }
+    } catch (error) {
+      // Usually a ref read mid-update; the next change retries
+      console.warn(
+        `Failed to check ${repoPath} for changes:`,
+        (error as Error).message,
+      );
+    } finally {
+      entry.checking = false;
+      if (entry.recheck && !entry.closed) {
+        entry.recheck = false;
+        this.check(repoPath, entry);
+      }
+    }
+  }
+
+  private stop(repoPath: string, entry: RepoWatch): void {
+    this.close(entry);
+    this.watches.delete(repoPath);
+  }
+
+  private close(entry: RepoWatch): void {
+    entry.closed = true;
+    if (entry.timer) clearTimeout(entry.timer);
+    for (const watcher of entry.watchers) watcher.close();
+  }
+}
+
+export const watcherService = new WatcherService();
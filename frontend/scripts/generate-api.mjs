@@ -0,0 +1,252 @@
+// Generate the API types and client from the backend's OpenAPI document:
+//
+//   node scripts/generate-api.mjs [file or URL]
+//
+// Reads ../openapi.json (written by `npm run openapi` in backend/) unless a
+// path or URL such as http://localhost:3001/api/openapi.json is given, and
+// writes src/api/generated/schema.ts and src/api/generated/client.ts.
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import * as prettier from "prettier";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const source = process.argv[2] ?? join(root, "..", "openapi.json");
+const outDir = join(root, "src", "api", "generated");
+
+const HEADER = `// Generated by scripts/generate-api.mjs from the backend's OpenAPI document.
+// Do not edit: change the route schemas in backend/src/schemas and run
+// \`npm run generate:api\` from the repository root.
+`;
+
+async function load(location) {
+  if (/^https?:\/\//.test(location)) {
+    const response = await fetch(location);
+    if (!response.ok) {
+      throw new Error(`${location}: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+  return JSON.parse(readFileSync(location, "utf8"));
+}
+
+// ===== JSON SCHEMA TO TYPESCRIPT =====
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function docComment(description, indent) {
+  return description ? `${indent}/** ${description} */\n` : "";
+}
+
+function inUnion(type) {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
+function objectType(schema, indent) {
+  const entries = Object.entries(schema.properties ?? {});
+  if (entries.length === 0) return "Record<string, never>";
+
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const members = entries.map(([key, property]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const optional = required.has(key) ? "" : "?";
+    return `${docComment(property.description, inner)}${inner}${name}${optional}: ${tsType(property, inner)};`;
+  });
+  return `{\n${members.join("\n")}\n${indent}}`;
+}
+
+function tsType(schema, indent = "") {
+  if (schema.$ref) return schema.$ref.split("/").pop();
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  if (schema.anyOf) {
+    return schema.anyOf.map((s) => tsType(s, indent)).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      return `${inUnion(tsType(schema.items ?? {}, indent))}[]`;
+    case "object":
+      if (schema.properties) return objectType(schema, indent);
+      if (schema.additionalProperties) {
+        return `Record<string, ${tsType(schema.additionalProperties, indent)}>`;
+      }
+      return "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function component(name, schema) {
+  const doc = docComment(schema.description, "");
+  if (schema.type === "object" && schema.properties) {
+    return `${doc}export interface ${name} ${objectType(schema, "")}`;
+  }
+  return `${doc}export type ${name} = ${tsType(schema)};`;
+}
+
+// ===== OPERATIONS =====
+
+const capitalize = (name) => name[0].toUpperCase() + name.slice(1);
+
+function collectOperations(document) {
+  const operations = [];
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const success = operation.responses["200"];
+      const json = operation.requestBody?.content["application/json"];
+      const form = operation.requestBody?.content["multipart/form-data"];
+
+      operations.push({
+        path,
+        method: method.toUpperCase(),
+        id: operation.operationId,
+        summary: operation.summary,
+        parameters: operation.parameters ?? [],
+        body: json && {
+          schema: json.schema,
+          required: operation.requestBody.required,
+        },
+        form: !!form,
+        response: success.content["application/json"]?.schema,
+        events: success["x-events"],
+      });
+    }
+  }
+  return operations;
+}
+
+// Object schema for the path or query parameters of an operation
+function parameterObject(operation, location) {
+  const parameters = operation.parameters.filter((p) => p.in === location);
+  if (parameters.length === 0) return undefined;
+  return {
+    type: "object",
+    properties: Object.fromEntries(parameters.map((p) => [p.name, p.schema])),
+    required: parameters.filter((p) => p.required).map((p) => p.name),
+  };
+}
+
+function requestParts(operation) {
+  const parts = [];
+  const params = parameterObject(operation, "path");
+  const query = parameterObject(operation, "query");
+
+  if (params)
+    parts.push({ name: "params", type: tsType(params, "  "), required: true });
+  if (query) {
+    parts.push({
+      name: "query",
+      type: tsType(query, "  "),
+      required: query.required.length > 0,
+    });
+  }
+  if (operation.body) {
+    parts.push({
+      name: "body",
+      type: tsType(operation.body.schema, "  "),
+      required: operation.body.required,
+    });
+  }
+  if (operation.form)
+    parts.push({ name: "body", type: "FormData", required: true });
+  return parts;
+}
+
+function operationTypes(operation) {
+  const name = capitalize(operation.id);
+  const parts = requestParts(operation);
+  const doc = `// ${operation.method} ${operation.path}\n`;
+
+  const request =
+    parts.length === 0
+      ? `export type ${name}Request = Record<string, never>;`
+      : `export interface ${name}Request {\n${parts
+          .map((p) => `  ${p.name}${p.required ? "" : "?"}: ${p.type};`)
+          .join("\n")}\n}`;
+
+  const result = operation.events
+    ? `export interface ${name}Events ${objectType(
+        {
+          properties: operation.events,
+          required: Object.keys(operation.events),
+        },
+        "",
+      )}`
+    : `export type ${name}Response = ${tsType(operation.response ?? {})};`;
+
+  return `${doc}${request}\n\n${result}`;
+}
+
+function operationFunction(operation) {
+  const name = capitalize(operation.id);
+  const optional = requestParts(operation).every((part) => !part.required);
+  const parameter = `request: Schema.${name}Request${optional ? " = {}" : ""}`;
+  const args = `"${operation.method}", "${operation.path}", request`;
+  const doc = `/** ${operation.summary ? `${operation.summary} ` : ""}(${operation.method} ${operation.path}) */\n`;
+
+  // EventSource can only GET, so POSTed streams are read with fetch
+  if (operation.events && operation.method === "GET") {
+    return `${doc}export function ${operation.id}(${parameter}): EventSource {
+  return new EventSource(apiUrl("${operation.path}", request));
+}`;
+  }
+  if (operation.events) {
+    return `${doc}export function ${operation.id}(${parameter}, init?: RequestInit): Promise<Response> {
+  return openEventStream(${args}, init);
+}`;
+  }
+  return `${doc}export function ${operation.id}(${parameter}, init?: RequestInit): Promise<Schema.${name}Response> {
+  return callApi(${args}, init);
+}`;
+}
+
+// ===== OUTPUT =====
+
+const document = await load(source);
+const operations = collectOperations(document);
+
+const schemaFile = [
+  HEADER,
+  "// ===== COMPONENTS =====",
+  ...Object.entries(document.components.schemas).map(([name, schema]) =>
+    component(name, schema),
+  ),
+  "// ===== OPERATIONS =====",
+  ...operations.map(operationTypes),
+].join("\n\n");
+
+const usesEventSource = operations.some((o) => o.events && o.method === "GET");
+const clientFile = [
+  HEADER,
+  `import type * as Schema from "./schema";
+import { callApi, openEventStream${usesEventSource ? ", apiUrl" : ""} } from "../http";`,
+  ...operations.map(operationFunction),
+].join("\n\n");
+
+// Formatted like the rest of the code so regenerating gives minimal diffs
+async function write(file, code) {
+  const options = await prettier.resolveConfig(file);
+  writeFileSync(
+    file,
+    await prettier.format(code, { ...options, filepath: file }),
+  );
+}
+
+mkdirSync(outDir, { recursive: true });
+await write(join(outDir, "schema.ts"), schemaFile);
+await write(join(outDir, "client.ts"), clientFile);
+console.log(
+  `Generated ${operations.length} operations and ${Object.keys(document.components.schemas).length} types from ${source}`,
+);
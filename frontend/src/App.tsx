@@ -21,6 +21,7 @@ import { RepositoryBreadcrumb } from "./components/navigation/RepositoryBreadcru
 import { LandingPage } from "./components/landing/LandingPage";
 import { useRepositoryStore } from "./store/repositoryStore";
 import { useRepoUrl } from "./hooks/useRepoUrl";
+import { useRepoWatcher } from "./hooks/useRepoWatcher";
 
 const MIN_PANEL_WIDTH = 200;
 const MAX_PANEL_WIDTH = 500;
@@ -40,6 +41,8 @@ function App() {
     closeAllPanels,
     reset,
     isTemporaryRepo,
+    isRefreshing,
+    refreshRepository,
   } = useRepositoryStore();
 
   const [leftPanelWidth, setLeftPanelWidth] = useState(() => {
@@ -99,12 +102,12 @@ function App() {
       sessionStorage.setItem("git-viz-refresh", Date.now().toString());
 
       // Cleanup temporary repository if exists
-      if (repository && isTemporaryRepo && repository.path) {
+      if (repository && isTemporaryRepo && repository.id) {
         // Use fetch with keepalive to ensure request completes even after unload
         fetch("/api/repository/cleanup", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ path: repository.path }),
+          body: JSON.stringify({ repoId: repository.id }),
           keepalive: true,
         }).catch(() => {
           // Silently ignore cleanup errors
@@ -145,6 +148,9 @@ function App() {
   // Enable URL-based repository loading (e.g., /github.com/user/repo)
   const { clearUrl } = useRepoUrl();
 
+  // Merge live ref and commit changes of local repositories
+  useRepoWatcher();
+
   // Hide landing page when repository is loaded
   useEffect(() => {
     if (repository) {
@@ -220,6 +226,29 @@ function App() {
             {/* Action Buttons - Desktop Only */}
             {repository && (
               <div className="hidden lg:flex items-center gap-2 mr-12">
+                {repository.source === "clone" && (
+                  <button
+                    onClick={refreshRepository}
+                    disabled={isRefreshing}
+                    title="Fetch new commits and refs from the remote"
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg
+                      className={`w-5 h-5 ${isRefreshing ? "animate-spin" : ""}`}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                      />
+                    </svg>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                )}
                 <button
                   onClick={toggleBranchComparePanel}
                   className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
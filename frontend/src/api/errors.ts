@@ -0,0 +1,83 @@
+import type { ApiErrorBody, ApiErrorCode } from "./generated/schema";
+
+/**
+ * A failed API call. `code` is the server's stable error code; the
+ * subclasses below let callers catch the failures they can act on with
+ * `instanceof` instead of matching messages.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number; // HTTP status; 0 for errors reported mid-stream
+  readonly details?: unknown;
+
+  constructor(body: ApiErrorBody, status = 0) {
+    super(body.message);
+    this.name = "ApiError";
+    this.code = body.code;
+    this.status = status;
+    this.details = body.details;
+  }
+}
+
+export class InvalidRequestError extends ApiError {
+  name = "InvalidRequestError";
+}
+
+export class NotARepoError extends ApiError {
+  name = "NotARepoError";
+}
+
+export class SessionNotFoundError extends ApiError {
+  name = "SessionNotFoundError";
+}
+
+export class RefNotFoundError extends ApiError {
+  name = "RefNotFoundError";
+}
+
+export class FileNotFoundError extends ApiError {
+  name = "FileNotFoundError";
+}
+
+// The remote needs a (different) personal access token
+export class AuthRequiredError extends ApiError {
+  name = "AuthRequiredError";
+}
+
+export class RateLimitedError extends ApiError {
+  name = "RateLimitedError";
+
+  // When the limit resets (ISO date), if the server knows
+  get resetAt(): string | undefined {
+    return (this.details as { resetAt?: string } | undefined)?.resetAt;
+  }
+}
+
+// The background job was cancelled, usually by the caller itself
+export class JobCancelledError extends ApiError {
+  name = "JobCancelledError";
+}
+
+const ERROR_CLASSES: Partial<Record<ApiErrorCode, typeof ApiError>> = {
+  INVALID_REQUEST: InvalidRequestError,
+  NOT_A_REPO: NotARepoError,
+  SESSION_NOT_FOUND: SessionNotFoundError,
+  REF_NOT_FOUND: RefNotFoundError,
+  FILE_NOT_FOUND: FileNotFoundError,
+  AUTH_REQUIRED: AuthRequiredError,
+  RATE_LIMITED: RateLimitedError,
+  JOB_CANCELLED: JobCancelledError,
+};
+
+// Typed error for an error body from the API; `fallback` covers bodies that aren't one
+export function toApiError(
+  body: ApiErrorBody | undefined,
+  status: number,
+  fallback: string,
+): ApiError {
+  if (!body?.code) {
+    return new ApiError({ code: "INTERNAL_ERROR", message: fallback }, status);
+  }
+  const ErrorClass = ERROR_CLASSES[body.code] ?? ApiError;
+  return new ErrorClass(body, status);
+}
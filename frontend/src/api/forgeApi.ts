@@ -0,0 +1,199 @@
+import type {
+  CommitChecks,
+  CommitForgeInfo,
+  ForgeRateLimit,
+  ForgeRepoInfo,
+} from "../types";
+import * as api from "./generated/client";
+import type {
+  CommitCheckStatesBatch,
+  CommitPullRequestsBatch,
+  ForgeProgressEvent,
+  StreamCommitForgeInfoEvents,
+  StreamForgeCheckStatesEvents,
+  StreamForgePullRequestsEvents,
+} from "./generated/schema";
+import { toApiError } from "./errors";
+import { readEventStream } from "./http";
+
+// Progress event types for streaming
+export type {
+  CommitCheckStatesBatch,
+  CommitPullRequestsBatch,
+  ForgeProgressEvent,
+};
+
+export interface ForgeStreamCallbacks {
+  onProgress: (event: ForgeProgressEvent) => void;
+  onComplete: (data: CommitForgeInfo) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Set a forge host's token for authenticated requests (private repos, higher
+ * rate limits). Resolves to whether the host still has a token, which may be
+ * one configured on the server.
+ */
+export async function setForgeToken(
+  host: string,
+  token: string | null,
+): Promise<boolean> {
+  const { hasToken } = await api.setForgeToken({ body: { host, token } });
+  return hasToken;
+}
+
+/**
+ * Get the rate limit status of the forge hosting a repository
+ */
+export async function getForgeRateLimit(
+  repoId: string,
+): Promise<ForgeRateLimit | null> {
+  const { data } = await api.getForgeRateLimit({ body: { repoId } });
+  return data;
+}
+
+/**
+ * Get the forge, project and metadata of a repository's remote
+ * (`forge` is null when it isn't on a supported forge)
+ */
+export async function getForgeRepoInfo(repoId: string): Promise<ForgeRepoInfo> {
+  const { data } = await api.getForgeRepoInfo({ body: { repoId } });
+  return data;
+}
+
+/**
+ * Get forge info (pull/merge requests and linked issues) for a commit
+ */
+export async function getCommitForgeInfo(
+  repoId: string,
+  commitHash: string,
+): Promise<CommitForgeInfo> {
+  const { data } = await api.getCommitForgeInfo({
+    params: { hash: commitHash },
+    body: { repoId },
+  });
+  return data;
+}
+
+/**
+ * Get the CI statuses and check runs of a commit
+ */
+export async function getCommitChecks(
+  repoId: string,
+  commitHash: string,
+): Promise<CommitChecks> {
+  const { data } = await api.getCommitChecks({
+    params: { hash: commitHash },
+    body: { repoId },
+  });
+  return data;
+}
+
+/**
+ * Stream forge info with real-time progress updates
+ */
+export function streamCommitForgeInfo(
+  repoId: string,
+  commitHash: string,
+  callbacks: ForgeStreamCallbacks,
+): () => void {
+  const controller = new AbortController();
+
+  api
+    .streamCommitForgeInfo(
+      { params: { hash: commitHash }, body: { repoId } },
+      { signal: controller.signal },
+    )
+    .then((response) =>
+      readEventStream<StreamCommitForgeInfoEvents>(response, (event) => {
+        switch (event.type) {
+          case "progress":
+            callbacks.onProgress(event.data);
+            break;
+          case "complete":
+            callbacks.onComplete(event.data.data);
+            break;
+          case "error":
+            callbacks.onError(
+              toApiError(event.data, 0, "Failed to load forge info"),
+            );
+            break;
+        }
+      }),
+    )
+    .catch((error) => {
+      if (error.name !== "AbortError") {
+        callbacks.onError(error);
+      }
+    });
+
+  // Return abort function
+  return () => controller.abort();
+}
+
+export interface PullRequestStreamOptions {
+  onBatch: (batch: CommitPullRequestsBatch) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Look up pull requests for many commits at once (the graph overlay), passing
+ * each batch on as the server streams it. Rejects with the stream's error,
+ * e.g. a RateLimitedError, after the batches that made it.
+ */
+export async function streamForgePullRequests(
+  repoId: string,
+  hashes: string[],
+  { onBatch, signal }: PullRequestStreamOptions,
+): Promise<void> {
+  const response = await api.streamForgePullRequests(
+    { body: { repoId, hashes } },
+    { signal },
+  );
+
+  let failure: Error | null = null;
+  await readEventStream<StreamForgePullRequestsEvents>(response, (event) => {
+    switch (event.type) {
+      case "pullRequests":
+        onBatch(event.data);
+        break;
+      case "error":
+        failure = toApiError(event.data, 0, "Failed to load pull requests");
+        break;
+    }
+  });
+  if (failure) throw failure;
+}
+
+export interface CheckStateStreamOptions {
+  onBatch: (batch: CommitCheckStatesBatch) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Look up the combined CI check state of many commits at once (the graph's
+ * status dots), like streamForgePullRequests
+ */
+export async function streamForgeCheckStates(
+  repoId: string,
+  hashes: string[],
+  { onBatch, signal }: CheckStateStreamOptions,
+): Promise<void> {
+  const response = await api.streamForgeCheckStates(
+    { body: { repoId, hashes } },
+    { signal },
+  );
+
+  let failure: Error | null = null;
+  await readEventStream<StreamForgeCheckStatesEvents>(response, (event) => {
+    switch (event.type) {
+      case "checkStates":
+        onBatch(event.data);
+        break;
+      case "error":
+        failure = toApiError(event.data, 0, "Failed to load CI checks");
+        break;
+    }
+  });
+  if (failure) throw failure;
+}
@@ -0,0 +1,378 @@
+// Generated by scripts/generate-api.mjs from the backend's OpenAPI document.
+// Do not edit: change the route schemas in backend/src/schemas and run
+// `npm run generate:api` from the repository root.
+
+import type * as Schema from "./schema";
+import { callApi, openEventStream, apiUrl } from "../http";
+
+/** Open a local repository and start a session (POST /repository/open) */
+export function openRepository(
+  request: Schema.OpenRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.OpenRepositoryResponse> {
+  return callApi("POST", "/repository/open", request, init);
+}
+
+/** Directories local repositories may be opened from (GET /repository/roots) */
+export function getAllowedRoots(
+  request: Schema.GetAllowedRootsRequest = {},
+  init?: RequestInit,
+): Promise<Schema.GetAllowedRootsResponse> {
+  return callApi("GET", "/repository/roots", request, init);
+}
+
+/** Git repositories found under the allowed roots (GET /repository/discover) */
+export function discoverRepositories(
+  request: Schema.DiscoverRepositoriesRequest = {},
+  init?: RequestInit,
+): Promise<Schema.DiscoverRepositoriesResponse> {
+  return callApi("GET", "/repository/discover", request, init);
+}
+
+/** Whether a session is still open (GET /repository/validate) */
+export function validateRepository(
+  request: Schema.ValidateRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.ValidateRepositoryResponse> {
+  return callApi("GET", "/repository/validate", request, init);
+}
+
+/** Commit count and recommended loading mode (POST /repository/stats) */
+export function getRepoStats(
+  request: Schema.GetRepoStatsRequest,
+  init?: RequestInit,
+): Promise<Schema.GetRepoStatsResponse> {
+  return callApi("POST", "/repository/stats", request, init);
+}
+
+/** Branches, tags and stats without commits (POST /repository/metadata) */
+export function getRepoMetadata(
+  request: Schema.GetRepoMetadataRequest,
+  init?: RequestInit,
+): Promise<Schema.GetRepoMetadataResponse> {
+  return callApi("POST", "/repository/metadata", request, init);
+}
+
+/** Full repository with every commit (POST /repository/load) */
+export function loadRepository(
+  request: Schema.LoadRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.LoadRepositoryResponse> {
+  return callApi("POST", "/repository/load", request, init);
+}
+
+/** Stream metadata and commits in chunks (POST /repository/stream) */
+export function streamRepository(
+  request: Schema.StreamRepositoryRequest,
+  init?: RequestInit,
+): Promise<Response> {
+  return openEventStream("POST", "/repository/stream", request, init);
+}
+
+/** One page of commits, optionally filtered (POST /repository/commits) */
+export function getCommitsPaginated(
+  request: Schema.GetCommitsPaginatedRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitsPaginatedResponse> {
+  return callApi("POST", "/repository/commits", request, init);
+}
+
+/** A single commit (GET /commit/{hash}) */
+export function getCommit(
+  request: Schema.GetCommitRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitResponse> {
+  return callApi("GET", "/commit/{hash}", request, init);
+}
+
+/** Files a commit changed, with line counts (POST /commit/{hash}/diff-stats) */
+export function getCommitDiffStats(
+  request: Schema.GetCommitDiffStatsRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitDiffStatsResponse> {
+  return callApi("POST", "/commit/{hash}/diff-stats", request, init);
+}
+
+/** Diff of one file in a commit (POST /commit/{hash}/file-diff) */
+export function getCommitFileDiff(
+  request: Schema.GetCommitFileDiffRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitFileDiffResponse> {
+  return callApi("POST", "/commit/{hash}/file-diff", request, init);
+}
+
+/** Files changed between two revisions (POST /repository/diff) */
+export function getRangeDiff(
+  request: Schema.GetRangeDiffRequest,
+  init?: RequestInit,
+): Promise<Schema.GetRangeDiffResponse> {
+  return callApi("POST", "/repository/diff", request, init);
+}
+
+/** Diff of one file between two revisions (POST /repository/diff/file) */
+export function getRangeFileDiff(
+  request: Schema.GetRangeFileDiffRequest,
+  init?: RequestInit,
+): Promise<Schema.GetRangeFileDiffResponse> {
+  return callApi("POST", "/repository/diff/file", request, init);
+}
+
+/** Directory listing at a commit (POST /commit/{hash}/tree) */
+export function getFileTree(
+  request: Schema.GetFileTreeRequest,
+  init?: RequestInit,
+): Promise<Schema.GetFileTreeResponse> {
+  return callApi("POST", "/commit/{hash}/tree", request, init);
+}
+
+/** File content at a commit (POST /commit/{hash}/file) */
+export function getFileContent(
+  request: Schema.GetFileContentRequest,
+  init?: RequestInit,
+): Promise<Schema.GetFileContentResponse> {
+  return callApi("POST", "/commit/{hash}/file", request, init);
+}
+
+/** Line-by-line blame of a file at a commit (POST /commit/{hash}/blame) */
+export function getBlame(
+  request: Schema.GetBlameRequest,
+  init?: RequestInit,
+): Promise<Schema.GetBlameResponse> {
+  return callApi("POST", "/commit/{hash}/blame", request, init);
+}
+
+/** Commits that changed a file, following renames (POST /repository/file-history) */
+export function getFileHistory(
+  request: Schema.GetFileHistoryRequest,
+  init?: RequestInit,
+): Promise<Schema.GetFileHistoryResponse> {
+  return callApi("POST", "/repository/file-history", request, init);
+}
+
+/** Commit and line counts per contributor (POST /repository/contributors) */
+export function getContributorStats(
+  request: Schema.GetContributorStatsRequest,
+  init?: RequestInit,
+): Promise<Schema.GetContributorStatsResponse> {
+  return callApi("POST", "/repository/contributors", request, init);
+}
+
+/** User-defined identity merges (POST /repository/identities) */
+export function getIdentityMerges(
+  request: Schema.GetIdentityMergesRequest,
+  init?: RequestInit,
+): Promise<Schema.GetIdentityMergesResponse> {
+  return callApi("POST", "/repository/identities", request, init);
+}
+
+/** Replace the identity merges (PUT /repository/identities) */
+export function saveIdentityMerges(
+  request: Schema.SaveIdentityMergesRequest,
+  init?: RequestInit,
+): Promise<Schema.SaveIdentityMergesResponse> {
+  return callApi("PUT", "/repository/identities", request, init);
+}
+
+/** Commits per day (POST /repository/activity) */
+export function getActivityHeatmap(
+  request: Schema.GetActivityHeatmapRequest,
+  init?: RequestInit,
+): Promise<Schema.GetActivityHeatmapResponse> {
+  return callApi("POST", "/repository/activity", request, init);
+}
+
+/** Most frequently changed files (POST /repository/code-churn) */
+export function getCodeChurn(
+  request: Schema.GetCodeChurnRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCodeChurnResponse> {
+  return callApi("POST", "/repository/code-churn", request, init);
+}
+
+/** Knowledge concentration per file (POST /repository/bus-factor) */
+export function getBusFactor(
+  request: Schema.GetBusFactorRequest,
+  init?: RequestInit,
+): Promise<Schema.GetBusFactorResponse> {
+  return callApi("POST", "/repository/bus-factor", request, init);
+}
+
+/** Commits by hour and day of week (POST /repository/commit-patterns) */
+export function getCommitPatterns(
+  request: Schema.GetCommitPatternsRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitPatternsResponse> {
+  return callApi("POST", "/repository/commit-patterns", request, init);
+}
+
+/** Creation, merge and age of branches (POST /repository/branch-lifespans) */
+export function getBranchLifespans(
+  request: Schema.GetBranchLifespansRequest,
+  init?: RequestInit,
+): Promise<Schema.GetBranchLifespansResponse> {
+  return callApi("POST", "/repository/branch-lifespans", request, init);
+}
+
+/** Start an analysis as a background job (POST /repository/analytics/jobs) */
+export function startAnalyticsJob(
+  request: Schema.StartAnalyticsJobRequest,
+  init?: RequestInit,
+): Promise<Schema.StartAnalyticsJobResponse> {
+  return callApi("POST", "/repository/analytics/jobs", request, init);
+}
+
+/** Progress, partial results and result of a job (GET /jobs/{jobId}) */
+export function getJob(
+  request: Schema.GetJobRequest,
+  init?: RequestInit,
+): Promise<Schema.GetJobResponse> {
+  return callApi("GET", "/jobs/{jobId}", request, init);
+}
+
+/** Leave a job, cancelling it if no other session waits on it (DELETE /jobs/{jobId}) */
+export function cancelJob(
+  request: Schema.CancelJobRequest,
+  init?: RequestInit,
+): Promise<Schema.CancelJobResponse> {
+  return callApi("DELETE", "/jobs/{jobId}", request, init);
+}
+
+/** Live progress of a job (GET /jobs/{jobId}/events) */
+export function watchJob(request: Schema.WatchJobRequest): EventSource {
+  return new EventSource(apiUrl("/jobs/{jobId}/events", request));
+}
+
+/** Submodules of the repository (POST /repository/submodules) */
+export function getSubmodules(
+  request: Schema.GetSubmodulesRequest,
+  init?: RequestInit,
+): Promise<Schema.GetSubmodulesResponse> {
+  return callApi("POST", "/repository/submodules", request, init);
+}
+
+/** Open a submodule as its own session (POST /repository/submodules/load) */
+export function loadSubmoduleRepository(
+  request: Schema.LoadSubmoduleRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.LoadSubmoduleRepositoryResponse> {
+  return callApi("POST", "/repository/submodules/load", request, init);
+}
+
+/** Commits and files two branches differ by (POST /repository/branch-compare) */
+export function compareBranches(
+  request: Schema.CompareBranchesRequest,
+  init?: RequestInit,
+): Promise<Schema.CompareBranchesResponse> {
+  return callApi("POST", "/repository/branch-compare", request, init);
+}
+
+/** Clone a remote, then stream it like /repository/stream (POST /repository/clone) */
+export function cloneRepository(
+  request: Schema.CloneRepositoryRequest,
+  init?: RequestInit,
+): Promise<Response> {
+  return openEventStream("POST", "/repository/clone", request, init);
+}
+
+/** Fetch new commits into a clone (POST /repository/refresh) */
+export function refreshRepository(
+  request: Schema.RefreshRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.RefreshRepositoryResponse> {
+  return callApi("POST", "/repository/refresh", request, init);
+}
+
+/** Live ref and commit changes of a local repository (GET /repository/watch) */
+export function watchRepository(
+  request: Schema.WatchRepositoryRequest,
+): EventSource {
+  return new EventSource(apiUrl("/repository/watch", request));
+}
+
+/** End a session (POST /repository/cleanup) */
+export function cleanupRepository(
+  request: Schema.CleanupRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.CleanupRepositoryResponse> {
+  return callApi("POST", "/repository/cleanup", request, init);
+}
+
+/** Open a zipped repository (POST /upload) */
+export function uploadRepository(
+  request: Schema.UploadRepositoryRequest,
+  init?: RequestInit,
+): Promise<Schema.UploadRepositoryResponse> {
+  return callApi("POST", "/upload", request, init);
+}
+
+/** Open a repository from the files of a .git folder (POST /upload-folder) */
+export function uploadFolder(
+  request: Schema.UploadFolderRequest,
+  init?: RequestInit,
+): Promise<Schema.UploadFolderResponse> {
+  return callApi("POST", "/upload-folder", request, init);
+}
+
+/** Set or clear the token for a forge host (POST /forge/config) */
+export function setForgeToken(
+  request: Schema.SetForgeTokenRequest,
+  init?: RequestInit,
+): Promise<Schema.SetForgeTokenResponse> {
+  return callApi("POST", "/forge/config", request, init);
+}
+
+/** API rate limit status of the repository's forge (POST /forge/rate-limit) */
+export function getForgeRateLimit(
+  request: Schema.GetForgeRateLimitRequest,
+  init?: RequestInit,
+): Promise<Schema.GetForgeRateLimitResponse> {
+  return callApi("POST", "/forge/rate-limit", request, init);
+}
+
+/** Forge, project and metadata of the repository's remote (POST /forge/repo-info) */
+export function getForgeRepoInfo(
+  request: Schema.GetForgeRepoInfoRequest,
+  init?: RequestInit,
+): Promise<Schema.GetForgeRepoInfoResponse> {
+  return callApi("POST", "/forge/repo-info", request, init);
+}
+
+/** Pull (merge) requests and linked issues for a commit (POST /forge/commit/{hash}) */
+export function getCommitForgeInfo(
+  request: Schema.GetCommitForgeInfoRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitForgeInfoResponse> {
+  return callApi("POST", "/forge/commit/{hash}", request, init);
+}
+
+/** Pull (merge) requests and linked issues for a commit, with progress events (POST /forge/commit/{hash}/stream) */
+export function streamCommitForgeInfo(
+  request: Schema.StreamCommitForgeInfoRequest,
+  init?: RequestInit,
+): Promise<Response> {
+  return openEventStream("POST", "/forge/commit/{hash}/stream", request, init);
+}
+
+/** CI statuses and check runs of a commit (POST /forge/commit/{hash}/checks) */
+export function getCommitChecks(
+  request: Schema.GetCommitChecksRequest,
+  init?: RequestInit,
+): Promise<Schema.GetCommitChecksResponse> {
+  return callApi("POST", "/forge/commit/{hash}/checks", request, init);
+}
+
+/** Pull requests for many commits, streamed in batches (POST /forge/pull-requests/stream) */
+export function streamForgePullRequests(
+  request: Schema.StreamForgePullRequestsRequest,
+  init?: RequestInit,
+): Promise<Response> {
+  return openEventStream("POST", "/forge/pull-requests/stream", request, init);
+}
+
+/** Combined CI check states of many commits, streamed in batches (POST /forge/checks/stream) */
+export function streamForgeCheckStates(
+  request: Schema.StreamForgeCheckStatesRequest,
+  init?: RequestInit,
+): Promise<Response> {
+  return openEventStream("POST", "/forge/checks/stream", request, init);
+}
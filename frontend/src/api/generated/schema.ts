@@ -0,0 +1,1259 @@
+// Generated by scripts/generate-api.mjs from the backend's OpenAPI document.
+// Do not edit: change the route schemas in backend/src/schemas and run
+// `npm run generate:api` from the repository root.
+
+// ===== COMPONENTS =====
+
+/** Server-side session for an opened repository */
+export interface RepoSession {
+  id: string;
+  source: RepoSource;
+  name: string;
+  path: string;
+  temporary: boolean;
+  expiresAt: string;
+}
+
+/** Where a repository session came from; only clones can be refreshed */
+export type RepoSource = "local" | "clone" | "upload";
+
+export interface ErrorEnvelope {
+  success: false;
+  error: ApiErrorBody;
+}
+
+/** The `error` of a failed response, and the payload of stream `error` events */
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+/** Stable codes the API reports failures with; branch on these, not messages */
+export type ApiErrorCode =
+  | "INVALID_REQUEST"
+  | "NOT_A_REPO"
+  | "UNSUPPORTED_OPERATION"
+  | "AUTH_REQUIRED"
+  | "PATH_FORBIDDEN"
+  | "PATH_NOT_FOUND"
+  | "SESSION_NOT_FOUND"
+  | "REF_NOT_FOUND"
+  | "FILE_NOT_FOUND"
+  | "SUBMODULE_NOT_FOUND"
+  | "JOB_NOT_FOUND"
+  | "SUBMODULE_NOT_INITIALIZED"
+  | "JOB_CANCELLED"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR"
+  | "REMOTE_ERROR";
+
+/** A repository found by scanning the allowed roots */
+export interface DiscoveredRepository {
+  name: string;
+  path: string;
+  kind: "repository" | "bare" | "submodule" | "worktree";
+  currentBranch: string;
+  /** null for repositories without commits */
+  lastCommitDate: string | null;
+  commitCount: number;
+}
+
+export interface RepoStats {
+  totalCommits: number;
+  isLargeRepo: boolean;
+  recommendedMode: "full" | "paginated" | "simplified";
+  cloneStrategy: CloneStrategy;
+  /** File contents are fetched from the remote on demand */
+  lazyFetch: boolean;
+  /** History before this date wasn't cloned */
+  shallowSince?: string;
+}
+
+/** How much of a remote was cloned (see README "Clone Strategies") */
+export type CloneStrategy =
+  | "full"
+  | "blobless"
+  | "treeless"
+  | "shallow"
+  | "single-branch";
+
+export interface RepositoryMetadata {
+  path: string;
+  name: string;
+  currentBranch: string;
+  branches: Branch[];
+  tags: Tag[];
+  stats: RepoStats;
+  /** Ref state the data was read at; watchRepository takes it as `since` to catch up from there */
+  refsFingerprint: string;
+  /** Opaque server-side session ID used by every API call */
+  id: string;
+  source: RepoSource;
+}
+
+export interface Branch {
+  name: string;
+  commit: string;
+  isRemote: boolean;
+  isHead: boolean;
+}
+
+export interface Tag {
+  name: string;
+  commit: string;
+}
+
+export interface Repository {
+  /** Display only: local path, clone URL or "(uploaded)" */
+  path: string;
+  name: string;
+  currentBranch: string;
+  commits: Commit[];
+  branches: Branch[];
+  tags: Tag[];
+  /** Ref state the data was read at; watchRepository takes it as `since` to catch up from there */
+  refsFingerprint: string;
+  /** Opaque server-side session ID used by every API call */
+  id: string;
+  source: RepoSource;
+}
+
+export interface Commit {
+  hash: string;
+  shortHash: string;
+  message: string;
+  body: string;
+  author: Author;
+  date: string;
+  parents: string[];
+  refs: RefInfo[];
+}
+
+export interface Author {
+  name: string;
+  email: string;
+}
+
+export interface RefInfo {
+  name: string;
+  type: "branch" | "tag" | "remote";
+  isHead: boolean;
+}
+
+export interface CommitChunk {
+  commits: Commit[];
+  progress: number;
+  total: number;
+  cached: boolean;
+}
+
+export interface PaginatedCommits {
+  commits: Commit[];
+  total: number;
+  hasMore: boolean;
+  cursor?: string;
+}
+
+export interface DiffStats {
+  files: FileDiff[];
+  totalAdditions: number;
+  totalDeletions: number;
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string;
+  status: "added" | "deleted" | "modified" | "renamed" | "copied";
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface FileDiffDetail {
+  path: string;
+  oldPath?: string;
+  status: "added" | "deleted" | "modified" | "renamed" | "copied";
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  content: string;
+}
+
+/** Diff between two arbitrary commits, squashing everything in between */
+export interface RangeDiff {
+  files: FileDiff[];
+  totalAdditions: number;
+  totalDeletions: number;
+  from: string;
+  to: string;
+}
+
+export interface TreeEntry {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  size?: number;
+}
+
+export interface FileContent {
+  path: string;
+  content: string;
+  size: number;
+  binary: boolean;
+}
+
+export interface BlameLine {
+  /** Line number in the blamed revision */
+  lineNumber: number;
+  /** Line number in the commit that introduced it */
+  originalLineNumber: number;
+  hash: string;
+  author: Author;
+  date: string;
+  summary: string;
+  /** File path in the commit that introduced the line */
+  originalPath: string;
+  /** Parent revision to "blame parent" */
+  previous?: {
+    hash: string;
+    path: string;
+  };
+  content: string;
+}
+
+export interface FileHistoryEntry {
+  commit: Commit;
+  /** Path of the file at this commit */
+  path: string;
+  /** Previous path when this commit renamed the file */
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface ContributorStats {
+  name: string;
+  email: string;
+  commitCount: number;
+  additions: number;
+  deletions: number;
+  firstCommit: string;
+  lastCommit: string;
+}
+
+/** Whether an analysis covered the full history or stopped at a commit budget */
+export interface AnalyticsCoverage {
+  complete: boolean;
+  analyzedCommits: number;
+  totalCommits: number;
+}
+
+/** User-defined identity merge layered over the repository's .mailmap */
+export interface IdentityMerge {
+  aliasEmail: string;
+  name: string;
+  email: string;
+}
+
+export interface ActivityDay {
+  /** YYYY-MM-DD */
+  date: string;
+  count: number;
+}
+
+export interface FileChurnStats {
+  /** Most recent name of the file */
+  path: string;
+  /** Earlier names, followed through renames */
+  previousPaths: string[];
+  changeCount: number;
+  totalAdditions: number;
+  totalDeletions: number;
+  authors: string[];
+  lastModified: string;
+  churnScore: number;
+}
+
+export interface FileBusFactor {
+  /** Most recent name of the file */
+  path: string;
+  /** Earlier names, followed through renames */
+  previousPaths: string[];
+  primaryAuthor: {
+    name: string;
+    email: string;
+    percentage: number;
+  };
+  totalCommits: number;
+  uniqueContributors: number;
+  busFactor: number;
+  contributors: {
+    name: string;
+    email: string;
+    commits: number;
+    percentage: number;
+  }[];
+}
+
+export interface CommitPatterns {
+  hourlyDistribution: CommitPatternCell[];
+  peakHour: number;
+  peakDay: number;
+  totalCommits: number;
+}
+
+export interface CommitPatternCell {
+  /** 0-23 */
+  hour: number;
+  /** 0-6 (Sunday-Saturday) */
+  dayOfWeek: number;
+  count: number;
+}
+
+export interface BranchLifespan {
+  branchName: string;
+  createdAt: string;
+  mergedAt: string | null;
+  lifespanDays: number | null;
+  status: "active" | "merged" | "stale";
+  commitCount: number;
+}
+
+/** Analyses that can run as background jobs */
+export type AnalyticsKind =
+  | "contributors"
+  | "activity"
+  | "codeChurn"
+  | "busFactor"
+  | "commitPatterns"
+  | "branchLifespans";
+
+/** An analysis running in the background; `result` is set once it completed, `error` once it failed */
+export interface AnalyticsJob {
+  id: string;
+  kind: AnalyticsKind;
+  status: JobStatus;
+  progress: JobProgress;
+  partial?: AnalyticsJobResult;
+  result?: AnalyticsJobResult;
+  /** The `error` of a failed response, and the payload of stream `error` events */
+  error?: ApiErrorBody;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface JobProgress {
+  completed: number;
+  /** null while the amount of work isn't known yet */
+  total: number | null;
+  /** What is being counted, e.g. commits or branches */
+  message?: string;
+}
+
+export type AnalyticsJobResult =
+  | {
+      data: ContributorStats[];
+      coverage: AnalyticsCoverage;
+    }
+  | {
+      data: ActivityDay[];
+      coverage: AnalyticsCoverage;
+    }
+  | {
+      data: FileChurnStats[];
+      coverage: AnalyticsCoverage;
+    }
+  | {
+      data: FileBusFactor[];
+      coverage: AnalyticsCoverage;
+    }
+  | {
+      data: CommitPatterns;
+      coverage: AnalyticsCoverage;
+    }
+  | {
+      data: BranchLifespan[];
+    };
+
+export interface Submodule {
+  name: string;
+  path: string;
+  url: string;
+  currentCommit: string;
+  initialized: boolean;
+}
+
+export interface BranchComparison {
+  baseBranch: string;
+  compareBranch: string;
+  aheadCount: number;
+  behindCount: number;
+  aheadCommits: Commit[];
+  behindCommits: Commit[];
+  files: FileDiff[];
+  totalAdditions: number;
+  totalDeletions: number;
+}
+
+/** A phase of `git clone --progress` (counting, receiving, resolving, ...) */
+export interface CloneProgress {
+  stage: string;
+  /** 0-100 within the stage */
+  progress: number;
+  processed: number;
+  total: number;
+}
+
+/** What changed in a repository's history: after refreshing a clone from its remote, or pushed by the watcher when a local repository's refs move */
+export interface RefreshDelta {
+  addedCommits: Commit[];
+  removedCommits: string[];
+  redecoratedCommits: {
+    hash: string;
+    refs: RefInfo[];
+  }[];
+  addedRefs: RefUpdate[];
+  deletedRefs: RefUpdate[];
+  movedRefs: RefUpdate[];
+  branches: Branch[];
+  tags: Tag[];
+  currentBranch: string;
+  stats: RepoStats;
+  /** Ref state the data was read at; watchRepository takes it as `since` to catch up from there */
+  refsFingerprint: string;
+}
+
+/** A branch or tag that a refresh created, deleted or moved */
+export interface RefUpdate {
+  name: string;
+  type: "branch" | "tag";
+  /** Absent for new refs */
+  from?: string;
+  /** Absent for deleted refs */
+  to?: string;
+}
+
+export interface WatchCommitsEvent {
+  addedCommits: Commit[];
+  removedCommits: string[];
+}
+
+export interface WatchRefsEvent {
+  redecoratedCommits: {
+    hash: string;
+    refs: RefInfo[];
+  }[];
+  addedRefs: RefUpdate[];
+  deletedRefs: RefUpdate[];
+  movedRefs: RefUpdate[];
+  branches: Branch[];
+  tags: Tag[];
+  currentBranch: string;
+  stats: RepoStats;
+  /** Ref state the data was read at; watchRepository takes it as `since` to catch up from there */
+  refsFingerprint: string;
+}
+
+export type ForgeType = "github" | "gitlab" | "gitea" | "bitbucket";
+
+export interface ForgeRateLimit {
+  remaining: number;
+  limit: number;
+  resetAt: string;
+}
+
+export interface ForgeRepoInfo {
+  forge: ForgeType | null;
+  label: string | null;
+  host: string | null;
+  owner: string | null;
+  repo: string | null;
+  webUrl: string | null;
+  hasToken: boolean;
+  pullRequestOverlay: boolean;
+  checks: boolean;
+  checkOverlay: boolean;
+  metadata: ForgeRepoMetadata | null;
+}
+
+export interface ForgeRepoMetadata {
+  description: string | null;
+  defaultBranch: string | null;
+  stars: number | null;
+  forks: number | null;
+  visibility: string | null;
+}
+
+export interface CommitForgeInfo {
+  pullRequests: PullRequest[];
+  linkedIssues: Issue[];
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  state: "open" | "closed" | "merged";
+  url: string;
+  author: string;
+  createdAt: string;
+  mergedAt?: string;
+}
+
+export interface Issue {
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  url: string;
+  labels: string[];
+}
+
+export interface ForgeProgressEvent {
+  step: string;
+  status: "start" | "success" | "error" | "info";
+  message: string;
+  data?: unknown;
+}
+
+export interface CommitChecks {
+  state: CheckState | null;
+  checks: CommitCheck[];
+}
+
+export type CheckState = "success" | "failure" | "pending" | "neutral";
+
+export interface CommitCheck {
+  name: string;
+  kind: "check" | "status";
+  workflow: string | null;
+  state: CheckState;
+  conclusion: string | null;
+  url: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null;
+}
+
+export interface CommitPullRequestsBatch {
+  pullRequests: Record<string, PullRequest[]>;
+  done: number;
+  total: number;
+}
+
+export interface CommitCheckStatesBatch {
+  checkStates: Record<string, CheckState | null>;
+  done: number;
+  total: number;
+}
+
+// ===== OPERATIONS =====
+
+// POST /repository/open
+export interface OpenRepositoryRequest {
+  body: {
+    path: string;
+  };
+}
+
+export type OpenRepositoryResponse = {
+  success: true;
+  data: RepoSession;
+};
+
+// GET /repository/roots
+export type GetAllowedRootsRequest = Record<string, never>;
+
+export type GetAllowedRootsResponse = {
+  success: true;
+  data: string[];
+};
+
+// GET /repository/discover
+export interface DiscoverRepositoriesRequest {
+  query?: {
+    maxDepth?: number;
+    refresh?: boolean;
+  };
+}
+
+export type DiscoverRepositoriesResponse = {
+  success: true;
+  data: DiscoveredRepository[];
+  /** The scan stopped before covering every directory */
+  truncated: boolean;
+};
+
+// GET /repository/validate
+export interface ValidateRepositoryRequest {
+  query: {
+    repoId: string;
+  };
+}
+
+export type ValidateRepositoryResponse = {
+  valid: boolean;
+};
+
+// POST /repository/stats
+export interface GetRepoStatsRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetRepoStatsResponse = {
+  success: true;
+  data: RepoStats;
+};
+
+// POST /repository/metadata
+export interface GetRepoMetadataRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetRepoMetadataResponse = {
+  success: true;
+  data: RepositoryMetadata;
+};
+
+// POST /repository/load
+export interface LoadRepositoryRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type LoadRepositoryResponse = {
+  success: true;
+  data: Repository;
+};
+
+// POST /repository/stream
+export interface StreamRepositoryRequest {
+  query?: {
+    chunkSize?: number;
+    firstParent?: boolean;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export interface StreamRepositoryEvents {
+  metadata: RepositoryMetadata;
+  commits: CommitChunk;
+  complete: Record<string, never>;
+  error: ApiErrorBody;
+}
+
+// POST /repository/commits
+export interface GetCommitsPaginatedRequest {
+  query?: {
+    maxCount?: number;
+    skip?: number;
+    cursor?: string;
+    firstParent?: boolean;
+    since?: string;
+    until?: string;
+    branch?: string;
+    authors?: string[];
+    committers?: string[];
+    paths?: string[];
+    grep?: string;
+    pickaxe?: string;
+    pickaxeMode?: "string" | "regex";
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitsPaginatedResponse = {
+  success: true;
+  data: PaginatedCommits;
+};
+
+// GET /commit/{hash}
+export interface GetCommitRequest {
+  params: {
+    hash: string;
+  };
+  query: {
+    repoId: string;
+  };
+}
+
+export type GetCommitResponse = {
+  commit: Commit;
+};
+
+// POST /commit/{hash}/diff-stats
+export interface GetCommitDiffStatsRequest {
+  params: {
+    hash: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitDiffStatsResponse = {
+  success: true;
+  data: DiffStats;
+};
+
+// POST /commit/{hash}/file-diff
+export interface GetCommitFileDiffRequest {
+  params: {
+    hash: string;
+  };
+  query: {
+    filePath: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitFileDiffResponse = {
+  success: true;
+  data: FileDiffDetail;
+};
+
+// POST /repository/diff
+export interface GetRangeDiffRequest {
+  query: {
+    from: string;
+    to: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetRangeDiffResponse = {
+  success: true;
+  data: RangeDiff;
+};
+
+// POST /repository/diff/file
+export interface GetRangeFileDiffRequest {
+  query: {
+    from: string;
+    to: string;
+    filePath: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetRangeFileDiffResponse = {
+  success: true;
+  data: FileDiffDetail;
+};
+
+// POST /commit/{hash}/tree
+export interface GetFileTreeRequest {
+  params: {
+    hash: string;
+  };
+  query?: {
+    treePath?: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetFileTreeResponse = {
+  success: true;
+  data: TreeEntry[];
+};
+
+// POST /commit/{hash}/file
+export interface GetFileContentRequest {
+  params: {
+    hash: string;
+  };
+  query: {
+    filePath: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetFileContentResponse = {
+  success: true;
+  data: FileContent;
+};
+
+// POST /commit/{hash}/blame
+export interface GetBlameRequest {
+  params: {
+    hash: string;
+  };
+  query: {
+    filePath: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetBlameResponse = {
+  success: true;
+  data: BlameLine[];
+};
+
+// POST /repository/file-history
+export interface GetFileHistoryRequest {
+  query: {
+    filePath: string;
+    ref?: string;
+    follow?: boolean;
+    maxCount?: number;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetFileHistoryResponse = {
+  success: true;
+  data: FileHistoryEntry[];
+};
+
+// POST /repository/contributors
+export interface GetContributorStatsRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetContributorStatsResponse = {
+  success: true;
+  data: ContributorStats[];
+  coverage: AnalyticsCoverage;
+};
+
+// POST /repository/identities
+export interface GetIdentityMergesRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetIdentityMergesResponse = {
+  success: true;
+  data: IdentityMerge[];
+};
+
+// PUT /repository/identities
+export interface SaveIdentityMergesRequest {
+  body: {
+    repoId: string;
+    merges: IdentityMerge[];
+  };
+}
+
+export type SaveIdentityMergesResponse = {
+  success: true;
+  data: IdentityMerge[];
+};
+
+// POST /repository/activity
+export interface GetActivityHeatmapRequest {
+  query?: {
+    days?: number;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetActivityHeatmapResponse = {
+  success: true;
+  data: ActivityDay[];
+  coverage: AnalyticsCoverage;
+};
+
+// POST /repository/code-churn
+export interface GetCodeChurnRequest {
+  query?: {
+    limit?: number;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCodeChurnResponse = {
+  success: true;
+  data: FileChurnStats[];
+  coverage: AnalyticsCoverage;
+};
+
+// POST /repository/bus-factor
+export interface GetBusFactorRequest {
+  query?: {
+    minCommits?: number;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetBusFactorResponse = {
+  success: true;
+  data: FileBusFactor[];
+  coverage: AnalyticsCoverage;
+};
+
+// POST /repository/commit-patterns
+export interface GetCommitPatternsRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitPatternsResponse = {
+  success: true;
+  data: CommitPatterns;
+  coverage: AnalyticsCoverage;
+};
+
+// POST /repository/branch-lifespans
+export interface GetBranchLifespansRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetBranchLifespansResponse = {
+  success: true;
+  data: BranchLifespan[];
+};
+
+// POST /repository/analytics/jobs
+export interface StartAnalyticsJobRequest {
+  body: {
+    repoId: string;
+    kind: AnalyticsKind;
+    days?: number;
+    limit?: number;
+    minCommits?: number;
+  };
+}
+
+export type StartAnalyticsJobResponse = {
+  success: true;
+  data: AnalyticsJob;
+};
+
+// GET /jobs/{jobId}
+export interface GetJobRequest {
+  params: {
+    jobId: string;
+  };
+  query: {
+    repoId: string;
+  };
+}
+
+export type GetJobResponse = {
+  success: true;
+  data: AnalyticsJob;
+};
+
+// DELETE /jobs/{jobId}
+export interface CancelJobRequest {
+  params: {
+    jobId: string;
+  };
+  query: {
+    repoId: string;
+  };
+}
+
+export type CancelJobResponse = {
+  success: true;
+  data: AnalyticsJob;
+};
+
+// GET /jobs/{jobId}/events
+export interface WatchJobRequest {
+  params: {
+    jobId: string;
+  };
+  query: {
+    repoId: string;
+  };
+}
+
+export interface WatchJobEvents {
+  update: AnalyticsJob;
+}
+
+// POST /repository/submodules
+export interface GetSubmodulesRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetSubmodulesResponse = {
+  success: true;
+  data: Submodule[];
+};
+
+// POST /repository/submodules/load
+export interface LoadSubmoduleRepositoryRequest {
+  body: {
+    repoId: string;
+    submodulePath: string;
+  };
+}
+
+export type LoadSubmoduleRepositoryResponse = {
+  success: true;
+  data: Repository;
+};
+
+// POST /repository/branch-compare
+export interface CompareBranchesRequest {
+  body: {
+    repoId: string;
+    baseBranch: string;
+    compareBranch: string;
+  };
+}
+
+export type CompareBranchesResponse = {
+  success: true;
+  data: BranchComparison;
+};
+
+// POST /repository/clone
+export interface CloneRepositoryRequest {
+  query?: {
+    chunkSize?: number;
+    firstParent?: boolean;
+  };
+  body: {
+    url: string;
+    token?: string;
+    /** How much of a remote was cloned (see README "Clone Strategies") */
+    strategy?: CloneStrategy;
+    shallowSince?: string;
+    branch?: string;
+  };
+}
+
+export interface CloneRepositoryEvents {
+  progress: CloneProgress;
+  metadata: RepositoryMetadata;
+  commits: CommitChunk;
+  complete: Record<string, never>;
+  error: ApiErrorBody;
+}
+
+// POST /repository/refresh
+export interface RefreshRepositoryRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type RefreshRepositoryResponse = {
+  success: true;
+  data: RefreshDelta;
+};
+
+// GET /repository/watch
+export interface WatchRepositoryRequest {
+  query: {
+    repoId: string;
+    /** refsFingerprint of the graph the client holds; what changed since is sent first */
+    since?: string;
+  };
+}
+
+export interface WatchRepositoryEvents {
+  commits: WatchCommitsEvent;
+  refs: WatchRefsEvent;
+  /** The ref state given as `since` is unknown to the server (e.g. after a restart); reload the repository */
+  resync: Record<string, never>;
+}
+
+// POST /repository/cleanup
+export interface CleanupRepositoryRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type CleanupRepositoryResponse = {
+  success: true;
+  message: string;
+};
+
+// POST /upload
+export interface UploadRepositoryRequest {
+  body: FormData;
+}
+
+export type UploadRepositoryResponse = {
+  success: true;
+  data: Repository;
+};
+
+// POST /upload-folder
+export interface UploadFolderRequest {
+  body: FormData;
+}
+
+export type UploadFolderResponse = {
+  success: true;
+  data: Repository;
+};
+
+// POST /forge/config
+export interface SetForgeTokenRequest {
+  body: {
+    /** Forge host, e.g. github.com */
+    host: string;
+    token?: string | null;
+  };
+}
+
+export type SetForgeTokenResponse = {
+  success: true;
+  host: string;
+  forge: ForgeType;
+  hasToken: boolean;
+};
+
+// POST /forge/rate-limit
+export interface GetForgeRateLimitRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetForgeRateLimitResponse = {
+  success: true;
+  data: ForgeRateLimit | null;
+};
+
+// POST /forge/repo-info
+export interface GetForgeRepoInfoRequest {
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetForgeRepoInfoResponse = {
+  success: true;
+  data: ForgeRepoInfo;
+};
+
+// POST /forge/commit/{hash}
+export interface GetCommitForgeInfoRequest {
+  params: {
+    hash: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitForgeInfoResponse = {
+  success: true;
+  data: CommitForgeInfo;
+  warning?: string;
+};
+
+// POST /forge/commit/{hash}/stream
+export interface StreamCommitForgeInfoRequest {
+  params: {
+    hash: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export interface StreamCommitForgeInfoEvents {
+  progress: ForgeProgressEvent;
+  complete: {
+    data: CommitForgeInfo;
+  };
+  error: ApiErrorBody;
+}
+
+// POST /forge/commit/{hash}/checks
+export interface GetCommitChecksRequest {
+  params: {
+    hash: string;
+  };
+  body: {
+    repoId: string;
+  };
+}
+
+export type GetCommitChecksResponse = {
+  success: true;
+  data: CommitChecks;
+};
+
+// POST /forge/pull-requests/stream
+export interface StreamForgePullRequestsRequest {
+  body: {
+    repoId: string;
+    hashes: string[];
+  };
+}
+
+export interface StreamForgePullRequestsEvents {
+  pullRequests: CommitPullRequestsBatch;
+  complete: {
+    total: number;
+  };
+  error: ApiErrorBody;
+}
+
+// POST /forge/checks/stream
+export interface StreamForgeCheckStatesRequest {
+  body: {
+    repoId: string;
+    hashes: string[];
+  };
+}
+
+export interface StreamForgeCheckStatesEvents {
+  checkStates: CommitCheckStatesBatch;
+  complete: {
+    total: number;
+  };
+  error: ApiErrorBody;
+}
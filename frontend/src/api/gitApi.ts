@@ -1,135 +1,106 @@
 import type {
-  LoadRepositoryResponse,
   Repository,
-  StatsResponse,
-  MetadataResponse,
-  CommitsResponse,
   RepoStats,
   RepositoryMetadata,
+  CloneProgress,
+  CloneStrategyOptions,
+  RepoSession,
+  DiscoveredRepository,
   Commit,
   PaginatedCommits,
   DiffStats,
-  DiffStatsResponse,
   FileDiffDetail,
-  FileDiffResponse,
+  RangeDiff,
+  RefreshDelta,
+  WatchCommitsEvent,
+  WatchRefsEvent,
   TreeEntry,
-  TreeResponse,
   FileContent,
-  FileContentResponse,
+  FileHistoryEntry,
+  BlameLine,
+  AnalyticsResult,
   ContributorStats,
-  ContributorStatsResponse,
   ActivityDay,
-  ActivityResponse,
+  IdentityMerge,
   Submodule,
-  SubmodulesResponse,
   DateRange,
   BranchComparison,
-  BranchComparisonResponse,
   FileChurnStats,
-  CodeChurnResponse,
   FileBusFactor,
-  BusFactorResponse,
   CommitPatterns,
-  CommitPatternsResponse,
   BranchLifespan,
-  BranchLifespanResponse,
+  AnalyticsJob,
+  AnalyticsKind,
 } from "../types";
-
-const API_BASE = "/api";
+import * as api from "./generated/client";
+import type {
+  CloneRepositoryEvents,
+  StreamRepositoryEvents,
+} from "./generated/schema";
+import { JobCancelledError, toApiError } from "./errors";
+import { readEventStream, StreamEvent } from "./http";
+
+export {
+  ApiError,
+  InvalidRequestError,
+  NotARepoError,
+  SessionNotFoundError,
+  RefNotFoundError,
+  FileNotFoundError,
+  AuthRequiredError,
+  RateLimitedError,
+  JobCancelledError,
+  toApiError,
+} from "./errors";
 
 // Get repository stats (fast - just commit count)
-export async function getRepoStats(path: string): Promise<RepoStats> {
-  const response = await fetch(`${API_BASE}/repository/stats`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path }),
-  });
-
-  const data: StatsResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get repository stats");
-  }
-
-  return data.data!;
+export async function getRepoStats(repoId: string): Promise<RepoStats> {
+  const { data } = await api.getRepoStats({ body: { repoId } });
+  return data;
 }
 
 // Get repository metadata (branches, tags, stats) without commits
 export async function getRepoMetadata(
-  path: string,
+  repoId: string,
 ): Promise<RepositoryMetadata> {
-  const response = await fetch(`${API_BASE}/repository/metadata`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path }),
-  });
-
-  const data: MetadataResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get repository metadata");
-  }
-
-  return data.data!;
+  const { data } = await api.getRepoMetadata({ body: { repoId } });
+  return data;
 }
 
 // Get paginated commits
 export async function getCommitsPaginated(
-  path: string,
+  repoId: string,
   options: {
     maxCount?: number;
+    cursor?: string;
     skip?: number;
     firstParent?: boolean;
     dateRange?: DateRange;
     branch?: string;
     authors?: string[];
+    committers?: string[];
+    grep?: string;
+    pickaxe?: string;
+    pickaxeMode?: "string" | "regex";
+    paths?: string[];
   } = {},
 ): Promise<PaginatedCommits> {
-  const {
-    maxCount = 500,
-    skip = 0,
-    firstParent = false,
-    dateRange,
-    branch,
-    authors,
-  } = options;
-  const params = new URLSearchParams({
-    maxCount: maxCount.toString(),
-    skip: skip.toString(),
-    firstParent: firstParent.toString(),
-  });
-
-  // Add date range filters if provided
-  if (dateRange?.since) {
-    params.set("since", dateRange.since);
-  }
-  if (dateRange?.until) {
-    params.set("until", dateRange.until);
-  }
-
-  // Add branch filter if provided
-  if (branch) {
-    params.set("branch", branch);
-  }
-
-  // Add author filters if provided
-  if (authors && authors.length > 0) {
-    params.set("authors", authors.join(","));
-  }
-
-  const response = await fetch(`${API_BASE}/repository/commits?${params}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path }),
+  const { dateRange, branch, pickaxe, ...query } = options;
+
+  // A cursor continues a previous walk with that walk's filters; empty
+  // filters are left out rather than sent as ""
+  const { data } = await api.getCommitsPaginated({
+    query: {
+      ...query,
+      since: dateRange?.since || undefined,
+      until: dateRange?.until || undefined,
+      branch: branch || undefined,
+      pickaxe: pickaxe || undefined,
+      pickaxeMode: pickaxe ? query.pickaxeMode : undefined,
+    },
+    body: { repoId },
   });
-
-  const data: CommitsResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get commits");
-  }
-
-  return data.data!;
+  return data;
 }
 
 // Stream commits using Server-Sent Events
@@ -140,89 +111,49 @@ export interface StreamCallbacks {
   onError: (error: Error) => void;
 }
 
+// Dispatch the metadata/commits/complete/error events shared by streams
+function dispatchStreamEvent(
+  callbacks: StreamCallbacks,
+  event: StreamEvent<StreamRepositoryEvents>,
+): void {
+  switch (event.type) {
+    case "metadata":
+      callbacks.onMetadata(event.data);
+      break;
+    case "commits":
+      callbacks.onCommits(
+        event.data.commits,
+        event.data.progress,
+        event.data.total,
+      );
+      break;
+    case "complete":
+      callbacks.onComplete();
+      break;
+    case "error":
+      callbacks.onError(toApiError(event.data, 0, "Stream failed"));
+      break;
+  }
+}
+
 export function streamRepository(
-  path: string,
+  repoId: string,
   callbacks: StreamCallbacks,
   options: { chunkSize?: number; firstParent?: boolean } = {},
 ): () => void {
-  const { chunkSize = 500, firstParent = false } = options;
-  const params = new URLSearchParams({
-    chunkSize: chunkSize.toString(),
-    firstParent: firstParent.toString(),
-  });
-
   // Use fetch with streaming for SSE over POST
   const controller = new AbortController();
 
-  fetch(`${API_BASE}/repository/stream?${params}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path }),
-    signal: controller.signal,
-  })
-    .then(async (response) => {
-      if (!response.ok) {
-        const text = await response.text();
-        throw new Error(text || "Failed to stream repository");
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Parse SSE events
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        let eventType = "";
-        let eventData = "";
-
-        for (const line of lines) {
-          if (line.startsWith("event: ")) {
-            eventType = line.slice(7);
-          } else if (line.startsWith("data: ")) {
-            eventData = line.slice(6);
-
-            if (eventType && eventData) {
-              try {
-                const parsed = JSON.parse(eventData);
-
-                switch (eventType) {
-                  case "metadata":
-                    callbacks.onMetadata(parsed);
-                    break;
-                  case "commits":
-                    callbacks.onCommits(
-                      parsed.commits,
-                      parsed.progress,
-                      parsed.total,
-                    );
-                    break;
-                  case "complete":
-                    callbacks.onComplete();
-                    break;
-                  case "error":
-                    callbacks.onError(new Error(parsed.error));
-                    break;
-                }
-              } catch {
-                // Ignore parse errors
-              }
-              eventType = "";
-              eventData = "";
-            }
-          }
-        }
-      }
-    })
+  api
+    .streamRepository(
+      { query: options, body: { repoId } },
+      { signal: controller.signal },
+    )
+    .then((response) =>
+      readEventStream<StreamRepositoryEvents>(response, (event) =>
+        dispatchStreamEvent(callbacks, event),
+      ),
+    )
     .catch((error) => {
       if (error.name !== "AbortError") {
         callbacks.onError(error);
@@ -234,102 +165,110 @@ export function streamRepository(
 }
 
 // Legacy: Load full repository (for small repos)
-export async function loadRepository(path: string): Promise<Repository> {
-  const response = await fetch(`${API_BASE}/repository/load`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ path }),
-  });
+export async function loadRepository(repoId: string): Promise<Repository> {
+  const { data } = await api.loadRepository({ body: { repoId } });
+  return data;
+}
 
-  const data: LoadRepositoryResponse = await response.json();
+// Start a session for a repository on the server's filesystem
+export async function openRepository(path: string): Promise<RepoSession> {
+  const { data } = await api.openRepository({ body: { path } });
+  return data;
+}
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to load repository");
-  }
+// Directories the server allows opening local repositories from
+export async function getAllowedRoots(): Promise<string[]> {
+  const { data } = await api.getAllowedRoots();
+  return data;
+}
 
-  return data.data!;
+// Find repositories under the allowed roots
+export async function discoverRepositories(
+  options: { maxDepth?: number; refresh?: boolean } = {},
+): Promise<{ repositories: DiscoveredRepository[]; truncated: boolean }> {
+  const { data, truncated } = await api.discoverRepositories({
+    query: options,
+  });
+  return { repositories: data, truncated };
 }
 
-export async function validateRepository(path: string): Promise<boolean> {
+// Whether a repository session is still alive on the server
+export async function validateRepository(repoId: string): Promise<boolean> {
   try {
-    const response = await fetch(
-      `${API_BASE}/repository/validate?repoPath=${encodeURIComponent(path)}`,
-    );
-    const data = await response.json();
-    return data.valid === true;
+    const { valid } = await api.validateRepository({ query: { repoId } });
+    return valid;
   } catch {
     return false;
   }
 }
 
+// Which hosts are forges is up to the server; anything shaped like a
+// repository URL is worth sending there
 export function isGitUrl(input: string): boolean {
   const patterns = [
-    /^https?:\/\/(www\.)?github\.com\/[\w.-]+\/[\w.-]+/,
-    /^https?:\/\/(www\.)?gitlab\.com\/[\w.-]+\/[\w.-]+/,
-    /^https?:\/\/(www\.)?bitbucket\.org\/[\w.-]+\/[\w.-]+/,
-    /^git@github\.com:[\w.-]+\/[\w.-]+/,
-    /^git@gitlab\.com:[\w.-]+\/[\w.-]+/,
+    /^https?:\/\/[\w.-]+(:\d+)?\/[\w.-]+\/[\w.-]+/,
+    /^[\w.-]+@[\w.-]+:[\w.-]+\/[\w.-]+/,
     /^https?:\/\/.*\.git$/,
     /^git:\/\/.*/,
   ];
   return patterns.some((pattern) => pattern.test(input.trim()));
 }
 
-// Custom error class for authentication required errors
-export class AuthRequiredError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "AuthRequiredError";
-  }
+export interface CloneCallbacks extends StreamCallbacks {
+  onProgress: (progress: CloneProgress) => void;
 }
 
-export async function cloneRepository(
+/**
+ * Clone a remote repository, reporting git's progress and then streaming
+ * metadata and commits like streamRepository. Aborting cancels the clone on
+ * the server and deletes what was downloaded.
+ */
+export function cloneRepository(
   url: string,
-  options: { token?: string } = {},
-): Promise<Repository> {
-  const { token } = options;
-
-  const response = await fetch(`${API_BASE}/repository/clone`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ url, token }),
-  });
-
-  const data = await response.json();
+  callbacks: CloneCallbacks,
+  options: {
+    token?: string;
+    strategy?: CloneStrategyOptions;
+    chunkSize?: number;
+    firstParent?: boolean;
+  } = {},
+): () => void {
+  const { token, strategy, chunkSize, firstParent } = options;
+  const controller = new AbortController();
 
-  if (!response.ok || !data.success) {
-    // Check if this is an auth error
-    if (response.status === 401 || data.authRequired) {
-      throw new AuthRequiredError(
-        "This repository requires authentication. Please provide a personal access token.",
-      );
-    }
-    throw new Error(data.error || "Failed to clone repository");
-  }
+  api
+    .cloneRepository(
+      {
+        query: { chunkSize, firstParent },
+        body: { url, token, ...strategy },
+      },
+      { signal: controller.signal },
+    )
+    .then((response) =>
+      readEventStream<CloneRepositoryEvents>(response, (event) => {
+        // Auth failures arrive as AuthRequiredError through the error event
+        if (event.type === "progress") {
+          callbacks.onProgress(event.data);
+        } else {
+          dispatchStreamEvent(callbacks, event);
+        }
+      }),
+    )
+    .catch((error) => {
+      if (error.name !== "AbortError") {
+        callbacks.onError(error);
+      }
+    });
 
-  return data.data!;
+  return () => controller.abort();
 }
 
 export async function uploadRepository(file: File): Promise<Repository> {
   const formData = new FormData();
   formData.append("gitZip", file);
 
-  const response = await fetch(`${API_BASE}/upload`, {
-    method: "POST",
-    body: formData,
-  });
-
-  const data: LoadRepositoryResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to upload repository");
-  }
-
-  return data.data!;
+  const { data } = await api.uploadRepository({ body: formData });
+  return data;
 }
 
 // Essential .git files/paths needed for visualization
@@ -411,306 +350,375 @@ export async function uploadFolder(files: FileList): Promise<Repository> {
     );
   }
 
-  const response = await fetch(`${API_BASE}/upload-folder`, {
-    method: "POST",
-    body: formData,
-  });
-
-  const data: LoadRepositoryResponse = await response.json();
+  const { data } = await api.uploadFolder({ body: formData });
+  return data;
+}
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to upload folder");
-  }
+// Commit APIs
 
-  return data.data!;
+export async function getCommit(
+  repoId: string,
+  commitHash: string,
+): Promise<Commit> {
+  const { commit } = await api.getCommit({
+    params: { hash: commitHash },
+    query: { repoId },
+  });
+  return commit;
 }
 
 // Diff APIs
 
 export async function getCommitDiffStats(
-  repoPath: string,
+  repoId: string,
   commitHash: string,
 ): Promise<DiffStats> {
-  const response = await fetch(`${API_BASE}/commit/${commitHash}/diff-stats`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
+  const { data } = await api.getCommitDiffStats({
+    params: { hash: commitHash },
+    body: { repoId },
   });
-
-  const data: DiffStatsResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get diff stats");
-  }
-
-  return data.data!;
+  return data;
 }
 
 export async function getCommitFileDiff(
-  repoPath: string,
+  repoId: string,
   commitHash: string,
   filePath: string,
 ): Promise<FileDiffDetail> {
-  const params = new URLSearchParams({ filePath });
-  const response = await fetch(
-    `${API_BASE}/commit/${commitHash}/file-diff?${params}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ path: repoPath }),
-    },
-  );
+  const { data } = await api.getCommitFileDiff({
+    params: { hash: commitHash },
+    query: { filePath },
+    body: { repoId },
+  });
+  return data;
+}
 
-  const data: FileDiffResponse = await response.json();
+export interface WatchCallbacks {
+  onCommits: (event: WatchCommitsEvent) => void;
+  onRefs: (event: WatchRefsEvent) => void;
+  onResync: () => void;
+}
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get file diff");
-  }
+/**
+ * Subscribe to live changes of a local repository, starting with whatever
+ * changed since the graph was read at `since` (its refsFingerprint).
+ * EventSource reconnects on its own after network errors and resumes from
+ * the last change it received. If the server can't tell what changed since
+ * then, it sends `resync` and the graph has to be reloaded. The returned
+ * function closes the stream.
+ */
+export function watchRepository(
+  repoId: string,
+  since: string | undefined,
+  callbacks: WatchCallbacks,
+): () => void {
+  const source = api.watchRepository({ query: { repoId, since } });
 
-  return data.data!;
+  source.addEventListener("commits", (event) => {
+    callbacks.onCommits(JSON.parse((event as MessageEvent).data));
+  });
+  source.addEventListener("refs", (event) => {
+    callbacks.onRefs(JSON.parse((event as MessageEvent).data));
+  });
+  source.addEventListener("resync", () => callbacks.onResync());
+
+  return () => source.close();
+}
+
+// Fetch new commits into a cloned repository and get what changed
+export async function refreshRepository(repoId: string): Promise<RefreshDelta> {
+  const { data } = await api.refreshRepository({ body: { repoId } });
+  return data;
+}
+
+export async function getRangeDiff(
+  repoId: string,
+  from: string,
+  to: string,
+): Promise<RangeDiff> {
+  const { data } = await api.getRangeDiff({
+    query: { from, to },
+    body: { repoId },
+  });
+  return data;
+}
+
+export async function getRangeFileDiff(
+  repoId: string,
+  from: string,
+  to: string,
+  filePath: string,
+): Promise<FileDiffDetail> {
+  const { data } = await api.getRangeFileDiff({
+    query: { from, to, filePath },
+    body: { repoId },
+  });
+  return data;
 }
 
 // File tree APIs
 
 export async function getFileTree(
-  repoPath: string,
+  repoId: string,
   commitHash: string,
   treePath?: string,
 ): Promise<TreeEntry[]> {
-  const params = treePath ? new URLSearchParams({ treePath }) : "";
-  const response = await fetch(
-    `${API_BASE}/commit/${commitHash}/tree${params ? `?${params}` : ""}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ path: repoPath }),
-    },
-  );
-
-  const data: TreeResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get file tree");
-  }
-
-  return data.data!;
+  const { data } = await api.getFileTree({
+    params: { hash: commitHash },
+    query: { treePath },
+    body: { repoId },
+  });
+  return data;
 }
 
 export async function getFileContent(
-  repoPath: string,
+  repoId: string,
   commitHash: string,
   filePath: string,
 ): Promise<FileContent> {
-  const params = new URLSearchParams({ filePath });
-  const response = await fetch(
-    `${API_BASE}/commit/${commitHash}/file?${params}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ path: repoPath }),
-    },
-  );
-
-  const data: FileContentResponse = await response.json();
+  const { data } = await api.getFileContent({
+    params: { hash: commitHash },
+    query: { filePath },
+    body: { repoId },
+  });
+  return data;
+}
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get file content");
-  }
+export async function getBlame(
+  repoId: string,
+  commitHash: string,
+  filePath: string,
+): Promise<BlameLine[]> {
+  const { data } = await api.getBlame({
+    params: { hash: commitHash },
+    query: { filePath },
+    body: { repoId },
+  });
+  return data;
+}
 
-  return data.data!;
+export async function getFileHistory(
+  repoId: string,
+  filePath: string,
+  options: { ref?: string; follow?: boolean } = {},
+): Promise<FileHistoryEntry[]> {
+  const { data } = await api.getFileHistory({
+    query: { filePath, ref: options.ref || undefined, follow: options.follow },
+    body: { repoId },
+  });
+  return data;
 }
 
 // Stats APIs
 
 export async function getContributorStats(
-  repoPath: string,
-): Promise<ContributorStats[]> {
-  const response = await fetch(`${API_BASE}/repository/contributors`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
+  repoId: string,
+): Promise<AnalyticsResult<ContributorStats[]>> {
+  const { data, coverage } = await api.getContributorStats({
+    body: { repoId },
   });
-
-  const data: ContributorStatsResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get contributor stats");
-  }
-
-  return data.data!;
+  return { data, coverage };
 }
 
 export async function getActivityHeatmap(
-  repoPath: string,
+  repoId: string,
   days: number = 365,
-): Promise<ActivityDay[]> {
-  const params = new URLSearchParams({ days: days.toString() });
-  const response = await fetch(`${API_BASE}/repository/activity?${params}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
+): Promise<AnalyticsResult<ActivityDay[]>> {
+  const { data, coverage } = await api.getActivityHeatmap({
+    query: { days },
+    body: { repoId },
   });
+  return { data, coverage };
+}
 
-  const data: ActivityResponse = await response.json();
+// Identity APIs
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get activity heatmap");
-  }
+export async function getIdentityMerges(
+  repoId: string,
+): Promise<IdentityMerge[]> {
+  const { data } = await api.getIdentityMerges({ body: { repoId } });
+  return data;
+}
 
-  return data.data!;
+export async function saveIdentityMerges(
+  repoId: string,
+  merges: IdentityMerge[],
+): Promise<IdentityMerge[]> {
+  const { data } = await api.saveIdentityMerges({ body: { repoId, merges } });
+  return data;
 }
 
 // Submodule APIs
 
-export async function getSubmodules(repoPath: string): Promise<Submodule[]> {
-  const response = await fetch(`${API_BASE}/repository/submodules`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
-  });
-
-  const data: SubmodulesResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get submodules");
-  }
-
-  return data.data!;
+export async function getSubmodules(repoId: string): Promise<Submodule[]> {
+  const { data } = await api.getSubmodules({ body: { repoId } });
+  return data;
 }
 
 export async function loadSubmoduleRepository(
-  repoPath: string,
+  repoId: string,
   submodulePath: string,
 ): Promise<Repository> {
-  const response = await fetch(`${API_BASE}/repository/submodules/load`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath, submodulePath }),
+  const { data } = await api.loadSubmoduleRepository({
+    body: { repoId, submodulePath },
   });
-
-  const data: LoadRepositoryResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to load submodule");
-  }
-
-  return data.data!;
+  return data;
 }
 
 // Branch comparison API
 
 export async function compareBranches(
-  repoPath: string,
+  repoId: string,
   baseBranch: string,
   compareBranch: string,
 ): Promise<BranchComparison> {
-  const response = await fetch(`${API_BASE}/repository/branch-compare`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath, baseBranch, compareBranch }),
+  const { data } = await api.compareBranches({
+    body: { repoId, baseBranch, compareBranch },
   });
-
-  const data: BranchComparisonResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to compare branches");
-  }
-
-  return data.data!;
+  return data;
 }
 
 // Analytics APIs
 
 export async function getCodeChurn(
-  repoPath: string,
+  repoId: string,
   limit: number = 50,
-): Promise<FileChurnStats[]> {
-  const params = new URLSearchParams({ limit: limit.toString() });
-  const response = await fetch(`${API_BASE}/repository/code-churn?${params}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
+): Promise<AnalyticsResult<FileChurnStats[]>> {
+  const { data, coverage } = await api.getCodeChurn({
+    query: { limit },
+    body: { repoId },
   });
-
-  const data: CodeChurnResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get code churn");
-  }
-
-  return data.data!;
+  return { data, coverage };
 }
 
 export async function getBusFactor(
-  repoPath: string,
+  repoId: string,
   minCommits: number = 5,
-): Promise<FileBusFactor[]> {
-  const params = new URLSearchParams({ minCommits: minCommits.toString() });
-  const response = await fetch(`${API_BASE}/repository/bus-factor?${params}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
+): Promise<AnalyticsResult<FileBusFactor[]>> {
+  const { data, coverage } = await api.getBusFactor({
+    query: { minCommits },
+    body: { repoId },
   });
-
-  const data: BusFactorResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get bus factor");
-  }
-
-  return data.data!;
+  return { data, coverage };
 }
 
 export async function getCommitPatterns(
-  repoPath: string,
-): Promise<CommitPatterns> {
-  const response = await fetch(`${API_BASE}/repository/commit-patterns`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
-  });
-
-  const data: CommitPatternsResponse = await response.json();
-
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get commit patterns");
-  }
-
-  return data.data!;
+  repoId: string,
+): Promise<AnalyticsResult<CommitPatterns>> {
+  const { data, coverage } = await api.getCommitPatterns({ body: { repoId } });
+  return { data, coverage };
 }
 
 export async function getBranchLifespans(
-  repoPath: string,
+  repoId: string,
 ): Promise<BranchLifespan[]> {
-  const response = await fetch(`${API_BASE}/repository/branch-lifespans`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: repoPath }),
-  });
+  const { data } = await api.getBranchLifespans({ body: { repoId } });
+  return data;
+}
 
-  const data: BranchLifespanResponse = await response.json();
+// Background jobs
 
-  if (!response.ok || !data.success) {
-    throw new Error(data.error || "Failed to get branch lifespans");
-  }
+// What each analysis produces when run as a job
+export interface AnalyticsJobResults {
+  contributors: AnalyticsResult<ContributorStats[]>;
+  activity: AnalyticsResult<ActivityDay[]>;
+  codeChurn: AnalyticsResult<FileChurnStats[]>;
+  busFactor: AnalyticsResult<FileBusFactor[]>;
+  commitPatterns: AnalyticsResult<CommitPatterns>;
+  branchLifespans: { data: BranchLifespan[] };
+}
 
-  return data.data!;
+export interface AnalyticsJobOptions {
+  days?: number; // activity
+  limit?: number; // codeChurn
+  minCommits?: number; // busFactor
+  signal?: AbortSignal; // Aborting leaves the job; the server cancels it if no one else waits
+  onUpdate?: (job: AnalyticsJob) => void; // Progress and partial results
 }
 
-// Cleanup temporary repository
-export async function cleanupRepository(repoPath: string): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE}/repository/cleanup`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ path: repoPath }),
+/**
+ * Run an analysis as a background job and follow it over SSE until it
+ * finishes. Resolves with the job's result; rejects with the job's error,
+ * or a JobCancelledError once it's cancelled.
+ */
+export async function runAnalyticsJob<K extends AnalyticsKind>(
+  repoId: string,
+  kind: K,
+  options: AnalyticsJobOptions = {},
+): Promise<AnalyticsJobResults[K]> {
+  const { signal, onUpdate, ...jobOptions } = options;
+  const { data: job } = await api.startAnalyticsJob({
+    body: { repoId, kind, ...jobOptions },
+  });
+  const params = { jobId: job.id };
+  const query = { repoId };
+  let latest = job;
+
+  return new Promise((resolve, reject) => {
+    const source = api.watchJob({ params, query });
+
+    const finish = () => {
+      source.close();
+      signal?.removeEventListener("abort", cancel);
+    };
+    const cancel = () => {
+      finish();
+      api.cancelJob({ params, query }).catch(() => {});
+      onUpdate?.({ ...latest, status: "cancelled" });
+      reject(
+        new JobCancelledError({
+          code: "JOB_CANCELLED",
+          message: "Job was cancelled",
+        }),
+      );
+    };
+    if (signal?.aborted) return cancel();
+    signal?.addEventListener("abort", cancel);
+
+    source.addEventListener("update", (event) => {
+      const update: AnalyticsJob = JSON.parse((event as MessageEvent).data);
+      latest = update;
+      onUpdate?.(update);
+
+      if (update.status === "completed") {
+        finish();
+        resolve(update.result as AnalyticsJobResults[K]);
+      } else if (update.status === "failed" || update.status === "cancelled") {
+        finish();
+        reject(
+          toApiError(
+            update.error ?? {
+              code: "JOB_CANCELLED",
+              message: "Job was cancelled",
+            },
+            0,
+            "Job failed",
+          ),
+        );
+      }
     });
 
-    const data = await response.json();
+    // EventSource reconnects after network errors (and gets the job's
+    // current state again) but gives up on error responses, e.g. once the
+    // job has expired
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      finish();
+      reject(
+        toApiError(
+          { code: "JOB_NOT_FOUND", message: "Lost track of the job" },
+          0,
+          "Job failed",
+        ),
+      );
+    };
+  });
+}
 
-    if (!response.ok || !data.success) {
-      console.warn("Failed to cleanup repository:", data.error);
-    }
+// Cleanup temporary repository
+export async function cleanupRepository(repoId: string): Promise<void> {
+  try {
+    await api.cleanupRepository({ body: { repoId } });
   } catch (error) {
     // Silently fail - cleanup is best effort
     console.warn("Failed to cleanup repository:", error);
@@ -0,0 +1,141 @@
+import { toApiError } from "./errors";
+
+export const API_BASE = "/api";
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+// A request as the generated client passes it
+export interface RequestParts {
+  params?: Record<string, string>;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+// Fill in path parameters and append the query; lists are comma-separated
+export function apiUrl(path: string, { params, query }: RequestParts): string {
+  const resolved = path.replace(/\{(\w+)\}/g, (_, name: string) =>
+    encodeURIComponent(params?.[name] ?? ""),
+  );
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined) continue;
+    search.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+
+  const queryString = search.toString();
+  return `${API_BASE}${resolved}${queryString ? `?${queryString}` : ""}`;
+}
+
+function send(
+  method: string,
+  path: string,
+  parts: RequestParts,
+  init?: RequestInit,
+): Promise<Response> {
+  const { body } = parts;
+  const isJson = body !== undefined && !(body instanceof FormData);
+
+  return fetch(apiUrl(path, parts), {
+    ...init,
+    method,
+    headers: isJson ? { "Content-Type": "application/json" } : undefined,
+    body: isJson ? JSON.stringify(body) : (body as FormData | undefined),
+  });
+}
+
+// Turn the error envelope of a failed response (if it has one) into an ApiError
+function failure(response: Response, data: any, method: string, path: string) {
+  return toApiError(
+    data?.error,
+    response.status,
+    `${method} ${path} failed (${response.status})`,
+  );
+}
+
+/**
+ * Make a JSON API call and return the parsed body. Failures, including
+ * `{ success: false }` bodies, are thrown as typed ApiErrors.
+ */
+export async function callApi<T>(
+  method: string,
+  path: string,
+  parts: RequestParts,
+  init?: RequestInit,
+): Promise<T> {
+  const response = await send(method, path, parts, init);
+  const data = await response.json().catch(() => undefined);
+
+  if (!response.ok || data?.success === false) {
+    throw failure(response, data, method, path);
+  }
+  return data as T;
+}
+
+// Start a Server-Sent Events stream over fetch; read it with readEventStream
+export async function openEventStream(
+  method: string,
+  path: string,
+  parts: RequestParts,
+  init?: RequestInit,
+): Promise<Response> {
+  const response = await send(method, path, parts, init);
+  if (!response.ok) {
+    const data = await response.json().catch(() => undefined);
+    throw failure(response, data, method, path);
+  }
+  return response;
+}
+
+// One event of a stream, typed by its name
+export type StreamEvent<Events> = {
+  [Name in keyof Events]: { type: Name; data: Events[Name] };
+}[keyof Events];
+
+// Read a Server-Sent Events response, passing each event to `onEvent`
+export async function readEventStream<Events>(
+  response: Response,
+  onEvent: (event: StreamEvent<Events>) => void,
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Parse SSE events
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    let eventType = "";
+    let eventData = "";
+
+    for (const line of lines) {
+      if (line.startsWith("event: ")) {
+        eventType = line.slice(7);
+      } else if (line.startsWith("data: ")) {
+        eventData = line.slice(6);
+
+        if (eventType && eventData) {
+          let parsed;
+          try {
+            parsed = JSON.parse(eventData);
+          } catch {
+            // Ignore parse errors
+          }
+          if (parsed !== undefined) {
+            onEvent({ type: eventType, data: parsed } as StreamEvent<Events>);
+          }
+          eventType = "";
+          eventData = "";
+        }
+      }
+    }
+  }
+}
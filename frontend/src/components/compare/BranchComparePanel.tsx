@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { useRepositoryStore } from "../../store/repositoryStore";
 import type { FileDiff, Commit } from "../../types";
+import { DiffContent } from "../diff/DiffContent";
 
 function FileStatusBadge({ status }: { status: FileDiff["status"] }) {
   const colors = {
@@ -60,6 +61,9 @@ export function BranchComparePanel() {
     isLoadingComparison,
     comparisonError,
     fetchBranchComparison,
+    comparisonFileDiff,
+    fetchComparisonFileDiff,
+    clearComparisonFileDiff,
   } = useRepositoryStore();
 
   useEffect(() => {
@@ -220,7 +224,16 @@ export function BranchComparePanel() {
             </div>
           )}
 
-          {branchComparison && !isLoadingComparison && (
+          {comparisonFileDiff && !isLoadingComparison && (
+            <div className="h-[60vh] border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+              <DiffContent
+                diff={comparisonFileDiff}
+                onBack={clearComparisonFileDiff}
+              />
+            </div>
+          )}
+
+          {branchComparison && !comparisonFileDiff && !isLoadingComparison && (
             <div className="space-y-6">
               {/* Summary */}
               <div className="grid grid-cols-2 gap-4">
@@ -346,9 +359,10 @@ export function BranchComparePanel() {
                   </h3>
                   <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 max-h-64 overflow-y-auto">
                     {branchComparison.files.map((file) => (
-                      <div
+                      <button
                         key={file.path}
-                        className="py-2 px-3 flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-800"
+                        onClick={() => fetchComparisonFileDiff(file.path)}
+                        className="w-full text-left py-2 px-3 flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-800"
                       >
                         <FileStatusBadge status={file.status} />
                         <span className="text-sm text-gray-800 dark:text-gray-200 flex-1 truncate font-mono">
@@ -370,7 +384,7 @@ export function BranchComparePanel() {
                             binary
                           </span>
                         )}
-                      </div>
+                      </button>
                     ))}
                   </div>
                 </div>
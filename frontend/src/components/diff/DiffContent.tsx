@@ -1,5 +1,8 @@
+import { useMemo } from "react";
 import { Highlight, themes } from "prism-react-renderer";
+import { useRepositoryStore } from "../../store/repositoryStore";
 import type { FileDiffDetail, DiffHunk } from "../../types";
+import { computeHunkWordDiff, splitByRanges } from "../../utils/wordDiff";
 
 interface DiffContentProps {
   diff: FileDiffDetail;
@@ -47,11 +50,17 @@ function getLanguage(path: string): string {
 function DiffHunkView({
   hunk,
   language,
+  wordDiff,
 }: {
   hunk: DiffHunk;
   language: string;
+  wordDiff: boolean;
 }) {
-  const lines = hunk.content.split("\n");
+  const lines = useMemo(() => hunk.content.split("\n"), [hunk.content]);
+  const changedRanges = useMemo(
+    () => (wordDiff ? computeHunkWordDiff(lines) : null),
+    [lines, wordDiff],
+  );
 
   return (
     <div className="border-b border-gray-200 last:border-b-0">
@@ -66,6 +75,8 @@ function DiffHunkView({
           const isAddition = line.startsWith("+");
           const isDeletion = line.startsWith("-");
           const lineContent = line.slice(1) || " ";
+          const ranges = changedRanges?.get(index);
+          const changedClass = isAddition ? "bg-green-200" : "bg-red-200";
 
           let bgClass = "";
           let textClass = "text-gray-700";
@@ -96,13 +107,38 @@ function DiffHunkView({
                 code={lineContent}
                 language={language}
               >
-                {({ tokens, getTokenProps }) => (
-                  <pre className={`flex-1 px-2 py-0.5 ${textClass}`}>
-                    {tokens[0]?.map((token, key) => (
-                      <span key={key} {...getTokenProps({ token })} />
-                    ))}
-                  </pre>
-                )}
+                {({ tokens, getTokenProps }) => {
+                  let offset = 0;
+                  return (
+                    <pre className={`flex-1 px-2 py-0.5 ${textClass}`}>
+                      {tokens[0]?.map((token, key) => {
+                        if (!ranges) {
+                          return (
+                            <span key={key} {...getTokenProps({ token })} />
+                          );
+                        }
+                        // Split syntax tokens at word diff boundaries
+                        const pieces = splitByRanges(
+                          token.content,
+                          offset,
+                          ranges,
+                        );
+                        offset += token.content.length;
+                        return pieces.map((piece, pieceKey) => (
+                          <span
+                            key={`${key}-${pieceKey}`}
+                            {...getTokenProps({
+                              token: { ...token, content: piece.text },
+                              className: piece.changed
+                                ? `${changedClass} rounded-sm`
+                                : undefined,
+                            })}
+                          />
+                        ));
+                      })}
+                    </pre>
+                  );
+                }}
               </Highlight>
             </div>
           );
@@ -113,6 +149,7 @@ function DiffHunkView({
 }
 
 export function DiffContent({ diff, onBack }: DiffContentProps) {
+  const { wordDiff, toggleWordDiff } = useRepositoryStore();
   const language = getLanguage(diff.path);
 
   return (
@@ -148,6 +185,17 @@ export function DiffContent({ diff, onBack }: DiffContentProps) {
             diff.path
           )}
         </span>
+        <button
+          onClick={toggleWordDiff}
+          title="Highlight changed words within lines"
+          className={`px-2 py-0.5 text-xs rounded border ${
+            wordDiff
+              ? "bg-blue-50 border-blue-300 text-blue-700"
+              : "border-gray-300 text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          Word diff
+        </button>
         <div className="text-xs text-gray-500">
           <span className="text-green-600">+{diff.additions}</span>
           <span className="mx-1">/</span>
@@ -169,7 +217,12 @@ export function DiffContent({ diff, onBack }: DiffContentProps) {
           </div>
         ) : (
           diff.hunks.map((hunk, index) => (
-            <DiffHunkView key={index} hunk={hunk} language={language} />
+            <DiffHunkView
+              key={index}
+              hunk={hunk}
+              language={language}
+              wordDiff={wordDiff}
+            />
           ))
         )}
       </div>
@@ -5,6 +5,7 @@ import { DiffContent } from "./DiffContent";
 
 export function DiffViewer() {
   const {
+    repository,
     selectedCommit,
     diffStats,
     selectedFileDiff,
@@ -94,6 +95,12 @@ export function DiffViewer() {
       {isLoadingDiff && (
         <div className="absolute inset-0 bg-white/80 dark:bg-gray-900/80 flex items-center justify-center">
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          {/* Partial clones download file contents on first view */}
+          {repository?.stats?.lazyFetch && (
+            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+              Fetching file contents from remote...
+            </span>
+          )}
         </div>
       )}
     </div>
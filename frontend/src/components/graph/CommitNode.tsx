@@ -1,6 +1,7 @@
 import { memo } from "react";
 import { Handle, Position } from "@xyflow/react";
 import type { CommitNodeData } from "../../utils/layoutEngine";
+import type { CheckState, PullRequest } from "../../types";
 
 function formatRelativeDate(dateString: string): string {
   const date = new Date(dateString);
@@ -16,27 +17,85 @@ function formatRelativeDate(dateString: string): string {
   return `${Math.floor(diffDays / 365)}y ago`;
 }
 
+const PR_STATE_STYLES: Record<PullRequest["state"], string> = {
+  open: "bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300",
+  merged:
+    "bg-violet-100 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300",
+  closed: "bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300",
+};
+
+// Pull request number, colored by state
+function PullRequestBadge({
+  pullRequest,
+  className,
+}: {
+  pullRequest: PullRequest;
+  className: string;
+}) {
+  return (
+    <a
+      href={pullRequest.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(event) => event.stopPropagation()}
+      className={`${className} rounded-full font-medium hover:underline ${PR_STATE_STYLES[pullRequest.state]}`}
+      title={`${pullRequest.title} (${pullRequest.state})`}
+    >
+      #{pullRequest.number}
+    </a>
+  );
+}
+
+const CHECK_STATE_STYLES: Record<CheckState, string> = {
+  success: "bg-green-500",
+  failure: "bg-red-500",
+  pending: "bg-amber-400 animate-pulse",
+  neutral: "bg-gray-400",
+};
+
+// Combined CI state of the commit
+function CheckStateDot({ state }: { state: CheckState }) {
+  return (
+    <span
+      className={`w-2 h-2 rounded-full flex-shrink-0 ${CHECK_STATE_STYLES[state]}`}
+      title={`CI checks: ${state}`}
+    />
+  );
+}
+
 interface CommitNodeProps {
   data: CommitNodeData;
   selected?: boolean;
 }
 
-// Custom comparison to prevent unnecessary re-renders
 // Custom comparison to prevent unnecessary re-renders
 function arePropsEqual(prev: CommitNodeProps, next: CommitNodeProps): boolean {
-  // Only re-render if these specific properties change
+  // Only re-render if these specific properties change. Commits are compared
+  // by reference: live updates replace a commit object when its refs move.
   return (
-    prev.data.commit.hash === next.data.commit.hash &&
+    prev.data.commit === next.data.commit &&
     prev.data.isCompact === next.data.isCompact &&
     prev.data.isHighlighted === next.data.isHighlighted &&
     prev.data.color === next.data.color &&
     prev.data.gradient === next.data.gradient &&
+    prev.data.isNew === next.data.isNew &&
+    prev.data.pullRequests === next.data.pullRequests &&
+    prev.data.checkState === next.data.checkState &&
     prev.selected === next.selected
   );
 }
 
 export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
-  const { commit, color, gradient, isCompact, isHighlighted } = data;
+  const {
+    commit,
+    color,
+    gradient,
+    isCompact,
+    isHighlighted,
+    isNew,
+    pullRequests = [],
+    checkState,
+  } = data;
 
   // Style for gradient border
   const nodeStyle = gradient
@@ -56,6 +115,7 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
           px-2 py-1.5 rounded-md border-2 bg-white dark:bg-gray-800 shadow-sm
           w-[200px] transition-all duration-200 cursor-pointer
           hover:shadow-md
+          ${isNew ? "animate-commit-enter" : ""}
           ${selected ? "ring-2 ring-blue-500 ring-offset-1 dark:ring-offset-gray-900" : ""}
           ${isHighlighted && !selected ? "ring-2 ring-amber-400 ring-offset-1 dark:ring-offset-gray-900 bg-amber-50 dark:bg-amber-900/30" : ""}
         `}
@@ -76,6 +136,7 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
           <code className="text-[10px] font-mono text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-1 rounded">
             {commit.shortHash}
           </code>
+          {checkState && <CheckStateDot state={checkState} />}
           {commit.refs.length > 0 && (
             <span
               className={`
@@ -89,6 +150,12 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
               {commit.refs[0].name}
             </span>
           )}
+          {pullRequests.length > 0 && (
+            <PullRequestBadge
+              pullRequest={pullRequests[0]}
+              className="text-[10px] px-1.5 py-0.5 ml-auto"
+            />
+          )}
         </div>
 
         <p
@@ -115,6 +182,7 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
         px-4 py-3 rounded-lg border-2 bg-white dark:bg-gray-800 shadow-md
         w-[280px] transition-all duration-200 cursor-pointer
         hover:shadow-lg
+        ${isNew ? "animate-commit-enter" : ""}
         ${selected ? "ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-gray-900" : ""}
         ${isHighlighted && !selected ? "ring-2 ring-amber-400 ring-offset-2 dark:ring-offset-gray-900 bg-amber-50 dark:bg-amber-900/30" : ""}
       `}
@@ -138,6 +206,7 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
             <code className="text-xs font-mono text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded">
               {commit.shortHash}
             </code>
+            {checkState && <CheckStateDot state={checkState} />}
             {commit.refs.slice(0, 3).map((ref) => (
               <span
                 key={ref.name}
@@ -158,6 +227,13 @@ export const CommitNode = memo(({ data, selected }: CommitNodeProps) => {
                 +{commit.refs.length - 3}
               </span>
             )}
+            {pullRequests.slice(0, 2).map((pr) => (
+              <PullRequestBadge
+                key={pr.number}
+                pullRequest={pr}
+                className="text-xs px-2 py-0.5"
+              />
+            ))}
           </div>
 
           <p
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ReactFlow,
   Controls,
@@ -18,13 +18,23 @@ import { CommitNode } from "./CommitNode";
 import { SubmoduleNode } from "./SubmoduleNode";
 import { GraphToolbar } from "./GraphToolbar";
 import { UploadZone } from "../inputs/UploadZone";
-import { useRepositoryStore } from "../../store/repositoryStore";
+import {
+  useRepositoryStore,
+  needsServerSearch,
+} from "../../store/repositoryStore";
 import {
   layoutCommitGraph,
   layoutSubmoduleNodes,
 } from "../../utils/layoutEngine";
 import { Legend } from "./Legend";
 
+// Wait for panning and zooming to pause before asking the forge
+const OVERLAY_LOOKUP_DELAY_MS = 500;
+
+// Commits the failing-commits filter checks at a time, newest first; every
+// check costs forge API budget, so more are only looked up on request
+const FAILING_CHECK_BATCH = 500;
+
 const nodeTypes = {
   commit: CommitNode,
   submodule: SubmoduleNode,
@@ -35,9 +45,14 @@ export function GraphCanvas() {
     repository,
     selectedCommit,
     setSelectedCommit,
+    setDiffRange,
     searchQuery,
+    searchMode,
+    searchResults,
+    loadMode,
     graphSettings,
     highlightedCommits,
+    newCommitHashes,
     submodules,
     selectedSubmodule,
     setSelectedSubmodule,
@@ -45,6 +60,13 @@ export function GraphCanvas() {
     darkMode,
     isLoading,
     loadingMessage,
+    forgeRepoInfo,
+    fetchForgeRepoInfo,
+    commitPullRequests,
+    fetchGraphPullRequests,
+    commitCheckStates,
+    checkOverlayError,
+    fetchGraphCheckStates,
   } = useRepositoryStore();
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
@@ -53,18 +75,24 @@ export function GraphCanvas() {
   const prevFilteredCommitsRef = useRef<typeof filteredCommits>([]);
 
   // Filter commits based on search and merge commit settings
-  const filteredCommits = useMemo(() => {
+  const matchingCommits = useMemo(() => {
     if (!repository?.commits) return [];
 
-    let commits = repository.commits;
+    const serverSearch = needsServerSearch(repository, loadMode, searchMode);
+
+    // Backend search results cover the whole history, not just loaded commits
+    let commits =
+      serverSearch && searchQuery.trim() && searchResults
+        ? searchResults
+        : repository.commits;
 
     // Filter out merge commits if setting is enabled
     if (graphSettings.hideMergeCommits) {
       commits = commits.filter((commit) => commit.parents.length <= 1);
     }
 
-    // Apply search filter
-    if (searchQuery.trim()) {
+    // Apply client-side search filter
+    if (!serverSearch && searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       commits = commits.filter(
         (commit) =>
@@ -77,7 +105,25 @@ export function GraphCanvas() {
     }
 
     return commits;
-  }, [repository?.commits, searchQuery, graphSettings.hideMergeCommits]);
+  }, [
+    repository,
+    loadMode,
+    searchMode,
+    searchResults,
+    searchQuery,
+    graphSettings.hideMergeCommits,
+  ]);
+
+  // Narrow down to failing commits once their CI states are known
+  const filteredCommits = useMemo(
+    () =>
+      graphSettings.onlyFailingCommits
+        ? matchingCommits.filter(
+            (commit) => commitCheckStates.get(commit.hash) === "failure",
+          )
+        : matchingCommits,
+    [matchingCommits, graphSettings.onlyFailingCommits, commitCheckStates],
+  );
 
   // Memoize layout calculation - only recalculate when commits or layout-affecting settings change
   // CRITICAL: Do NOT include selectedCommit or highlightedCommits here to avoid expensive re-layouts
@@ -163,6 +209,9 @@ export function GraphCanvas() {
         data: {
           ...node.data,
           isHighlighted: highlightedCommits.has(node.id),
+          isNew: newCommitHashes.has(node.id),
+          pullRequests: commitPullRequests.get(node.id),
+          checkState: commitCheckStates.get(node.id),
         },
       }));
 
@@ -204,6 +253,9 @@ export function GraphCanvas() {
     submoduleNodes,
     selectedCommit,
     highlightedCommits,
+    newCommitHashes,
+    commitPullRequests,
+    commitCheckStates,
     filteredCommits,
     setNodes,
     setEdges,
@@ -213,6 +265,68 @@ export function GraphCanvas() {
     zoom, // Re-run when viewport changes
   ]);
 
+  // The overlays need to know the forge, even before the forge tab has been
+  // opened
+  const repositoryId = repository?.id;
+  useEffect(() => {
+    if (repositoryId && !forgeRepoInfo) fetchForgeRepoInfo();
+  }, [repositoryId, forgeRepoInfo, fetchForgeRepoInfo]);
+
+  // Look up pull requests and CI states for the rendered commits once
+  // panning settles
+  useEffect(() => {
+    if (!forgeRepoInfo?.pullRequestOverlay && !forgeRepoInfo?.checkOverlay) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      const hashes = nodes
+        .filter((node) => node.type === "commit")
+        .map((node) => node.id);
+      if (hashes.length === 0) return;
+      fetchGraphPullRequests(hashes);
+      fetchGraphCheckStates(hashes);
+    }, OVERLAY_LOOKUP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    nodes,
+    forgeRepoInfo?.pullRequestOverlay,
+    forgeRepoInfo?.checkOverlay,
+    fetchGraphPullRequests,
+    fetchGraphCheckStates,
+  ]);
+
+  // The failing-commits filter checks the newest matching commits, not just
+  // the rendered ones, a batch at a time
+  const [failingCheckLimit, setFailingCheckLimit] =
+    useState(FAILING_CHECK_BATCH);
+  useEffect(() => {
+    setFailingCheckLimit(FAILING_CHECK_BATCH);
+  }, [graphSettings.onlyFailingCommits, repositoryId]);
+
+  const failingCheckWindow = useMemo(
+    () =>
+      graphSettings.onlyFailingCommits
+        ? matchingCommits.slice(0, failingCheckLimit)
+        : [],
+    [matchingCommits, graphSettings.onlyFailingCommits, failingCheckLimit],
+  );
+
+  useEffect(() => {
+    if (failingCheckWindow.length === 0 || !forgeRepoInfo?.checkOverlay) {
+      return;
+    }
+    fetchGraphCheckStates(failingCheckWindow.map((commit) => commit.hash));
+  }, [failingCheckWindow, forgeRepoInfo?.checkOverlay, fetchGraphCheckStates]);
+
+  // How far the failing-commits filter has got
+  const checkedCount = useMemo(
+    () =>
+      failingCheckWindow.filter((commit) => commitCheckStates.has(commit.hash))
+        .length,
+    [failingCheckWindow, commitCheckStates],
+  );
+  const uncheckedCount = matchingCommits.length - failingCheckWindow.length;
+
   // Zoom to selected commit when it changes
   useEffect(() => {
     if (
@@ -264,7 +378,7 @@ export function GraphCanvas() {
 
   // Handle node click
   const onNodeClick = useCallback(
-    (_event: React.MouseEvent, node: Node) => {
+    (event: React.MouseEvent, node: Node) => {
       // Check if it's a submodule node
       if (node.type === "submodule") {
         const submodule = submodules?.find((s) => s.path === node.id);
@@ -282,16 +396,26 @@ export function GraphCanvas() {
         return;
       }
 
-      // Handle commit node click
-      const commit = repository?.commits.find((c) => c.hash === node.id);
-      if (commit) {
-        setSelectedCommit(selectedCommit?.hash === commit.hash ? null : commit);
+      // Handle commit node click (search results may not be in repository.commits)
+      const commit = filteredCommits.find((c) => c.hash === node.id);
+      if (!commit) return;
+
+      // Shift-click a second commit to diff the range between the two
+      if (
+        event.shiftKey &&
+        selectedCommit &&
+        selectedCommit.hash !== commit.hash
+      ) {
+        setDiffRange(selectedCommit, commit);
+        return;
       }
+      setSelectedCommit(selectedCommit?.hash === commit.hash ? null : commit);
     },
     [
-      repository?.commits,
+      filteredCommits,
       selectedCommit,
       setSelectedCommit,
+      setDiffRange,
       submodules,
       selectedSubmodule,
       setSelectedSubmodule,
@@ -452,11 +576,7 @@ export function GraphCanvas() {
   });
 
   // Check if repository has commits but can't render
-  if (
-    !isLoading &&
-    repository.commits.length > 0 &&
-    layoutedNodes.length === 0
-  ) {
+  if (!isLoading && filteredCommits.length > 0 && layoutedNodes.length === 0) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
         <div className="max-w-md text-center px-6">
@@ -491,6 +611,37 @@ export function GraphCanvas() {
   return (
     <div className="w-full h-full relative">
       <GraphToolbar />
+      {graphSettings.onlyFailingCommits && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 px-3 py-1.5 rounded-lg shadow-md text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300">
+          {checkOverlayError ? (
+            `CI checks unavailable: ${checkOverlayError}`
+          ) : (
+            <>
+              {`${filteredCommits.length} failing of ${checkedCount.toLocaleString()}/${failingCheckWindow.length.toLocaleString()} newest commits checked`}
+              {uncheckedCount > 0 && (
+                <>
+                  {`, ${uncheckedCount.toLocaleString()} older not checked `}
+                  <button
+                    onClick={() =>
+                      setFailingCheckLimit(
+                        (limit) => limit + FAILING_CHECK_BATCH,
+                      )
+                    }
+                    className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Check{" "}
+                    {Math.min(
+                      uncheckedCount,
+                      FAILING_CHECK_BATCH,
+                    ).toLocaleString()}{" "}
+                    more
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
       <ReactFlow
         nodes={nodes}
         edges={edges}
@@ -6,8 +6,14 @@ export function GraphToolbar() {
     toggleCompactMode,
     toggleHideMergeCommits,
     toggleColorByAuthor,
+    toggleOnlyFailingCommits,
+    forgeRepoInfo,
   } = useRepositoryStore();
 
+  // Filtering needs every commit's CI state, which only batch lookups give
+  const canFilterFailing =
+    !!forgeRepoInfo?.checkOverlay || graphSettings.onlyFailingCommits;
+
   return (
     <div className="absolute top-4 left-4 z-10 flex items-center gap-2 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-1.5">
       {/* Compact Mode Toggle */}
@@ -134,6 +140,47 @@ export function GraphToolbar() {
           {graphSettings.colorByAuthor ? "Show Branches" : "Show Authors"}
         </span>
       </button>
+
+      <div className="w-px h-5 bg-gray-200 dark:bg-gray-600" />
+
+      {/* Only Failing Commits Toggle */}
+      <button
+        onClick={toggleOnlyFailingCommits}
+        disabled={!canFilterFailing}
+        className={`
+          flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium transition-colors
+          disabled:opacity-50 disabled:cursor-not-allowed
+          ${
+            graphSettings.onlyFailingCommits
+              ? "bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300"
+              : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          }
+        `}
+        title={
+          graphSettings.onlyFailingCommits
+            ? "Show all commits"
+            : canFilterFailing
+              ? "Show only commits whose CI checks failed"
+              : "Needs CI checks from GitHub and a token"
+        }
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+        <span>
+          {graphSettings.onlyFailingCommits ? "Failing Only" : "Filter Failing"}
+        </span>
+      </button>
     </div>
   );
 }
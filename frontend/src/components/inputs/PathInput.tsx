@@ -3,9 +3,45 @@ import { useNavigate } from "react-router-dom";
 import { useRepositoryStore } from "../../store/repositoryStore";
 import { isGitUrl } from "../../api/gitApi";
 import { repoUrlToPath } from "../../hooks/useRepoUrl";
+import type { CloneStrategy } from "../../types";
+
+const CLONE_STRATEGIES: {
+  value: CloneStrategy;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "full",
+    label: "Full clone",
+    hint: "Everything, including every version of every file",
+  },
+  {
+    value: "blobless",
+    label: "Blobless",
+    hint: "All commits and trees; file contents are fetched when you open them",
+  },
+  {
+    value: "treeless",
+    label: "Treeless",
+    hint: "Commits only; trees and file contents are fetched when needed",
+  },
+  {
+    value: "shallow",
+    label: "Shallow since date",
+    hint: "Only history after the chosen date",
+  },
+  {
+    value: "single-branch",
+    label: "Single branch",
+    hint: "Only the history of one branch (the default branch if left empty)",
+  },
+];
 
 export function PathInput() {
   const [input, setInput] = useState("");
+  const [strategy, setStrategy] = useState<CloneStrategy>("full");
+  const [shallowSince, setShallowSince] = useState("");
+  const [branch, setBranch] = useState("");
   const { loadRepo, cloneRepo, isLoading, error, repository } =
     useRepositoryStore();
   const navigate = useNavigate();
@@ -23,6 +59,9 @@ export function PathInput() {
     return isGitUrl(trimmed) ? "url" : "path";
   }, [input]);
 
+  const missingShallowDate =
+    inputType === "url" && strategy === "shallow" && !shallowSince;
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     const trimmed = input.trim();
@@ -33,7 +72,16 @@ export function PathInput() {
       const urlPath = repoUrlToPath(trimmed);
       navigate(urlPath, { replace: true });
 
-      await cloneRepo(trimmed);
+      await cloneRepo(trimmed, {
+        strategy: {
+          strategy,
+          shallowSince: strategy === "shallow" ? shallowSince : undefined,
+          branch:
+            strategy === "single-branch"
+              ? branch.trim() || undefined
+              : undefined,
+        },
+      });
     } else {
       await loadRepo(trimmed);
     }
@@ -86,11 +134,11 @@ export function PathInput() {
         </div>
         <button
           type="submit"
-          disabled={isLoading || !input.trim()}
+          disabled={isLoading || !input.trim() || missingShallowDate}
           className={`
             px-6 py-2 rounded-lg font-medium transition-colors
             ${
-              isLoading || !input.trim()
+              isLoading || !input.trim() || missingShallowDate
                 ? "bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed"
                 : inputType === "url"
                   ? "bg-purple-600 text-white hover:bg-purple-700"
@@ -128,6 +176,53 @@ export function PathInput() {
           )}
         </button>
       </form>
+
+      {/* Clone strategy, for remotes too big to clone in full */}
+      {inputType === "url" && !repository && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label
+            htmlFor="clone-strategy"
+            className="text-gray-600 dark:text-gray-400"
+          >
+            Clone:
+          </label>
+          <select
+            id="clone-strategy"
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as CloneStrategy)}
+            disabled={isLoading}
+            className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            {CLONE_STRATEGIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {strategy === "shallow" && (
+            <input
+              type="date"
+              value={shallowSince}
+              onChange={(e) => setShallowSince(e.target.value)}
+              disabled={isLoading}
+              className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          )}
+          {strategy === "single-branch" && (
+            <input
+              type="text"
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+              placeholder="Branch (default)"
+              disabled={isLoading}
+              className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
+            />
+          )}
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {CLONE_STRATEGIES.find((option) => option.value === strategy)?.hint}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
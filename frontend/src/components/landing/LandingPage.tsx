@@ -3,6 +3,9 @@
 // Commercial use requires a paid license.
 
 import { useState, useEffect } from "react";
+import { getAllowedRoots } from "../../api/gitApi";
+import { useRepositoryStore } from "../../store/repositoryStore";
+import { RepositoryPicker } from "./RepositoryPicker";
 
 interface LandingPageProps {
   onGetStarted: () => void;
@@ -14,11 +17,25 @@ interface LandingPageProps {
  */
 export function LandingPage({ onGetStarted }: LandingPageProps) {
   const [isVisible, setIsVisible] = useState(false);
+  const [allowedRoots, setAllowedRoots] = useState<string[] | null>(null);
+  const loadRepo = useRepositoryStore((state) => state.loadRepo);
 
   useEffect(() => {
     setIsVisible(true);
   }, []);
 
+  // Show where local repositories can be opened from
+  useEffect(() => {
+    getAllowedRoots()
+      .then(setAllowedRoots)
+      .catch(() => setAllowedRoots(null));
+  }, []);
+
+  const handleOpenRepository = (path: string) => {
+    onGetStarted();
+    loadRepo(path);
+  };
+
   const features = [
     {
       icon: (
@@ -204,6 +221,38 @@ export function LandingPage({ onGetStarted }: LandingPageProps) {
               </a>
             </div>
 
+            {/* Allowed roots for local repositories */}
+            {allowedRoots && (
+              <div className="mt-10 glass-card rounded-2xl p-5 max-w-2xl mx-auto text-left">
+                <div className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                  Local repositories can be opened from
+                </div>
+                {allowedRoots.length > 0 ? (
+                  <ul className="space-y-1">
+                    {allowedRoots.map((root) => (
+                      <li key={root}>
+                        <code className="text-sm font-mono text-primary-700 dark:text-primary-300 bg-white/60 dark:bg-black/30 px-2 py-0.5 rounded">
+                          {root}
+                        </code>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    No local directories are allowed on this server; clone a URL
+                    or upload a repository instead.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Repositories found under the allowed roots */}
+            {allowedRoots && allowedRoots.length > 0 && (
+              <div className="mt-4">
+                <RepositoryPicker onOpen={handleOpenRepository} />
+              </div>
+            )}
+
             {/* Stats */}
             <div className="mt-16 grid grid-cols-3 gap-8 max-w-2xl mx-auto">
               <div className="glass-card rounded-2xl p-6 hover:scale-105 hover:shadow-glow transition-all duration-300">
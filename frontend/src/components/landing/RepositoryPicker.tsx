@@ -0,0 +1,155 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { discoverRepositories } from "../../api/gitApi";
+import type { DiscoveredRepository } from "../../types";
+
+interface RepositoryPickerProps {
+  onOpen: (path: string) => void;
+}
+
+const KIND_LABELS: Record<DiscoveredRepository["kind"], string | null> = {
+  repository: null,
+  bare: "bare",
+  submodule: "submodule",
+  worktree: "worktree",
+};
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Searchable list of the repositories the server found under its allowed
+ * roots, so local repositories can be opened without typing their path.
+ */
+export function RepositoryPicker({ onOpen }: RepositoryPickerProps) {
+  const [repositories, setRepositories] = useState<
+    DiscoveredRepository[] | null
+  >(null);
+  const [truncated, setTruncated] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+
+  const scan = useCallback(async (refresh: boolean) => {
+    setIsScanning(true);
+    setError(null);
+    try {
+      const result = await discoverRepositories({ refresh });
+      setRepositories(result.repositories);
+      setTruncated(result.truncated);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsScanning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    scan(false);
+  }, [scan]);
+
+  const filtered = useMemo(() => {
+    if (!repositories) return [];
+    const q = query.trim().toLowerCase();
+    if (!q) return repositories;
+    return repositories.filter(
+      (repo) =>
+        repo.name.toLowerCase().includes(q) ||
+        repo.path.toLowerCase().includes(q) ||
+        repo.currentBranch.toLowerCase().includes(q),
+    );
+  }, [repositories, query]);
+
+  return (
+    <div className="glass-card rounded-2xl p-5 max-w-2xl mx-auto text-left">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Repositories on this server
+          {repositories && (
+            <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+              ({repositories.length})
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => scan(true)}
+          disabled={isScanning}
+          className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          {isScanning ? "Scanning..." : "Rescan"}
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Filter by name, path or branch"
+        className="w-full px-3 py-2 mb-3 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>
+      )}
+
+      {!repositories && isScanning && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Looking for repositories...
+        </p>
+      )}
+
+      {repositories && filtered.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {repositories.length === 0
+            ? "No repositories found under the allowed roots."
+            : "No repositories match your filter."}
+        </p>
+      )}
+
+      {filtered.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {filtered.map((repo) => (
+            <li key={repo.path}>
+              <button
+                onClick={() => onOpen(repo.path)}
+                className="w-full text-left px-2 py-2 rounded-md hover:bg-white/60 dark:hover:bg-white/5 transition-colors"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white truncate">
+                    {repo.name}
+                  </span>
+                  {KIND_LABELS[repo.kind] && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      {KIND_LABELS[repo.kind]}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 truncate max-w-[140px]">
+                    {repo.currentBranch}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                  <code className="font-mono truncate">{repo.path}</code>
+                  <span className="ml-auto flex-shrink-0">
+                    {repo.commitCount.toLocaleString()} commits
+                    {repo.lastCommitDate &&
+                      ` · ${formatDate(repo.lastCommitDate)}`}
+                  </span>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {truncated && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+          The scan stopped early; some repositories may be missing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,54 @@
-import { useRepositoryStore } from "../../store/repositoryStore";
+import { useEffect } from "react";
+import {
+  useRepositoryStore,
+  needsServerSearch,
+} from "../../store/repositoryStore";
+import type { SearchMode } from "../../types";
 import { getBranchColor } from "../../utils/branchColors";
 import { SubmoduleList } from "./SubmoduleList";
 import { DateRangeFilter } from "../filters/DateRangeFilter";
 import { AuthorFilter } from "../filters/AuthorFilter";
 
+const SEARCH_MODES: {
+  value: SearchMode;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    value: "message",
+    label: "Message",
+    placeholder: "Search commits...",
+  },
+  {
+    value: "code",
+    label: "Code (-S)",
+    placeholder: "Code string added or removed...",
+  },
+  {
+    value: "code-regex",
+    label: "Code regex (-G)",
+    placeholder: "Regex matching changed lines...",
+  },
+  { value: "path", label: "Path", placeholder: "File or directory path..." },
+  {
+    value: "committer",
+    label: "Committer",
+    placeholder: "Committer name or email...",
+  },
+];
+
 export function BranchList() {
   const {
     repository,
     searchQuery,
     setSearchQuery,
+    searchMode,
+    setSearchMode,
+    searchCommits,
+    searchTotal,
+    searchResults,
+    isSearching,
+    searchError,
     loadMoreCommits,
     isLoading,
     loadMode,
@@ -19,10 +59,24 @@ export function BranchList() {
     setSelectedTagFilter,
   } = useRepositoryStore();
 
+  const serverSearch = needsServerSearch(repository, loadMode, searchMode);
+
+  // Debounce backend searches while the user is typing
+  useEffect(() => {
+    if (!serverSearch || !searchQuery.trim()) return;
+    const timer = setTimeout(() => {
+      searchCommits();
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [serverSearch, searchQuery, searchMode, searchCommits]);
+
   if (!repository) {
     return null;
   }
 
+  const activeSearchMode =
+    SEARCH_MODES.find((m) => m.value === searchMode) || SEARCH_MODES[0];
+
   const localBranches = repository.branches.filter((b) => !b.isRemote);
   const remoteBranches = repository.branches.filter((b) => b.isRemote);
 
@@ -53,7 +107,7 @@ export function BranchList() {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search commits..."
+            placeholder={activeSearchMode.placeholder}
             className="w-full pl-10 pr-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
           />
           {searchQuery && (
@@ -77,6 +131,39 @@ export function BranchList() {
             </button>
           )}
         </div>
+        <div className="flex items-center gap-2 mt-2">
+          <select
+            value={searchMode}
+            onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            title="Search mode"
+          >
+            {SEARCH_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+          {serverSearch && (
+            <span
+              className="px-1.5 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded text-[10px] uppercase"
+              title="Searching the full history on the server"
+            >
+              Full history
+            </span>
+          )}
+        </div>
+        {serverSearch && searchQuery.trim() && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {isSearching ? (
+              "Searching..."
+            ) : searchError ? (
+              <span className="text-red-500">{searchError}</span>
+            ) : searchResults ? (
+              `${searchTotal.toLocaleString()} matching commit${searchTotal === 1 ? "" : "s"}${searchTotal > searchResults.length ? ` (showing ${searchResults.length.toLocaleString()})` : ""}`
+            ) : null}
+          </p>
+        )}
       </div>
 
       {/* Date Range Filter */}
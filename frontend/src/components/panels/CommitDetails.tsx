@@ -2,7 +2,7 @@ import { useRepositoryStore } from "../../store/repositoryStore";
 import { Tabs } from "../ui/Tabs";
 import { DiffViewer } from "../diff/DiffViewer";
 import { FileTreePanel } from "../tree/FileTreePanel";
-import { GitHubInfo } from "./GitHubInfo";
+import { ForgeInfo } from "./ForgeInfo";
 
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleString("en-US", {
@@ -147,28 +147,84 @@ function CommitDetailsContent() {
   );
 }
 
+function RangeDiffDetails() {
+  const { diffRange, clearDiffRange } = useRepositoryStore();
+
+  if (!diffRange) return null;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+          <span className="font-mono text-sm">{diffRange.from.shortHash}</span>
+          <span className="text-gray-400 dark:text-gray-500 mx-1">..</span>
+          <span className="font-mono text-sm">{diffRange.to.shortHash}</span>
+          <span className="text-gray-400 dark:text-gray-500 mx-2">·</span>
+          <span className="text-sm font-normal text-gray-600 dark:text-gray-400">
+            Combined changes
+          </span>
+        </h3>
+        <button
+          onClick={clearDiffRange}
+          title="Back to single commit"
+          className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1 ml-2 flex-shrink-0"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-hidden">
+        <DiffViewer />
+      </div>
+    </div>
+  );
+}
+
 export function CommitDetails() {
   const {
     selectedCommit,
     setSelectedCommit,
+    diffRange,
     activeTab,
     setActiveTab,
     diffStats,
+    forgeRepoInfo,
   } = useRepositoryStore();
 
   if (!selectedCommit) {
     return (
       <div className="h-full flex items-center justify-center text-gray-400 dark:text-gray-500 p-4">
-        <p className="text-center text-sm">Click on a commit to see details</p>
+        <p className="text-center text-sm">
+          Click on a commit to see details
+          <br />
+          Shift-click a second commit to compare the two
+        </p>
       </div>
     );
   }
 
+  if (diffRange) {
+    return <RangeDiffDetails />;
+  }
+
   const tabs = [
     { id: "details", label: "Details" },
     { id: "changes", label: "Changes", badge: diffStats?.files.length },
     { id: "files", label: "Files" },
-    { id: "github", label: "GitHub" },
+    { id: "forge", label: forgeRepoInfo?.label ?? "Forge" },
   ];
 
   return (
@@ -214,7 +270,7 @@ export function CommitDetails() {
         {activeTab === "details" && <CommitDetailsContent />}
         {activeTab === "changes" && <DiffViewer />}
         {activeTab === "files" && <FileTreePanel />}
-        {activeTab === "github" && <GitHubInfo />}
+        {activeTab === "forge" && <ForgeInfo />}
       </div>
     </div>
   );
@@ -1,11 +1,118 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useRepositoryStore } from "../../store/repositoryStore";
-import { GitHubTokenModal } from "../settings/GitHubTokenModal";
+import { ForgeTokenModal } from "../settings/ForgeTokenModal";
 import {
-  streamCommitGitHubInfo,
-  type GitHubProgressEvent,
-} from "../../api/githubApi";
-import type { CommitGitHubInfo } from "../../types";
+  getCommitChecks,
+  streamCommitForgeInfo,
+  type ForgeProgressEvent,
+} from "../../api/forgeApi";
+import type {
+  CheckState,
+  CommitChecks,
+  CommitForgeInfo,
+  ForgeRepoMetadata,
+  ForgeType,
+} from "../../types";
+
+// How each forge names things
+const FORGE_TERMS: Record<
+  ForgeType,
+  {
+    pullRequests: string;
+    prPrefix: string; // GitLab writes !12 for merge requests, #12 for issues
+    noPullRequests: string;
+    tokenHint: string;
+  }
+> = {
+  github: {
+    pullRequests: "Pull Requests",
+    prPrefix: "#",
+    noPullRequests: "No PRs found for this commit",
+    tokenHint: "Add a GitHub token for 5000 requests/hour instead of 60.",
+  },
+  gitlab: {
+    pullRequests: "Merge Requests",
+    prPrefix: "!",
+    noPullRequests: "No merge requests found for this commit",
+    tokenHint:
+      "Add a GitLab token to see private projects and get a higher rate limit.",
+  },
+  gitea: {
+    pullRequests: "Pull Requests",
+    prPrefix: "#",
+    noPullRequests: "No pull request merged this commit",
+    tokenHint: "Add a Gitea or Forgejo token to see private repositories.",
+  },
+  bitbucket: {
+    pullRequests: "Pull Requests",
+    prPrefix: "#",
+    noPullRequests: "No PRs found for this commit",
+    tokenHint:
+      "Add a Bitbucket access token or app password to see private repositories.",
+  },
+};
+
+// Logos for forges that have one here; the rest get the generic icon
+const FORGE_ICON_PATHS: Partial<Record<ForgeType, string>> = {
+  github:
+    "M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z",
+  gitlab:
+    "m23.6 9.593-.033-.086L20.3.98a.851.851 0 0 0-.336-.405.875.875 0 0 0-1 .054.875.875 0 0 0-.29.44l-2.205 6.748H7.538L5.332 1.07a.857.857 0 0 0-.29-.441.875.875 0 0 0-1-.054.859.859 0 0 0-.336.405L.433 9.502l-.032.086a6.066 6.066 0 0 0 2.012 7.01l.011.009.03.021 4.976 3.727 2.462 1.863 1.5 1.132a1.008 1.008 0 0 0 1.22 0l1.499-1.132 2.462-1.863 5.006-3.749.012-.01a6.068 6.068 0 0 0 2.01-7.003z",
+  bitbucket:
+    "M.778 1.213a.768.768 0 00-.768.892l3.263 19.81c.084.5.515.868 1.022.873H19.95a.772.772 0 00.77-.646l3.27-20.03a.768.768 0 00-.768-.891zM14.52 15.53H9.522L8.17 8.466h7.561z",
+};
+
+// The forge's logo, or a generic remote icon
+function ForgeIcon({
+  forge,
+  className,
+}: {
+  forge: ForgeType | null;
+  className: string;
+}) {
+  const path = forge && FORGE_ICON_PATHS[forge];
+  if (!path) {
+    return (
+      <svg
+        className={className}
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9"
+        />
+      </svg>
+    );
+  }
+
+  return (
+    <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+      <path fillRule="evenodd" d={path} clipRule="evenodd" />
+    </svg>
+  );
+}
+
+function RepoMetadata({ metadata }: { metadata: ForgeRepoMetadata }) {
+  const facts = [
+    metadata.visibility,
+    metadata.defaultBranch && `default: ${metadata.defaultBranch}`,
+    metadata.stars !== null && `★ ${metadata.stars.toLocaleString()}`,
+    metadata.forks !== null && `${metadata.forks.toLocaleString()} forks`,
+  ].filter(Boolean);
+
+  return (
+    <div className="text-xs text-gray-500 space-y-1">
+      {metadata.description && (
+        <p className="text-gray-600">{metadata.description}</p>
+      )}
+      <p>{facts.join(" · ")}</p>
+    </div>
+  );
+}
 
 // Progress step type
 interface ProgressStep {
@@ -42,12 +149,114 @@ function IssueStatusBadge({ state }: { state: "open" | "closed" }) {
   );
 }
 
+const CHECK_STATE_STYLES: Record<CheckState, string> = {
+  success: "bg-green-100 text-green-700",
+  failure: "bg-red-100 text-red-700",
+  pending: "bg-amber-100 text-amber-700",
+  neutral: "bg-gray-100 text-gray-700",
+};
+
+// e.g. 45s, 2m 5s, 1h 3m
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// CI statuses and check runs of a commit, failures first
+function CommitChecksSection({
+  repoId,
+  commitHash,
+}: {
+  repoId: string;
+  commitHash: string;
+}) {
+  const [checks, setChecks] = useState<CommitChecks | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChecks(null);
+    setError(null);
+    getCommitChecks(repoId, commitHash)
+      .then((result) => !cancelled && setChecks(result))
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [repoId, commitHash]);
+
+  const order: CheckState[] = ["failure", "pending", "neutral", "success"];
+  const sorted = checks
+    ? [...checks.checks].sort(
+        (a, b) => order.indexOf(a.state) - order.indexOf(b.state),
+      )
+    : [];
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+        CI Checks{checks && ` (${checks.checks.length})`}
+      </label>
+      {error ? (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      ) : !checks ? (
+        <p className="mt-2 text-sm text-gray-400">Loading checks...</p>
+      ) : sorted.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-400">
+          No checks ran on this commit
+        </p>
+      ) : (
+        <div className="mt-2 space-y-1">
+          {sorted.map((check, index) => (
+            <a
+              key={`${check.kind}-${check.name}-${index}`}
+              href={check.url ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-3 py-2 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <p
+                  className="text-sm text-gray-900 truncate"
+                  title={check.name}
+                >
+                  {check.name}
+                </p>
+                {(check.workflow || check.durationSeconds !== null) && (
+                  <p className="text-xs text-gray-500 truncate">
+                    {[
+                      check.workflow,
+                      check.durationSeconds !== null &&
+                        formatDuration(check.durationSeconds),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+              </div>
+              <span
+                className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${CHECK_STATE_STYLES[check.state]}`}
+              >
+                {(check.conclusion ?? check.state).replace(/_/g, " ")}
+              </span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ProgressIndicator({
   steps,
   isComplete,
+  label,
 }: {
   steps: ProgressStep[];
   isComplete: boolean;
+  label: string;
 }) {
   const getStatusIcon = (status: ProgressStep["status"]) => {
     switch (status) {
@@ -137,7 +346,7 @@ function ProgressIndicator({
       {/* Progress bar */}
       <div className="space-y-1">
         <div className="flex items-center justify-between text-xs text-gray-500">
-          <span>Loading GitHub info...</span>
+          <span>Loading {label} info...</span>
           <span>{progressPercent}%</span>
         </div>
         <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
@@ -170,35 +379,38 @@ function ProgressIndicator({
   );
 }
 
-export function GitHubInfo() {
+export function ForgeInfo() {
   const {
     selectedCommit,
-    githubRepoInfo,
-    githubToken,
-    githubError: repoError,
-    fetchGitHubRepoInfo,
+    forgeRepoInfo,
+    forgeError: repoError,
+    fetchForgeRepoInfo,
     repository,
+    pullRequestOverlayError,
+    checkOverlayError,
   } = useRepositoryStore();
 
   const [showTokenModal, setShowTokenModal] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([]);
-  const [githubInfo, setGitHubInfo] = useState<CommitGitHubInfo | null>(null);
+  const [forgeInfo, setForgeInfo] = useState<CommitForgeInfo | null>(null);
   const [isComplete, setIsComplete] = useState(false);
 
   const abortRef = useRef<(() => void) | null>(null);
   const prevCommitRef = useRef<string | null>(null);
 
-  // Fetch GitHub repo info when component mounts
+  // Fetch forge repo info when component mounts
   useEffect(() => {
-    if (!githubRepoInfo) {
-      fetchGitHubRepoInfo();
+    if (!forgeRepoInfo) {
+      fetchForgeRepoInfo();
     }
-  }, [githubRepoInfo, fetchGitHubRepoInfo]);
+  }, [forgeRepoInfo, fetchForgeRepoInfo]);
+
+  const label = forgeRepoInfo?.label ?? "Forge";
 
   // Handle progress events
-  const handleProgress = useCallback((event: GitHubProgressEvent) => {
+  const handleProgress = useCallback((event: ForgeProgressEvent) => {
     setProgressSteps((prev) => {
       // Find existing step with same id or add new one
       const existingIndex = prev.findIndex((s) => s.id === event.step);
@@ -222,14 +434,14 @@ export function GitHubInfo() {
   }, []);
 
   // Handle completion
-  const handleComplete = useCallback((data: CommitGitHubInfo) => {
-    setGitHubInfo(data);
+  const handleComplete = useCallback((data: CommitForgeInfo) => {
+    setForgeInfo(data);
     setIsLoading(false);
     setIsComplete(true);
 
     // Log to console for debugging
     console.log(
-      "%c[GitHub] %cLoading complete",
+      "%c[Forge] %cLoading complete",
       "color: #6366f1; font-weight: bold",
       "color: #22c55e",
       {
@@ -240,20 +452,21 @@ export function GitHubInfo() {
   }, []);
 
   // Handle error
-  const handleError = useCallback((errorMsg: string) => {
+  const handleError = useCallback((err: Error) => {
+    const errorMsg = err.message;
     setError(errorMsg);
     setIsLoading(false);
 
     // Log to console for debugging
     console.log(
-      "%c[GitHub] %cError: %c" + errorMsg,
+      "%c[Forge] %cError: %c" + errorMsg,
       "color: #6366f1; font-weight: bold",
       "color: #ef4444",
       "color: #ef4444",
     );
   }, []);
 
-  // Fetch GitHub info for selected commit using streaming
+  // Fetch forge info for selected commit using streaming
   useEffect(() => {
     // Cleanup previous request
     if (abortRef.current) {
@@ -263,19 +476,19 @@ export function GitHubInfo() {
 
     // Reset state when commit changes
     if (selectedCommit?.hash !== prevCommitRef.current) {
-      setGitHubInfo(null);
+      setForgeInfo(null);
       setProgressSteps([]);
       setError(null);
       setIsComplete(false);
       prevCommitRef.current = selectedCommit?.hash || null;
     }
 
-    if (!selectedCommit || !githubRepoInfo?.isGitHub || !repository?.path) {
+    if (!selectedCommit || !forgeRepoInfo?.forge || !repository?.id) {
       return;
     }
 
     // Check if we already have the info
-    if (githubInfo && isComplete) {
+    if (forgeInfo && isComplete) {
       return;
     }
 
@@ -284,15 +497,15 @@ export function GitHubInfo() {
 
     // Log to console
     console.log(
-      "%c[GitHub] %cStarting fetch for commit %c" + selectedCommit.shortHash,
+      "%c[Forge] %cStarting fetch for commit %c" + selectedCommit.shortHash,
       "color: #6366f1; font-weight: bold",
       "color: #64748b",
       "color: #3b82f6; font-family: monospace",
     );
 
     // Use streaming API
-    abortRef.current = streamCommitGitHubInfo(
-      repository.path,
+    abortRef.current = streamCommitForgeInfo(
+      repository.id,
       selectedCommit.hash,
       {
         onProgress: handleProgress,
@@ -309,64 +522,54 @@ export function GitHubInfo() {
     };
   }, [
     selectedCommit,
-    githubRepoInfo,
-    repository?.path,
+    forgeRepoInfo,
+    repository?.id,
     handleProgress,
     handleComplete,
     handleError,
-    githubInfo,
+    forgeInfo,
     isComplete,
   ]);
 
   if (!selectedCommit) return null;
 
-  // Check if repo is on GitHub
-  if (githubRepoInfo === null) {
+  // Check which forge hosts the repo
+  if (forgeRepoInfo === null) {
     return (
       <div className="p-4">
         <div className="text-center text-gray-500 py-8">
-          <svg
+          <ForgeIcon
+            forge={null}
             className="w-12 h-12 mx-auto mb-3 text-gray-300"
-            fill="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              fillRule="evenodd"
-              d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z"
-              clipRule="evenodd"
-            />
-          </svg>
-          <p className="text-sm">Checking GitHub connection...</p>
+          />
+          <p className="text-sm">Checking remote repository...</p>
         </div>
       </div>
     );
   }
 
-  if (!githubRepoInfo.isGitHub) {
+  const { forge } = forgeRepoInfo;
+  const path = forge && FORGE_ICON_PATHS[forge];
+  if (!path) {
     return (
       <div className="p-4">
         <div className="text-center text-gray-500 py-8">
-          <svg
+          <ForgeIcon
+            forge={null}
             className="w-12 h-12 mx-auto mb-3 text-gray-300"
-            fill="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              fillRule="evenodd"
-              d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z"
-              clipRule="evenodd"
-            />
-          </svg>
+          />
           <p className="text-sm font-medium mb-1">
-            {repoError ? "Failed to check GitHub" : "Not a GitHub Repository"}
+            {repoError
+              ? "Failed to check the remote"
+              : "Not on a Supported Forge"}
           </p>
           <p className="text-xs text-gray-400">
             {repoError ||
-              "GitHub integration is only available for repositories hosted on GitHub."}
+              "Pull requests and issues are available for repositories hosted on GitHub, GitLab, Gitea/Forgejo or Bitbucket, including self-hosted instances in the server's forge hosts."}
           </p>
           {repoError && (
             <button
-              onClick={() => fetchGitHubRepoInfo()}
+              onClick={() => fetchForgeRepoInfo()}
               className="mt-3 text-xs text-blue-600 hover:text-blue-700 underline"
             >
               Try again
@@ -377,38 +580,62 @@ export function GitHubInfo() {
     );
   }
 
+  const terms = FORGE_TERMS[forge];
+  const hasToken = forgeRepoInfo.hasToken;
+
   return (
     <div className="p-4 space-y-4 overflow-y-auto h-full">
-      {/* GitHub repo info */}
+      {/* Forge repo info */}
       <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2 text-sm text-gray-600">
-          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-            <path
-              fillRule="evenodd"
-              d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z"
-              clipRule="evenodd"
-            />
-          </svg>
-          <span className="font-mono">
-            {githubRepoInfo.owner}/{githubRepoInfo.repo}
-          </span>
+        <div className="flex items-center gap-2 text-sm text-gray-600 min-w-0">
+          <ForgeIcon forge={forge} className="w-4 h-4" />
+          <a
+            href={forgeRepoInfo.webUrl ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono truncate hover:underline"
+            title={forgeRepoInfo.host ?? undefined}
+          >
+            {forgeRepoInfo.owner}/{forgeRepoInfo.repo}
+          </a>
         </div>
         <button
           onClick={() => setShowTokenModal(true)}
           className={`text-xs px-2 py-1 rounded ${
-            githubToken
+            hasToken
               ? "bg-green-100 text-green-700 hover:bg-green-200"
               : "bg-gray-100 text-gray-600 hover:bg-gray-200"
           }`}
         >
-          {githubToken ? "Token Set" : "Add Token"}
+          {hasToken ? "Token Set" : "Add Token"}
         </button>
       </div>
 
+      {forgeRepoInfo.metadata && (
+        <RepoMetadata metadata={forgeRepoInfo.metadata} />
+      )}
+
+      {pullRequestOverlayError && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          {terms.pullRequests} are no longer shown on the graph:{" "}
+          {pullRequestOverlayError}
+        </div>
+      )}
+
+      {checkOverlayError && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          CI states are no longer shown on the graph: {checkOverlayError}
+        </div>
+      )}
+
       {/* Loading state with progress */}
       {isLoading && progressSteps.length > 0 && (
         <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-          <ProgressIndicator steps={progressSteps} isComplete={isComplete} />
+          <ProgressIndicator
+            steps={progressSteps}
+            isComplete={isComplete}
+            label={label}
+          />
         </div>
       )}
 
@@ -437,19 +664,19 @@ export function GitHubInfo() {
               />
             </svg>
             <div>
-              <p className="font-medium">Failed to load GitHub info</p>
+              <p className="font-medium">Failed to load {label} info</p>
               <p className="text-xs mt-1">{error}</p>
               {error.includes("Commit not found") && (
                 <p className="text-xs mt-2 text-red-600">
                   This commit might not be available in the remote repository.
                 </p>
               )}
-              {!githubToken && (
+              {!hasToken && (
                 <button
                   onClick={() => setShowTokenModal(true)}
                   className="mt-2 text-xs text-red-700 underline hover:no-underline"
                 >
-                  Add GitHub token for better API access
+                  Add {label} token for better API access
                 </button>
               )}
             </div>
@@ -458,20 +685,20 @@ export function GitHubInfo() {
       )}
 
       {/* PR and issue info */}
-      {!isLoading && githubInfo && (
+      {!isLoading && forgeInfo && (
         <>
-          {/* Pull Requests */}
+          {/* Pull (merge) Requests */}
           <div>
             <label className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-              Pull Requests ({githubInfo.pullRequests.length})
+              {terms.pullRequests} ({forgeInfo.pullRequests.length})
             </label>
-            {githubInfo.pullRequests.length === 0 ? (
+            {forgeInfo.pullRequests.length === 0 ? (
               <p className="mt-2 text-sm text-gray-400">
-                No PRs found for this commit
+                {terms.noPullRequests}
               </p>
             ) : (
               <div className="mt-2 space-y-2">
-                {githubInfo.pullRequests.map((pr) => (
+                {forgeInfo.pullRequests.map((pr) => (
                   <a
                     key={pr.number}
                     href={pr.url}
@@ -483,7 +710,8 @@ export function GitHubInfo() {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <span className="text-sm font-medium text-gray-900">
-                            #{pr.number}
+                            {terms.prPrefix}
+                            {pr.number}
                           </span>
                           <PRStatusBadge state={pr.state} />
                         </div>
@@ -517,15 +745,15 @@ export function GitHubInfo() {
           {/* Linked Issues */}
           <div>
             <label className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-              Linked Issues ({githubInfo.linkedIssues.length})
+              Linked Issues ({forgeInfo.linkedIssues.length})
             </label>
-            {githubInfo.linkedIssues.length === 0 ? (
+            {forgeInfo.linkedIssues.length === 0 ? (
               <p className="mt-2 text-sm text-gray-400">
                 No linked issues found
               </p>
             ) : (
               <div className="mt-2 space-y-2">
-                {githubInfo.linkedIssues.map((issue) => (
+                {forgeInfo.linkedIssues.map((issue) => (
                   <a
                     key={issue.number}
                     href={issue.url}
@@ -584,12 +812,20 @@ export function GitHubInfo() {
         </>
       )}
 
+      {/* CI checks */}
+      {forgeRepoInfo.checks && repository && (
+        <CommitChecksSection
+          repoId={repository.id}
+          commitHash={selectedCommit.hash}
+        />
+      )}
+
       {/* Not authenticated hint */}
-      {!githubToken && (
+      {!hasToken && (
         <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
           <p className="font-medium">Limited API access</p>
           <p className="text-xs mt-1">
-            Add a GitHub token for 5000 requests/hour instead of 60.{" "}
+            {terms.tokenHint}{" "}
             <button
               onClick={() => setShowTokenModal(true)}
               className="underline hover:no-underline"
@@ -600,9 +836,12 @@ export function GitHubInfo() {
         </div>
       )}
 
-      <GitHubTokenModal
+      <ForgeTokenModal
         isOpen={showTokenModal}
         onClose={() => setShowTokenModal(false)}
+        forge={forge}
+        host={forgeRepoInfo.host ?? ""}
+        webUrl={forgeRepoInfo.webUrl}
       />
     </div>
   );
@@ -0,0 +1,79 @@
+import type { AnalyticsJob } from "../../types";
+import { cn } from "../../lib/utils";
+
+interface AnalysisProgressProps {
+  job: AnalyticsJob | undefined; // Undefined until the server has accepted it
+  onCancel: () => void;
+  compact?: boolean; // One line above partial results instead of a placeholder
+}
+
+function describeProgress(job: AnalyticsJob | undefined): string {
+  if (!job) return "Starting analysis...";
+  if (job.status === "queued") return "Waiting for other analyses to finish...";
+
+  const { completed, total, message } = job.progress;
+  if (total === null) return "Analyzing repository data...";
+  return `Analyzed ${completed.toLocaleString()} of ${total.toLocaleString()} ${message ?? ""}`.trim();
+}
+
+export function AnalysisProgress({
+  job,
+  onCancel,
+  compact = false,
+}: AnalysisProgressProps) {
+  const total = job?.progress.total;
+  const percent =
+    total && job.status === "running"
+      ? Math.min(100, Math.round((job.progress.completed / total) * 100))
+      : null;
+
+  const bar = (
+    <div className="w-full h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+      <div
+        className={cn(
+          "h-full rounded-full bg-blue-500 transition-all duration-300",
+          percent === null && "w-1/3 animate-pulse",
+        )}
+        style={percent === null ? undefined : { width: `${percent}%` }}
+      />
+    </div>
+  );
+
+  const cancelButton = (
+    <button
+      onClick={onCancel}
+      className="px-3 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+    >
+      Cancel
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-4">
+        <div className="flex-1 space-y-1.5">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {describeProgress(job)}
+          </p>
+          {bar}
+        </div>
+        {cancelButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center h-64 gap-4">
+      <div className="text-center">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Loading statistics
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+          {describeProgress(job)}
+        </p>
+      </div>
+      <div className="w-72">{bar}</div>
+      {cancelButton}
+    </div>
+  );
+}
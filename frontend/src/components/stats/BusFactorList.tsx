@@ -170,6 +170,14 @@ export function BusFactorList({ data }: BusFactorListProps) {
                       {file.path}
                     </span>
                   </div>
+                  {file.previousPaths.length > 0 && (
+                    <div
+                      className="ml-6 mt-0.5 text-[11px] text-gray-500 dark:text-gray-400 truncate max-w-[300px]"
+                      title={file.previousPaths.join("\n")}
+                    >
+                      previously {file.previousPaths.join(", ")}
+                    </div>
+                  )}
                 </td>
                 <td className="py-2 px-3">
                   <div className="flex items-center justify-center gap-2">
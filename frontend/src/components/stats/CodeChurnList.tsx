@@ -111,6 +111,14 @@ export function CodeChurnList({ data }: CodeChurnListProps) {
                     {file.path}
                   </span>
                 </div>
+                {file.previousPaths.length > 0 && (
+                  <div
+                    className="ml-4 mt-0.5 text-[11px] text-gray-500 dark:text-gray-400 truncate max-w-[300px]"
+                    title={file.previousPaths.join("\n")}
+                  >
+                    previously {file.previousPaths.join(", ")}
+                  </div>
+                )}
                 {/* Churn bar */}
                 <div className="mt-1 h-1 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
                   <div
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from "react";
+import { useRepositoryStore } from "../../store/repositoryStore";
+import type { ContributorStats } from "../../types";
+import { cn } from "../../lib/utils";
+
+interface IdentityMergeTableProps {
+  contributors: ContributorStats[];
+}
+
+/**
+ * Editable list of identity merges for this repository. They are applied on
+ * top of the repository's .mailmap for contributors, bus factor, the author
+ * filter and author colours.
+ */
+export function IdentityMergeTable({ contributors }: IdentityMergeTableProps) {
+  const { identityMerges, fetchIdentityMerges, updateIdentityMerges } =
+    useRepositoryStore();
+
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [aliasEmail, setAliasEmail] = useState("");
+  const [targetEmail, setTargetEmail] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isExpanded && !identityMerges) {
+      fetchIdentityMerges();
+    }
+  }, [isExpanded, identityMerges, fetchIdentityMerges]);
+
+  const merges = useMemo(() => identityMerges ?? [], [identityMerges]);
+
+  // Merged aliases no longer appear as contributors, so they drop out here
+  const options = useMemo(
+    () => [...contributors].sort((a, b) => a.name.localeCompare(b.name)),
+    [contributors],
+  );
+
+  const save = async (next: typeof merges) => {
+    setIsSaving(true);
+    await updateIdentityMerges(next);
+    setIsSaving(false);
+  };
+
+  const handleAdd = async () => {
+    const target = contributors.find((c) => c.email === targetEmail);
+    if (!aliasEmail || !target || aliasEmail === targetEmail) return;
+
+    // Anything already merged into the alias follows it to the new target
+    const next = merges.map((m) =>
+      m.email.toLowerCase() === aliasEmail.toLowerCase()
+        ? { ...m, name: target.name, email: target.email }
+        : m,
+    );
+    next.push({ aliasEmail, name: target.name, email: target.email });
+
+    await save(next);
+    setAliasEmail("");
+    setTargetEmail("");
+  };
+
+  const handleRemove = (alias: string) =>
+    save(merges.filter((m) => m.aliasEmail !== alias));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700 shadow-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span className="flex items-center gap-2">
+          <svg
+            className={cn(
+              "w-4 h-4 text-gray-400 transition-transform",
+              isExpanded && "rotate-90",
+            )}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Merge identities
+        </span>
+        {merges.length > 0 && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+            {merges.length}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-3 border-t border-gray-100 dark:border-gray-700">
+          <p className="pt-3 text-xs text-gray-500 dark:text-gray-400">
+            Attribute commits from one identity to another. Merges extend the
+            repository's .mailmap and are saved for this repository.
+          </p>
+
+          {merges.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+                  <th className="text-left py-1.5 font-medium">Identity</th>
+                  <th className="text-left py-1.5 font-medium">Counted as</th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {merges.map((merge) => (
+                  <tr
+                    key={merge.aliasEmail}
+                    className="border-b border-gray-50 dark:border-gray-700/50"
+                  >
+                    <td className="py-1.5 font-mono text-xs text-gray-700 dark:text-gray-300">
+                      {merge.aliasEmail}
+                    </td>
+                    <td className="py-1.5 text-gray-900 dark:text-gray-100">
+                      {merge.name}{" "}
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        &lt;{merge.email}&gt;
+                      </span>
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => handleRemove(merge.aliasEmail)}
+                        disabled={isSaving}
+                        className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                        title="Remove merge (fully applies on next load)"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={aliasEmail}
+              onChange={(e) => setAliasEmail(e.target.value)}
+              className="flex-1 min-w-[180px] px-2 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">Identity…</option>
+              {options.map((c) => (
+                <option key={c.email} value={c.email}>
+                  {c.name} &lt;{c.email}&gt;
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              counts as
+            </span>
+            <select
+              value={targetEmail}
+              onChange={(e) => setTargetEmail(e.target.value)}
+              className="flex-1 min-w-[180px] px-2 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">Person…</option>
+              {options
+                .filter((c) => c.email !== aliasEmail)
+                .map((c) => (
+                  <option key={c.email} value={c.email}>
+                    {c.name} &lt;{c.email}&gt;
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={
+                !aliasEmail ||
+                !targetEmail ||
+                aliasEmail === targetEmail ||
+                isSaving
+              }
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Merge"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
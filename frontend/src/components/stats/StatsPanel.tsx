@@ -1,12 +1,15 @@
 import { useEffect, useState } from "react";
 import { useRepositoryStore } from "../../store/repositoryStore";
 import { ContributorList } from "./ContributorList";
+import { IdentityMergeTable } from "./IdentityMergeTable";
 import { ActivityHeatmap } from "./ActivityHeatmap";
 import { CodeChurnList } from "./CodeChurnList";
 import { BusFactorList } from "./BusFactorList";
 import { CommitPatternHeatmap } from "./CommitPatternHeatmap";
 import { BranchLifespanChart } from "./BranchLifespanChart";
+import { AnalysisProgress } from "./AnalysisProgress";
 import { cn } from "../../lib/utils";
+import type { AnalyticsKind, BranchLifespan, RepoStats } from "../../types";
 
 type TabType =
   | "contributors"
@@ -144,8 +147,34 @@ const tabs: {
   },
 ];
 
+// The background analyses each tab shows; the first one reports progress
+const tabAnalyses: Record<TabType, AnalyticsKind[]> = {
+  contributors: ["contributors", "activity"],
+  activity: ["contributors", "activity"],
+  churn: ["codeChurn"],
+  busfactor: ["busFactor"],
+  patterns: ["commitPatterns"],
+  branches: ["branchLifespans"],
+};
+
+// Caveat shown for clones that don't hold the full history locally
+function getCloneNotice(stats: RepoStats | undefined): string | null {
+  if (!stats) return null;
+  if (stats.lazyFetch) {
+    return `This is a ${stats.cloneStrategy} clone: line counts, churn and bus factor need file contents, which are downloaded from the remote on demand and can take a while.`;
+  }
+  if (stats.cloneStrategy === "shallow" && stats.shallowSince) {
+    return `This is a shallow clone: only commits since ${new Date(stats.shallowSince).toLocaleDateString()} are included.`;
+  }
+  if (stats.cloneStrategy === "single-branch") {
+    return "This is a single-branch clone: commits only on other branches are not included.";
+  }
+  return null;
+}
+
 export function StatsPanel() {
   const {
+    repository,
     showStatsPanel,
     toggleStatsPanel,
     contributorStats,
@@ -154,6 +183,8 @@ export function StatsPanel() {
     busFactor,
     commitPatterns,
     branchLifespans,
+    analyticsCoverage,
+    analyticsJobs,
     isLoadingStats,
     statsError,
     fetchStats,
@@ -161,16 +192,35 @@ export function StatsPanel() {
     fetchBusFactor,
     fetchCommitPatterns,
     fetchBranchLifespans,
+    cancelAnalytics,
   } = useRepositoryStore();
 
   const [activeTab, setActiveTab] = useState<TabType>("contributors");
 
+  // Cancelled analyses are only rerun on request
+  const isCancelled = (kind: AnalyticsKind) =>
+    analyticsJobs[kind]?.status === "cancelled";
+  const isJobSettled = (kind: AnalyticsKind) =>
+    isCancelled(kind) || analyticsJobs[kind]?.status === "failed";
+  const statsCancelled = isCancelled("contributors");
+
   // Fetch stats when panel opens
   useEffect(() => {
-    if (showStatsPanel && !contributorStats && !isLoadingStats) {
+    if (
+      showStatsPanel &&
+      !contributorStats &&
+      !isLoadingStats &&
+      !statsCancelled
+    ) {
       fetchStats();
     }
-  }, [showStatsPanel, contributorStats, isLoadingStats, fetchStats]);
+  }, [
+    showStatsPanel,
+    contributorStats,
+    isLoadingStats,
+    statsCancelled,
+    fetchStats,
+  ]);
 
   // Fetch analytics data on tab switch
   useEffect(() => {
@@ -200,14 +250,43 @@ export function StatsPanel() {
 
   if (!showStatsPanel) return null;
 
+  const [primaryAnalysis] = tabAnalyses[activeTab];
+  const activeJob = analyticsJobs[primaryAnalysis];
+  const tabData = {
+    contributors: contributorStats,
+    activity: activityHeatmap,
+    churn: codeChurn,
+    busfactor: busFactor,
+    patterns: commitPatterns,
+    branches: branchLifespans,
+  }[activeTab];
+
   const isLoading =
     isLoadingStats ||
-    (activeTab === "churn" && !codeChurn) ||
-    (activeTab === "busfactor" && !busFactor) ||
-    (activeTab === "patterns" && !commitPatterns) ||
-    (activeTab === "branches" && !branchLifespans);
+    (activeTab !== "contributors" &&
+      activeTab !== "activity" &&
+      !tabData &&
+      !isJobSettled(primaryAnalysis));
+  const showCancelled = !tabData && isCancelled(primaryAnalysis);
+
+  // Branches that were analyzed before the rest
+  const partialBranches =
+    activeTab === "branches"
+      ? ((activeJob?.partial?.data as BranchLifespan[] | undefined) ?? null)
+      : null;
+
+  const rerunActiveTab = {
+    contributors: fetchStats,
+    activity: fetchStats,
+    churn: fetchCodeChurn,
+    busfactor: fetchBusFactor,
+    patterns: fetchCommitPatterns,
+    branches: fetchBranchLifespans,
+  }[activeTab];
+  const cancelActiveTab = () => cancelAnalytics(tabAnalyses[activeTab]);
 
   const activeTabInfo = tabs.find((t) => t.id === activeTab);
+  const cloneNotice = getCloneNotice(repository?.stats);
 
   return (
     <div
@@ -308,29 +387,64 @@ export function StatsPanel() {
 
         {/* Tab Description */}
         {activeTabInfo && (
-          <div className="px-6 py-3 bg-white dark:bg-gray-800 border-b border-gray-100 dark:border-gray-700">
+          <div className="flex items-center justify-between gap-4 px-6 py-3 bg-white dark:bg-gray-800 border-b border-gray-100 dark:border-gray-700">
             <p className="text-sm text-gray-500 dark:text-gray-400">
               {activeTabInfo.description}
             </p>
+            {/* Branch lifespans aren't computed from the history pass */}
+            {analyticsCoverage && activeTab !== "branches" && (
+              <span
+                className={cn(
+                  "px-2 py-0.5 text-xs rounded-full font-medium whitespace-nowrap",
+                  analyticsCoverage.complete
+                    ? "bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-400"
+                    : "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400",
+                )}
+                title={
+                  analyticsCoverage.complete
+                    ? "Computed over every commit in the repository"
+                    : "Only the most recent commits were analyzed"
+                }
+              >
+                {analyticsCoverage.complete
+                  ? `Full history · ${analyticsCoverage.totalCommits.toLocaleString()} commits`
+                  : `Sampled · ${analyticsCoverage.analyzedCommits.toLocaleString()} of ${analyticsCoverage.totalCommits.toLocaleString()} commits`}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Partial and shallow clones limit what the analytics can see */}
+        {cloneNotice && (
+          <div className="px-6 py-2 text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 border-b border-amber-100 dark:border-amber-900/40">
+            {cloneNotice}
           </div>
         )}
 
         {/* Content */}
         <div className="flex-1 overflow-auto bg-gray-50 dark:bg-gray-950">
-          {isLoading ? (
+          {isLoading && partialBranches?.length ? (
+            <div className="p-6 space-y-4">
+              <AnalysisProgress
+                job={activeJob}
+                onCancel={cancelActiveTab}
+                compact
+              />
+              <BranchLifespanChart data={partialBranches} />
+            </div>
+          ) : isLoading ? (
+            <AnalysisProgress job={activeJob} onCancel={cancelActiveTab} />
+          ) : showCancelled ? (
             <div className="flex flex-col items-center justify-center h-64 gap-4">
-              <div className="relative">
-                <div className="w-12 h-12 rounded-full border-4 border-gray-200 dark:border-gray-700"></div>
-                <div className="absolute inset-0 w-12 h-12 rounded-full border-4 border-blue-500 border-t-transparent animate-spin"></div>
-              </div>
-              <div className="text-center">
-                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Loading statistics
-                </p>
-                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                  Analyzing repository data...
-                </p>
-              </div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Analysis cancelled
+              </p>
+              <button
+                onClick={() => rerunActiveTab()}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+              >
+                Run again
+              </button>
             </div>
           ) : statsError ? (
             <div className="flex flex-col items-center justify-center h-64 gap-4">
@@ -361,7 +475,10 @@ export function StatsPanel() {
           ) : (
             <div className="p-6">
               {activeTab === "contributors" && contributorStats && (
-                <ContributorList contributors={contributorStats} />
+                <div className="space-y-4">
+                  <IdentityMergeTable contributors={contributorStats} />
+                  <ContributorList contributors={contributorStats} />
+                </div>
               )}
               {activeTab === "activity" && activityHeatmap && (
                 <ActivityHeatmap activity={activityHeatmap} />
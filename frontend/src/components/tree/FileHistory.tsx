@@ -0,0 +1,117 @@
+import { useEffect } from "react";
+import { useRepositoryStore } from "../../store/repositoryStore";
+import type { FileHistoryEntry } from "../../types";
+
+interface FileHistoryProps {
+  path: string;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function HistoryItem({
+  entry,
+  onSelect,
+}: {
+  entry: FileHistoryEntry;
+  onSelect: (entry: FileHistoryEntry) => void;
+}) {
+  return (
+    <button
+      onClick={() => onSelect(entry)}
+      className="w-full text-left px-3 py-2 border-b border-gray-100 hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-xs text-blue-600">
+          {entry.commit.shortHash}
+        </span>
+        <span className="text-sm text-gray-800 truncate flex-1">
+          {entry.commit.message}
+        </span>
+        {entry.binary ? (
+          <span className="text-xs text-gray-400">binary</span>
+        ) : (
+          <span className="text-xs font-mono flex-shrink-0">
+            <span className="text-green-600">+{entry.additions}</span>{" "}
+            <span className="text-red-600">-{entry.deletions}</span>
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
+        <span className="truncate">{entry.commit.author.name}</span>
+        <span>·</span>
+        <span className="flex-shrink-0">{formatDate(entry.commit.date)}</span>
+      </div>
+      {/* Rename point */}
+      {entry.oldPath && (
+        <div
+          className="mt-1 text-xs font-mono text-purple-600 truncate"
+          title={`${entry.oldPath} → ${entry.path}`}
+        >
+          renamed from {entry.oldPath}
+        </div>
+      )}
+    </button>
+  );
+}
+
+export function FileHistory({ path }: FileHistoryProps) {
+  const {
+    fileHistory,
+    isLoadingFileHistory,
+    fileHistoryError,
+    fetchFileHistory,
+    openFileHistoryEntry,
+  } = useRepositoryStore();
+
+  // Fetch history when the viewed file changes
+  useEffect(() => {
+    fetchFileHistory(path);
+  }, [path, fetchFileHistory]);
+
+  if (isLoadingFileHistory) {
+    return (
+      <div className="p-4 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        <span className="ml-2 text-sm text-gray-500">Loading history...</span>
+      </div>
+    );
+  }
+
+  if (fileHistoryError) {
+    return (
+      <div className="p-4 text-center text-red-500 text-sm">
+        <div className="text-2xl mb-2">⚠️</div>
+        <div>{fileHistoryError}</div>
+      </div>
+    );
+  }
+
+  if (!fileHistory || fileHistory.length === 0) {
+    return (
+      <div className="p-4 text-center text-gray-500 text-sm">
+        No history found for this file
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs text-gray-500">
+        {fileHistory.length} commit{fileHistory.length === 1 ? "" : "s"}
+      </div>
+      {fileHistory.map((entry) => (
+        <HistoryItem
+          key={entry.commit.hash}
+          entry={entry}
+          onSelect={openFileHistoryEntry}
+        />
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { FileViewer } from "./FileViewer";
 
 export function FileTreePanel() {
   const {
+    repository,
     selectedCommit,
     fileTree,
     expandedPaths,
@@ -73,6 +74,12 @@ export function FileTreePanel() {
       {(isLoadingTree || isLoadingFile) && (
         <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          {/* Partial clones download file contents on first view */}
+          {isLoadingFile && repository?.stats?.lazyFetch && (
+            <span className="ml-2 text-sm text-gray-500">
+              Fetching file from remote...
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -1,5 +1,11 @@
+import { useEffect } from "react";
 import { Highlight, themes } from "prism-react-renderer";
-import type { FileContent } from "../../types";
+import type { BlameLine, FileContent } from "../../types";
+import {
+  useRepositoryStore,
+  type FileViewMode,
+} from "../../store/repositoryStore";
+import { FileHistory } from "./FileHistory";
 
 interface FileViewerProps {
   file: FileContent;
@@ -54,8 +60,89 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+const VIEW_MODES: { id: FileViewMode; label: string }[] = [
+  { id: "content", label: "Content" },
+  { id: "blame", label: "Blame" },
+  { id: "history", label: "History" },
+];
+
+function formatBlameDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// Annotation shown beside the first line of each run of lines from one commit
+function BlameGutterCell({
+  blame,
+  isGroupStart,
+  onSelectCommit,
+  onBlameParent,
+}: {
+  blame: BlameLine | undefined;
+  isGroupStart: boolean;
+  onSelectCommit: (line: BlameLine) => void;
+  onBlameParent: (line: BlameLine) => void;
+}) {
+  if (!blame || !isGroupStart) {
+    return (
+      <span className="w-52 flex-shrink-0 bg-gray-50 border-r border-gray-200" />
+    );
+  }
+
+  return (
+    <span className="w-52 flex-shrink-0 flex items-center gap-1 px-2 bg-gray-50 border-r border-gray-200 border-t border-t-gray-100 select-none">
+      <button
+        onClick={() => onSelectCommit(blame)}
+        className="flex items-center gap-1.5 min-w-0 flex-1 text-left hover:text-blue-600"
+        title={`${blame.summary}\n${blame.author.name} <${blame.author.email}>`}
+      >
+        <span className="font-mono text-blue-600">
+          {blame.hash.substring(0, 7)}
+        </span>
+        <span className="truncate text-gray-600">{blame.author.name}</span>
+        <span className="text-gray-400 flex-shrink-0">
+          {formatBlameDate(blame.date)}
+        </span>
+      </button>
+      <button
+        onClick={() => onBlameParent(blame)}
+        disabled={!blame.previous}
+        className="flex-shrink-0 px-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+        title={
+          blame.previous
+            ? "Blame parent: view this file before this commit"
+            : "No earlier revision"
+        }
+      >
+        ↶
+      </button>
+    </span>
+  );
+}
+
 export function FileViewer({ file, onBack }: FileViewerProps) {
   const language = getLanguage(file.path);
+  const {
+    fileViewMode,
+    setFileViewMode,
+    blame,
+    isLoadingBlame,
+    blameError,
+    fetchBlame,
+    openBlameCommit,
+  } = useRepositoryStore();
+
+  const showBlame = fileViewMode === "blame" && !file.binary;
+
+  // Fetch blame when switching to blame mode or opening another file
+  useEffect(() => {
+    if (showBlame) {
+      fetchBlame(file.path);
+    }
+  }, [showBlame, file.path, fetchBlame]);
 
   return (
     <div className="flex flex-col h-full">
@@ -85,9 +172,36 @@ export function FileViewer({ file, onBack }: FileViewerProps) {
         <span className="text-xs text-gray-400">{formatSize(file.size)}</span>
       </div>
 
+      {/* View switcher */}
+      <div className="flex border-b border-gray-200 text-xs">
+        {VIEW_MODES.map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => setFileViewMode(mode.id)}
+            className={`px-3 py-1.5 font-medium border-b-2 transition-colors ${
+              fileViewMode === mode.id
+                ? "border-blue-500 text-blue-600"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {showBlame && (isLoadingBlame || blameError) && (
+        <div
+          className={`px-3 py-1.5 text-xs border-b border-gray-200 ${blameError ? "text-red-500" : "text-gray-500"}`}
+        >
+          {blameError || "Loading blame..."}
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-auto">
-        {file.binary ? (
+        {fileViewMode === "history" ? (
+          <FileHistory path={file.path} />
+        ) : file.binary ? (
           <div className="p-8 text-center text-gray-500">
             <div className="text-4xl mb-2">📦</div>
             <div className="text-sm">Binary file - cannot display content</div>
@@ -112,6 +226,22 @@ export function FileViewer({ file, onBack }: FileViewerProps) {
                     {...getLineProps({ line })}
                     className="flex hover:bg-gray-50"
                   >
+                    {/* Blame annotation */}
+                    {showBlame && blame && (
+                      <BlameGutterCell
+                        blame={blame[i]}
+                        isGroupStart={
+                          i === 0 || blame[i - 1]?.hash !== blame[i]?.hash
+                        }
+                        onSelectCommit={(b) =>
+                          openBlameCommit(b.hash, b.originalPath)
+                        }
+                        onBlameParent={(b) =>
+                          b.previous &&
+                          openBlameCommit(b.previous.hash, b.previous.path)
+                        }
+                      />
+                    )}
                     {/* Line number */}
                     <span className="w-12 flex-shrink-0 text-right pr-4 text-gray-400 select-none bg-gray-50 border-r border-gray-200">
                       {i + 1}
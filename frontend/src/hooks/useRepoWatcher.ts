@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { useRepositoryStore } from "../store/repositoryStore";
+import { watchRepository } from "../api/gitApi";
+
+/**
+ * Keeps a local repository's graph live: once it has finished loading, ref
+ * and commit changes pushed by the server's watcher are merged into the
+ * store as they happen. Clones and uploads don't change on their own and
+ * aren't watched.
+ */
+export function useRepoWatcher() {
+  // Streaming loads hold abortStream until their last commit has arrived
+  const watchedRepoId = useRepositoryStore((state) =>
+    state.repository?.source === "local" && !state.abortStream
+      ? state.repository.id
+      : null,
+  );
+  const applyRepositoryChanges = useRepositoryStore(
+    (state) => state.applyRepositoryChanges,
+  );
+
+  useEffect(() => {
+    if (!watchedRepoId) return;
+
+    // Catch up on anything that moved while the graph was loading
+    const since = useRepositoryStore.getState().repository?.refsFingerprint;
+    return watchRepository(watchedRepoId, since, {
+      onCommits: applyRepositoryChanges,
+      onRefs: applyRepositoryChanges,
+      onResync: () => {
+        const { repository, loadMode, loadRepoWithMode } =
+          useRepositoryStore.getState();
+        if (repository?.id === watchedRepoId) {
+          loadRepoWithMode(watchedRepoId, loadMode);
+        }
+      },
+    });
+  }, [watchedRepoId, applyRepositoryChanges]);
+}
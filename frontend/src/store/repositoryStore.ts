@@ -1,25 +1,39 @@
-import { create } from "zustand";
+import { create, StoreApi } from "zustand";
 import type {
   Repository,
+  Author,
   Commit,
   RepoStats,
   RepositoryMetadata,
+  CloneProgress,
+  CloneStrategy,
+  CloneStrategyOptions,
   DiffStats,
   FileDiffDetail,
   TreeEntry,
   FileContent,
+  FileHistoryEntry,
+  BlameLine,
   ContributorStats,
   ActivityDay,
+  IdentityMerge,
   Submodule,
   DateRange,
   BranchComparison,
-  GitHubRepoInfo,
-  CommitGitHubInfo,
+  ForgeRepoInfo,
+  CommitForgeInfo,
+  PullRequest,
+  CheckState,
   RepositoryStackItem,
+  AnalyticsCoverage,
   FileChurnStats,
   FileBusFactor,
   CommitPatterns,
   BranchLifespan,
+  AnalyticsJob,
+  AnalyticsKind,
+  SearchMode,
+  RefreshDelta,
 } from "../types";
 import {
   loadRepository,
@@ -29,31 +43,41 @@ import {
   AuthRequiredError,
   getRepoStats,
   streamRepository,
+  StreamCallbacks,
   getCommitsPaginated,
   getCommitDiffStats,
   getCommitFileDiff,
+  getRangeDiff,
+  getRangeFileDiff,
   getFileTree,
   getFileContent,
-  getContributorStats,
-  getActivityHeatmap,
+  getFileHistory,
+  getBlame,
+  getCommit,
   getSubmodules,
+  getIdentityMerges,
+  saveIdentityMerges,
   compareBranches,
   loadSubmoduleRepository,
-  getCodeChurn,
-  getBusFactor,
-  getCommitPatterns,
-  getBranchLifespans,
+  runAnalyticsJob,
+  AnalyticsJobResults,
+  JobCancelledError,
   cleanupRepository,
   validateRepository,
+  openRepository,
+  refreshRepository as refreshRepositoryApi,
 } from "../api/gitApi";
 import {
-  setGitHubToken as setGitHubTokenApi,
-  getGitHubRepoInfo,
-  getCommitGitHubInfo,
-} from "../api/githubApi";
+  setForgeToken as setForgeTokenApi,
+  getForgeRepoInfo,
+  getCommitForgeInfo,
+  streamForgeCheckStates,
+  streamForgePullRequests,
+} from "../api/forgeApi";
 
 export type LoadMode = "full" | "paginated" | "simplified";
-export type DetailTab = "details" | "changes" | "files" | "github";
+export type DetailTab = "details" | "changes" | "files" | "forge";
+export type FileViewMode = "content" | "blame" | "history";
 
 // Pre-computed adjacency map for O(1) parent/child lookups
 interface AdjacencyMap {
@@ -89,20 +113,31 @@ interface RepositoryState {
   selectedCommit: Commit | null;
   searchQuery: string;
 
+  // Server-side search state (used when the graph doesn't hold every commit)
+  searchMode: SearchMode;
+  searchResults: Commit[] | null;
+  searchTotal: number;
+  isSearching: boolean;
+  searchError: string | null;
+
   // Large repo handling
   repoStats: RepoStats | null;
   showLargeRepoWarning: boolean;
-  pendingPath: string | null;
+  pendingRepoId: string | null;
   loadMode: LoadMode;
   abortStream: (() => void) | null;
   isTemporaryRepo: boolean; // Track if repo is cloned/uploaded (needs cleanup)
+  isRefreshing: boolean; // Fetching a cloned repository's remote in place
+  newCommitHashes: Set<string>; // Arrived by refresh or watcher; animated in
 
   // Diff viewer state
   activeTab: DetailTab;
+  diffRange: { from: Commit; to: Commit } | null; // Shift-click compare
   diffStats: DiffStats | null;
   selectedFileDiff: FileDiffDetail | null;
   isLoadingDiff: boolean;
   diffError: string | null;
+  wordDiff: boolean; // Highlight changed words inside edited lines
 
   // File tree state
   fileTree: TreeEntry[];
@@ -112,18 +147,32 @@ interface RepositoryState {
   isLoadingFile: boolean;
   fileError: string | null;
 
+  // File viewer mode and blame state
+  fileViewMode: FileViewMode;
+  blame: BlameLine[] | null;
+  isLoadingBlame: boolean;
+  blameError: string | null;
+
+  // File history state
+  fileHistory: FileHistoryEntry[] | null;
+  isLoadingFileHistory: boolean;
+  fileHistoryError: string | null;
+
   // Stats state
   contributorStats: ContributorStats[] | null;
   activityHeatmap: ActivityDay[] | null;
   isLoadingStats: boolean;
   statsError: string | null;
   showStatsPanel: boolean;
+  identityMerges: IdentityMerge[] | null;
 
   // Analytics state
+  analyticsCoverage: AnalyticsCoverage | null;
   codeChurn: FileChurnStats[] | null;
   busFactor: FileBusFactor[] | null;
   commitPatterns: CommitPatterns | null;
   branchLifespans: BranchLifespan[] | null;
+  analyticsJobs: Partial<Record<AnalyticsKind, AnalyticsJob>>; // Latest state of each analysis
 
   // Author filter state
   selectedAuthors: string[];
@@ -142,12 +191,16 @@ interface RepositoryState {
   isLoadingSubmodule: boolean;
   submoduleError: string | null;
 
-  // GitHub integration state
-  githubRepoInfo: GitHubRepoInfo | null;
-  githubToken: string | null;
-  commitGitHubInfo: Map<string, CommitGitHubInfo>;
-  isLoadingGitHubInfo: boolean;
-  githubError: string | null;
+  // Forge (GitHub, GitLab) integration state
+  forgeRepoInfo: ForgeRepoInfo | null;
+  forgeTokens: Record<string, string>; // By host
+  commitForgeInfo: Map<string, CommitForgeInfo>;
+  isLoadingForgeInfo: boolean;
+  forgeError: string | null;
+  commitPullRequests: Map<string, PullRequest[]>; // Graph overlay, by commit hash
+  pullRequestOverlayError: string | null; // Lookups stop until the token changes
+  commitCheckStates: Map<string, CheckState | null>; // Null: no CI checks ran
+  checkOverlayError: string | null; // Like pullRequestOverlayError
 
   // Date filter state
   dateFilter: DateRange | null;
@@ -168,50 +221,70 @@ interface RepositoryState {
   compareTargetBranch: string | null;
   isLoadingComparison: boolean;
   comparisonError: string | null;
+  comparisonFileDiff: FileDiffDetail | null;
 
   // Graph settings state
   graphSettings: {
     compactMode: boolean;
     hideMergeCommits: boolean;
     colorByAuthor: boolean;
+    onlyFailingCommits: boolean; // Commits whose CI checks failed
   };
   highlightedCommits: Set<string>; // Parent and child hashes of selected commit
 
   // Auth modal state (for private repos)
   showAuthModal: boolean;
   pendingCloneUrl: string | null;
+  pendingCloneStrategy: CloneStrategyOptions | null; // Reused on retry
   cloneToken: string | null; // Stored token for reuse
 
   // Actions
   loadRepo: (path: string) => Promise<void>;
-  loadRepoWithMode: (path: string, mode: LoadMode) => Promise<void>;
+  loadRepoWithMode: (repoId: string, mode: LoadMode) => Promise<void>;
   loadMoreCommits: () => Promise<void>;
-  cloneRepo: (url: string, options?: { token?: string }) => Promise<void>;
+  cloneRepo: (
+    url: string,
+    options?: { token?: string; strategy?: CloneStrategyOptions },
+  ) => Promise<void>;
   dismissAuthModal: () => void;
   retryCloneWithToken: (token: string, saveToken?: boolean) => Promise<void>;
   uploadRepo: (file: File) => Promise<void>;
   uploadFolderRepo: (files: FileList) => Promise<void>;
   setSelectedCommit: (commit: Commit | null) => void;
   setSearchQuery: (query: string) => void;
+  setSearchMode: (mode: SearchMode) => void;
+  searchCommits: () => Promise<void>;
   dismissLargeRepoWarning: () => void;
   confirmLoadLargeRepo: (mode: LoadMode) => void;
   cancelClone: () => void;
+  refreshRepository: () => Promise<void>;
+  applyRepositoryChanges: (changes: Partial<RefreshDelta>) => void;
   reset: () => void;
 
   // Diff and file tree actions
   setActiveTab: (tab: DetailTab) => void;
+  setDiffRange: (from: Commit, to: Commit) => void;
+  clearDiffRange: () => void;
   fetchDiffStats: () => Promise<void>;
   fetchFileDiff: (filePath: string) => Promise<void>;
   clearFileDiff: () => void;
+  toggleWordDiff: () => void;
   fetchFileTreeRoot: () => Promise<void>;
   fetchFileTreePath: (treePath: string) => Promise<void>;
   toggleExpandPath: (path: string) => void;
   fetchFileContent: (filePath: string) => Promise<void>;
   clearFileContent: () => void;
+  setFileViewMode: (mode: FileViewMode) => void;
+  fetchBlame: (filePath: string) => Promise<void>;
+  openBlameCommit: (commitHash: string, filePath: string) => Promise<void>;
+  fetchFileHistory: (filePath: string) => Promise<void>;
+  openFileHistoryEntry: (entry: FileHistoryEntry) => Promise<void>;
 
   // Stats and submodule actions
   fetchStats: () => Promise<void>;
   toggleStatsPanel: () => void;
+  fetchIdentityMerges: () => Promise<void>;
+  updateIdentityMerges: (merges: IdentityMerge[]) => Promise<void>;
   fetchSubmodules: () => Promise<void>;
 
   // Analytics actions
@@ -219,6 +292,7 @@ interface RepositoryState {
   fetchBusFactor: () => Promise<void>;
   fetchCommitPatterns: () => Promise<void>;
   fetchBranchLifespans: () => Promise<void>;
+  cancelAnalytics: (kinds?: AnalyticsKind[]) => void; // All when omitted
 
   // Author filter actions
   setSelectedAuthors: (authors: string[]) => Promise<void>;
@@ -248,16 +322,21 @@ interface RepositoryState {
     targetBranch: string | null,
   ) => void;
   fetchBranchComparison: () => Promise<void>;
+  fetchComparisonFileDiff: (filePath: string) => Promise<void>;
+  clearComparisonFileDiff: () => void;
 
   // Graph settings actions
   toggleCompactMode: () => void;
   toggleHideMergeCommits: () => void;
   toggleColorByAuthor: () => void;
+  toggleOnlyFailingCommits: () => void;
 
-  // GitHub integration actions
-  setGitHubToken: (token: string | null) => Promise<void>;
-  fetchGitHubRepoInfo: () => Promise<void>;
-  fetchCommitGitHubInfo: (commitHash: string) => Promise<void>;
+  // Forge integration actions
+  setForgeToken: (host: string, token: string | null) => Promise<void>;
+  fetchForgeRepoInfo: () => Promise<void>;
+  fetchCommitForgeInfo: (commitHash: string) => Promise<void>;
+  fetchGraphPullRequests: (hashes: string[]) => Promise<void>;
+  fetchGraphCheckStates: (hashes: string[]) => Promise<void>;
 
   // Submodule navigation actions
   setSelectedSubmodule: (submodule: Submodule | null) => void;
@@ -266,9 +345,48 @@ interface RepositoryState {
   navigateToRoot: () => void;
 }
 
+/**
+ * Whether the graph search has to run on the backend: either not every commit
+ * is loaded, or the search mode can't be evaluated on the loaded commits.
+ */
+export function needsServerSearch(
+  repository: Repository | null,
+  loadMode: LoadMode,
+  searchMode: SearchMode,
+): boolean {
+  if (!repository) return false;
+  if (searchMode !== "message") return true;
+  if (loadMode !== "full") return true;
+  return (repository.totalCommitCount || 0) > repository.commits.length;
+}
+
+// Map a search mode and query to the /repository/commits filter params
+function getSearchFilters(mode: SearchMode, query: string) {
+  switch (mode) {
+    case "code":
+      return { pickaxe: query, pickaxeMode: "string" as const };
+    case "code-regex":
+      return { pickaxe: query, pickaxeMode: "regex" as const };
+    case "path":
+      return { paths: [query] };
+    case "committer":
+      return { committers: [query] };
+    default:
+      return { grep: query };
+  }
+}
+
+// Incremented per search so stale responses can be dropped
+let latestSearchId = 0;
+
+// The forge info request in flight, shared by every caller for that repo
+let pendingForgeRepoInfo: { repoId: string; request: Promise<void> } | null =
+  null;
+
 // Cache helper functions for cloned repositories
 interface CloneCacheEntry {
-  path: string;
+  repoId: string; // Server session holding the clone
+  strategy?: CloneStrategy; // Missing for clones cached before strategies
   timestamp: number;
 }
 
@@ -287,12 +405,16 @@ function getCloneCache(): CloneCache {
 }
 
 /**
- * Save a cloned repository path to the cache
+ * Save a cloned repository's session to the cache
  */
-function saveToCache(url: string, path: string): void {
+function saveToCache(
+  url: string,
+  repoId: string,
+  strategy: CloneStrategy,
+): void {
   try {
     const cache = getCloneCache();
-    cache[url] = { path, timestamp: Date.now() };
+    cache[url] = { repoId, strategy, timestamp: Date.now() };
     localStorage.setItem("git-viz-cloned-repos", JSON.stringify(cache));
   } catch (error) {
     console.warn("Failed to save clone cache:", error);
@@ -312,6 +434,342 @@ function removeFromCache(url: string): void {
   }
 }
 
+// Labels for the phases of `git clone --progress`
+const CLONE_STAGE_LABELS: Record<string, string> = {
+  enumerating: "Enumerating objects",
+  counting: "Counting objects",
+  compressing: "Compressing objects",
+  receiving: "Receiving objects",
+  resolving: "Resolving deltas",
+};
+
+type StoreSet = StoreApi<RepositoryState>["setState"];
+type StoreGet = StoreApi<RepositoryState>["getState"];
+
+// Forge tokens are kept per host in localStorage, as JSON under "forge_tokens"
+const FORGE_TOKENS_KEY = "forge_tokens";
+
+// Per-forge keys from before tokens were per host; a Gitea token could have
+// been for any instance, so it isn't carried over
+const LEGACY_FORGE_TOKEN_HOSTS: Record<string, string> = {
+  github_token: "github.com",
+  gitlab_token: "gitlab.com",
+  bitbucket_token: "bitbucket.org",
+};
+
+function loadForgeTokens(): Record<string, string> {
+  let tokens: Record<string, string> = {};
+  try {
+    tokens = JSON.parse(localStorage.getItem(FORGE_TOKENS_KEY) || "{}");
+  } catch {
+    // Start over from a corrupt entry
+  }
+
+  let migrated = false;
+  for (const [key, host] of Object.entries(LEGACY_FORGE_TOKEN_HOSTS)) {
+    const token = localStorage.getItem(key);
+    if (token) {
+      tokens[host] ??= token;
+      migrated = true;
+    }
+  }
+  localStorage.removeItem("gitea_token");
+  if (migrated) {
+    saveForgeTokens(tokens);
+    Object.keys(LEGACY_FORGE_TOKEN_HOSTS).forEach((key) =>
+      localStorage.removeItem(key),
+    );
+  }
+  return tokens;
+}
+
+function saveForgeTokens(tokens: Record<string, string>): void {
+  localStorage.setItem(FORGE_TOKENS_KEY, JSON.stringify(tokens));
+}
+
+const NO_FORGE: ForgeRepoInfo = {
+  forge: null,
+  label: null,
+  host: null,
+  owner: null,
+  repo: null,
+  webUrl: null,
+  hasToken: false,
+  pullRequestOverlay: false,
+  checks: false,
+  checkOverlay: false,
+  metadata: null,
+};
+
+// Running analytics jobs, so closing the panel or the repository cancels them
+const analyticsControllers = new Map<AnalyticsKind, AbortController>();
+
+/**
+ * Run an analysis as a background job, mirroring its progress and partial
+ * results into `analyticsJobs`. Starting the same kind again cancels the
+ * previous run.
+ */
+function trackAnalyticsJob<K extends AnalyticsKind>(
+  set: StoreSet,
+  repoId: string,
+  kind: K,
+): Promise<AnalyticsJobResults[K]> {
+  analyticsControllers.get(kind)?.abort();
+  const controller = new AbortController();
+  analyticsControllers.set(kind, controller);
+
+  const setJob = (job: AnalyticsJob | undefined) => {
+    // A superseded run only reports that it was cancelled; ignore it
+    const current = analyticsControllers.get(kind);
+    if (current && current !== controller) return;
+    set((state) => ({
+      analyticsJobs: { ...state.analyticsJobs, [kind]: job },
+    }));
+  };
+  setJob(undefined);
+
+  return runAnalyticsJob(repoId, kind, {
+    signal: controller.signal,
+    onUpdate: setJob,
+  }).finally(() => {
+    if (analyticsControllers.get(kind) === controller) {
+      analyticsControllers.delete(kind);
+    }
+  });
+}
+
+// Commits per overlay request, the most the server takes
+const OVERLAY_LOOKUP_LIMIT = 2000;
+
+// A graph overlay's lookups in flight, and the commits already asked for
+interface OverlayLookups {
+  controllers: Set<AbortController>;
+  requested: Set<string>;
+}
+
+const pullRequestLookups: OverlayLookups = {
+  controllers: new Set(),
+  requested: new Set(),
+};
+const checkStateLookups: OverlayLookups = {
+  controllers: new Set(),
+  requested: new Set(),
+};
+
+// Stop overlay lookups and forget what was asked, e.g. for another repository
+function cancelOverlayLookups(): void {
+  for (const lookups of [pullRequestLookups, checkStateLookups]) {
+    lookups.controllers.forEach((controller) => controller.abort());
+    lookups.controllers.clear();
+    lookups.requested.clear();
+  }
+}
+
+/**
+ * Look up the commits among `hashes` an overlay neither has nor has asked
+ * for, OVERLAY_LOOKUP_LIMIT per request. Rejects with the first failure
+ * unless the lookups were cancelled meanwhile.
+ */
+async function runOverlayLookup(
+  lookups: OverlayLookups,
+  known: Map<string, unknown>,
+  hashes: string[],
+  lookup: (hashes: string[], signal: AbortSignal) => Promise<void>,
+): Promise<void> {
+  const missing = hashes.filter(
+    (hash) => !known.has(hash) && !lookups.requested.has(hash),
+  );
+  if (missing.length === 0) return;
+  missing.forEach((hash) => lookups.requested.add(hash));
+
+  const controller = new AbortController();
+  lookups.controllers.add(controller);
+  try {
+    for (let i = 0; i < missing.length; i += OVERLAY_LOOKUP_LIMIT) {
+      await lookup(
+        missing.slice(i, i + OVERLAY_LOOKUP_LIMIT),
+        controller.signal,
+      );
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+  } finally {
+    lookups.controllers.delete(controller);
+  }
+}
+
+/**
+ * Callbacks that fill the store from a metadata + commits stream, shared by
+ * streamed loads and clones. `onLoaded` runs once the stream completes.
+ */
+function createStreamCallbacks(
+  set: StoreSet,
+  get: StoreGet,
+  onLoaded?: (repository: Repository) => void,
+): StreamCallbacks {
+  const allCommits: Commit[] = [];
+
+  // Variables for throttled updates
+  let lastUpdateTime = 0;
+  let lastCommitCount = 0;
+
+  return {
+    onMetadata: (metadata: RepositoryMetadata) => {
+      set({
+        repository: {
+          id: metadata.id,
+          source: metadata.source,
+          path: metadata.path,
+          name: metadata.name,
+          currentBranch: metadata.currentBranch,
+          branches: metadata.branches,
+          tags: metadata.tags,
+          commits: [],
+          stats: metadata.stats,
+          refsFingerprint: metadata.refsFingerprint,
+          loadedCommitCount: 0,
+          totalCommitCount: metadata.stats.totalCommits,
+        },
+        loadingMessage: "Loading commits...",
+      });
+    },
+    onCommits: (commits: Commit[], progress: number, total: number) => {
+      allCommits.push(...commits);
+
+      // Helper to update state
+      const updateState = () => {
+        set((state) => ({
+          repository: state.repository
+            ? {
+                ...state.repository,
+                commits: [...allCommits],
+                loadedCommitCount: allCommits.length,
+                totalCommitCount: total,
+              }
+            : null,
+          loadingProgress: progress,
+          loadingMessage: `Loaded ${allCommits.length.toLocaleString()} of ${total.toLocaleString()} commits...`,
+        }));
+      };
+
+      // Throttled updates: only update if enough time passed or enough commits loaded
+      const now = Date.now();
+      const timeSinceLastUpdate = now - (lastUpdateTime || 0);
+      const commitsSinceLastUpdate = allCommits.length - (lastCommitCount || 0);
+
+      if (
+        !lastUpdateTime ||
+        timeSinceLastUpdate > 1000 ||
+        commitsSinceLastUpdate > 2000
+      ) {
+        lastUpdateTime = now;
+        lastCommitCount = allCommits.length;
+        updateState();
+      }
+    },
+    onComplete: () => {
+      // Flush commits held back by the throttle, then build the adjacency
+      // map for fast highlighting
+      set((state) => ({
+        repository: state.repository
+          ? {
+              ...state.repository,
+              commits: [...allCommits],
+              loadedCommitCount: allCommits.length,
+            }
+          : null,
+      }));
+      const finalState = get();
+      const adjacencyMap = finalState.repository?.commits
+        ? buildAdjacencyMap(finalState.repository.commits)
+        : null;
+      set({
+        isLoading: false,
+        loadingProgress: 100,
+        loadingMessage: "",
+        abortStream: null,
+        adjacencyMap,
+      });
+      if (finalState.repository) onLoaded?.(finalState.repository);
+    },
+    onError: (error: Error) => {
+      set({
+        error: error.message,
+        isLoading: false,
+        loadingProgress: -1,
+        loadingMessage: "",
+        abortStream: null,
+      });
+    },
+  };
+}
+
+// How long commits added by a refresh or the watcher are shown as new
+const NEW_COMMIT_HIGHLIGHT_MS = 2000;
+let newCommitsTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Merge history changes into the loaded graph instead of reloading it, so
+ * selection, filters and the viewport survive. Takes a whole refresh delta
+ * or a single watcher event (commits or refs).
+ */
+function mergeRepositoryChanges(
+  state: RepositoryState,
+  changes: Partial<RefreshDelta>,
+): Partial<RepositoryState> {
+  if (!state.repository) return {};
+
+  const removed = new Set(changes.removedCommits ?? []);
+  const redecorated = new Map(
+    (changes.redecoratedCommits ?? []).map((c) => [c.hash, c.refs]),
+  );
+  const withRefs = (commit: Commit): Commit => {
+    const refs = redecorated.get(commit.hash);
+    return refs ? { ...commit, refs } : commit;
+  };
+  const isRemoved = (commit: Commit) => removed.has(commit.hash);
+
+  const known = new Set(state.repository.commits.map((c) => c.hash));
+  const added = (changes.addedCommits ?? []).filter((c) => !known.has(c.hash));
+  const commits = [
+    ...added,
+    ...state.repository.commits.filter((c) => !isRemoved(c)).map(withRefs),
+  ];
+
+  const selectedCommit =
+    state.selectedCommit && !isRemoved(state.selectedCommit)
+      ? withRefs(state.selectedCommit)
+      : null;
+  const diffRange =
+    state.diffRange &&
+    !isRemoved(state.diffRange.from) &&
+    !isRemoved(state.diffRange.to)
+      ? state.diffRange
+      : null;
+
+  return {
+    repository: {
+      ...state.repository,
+      commits,
+      branches: changes.branches ?? state.repository.branches,
+      tags: changes.tags ?? state.repository.tags,
+      currentBranch: changes.currentBranch ?? state.repository.currentBranch,
+      stats: changes.stats ?? state.repository.stats,
+      refsFingerprint:
+        changes.refsFingerprint ?? state.repository.refsFingerprint,
+      loadedCommitCount: commits.length,
+      totalCommitCount:
+        changes.stats?.totalCommits ?? state.repository.totalCommitCount,
+    },
+    adjacencyMap: buildAdjacencyMap(commits),
+    selectedCommit,
+    diffRange,
+    newCommitHashes: added.length
+      ? new Set([...state.newCommitHashes, ...added.map((c) => c.hash)])
+      : state.newCommitHashes,
+  };
+}
+
 export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   repository: null,
   adjacencyMap: null,
@@ -321,21 +779,30 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   error: null,
   selectedCommit: null,
   searchQuery: "",
+  searchMode: "message",
+  searchResults: null,
+  searchTotal: 0,
+  isSearching: false,
+  searchError: null,
   repoStats: null,
   showLargeRepoWarning: false,
-  pendingPath: null,
+  pendingRepoId: null,
   loadMode: "full",
   abortStream: null,
 
   isTemporaryRepo: false,
+  isRefreshing: false,
+  newCommitHashes: new Set(),
   currentRequestId: null,
 
   // Diff viewer state
   activeTab: "details",
+  diffRange: null,
   diffStats: null,
   selectedFileDiff: null,
   isLoadingDiff: false,
   diffError: null,
+  wordDiff: localStorage.getItem("wordDiff") !== "false",
 
   // File tree state
   fileTree: [],
@@ -345,18 +812,32 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   isLoadingFile: false,
   fileError: null,
 
+  // File viewer mode and blame state
+  fileViewMode: "content",
+  blame: null,
+  isLoadingBlame: false,
+  blameError: null,
+
+  // File history state
+  fileHistory: null,
+  isLoadingFileHistory: false,
+  fileHistoryError: null,
+
   // Stats state
   contributorStats: null,
   activityHeatmap: null,
   isLoadingStats: false,
   statsError: null,
   showStatsPanel: false,
+  identityMerges: null,
 
   // Analytics state
+  analyticsCoverage: null,
   codeChurn: null,
   busFactor: null,
   commitPatterns: null,
   branchLifespans: null,
+  analyticsJobs: {},
 
   // Author filter state
   selectedAuthors: [],
@@ -375,12 +856,16 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   isLoadingSubmodule: false,
   submoduleError: null,
 
-  // GitHub integration state
-  githubRepoInfo: null,
-  githubToken: localStorage.getItem("github_token"),
-  commitGitHubInfo: new Map<string, CommitGitHubInfo>(),
-  isLoadingGitHubInfo: false,
-  githubError: null,
+  // Forge integration state
+  forgeRepoInfo: null,
+  forgeTokens: loadForgeTokens(),
+  commitForgeInfo: new Map<string, CommitForgeInfo>(),
+  isLoadingForgeInfo: false,
+  forgeError: null,
+  commitPullRequests: new Map<string, PullRequest[]>(),
+  pullRequestOverlayError: null,
+  commitCheckStates: new Map<string, CheckState | null>(),
+  checkOverlayError: null,
 
   // Date filter state
   dateFilter: null,
@@ -398,18 +883,21 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   compareTargetBranch: null,
   isLoadingComparison: false,
   comparisonError: null,
+  comparisonFileDiff: null,
 
   // Graph settings state
   graphSettings: {
     compactMode: false,
     hideMergeCommits: false,
     colorByAuthor: false,
+    onlyFailingCommits: false,
   },
   highlightedCommits: new Set<string>(),
 
   // Auth modal state (for private repos)
   showAuthModal: false,
   pendingCloneUrl: null,
+  pendingCloneStrategy: null,
   cloneToken: localStorage.getItem("clone_token"),
 
   loadRepo: async (path: string) => {
@@ -424,13 +912,17 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       isLoading: true,
       error: null,
       selectedCommit: null,
+      diffRange: null,
       loadingMessage: "Checking repository size...",
       loadingProgress: 10,
     });
 
     try {
+      // Start a server-side session; every later call uses its ID
+      const session = await openRepository(path);
+
       // First, get stats to check repo size
-      const stats = await getRepoStats(path);
+      const stats = await getRepoStats(session.id);
       set({ repoStats: stats });
 
       if (stats.isLargeRepo) {
@@ -438,7 +930,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
         set({
           isLoading: false,
           showLargeRepoWarning: true,
-          pendingPath: path,
+          pendingRepoId: session.id,
           loadingProgress: -1,
           loadingMessage: "",
         });
@@ -446,7 +938,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       }
 
       // Small repo - load normally
-      await get().loadRepoWithMode(path, "full");
+      await get().loadRepoWithMode(session.id, "full");
     } catch (error) {
       set({
         error: (error as Error).message,
@@ -457,7 +949,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     }
   },
 
-  loadRepoWithMode: async (path: string, mode: LoadMode) => {
+  loadRepoWithMode: async (repoId: string, mode: LoadMode) => {
     const { abortStream } = get();
     if (abortStream) {
       abortStream();
@@ -467,9 +959,10 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       isLoading: true,
       error: null,
       selectedCommit: null,
+      diffRange: null,
       loadMode: mode,
       showLargeRepoWarning: false,
-      pendingPath: null,
+      pendingRepoId: null,
     });
 
     try {
@@ -479,7 +972,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
           loadingMessage: "Fetching commits and branches...",
           loadingProgress: 50,
         });
-        const repository = await loadRepository(path);
+        const repository = await loadRepository(repoId);
         const repoData = {
           ...repository,
           loadedCommitCount: repository.commits.length,
@@ -496,91 +989,11 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
         // Streaming load for large repos
         set({ loadingMessage: "Starting stream...", loadingProgress: 5 });
 
-        const allCommits: Commit[] = [];
         const firstParent = mode === "simplified";
 
-        // Variables for throttled updates
-        let lastUpdateTime = 0;
-        let lastCommitCount = 0;
-
         const abort = streamRepository(
-          path,
-          {
-            onMetadata: (metadata: RepositoryMetadata) => {
-              set({
-                repository: {
-                  path: metadata.path,
-                  name: metadata.name,
-                  currentBranch: metadata.currentBranch,
-                  branches: metadata.branches,
-                  tags: metadata.tags,
-                  commits: [],
-                  stats: metadata.stats,
-                  loadedCommitCount: 0,
-                  totalCommitCount: metadata.stats.totalCommits,
-                },
-                loadingMessage: "Loading commits...",
-              });
-            },
-            onCommits: (commits: Commit[], progress: number, total: number) => {
-              allCommits.push(...commits);
-
-              // Helper to update state
-              const updateState = () => {
-                set((state) => ({
-                  repository: state.repository
-                    ? {
-                        ...state.repository,
-                        commits: [...allCommits],
-                        loadedCommitCount: allCommits.length,
-                        totalCommitCount: total,
-                      }
-                    : null,
-                  loadingProgress: progress,
-                  loadingMessage: `Loaded ${allCommits.length.toLocaleString()} of ${total.toLocaleString()} commits...`,
-                }));
-              };
-
-              // Throttled updates: only update if enough time passed or enough commits loaded
-              const now = Date.now();
-              const timeSinceLastUpdate = now - (lastUpdateTime || 0);
-              const commitsSinceLastUpdate =
-                allCommits.length - (lastCommitCount || 0);
-
-              if (
-                !lastUpdateTime ||
-                timeSinceLastUpdate > 1000 ||
-                commitsSinceLastUpdate > 2000
-              ) {
-                lastUpdateTime = now;
-                lastCommitCount = allCommits.length;
-                updateState();
-              }
-            },
-            onComplete: () => {
-              // Build adjacency map after streaming completes for fast highlighting
-              const finalState = get();
-              const adjacencyMap = finalState.repository?.commits
-                ? buildAdjacencyMap(finalState.repository.commits)
-                : null;
-              set({
-                isLoading: false,
-                loadingProgress: 100,
-                loadingMessage: "",
-                abortStream: null,
-                adjacencyMap,
-              });
-            },
-            onError: (error: Error) => {
-              set({
-                error: error.message,
-                isLoading: false,
-                loadingProgress: -1,
-                loadingMessage: "",
-                abortStream: null,
-              });
-            },
-          },
+          repoId,
+          createStreamCallbacks(set, get),
           { chunkSize: 1000, firstParent },
         );
 
@@ -607,7 +1020,9 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({ isLoading: true, loadingMessage: "Loading more commits..." });
 
     try {
-      const result = await getCommitsPaginated(repository.path, {
+      // Continue the server-side walk when we have a cursor for it
+      const result = await getCommitsPaginated(repository.id, {
+        cursor: repository.commitCursor,
         skip: currentCount,
         maxCount: 1000,
         firstParent: loadMode === "simplified",
@@ -621,6 +1036,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
             ...state.repository,
             commits: newCommits,
             loadedCommitCount: newCommits.length,
+            commitCursor: result.cursor,
           },
           adjacencyMap: buildAdjacencyMap(newCommits), // Rebuild for new commits
           isLoading: false,
@@ -636,9 +1052,16 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     }
   },
 
-  cloneRepo: async (url: string, options: { token?: string } = {}) => {
-    const { token } = options;
-    const { cloneToken } = get();
+  cloneRepo: async (
+    url: string,
+    options: { token?: string; strategy?: CloneStrategyOptions } = {},
+  ) => {
+    const { token, strategy } = options;
+    const { cloneToken, abortStream } = get();
+    if (abortStream) {
+      abortStream();
+      set({ abortStream: null });
+    }
 
     // Use provided token, or fall back to stored token
     const authToken = token || cloneToken || undefined;
@@ -651,6 +1074,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       currentRequestId: requestId,
       error: null,
       selectedCommit: null,
+      diffRange: null,
       loadingMessage: "Checking cache...",
       loadingProgress: -1,
     });
@@ -659,24 +1083,26 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       // Check if we have a cached clone for this URL
       const cache = getCloneCache();
       const cached = cache[url];
+      const cloneStrategy = strategy?.strategy ?? "full";
 
-      if (cached) {
+      // Only reuse a clone made with the strategy asked for
+      if (cached && (cached.strategy ?? "full") === cloneStrategy) {
         set({
           loadingMessage: "Validating cached repository...",
           loadingProgress: 10,
         });
 
-        // Validate that the cached path still exists
-        const isValid = await validateRepository(cached.path);
+        // Validate that the clone's session hasn't expired
+        const isValid = await validateRepository(cached.repoId);
 
         if (isValid) {
-          // Use cached repository path
+          // Use cached repository session
           set({
             loadingMessage: "Loading from cache...",
             loadingProgress: 50,
           });
 
-          const repository = await loadRepository(cached.path);
+          const repository = await loadRepository(cached.repoId);
 
           // Check for cancellation
           if (get().currentRequestId !== requestId) {
@@ -698,79 +1124,77 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
           });
           return;
         } else {
-          // Cached path no longer exists, remove from cache
+          // Session expired and the clone was removed, drop it from cache
           removeFromCache(url);
         }
       }
 
-      // No valid cache, proceed with fresh clone
+      // No valid cache, clone and stream the result as it arrives
       set({
-        loadingMessage: "Cloning repository (bare)...",
-        loadingProgress: 20,
+        loadingMessage: "Connecting to remote...",
+        loadingProgress: -1,
+        loadMode: "paginated",
       });
 
-      set({
-        loadingMessage: "Downloading repository data...",
-        loadingProgress: 30,
+      const callbacks = createStreamCallbacks(set, get, (repository) => {
+        // Save to cache for future reuse
+        saveToCache(url, repository.id, cloneStrategy);
       });
-      const repository = await cloneRepository(url, {
-        token: authToken,
-      });
-
-      // Check for cancellation or race condition
-      if (get().currentRequestId !== requestId) {
-        // User cancelled or started another request - cleanup and abort
-        await cleanupRepository(repository.path);
-        return;
-      }
-
-      // Check if it's a large repo after cloning
-      const stats = await getRepoStats(repository.path);
-      set({ repoStats: stats });
 
-      if (stats.isLargeRepo) {
-        // Show warning for large repos - store the path for later loading
-        set({
-          isLoading: false,
-          showLargeRepoWarning: true,
-          pendingPath: repository.path,
-          loadingProgress: -1,
-          loadingMessage: "",
-          isTemporaryRepo: true, // Mark as temporary so it gets cleaned up if user cancels or later resets
-        });
-        return;
-      }
+      let cloned = false;
+      const abort = cloneRepository(
+        url,
+        {
+          ...callbacks,
+          onProgress: (progress: CloneProgress) => {
+            const label = CLONE_STAGE_LABELS[progress.stage] ?? "Cloning";
+            set({
+              loadingMessage: `${label} (${progress.processed.toLocaleString()}/${progress.total.toLocaleString()})...`,
+              loadingProgress: progress.progress,
+            });
+          },
+          onMetadata: (metadata: RepositoryMetadata) => {
+            cloned = true;
+            callbacks.onMetadata(metadata);
+            // Cloned repos are temporary and should be cleaned up
+            set({ isTemporaryRepo: true });
+          },
+          onError: (error: Error) => {
+            // Check if this is an auth error
+            if (error instanceof AuthRequiredError) {
+              set({
+                isLoading: false,
+                loadingProgress: -1,
+                loadingMessage: "",
+                abortStream: null,
+                showAuthModal: true,
+                pendingCloneUrl: url,
+                pendingCloneStrategy: strategy ?? null,
+                error: null,
+              });
+              return;
+            }
+            callbacks.onError(error);
+          },
+        },
+        { token: authToken, strategy, chunkSize: 1000 },
+      );
 
-      set({ loadingProgress: 90, loadingMessage: "Building graph..." });
+      // Aborting an unfinished clone makes the server delete it, so drop
+      // whatever was already shown of it
       set({
-        repository: {
-          ...repository,
-          loadedCommitCount: repository.commits.length,
-          totalCommitCount: repository.commits.length,
+        abortStream: () => {
+          abort();
+          if (cloned) {
+            set({
+              repository: null,
+              adjacencyMap: null,
+              isTemporaryRepo: false,
+            });
+          }
         },
-        adjacencyMap: buildAdjacencyMap(repository.commits),
-        isTemporaryRepo: true, // Cloned repos are temporary and should be cleaned up
-        isLoading: false,
-        loadingProgress: 100,
-        loadingMessage: "",
       });
-
-      // Save to cache for future reuse
-      saveToCache(url, repository.path);
     } catch (error) {
-      // Check if this is an auth error
-      if (error instanceof AuthRequiredError) {
-        set({
-          isLoading: false,
-          loadingProgress: -1,
-          loadingMessage: "",
-          showAuthModal: true,
-          pendingCloneUrl: url,
-          error: null,
-        });
-        return;
-      }
-
       set({
         error: (error as Error).message,
         isLoading: false,
@@ -784,11 +1208,12 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({
       showAuthModal: false,
       pendingCloneUrl: null,
+      pendingCloneStrategy: null,
     });
   },
 
   retryCloneWithToken: async (token: string, saveToken: boolean = true) => {
-    const { pendingCloneUrl } = get();
+    const { pendingCloneUrl, pendingCloneStrategy } = get();
 
     if (!pendingCloneUrl) return;
 
@@ -802,11 +1227,13 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({
       showAuthModal: false,
       pendingCloneUrl: null,
+      pendingCloneStrategy: null,
     });
 
     // Retry clone with token
     await get().cloneRepo(pendingCloneUrl, {
       token,
+      strategy: pendingCloneStrategy ?? undefined,
     });
   },
 
@@ -815,6 +1242,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       isLoading: true,
       error: null,
       selectedCommit: null,
+      diffRange: null,
       loadingMessage: "Uploading ZIP...",
       loadingProgress: 20,
     });
@@ -829,6 +1257,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
           totalCommitCount: repository.commits.length,
         },
         adjacencyMap: buildAdjacencyMap(repository.commits),
+        isTemporaryRepo: true, // Uploads live in a temp dir until cleanup
         isLoading: false,
         loadingProgress: 100,
         loadingMessage: "",
@@ -848,6 +1277,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       isLoading: true,
       error: null,
       selectedCommit: null,
+      diffRange: null,
       loadingMessage: "Uploading files...",
       loadingProgress: 20,
     });
@@ -862,6 +1292,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
           totalCommitCount: repository.commits.length,
         },
         adjacencyMap: buildAdjacencyMap(repository.commits),
+        isTemporaryRepo: true, // Uploads live in a temp dir until cleanup
         isLoading: false,
         loadingProgress: 100,
         loadingMessage: "",
@@ -898,6 +1329,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({
       selectedCommit: commit,
       highlightedCommits: highlighted,
+      diffRange: null,
       // Clear diff and file state when changing commits
       diffStats: null,
       selectedFileDiff: null,
@@ -906,51 +1338,159 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       expandedPaths: new Set<string>(),
       selectedFile: null,
       fileError: null,
+      fileHistory: null,
+      fileHistoryError: null,
+      blame: null,
+      blameError: null,
       activeTab: "details",
     });
   },
 
-  setSearchQuery: (query) => set({ searchQuery: query }),
+  setSearchQuery: (query) => {
+    if (!query.trim()) {
+      latestSearchId++;
+      set({
+        searchQuery: query,
+        searchResults: null,
+        searchTotal: 0,
+        isSearching: false,
+        searchError: null,
+      });
+      return;
+    }
+    set({ searchQuery: query });
+  },
+
+  setSearchMode: (mode) => {
+    latestSearchId++;
+    set({
+      searchMode: mode,
+      searchResults: null,
+      searchTotal: 0,
+      isSearching: false,
+      searchError: null,
+    });
+  },
+
+  searchCommits: async () => {
+    const {
+      repository,
+      searchQuery,
+      searchMode,
+      dateFilter,
+      selectedBranchFilter,
+      selectedTagFilter,
+      selectedAuthors,
+    } = get();
+    const query = searchQuery.trim();
+    if (!repository || !query) return;
+
+    const searchId = ++latestSearchId;
+    set({ isSearching: true, searchError: null });
+
+    try {
+      // Search the whole history, not just the first-parent chain
+      const result = await getCommitsPaginated(repository.id, {
+        maxCount: 1000,
+        skip: 0,
+        dateRange: dateFilter || undefined,
+        branch: selectedBranchFilter || selectedTagFilter || undefined,
+        authors: selectedAuthors.length > 0 ? selectedAuthors : undefined,
+        ...getSearchFilters(searchMode, query),
+      });
+
+      // A newer search (or a cleared query) superseded this one
+      if (searchId !== latestSearchId) return;
+
+      set({
+        searchResults: result.commits,
+        searchTotal: result.total,
+        isSearching: false,
+      });
+    } catch (error) {
+      if (searchId !== latestSearchId) return;
+      set({
+        searchError: (error as Error).message,
+        searchResults: [],
+        searchTotal: 0,
+        isSearching: false,
+      });
+    }
+  },
 
   dismissLargeRepoWarning: () => {
-    const { pendingPath, isTemporaryRepo } = get();
+    const { pendingRepoId, isTemporaryRepo } = get();
 
     // Cleanup temporary repository files if user cancels loading a large cloned repo
-    if (pendingPath && isTemporaryRepo) {
-      cleanupRepository(pendingPath).catch(() => {
+    if (pendingRepoId && isTemporaryRepo) {
+      cleanupRepository(pendingRepoId).catch(() => {
         // Silently fail
       });
     }
 
     set({
       showLargeRepoWarning: false,
-      pendingPath: null,
+      pendingRepoId: null,
       isLoading: false,
       isTemporaryRepo: false,
     });
   },
 
   confirmLoadLargeRepo: (mode: LoadMode) => {
-    const { pendingPath } = get();
-    if (pendingPath) {
-      get().loadRepoWithMode(pendingPath, mode);
+    const { pendingRepoId } = get();
+    if (pendingRepoId) {
+      get().loadRepoWithMode(pendingRepoId, mode);
     }
   },
 
   cancelClone: () => {
+    const { abortStream } = get();
+    if (abortStream) {
+      abortStream();
+    }
     set({
       isLoading: false,
       loadingMessage: "",
       currentRequestId: null,
+      abortStream: null,
     });
   },
 
+  refreshRepository: async () => {
+    const { repository, isRefreshing, isLoading } = get();
+    if (!repository || isRefreshing || isLoading) return;
+
+    set({ isRefreshing: true, error: null });
+
+    try {
+      const delta = await refreshRepositoryApi(repository.id);
+      if (get().repository?.id === repository.id) {
+        get().applyRepositoryChanges(delta);
+      }
+      set({ isRefreshing: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isRefreshing: false });
+    }
+  },
+
+  applyRepositoryChanges: (changes: Partial<RefreshDelta>) => {
+    set((state) => mergeRepositoryChanges(state, changes));
+
+    if (changes.addedCommits?.length) {
+      if (newCommitsTimer) clearTimeout(newCommitsTimer);
+      newCommitsTimer = setTimeout(() => {
+        newCommitsTimer = null;
+        set({ newCommitHashes: new Set() });
+      }, NEW_COMMIT_HIGHLIGHT_MS);
+    }
+  },
+
   reset: () => {
     const { abortStream, repository, isTemporaryRepo } = get();
 
     // Cleanup temporary repository files (cloned/uploaded repos)
     if (repository && isTemporaryRepo) {
-      cleanupRepository(repository.path).catch(() => {
+      cleanupRepository(repository.id).catch(() => {
         // Silently fail - cleanup is best effort
       });
     }
@@ -958,17 +1498,28 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     if (abortStream) {
       abortStream();
     }
+    // Drop any in-flight search response
+    latestSearchId++;
+    get().cancelAnalytics();
+    cancelOverlayLookups();
     set({
       repository: null,
       adjacencyMap: null,
       selectedCommit: null,
+      diffRange: null,
       searchQuery: "",
+      searchResults: null,
+      searchTotal: 0,
+      isSearching: false,
+      searchError: null,
       error: null,
       repoStats: null,
       showLargeRepoWarning: false,
-      pendingPath: null,
+      pendingRepoId: null,
       abortStream: null,
       isTemporaryRepo: false,
+      isRefreshing: false,
+      newCommitHashes: new Set(),
       // Reset diff and file tree state
       activeTab: "details",
       diffStats: null,
@@ -981,18 +1532,35 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       isLoadingTree: false,
       isLoadingFile: false,
       fileError: null,
+      fileHistory: null,
+      isLoadingFileHistory: false,
+      fileHistoryError: null,
+      fileViewMode: "content",
+      blame: null,
+      isLoadingBlame: false,
+      blameError: null,
       // Reset stats and submodules state
       contributorStats: null,
       activityHeatmap: null,
       isLoadingStats: false,
       statsError: null,
       showStatsPanel: false,
+      identityMerges: null,
       submodules: null,
+      // Reset forge state
+      forgeRepoInfo: null,
+      commitForgeInfo: new Map<string, CommitForgeInfo>(),
+      commitPullRequests: new Map<string, PullRequest[]>(),
+      pullRequestOverlayError: null,
+      commitCheckStates: new Map<string, CheckState | null>(),
+      checkOverlayError: null,
       // Reset analytics state
+      analyticsCoverage: null,
       codeChurn: null,
       busFactor: null,
       commitPatterns: null,
       branchLifespans: null,
+      analyticsJobs: {},
       // Reset author filter
       selectedAuthors: [],
       // Reset date filter, branch/tag filter and branch comparison state
@@ -1005,11 +1573,13 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       compareTargetBranch: null,
       isLoadingComparison: false,
       comparisonError: null,
+      comparisonFileDiff: null,
       // Reset graph settings (keep defaults)
       graphSettings: {
         compactMode: false,
         hideMergeCommits: false,
         colorByAuthor: false,
+        onlyFailingCommits: false,
       },
       highlightedCommits: new Set<string>(),
     });
@@ -1018,8 +1588,32 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   // Diff and file tree actions
   setActiveTab: (tab) => set({ activeTab: tab }),
 
+  setDiffRange: (from, to) => {
+    // Always diff from the older commit so additions read forwards in time
+    const [older, newer] =
+      new Date(from.date).getTime() <= new Date(to.date).getTime()
+        ? [from, to]
+        : [to, from];
+
+    // The newer end is selected; ring the older end instead of neighbours
+    get().setSelectedCommit(newer);
+    set({
+      diffRange: { from: older, to: newer },
+      highlightedCommits: new Set([older.hash]),
+      activeTab: "changes",
+    });
+    get().fetchDiffStats();
+  },
+
+  clearDiffRange: () => {
+    const { diffRange, setSelectedCommit } = get();
+    if (!diffRange) return;
+    // Back to the single-commit view of the newer end
+    setSelectedCommit(diffRange.to);
+  },
+
   fetchDiffStats: async () => {
-    const { repository, selectedCommit } = get();
+    const { repository, selectedCommit, diffRange } = get();
     if (!repository || !selectedCommit) return;
 
     set({
@@ -1030,10 +1624,13 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const stats = await getCommitDiffStats(
-        repository.path,
-        selectedCommit.hash,
-      );
+      const stats = diffRange
+        ? await getRangeDiff(
+            repository.id,
+            diffRange.from.hash,
+            diffRange.to.hash,
+          )
+        : await getCommitDiffStats(repository.id, selectedCommit.hash);
       set({ diffStats: stats, isLoadingDiff: false });
     } catch (error) {
       set({ diffError: (error as Error).message, isLoadingDiff: false });
@@ -1041,17 +1638,20 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
   },
 
   fetchFileDiff: async (filePath: string) => {
-    const { repository, selectedCommit } = get();
+    const { repository, selectedCommit, diffRange } = get();
     if (!repository || !selectedCommit) return;
 
     set({ isLoadingDiff: true, diffError: null });
 
     try {
-      const diff = await getCommitFileDiff(
-        repository.path,
-        selectedCommit.hash,
-        filePath,
-      );
+      const diff = diffRange
+        ? await getRangeFileDiff(
+            repository.id,
+            diffRange.from.hash,
+            diffRange.to.hash,
+            filePath,
+          )
+        : await getCommitFileDiff(repository.id, selectedCommit.hash, filePath);
       set({ selectedFileDiff: diff, isLoadingDiff: false });
     } catch (error) {
       set({ diffError: (error as Error).message, isLoadingDiff: false });
@@ -1060,6 +1660,12 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
 
   clearFileDiff: () => set({ selectedFileDiff: null }),
 
+  toggleWordDiff: () => {
+    const wordDiff = !get().wordDiff;
+    localStorage.setItem("wordDiff", String(wordDiff));
+    set({ wordDiff });
+  },
+
   fetchFileTreeRoot: async () => {
     const { repository, selectedCommit } = get();
     if (!repository || !selectedCommit) return;
@@ -1072,7 +1678,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const tree = await getFileTree(repository.path, selectedCommit.hash);
+      const tree = await getFileTree(repository.id, selectedCommit.hash);
       set({ fileTree: tree, isLoadingTree: false });
     } catch (error) {
       set({ fileError: (error as Error).message, isLoadingTree: false });
@@ -1085,7 +1691,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
 
     try {
       const children = await getFileTree(
-        repository.path,
+        repository.id,
         selectedCommit.hash,
         treePath,
       );
@@ -1131,7 +1737,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
 
     try {
       const content = await getFileContent(
-        repository.path,
+        repository.id,
         selectedCommit.hash,
         filePath,
       );
@@ -1141,7 +1747,84 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     }
   },
 
-  clearFileContent: () => set({ selectedFile: null }),
+  clearFileContent: () =>
+    set({ selectedFile: null, fileHistory: null, blame: null }),
+
+  setFileViewMode: (mode: FileViewMode) => set({ fileViewMode: mode }),
+
+  fetchBlame: async (filePath: string) => {
+    const { repository, selectedCommit } = get();
+    if (!repository || !selectedCommit) return;
+
+    set({ isLoadingBlame: true, blameError: null, blame: null });
+
+    try {
+      const blame = await getBlame(
+        repository.id,
+        selectedCommit.hash,
+        filePath,
+      );
+      set({ blame, isLoadingBlame: false });
+    } catch (error) {
+      set({ blameError: (error as Error).message, isLoadingBlame: false });
+    }
+  },
+
+  openBlameCommit: async (commitHash: string, filePath: string) => {
+    const { repository } = get();
+    if (!repository) return;
+
+    try {
+      // The commit may be outside the loaded window in paginated mode
+      const commit =
+        repository.commits.find((c) => c.hash === commitHash) ||
+        (await getCommit(repository.id, commitHash));
+
+      // Select it in the graph, then reopen the file there in blame mode
+      get().setSelectedCommit(commit);
+      set({ activeTab: "files", fileViewMode: "blame" });
+      await get().fetchFileContent(filePath);
+    } catch (error) {
+      set({ blameError: (error as Error).message });
+    }
+  },
+
+  fetchFileHistory: async (filePath: string) => {
+    const { repository, selectedCommit } = get();
+    if (!repository || !selectedCommit) return;
+
+    set({
+      isLoadingFileHistory: true,
+      fileHistoryError: null,
+      fileHistory: null,
+    });
+
+    try {
+      const history = await getFileHistory(repository.id, filePath, {
+        ref: selectedCommit.hash,
+      });
+      set({ fileHistory: history, isLoadingFileHistory: false });
+    } catch (error) {
+      set({
+        fileHistoryError: (error as Error).message,
+        isLoadingFileHistory: false,
+      });
+    }
+  },
+
+  openFileHistoryEntry: async (entry: FileHistoryEntry) => {
+    // Prefer the loaded commit object so graph selection stays consistent
+    const commit =
+      get().repository?.commits.find((c) => c.hash === entry.commit.hash) ||
+      entry.commit;
+
+    get().setSelectedCommit(commit);
+    set({ activeTab: "changes" });
+
+    // Load stats first: fetchDiffStats clears any selected file diff
+    await get().fetchDiffStats();
+    await get().fetchFileDiff(entry.path);
+  },
 
   // Stats and submodule actions
   fetchStats: async () => {
@@ -1151,16 +1834,25 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({ isLoadingStats: true, statsError: null });
 
     try {
+      // Both read the same history pass on the server
       const [contributors, activity] = await Promise.all([
-        getContributorStats(repository.path),
-        getActivityHeatmap(repository.path),
+        trackAnalyticsJob(set, repository.id, "contributors"),
+        trackAnalyticsJob(set, repository.id, "activity"),
       ]);
       set({
-        contributorStats: contributors,
-        activityHeatmap: activity,
+        contributorStats: contributors.data,
+        activityHeatmap: activity.data,
+        analyticsCoverage: contributors.coverage,
         isLoadingStats: false,
       });
     } catch (error) {
+      if (error instanceof JobCancelledError) {
+        // Unless a newer fetch took over
+        if (!analyticsControllers.has("contributors")) {
+          set({ isLoadingStats: false });
+        }
+        return;
+      }
       set({ statsError: (error as Error).message, isLoadingStats: false });
     }
   },
@@ -1170,18 +1862,94 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     const newShow = !showStatsPanel;
     set({ showStatsPanel: newShow });
 
+    // Nothing shows the results until the panel is opened again
+    if (!newShow) {
+      get().cancelAnalytics();
+    }
+
     // Fetch stats when opening panel if not already loaded
     if (newShow && repository && !contributorStats) {
       get().fetchStats();
     }
   },
 
+  fetchIdentityMerges: async () => {
+    const { repository } = get();
+    if (!repository) return;
+
+    try {
+      const merges = await getIdentityMerges(repository.id);
+      set({ identityMerges: merges });
+    } catch (error) {
+      set({ statsError: (error as Error).message });
+    }
+  },
+
+  updateIdentityMerges: async (merges: IdentityMerge[]) => {
+    const { repository, identityMerges: previous } = get();
+    if (!repository) return;
+
+    try {
+      const saved = await saveIdentityMerges(repository.id, merges);
+
+      // Re-attribute the loaded commits right away; later loads come merged
+      const byAlias = new Map(saved.map((m) => [m.aliasEmail, m]));
+      // A merged commit no longer knows its original author, so dropping or
+      // retargeting a merge needs the commits again from the server
+      const undone = (previous ?? []).some(
+        (m) =>
+          byAlias.get(m.aliasEmail)?.email !== m.email ||
+          byAlias.get(m.aliasEmail)?.name !== m.name,
+      );
+      const remap = (author: Author): Author => {
+        const merge = byAlias.get(author.email.toLowerCase());
+        return merge ? { name: merge.name, email: merge.email } : author;
+      };
+
+      set((state) => ({
+        identityMerges: saved,
+        repository: state.repository
+          ? {
+              ...state.repository,
+              commits: state.repository.commits.map((commit) => {
+                const author = remap(commit.author);
+                return author === commit.author
+                  ? commit
+                  : { ...commit, author };
+              }),
+            }
+          : null,
+        selectedAuthors: [
+          ...new Set(
+            state.selectedAuthors.map(
+              (email) => byAlias.get(email.toLowerCase())?.email ?? email,
+            ),
+          ),
+        ],
+        // Aggregates were computed with the previous identities
+        contributorStats: null,
+        activityHeatmap: null,
+        analyticsCoverage: null,
+        codeChurn: null,
+        busFactor: null,
+        commitPatterns: null,
+      }));
+
+      if (undone) {
+        await get().loadRepoWithMode(repository.id, get().loadMode);
+      }
+      await get().fetchStats();
+    } catch (error) {
+      set({ statsError: (error as Error).message });
+    }
+  },
+
   fetchSubmodules: async () => {
     const { repository } = get();
     if (!repository) return;
 
     try {
-      const submodules = await getSubmodules(repository.path);
+      const submodules = await getSubmodules(repository.id);
       set({ submodules });
     } catch {
       // Silently fail - submodules are optional
@@ -1195,9 +1963,14 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     if (!repository) return;
 
     try {
-      const data = await getCodeChurn(repository.path);
-      set({ codeChurn: data });
+      const { data, coverage } = await trackAnalyticsJob(
+        set,
+        repository.id,
+        "codeChurn",
+      );
+      set({ codeChurn: data, analyticsCoverage: coverage });
     } catch (error) {
+      if (error instanceof JobCancelledError) return;
       set({ statsError: (error as Error).message });
     }
   },
@@ -1207,9 +1980,14 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     if (!repository) return;
 
     try {
-      const data = await getBusFactor(repository.path);
-      set({ busFactor: data });
+      const { data, coverage } = await trackAnalyticsJob(
+        set,
+        repository.id,
+        "busFactor",
+      );
+      set({ busFactor: data, analyticsCoverage: coverage });
     } catch (error) {
+      if (error instanceof JobCancelledError) return;
       set({ statsError: (error as Error).message });
     }
   },
@@ -1219,9 +1997,14 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     if (!repository) return;
 
     try {
-      const data = await getCommitPatterns(repository.path);
-      set({ commitPatterns: data });
+      const { data, coverage } = await trackAnalyticsJob(
+        set,
+        repository.id,
+        "commitPatterns",
+      );
+      set({ commitPatterns: data, analyticsCoverage: coverage });
     } catch (error) {
+      if (error instanceof JobCancelledError) return;
       set({ statsError: (error as Error).message });
     }
   },
@@ -1231,13 +2014,25 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     if (!repository) return;
 
     try {
-      const data = await getBranchLifespans(repository.path);
+      const { data } = await trackAnalyticsJob(
+        set,
+        repository.id,
+        "branchLifespans",
+      );
       set({ branchLifespans: data });
     } catch (error) {
+      if (error instanceof JobCancelledError) return;
       set({ statsError: (error as Error).message });
     }
   },
 
+  cancelAnalytics: (kinds) => {
+    for (const kind of kinds ?? [...analyticsControllers.keys()]) {
+      analyticsControllers.get(kind)?.abort();
+      analyticsControllers.delete(kind);
+    }
+  },
+
   // Author filter actions
   setSelectedAuthors: async (authors: string[]) => {
     const { repository, dateFilter, loadMode, selectedBranchFilter } = get();
@@ -1254,7 +2049,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const result = await getCommitsPaginated(repository.path, {
+      const result = await getCommitsPaginated(repository.id, {
         maxCount: 1000,
         skip: 0,
         firstParent: loadMode === "simplified",
@@ -1273,6 +2068,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
             commits: result.commits,
             loadedCommitCount: result.commits.length,
             totalCommitCount: result.total,
+            commitCursor: result.cursor,
           },
           adjacencyMap: buildAdjacencyMap(result.commits),
           isLoading: false,
@@ -1333,7 +2129,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const result = await getCommitsPaginated(repository.path, {
+      const result = await getCommitsPaginated(repository.id, {
         maxCount: 1000,
         skip: 0,
         firstParent: loadMode === "simplified",
@@ -1352,6 +2148,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
             commits: result.commits,
             loadedCommitCount: result.commits.length,
             totalCommitCount: result.total,
+            commitCursor: result.cursor,
           },
           adjacencyMap: buildAdjacencyMap(result.commits),
           isLoading: false,
@@ -1385,7 +2182,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const result = await getCommitsPaginated(repository.path, {
+      const result = await getCommitsPaginated(repository.id, {
         maxCount: 1000,
         skip: 0,
         firstParent: loadMode === "simplified",
@@ -1404,6 +2201,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
             commits: result.commits,
             loadedCommitCount: result.commits.length,
             totalCommitCount: result.total,
+            commitCursor: result.cursor,
           },
           adjacencyMap: buildAdjacencyMap(result.commits),
           isLoading: false,
@@ -1437,7 +2235,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     });
 
     try {
-      const result = await getCommitsPaginated(repository.path, {
+      const result = await getCommitsPaginated(repository.id, {
         maxCount: 1000,
         skip: 0,
         firstParent: loadMode === "simplified",
@@ -1456,6 +2254,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
             commits: result.commits,
             loadedCommitCount: result.commits.length,
             totalCommitCount: result.total,
+            commitCursor: result.cursor,
           },
           adjacencyMap: buildAdjacencyMap(result.commits),
           isLoading: false,
@@ -1490,6 +2289,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
         compareTargetBranch: otherBranch,
         branchComparison: null,
         comparisonError: null,
+        comparisonFileDiff: null,
       });
     }
   },
@@ -1503,6 +2303,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
       compareTargetBranch: targetBranch,
       branchComparison: null,
       comparisonError: null,
+      comparisonFileDiff: null,
     });
   },
 
@@ -1510,11 +2311,15 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     const { repository, compareBaseBranch, compareTargetBranch } = get();
     if (!repository || !compareBaseBranch || !compareTargetBranch) return;
 
-    set({ isLoadingComparison: true, comparisonError: null });
+    set({
+      isLoadingComparison: true,
+      comparisonError: null,
+      comparisonFileDiff: null,
+    });
 
     try {
       const comparison = await compareBranches(
-        repository.path,
+        repository.id,
         compareBaseBranch,
         compareTargetBranch,
       );
@@ -1527,6 +2332,30 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     }
   },
 
+  fetchComparisonFileDiff: async (filePath: string) => {
+    const { repository, branchComparison } = get();
+    if (!repository || !branchComparison) return;
+
+    set({ isLoadingComparison: true, comparisonError: null });
+
+    try {
+      const diff = await getRangeFileDiff(
+        repository.id,
+        branchComparison.baseBranch,
+        branchComparison.compareBranch,
+        filePath,
+      );
+      set({ comparisonFileDiff: diff, isLoadingComparison: false });
+    } catch (error) {
+      set({
+        comparisonError: (error as Error).message,
+        isLoadingComparison: false,
+      });
+    }
+  },
+
+  clearComparisonFileDiff: () => set({ comparisonFileDiff: null }),
+
   // Graph settings actions
   toggleCompactMode: () => {
     set((state) => ({
@@ -1555,76 +2384,167 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     }));
   },
 
-  // GitHub integration actions
-  setGitHubToken: async (token: string | null) => {
+  toggleOnlyFailingCommits: () => {
+    set((state) => ({
+      graphSettings: {
+        ...state.graphSettings,
+        onlyFailingCommits: !state.graphSettings.onlyFailingCommits,
+      },
+    }));
+  },
+
+  // Forge integration actions
+  setForgeToken: async (host: string, token: string | null) => {
     try {
-      await setGitHubTokenApi(token);
-      if (token) {
-        localStorage.setItem("github_token", token);
-      } else {
-        localStorage.removeItem("github_token");
-      }
-      set({ githubToken: token, githubError: null });
-      // Refresh repo info after setting token
-      get().fetchGitHubRepoInfo();
+      await setForgeTokenApi(host, token);
+      const forgeTokens = { ...get().forgeTokens };
+      if (token) forgeTokens[host] = token;
+      else delete forgeTokens[host];
+      saveForgeTokens(forgeTokens);
+      // A new token may lift whatever stopped the overlays
+      cancelOverlayLookups();
+      set({
+        forgeTokens,
+        forgeError: null,
+        pullRequestOverlayError: null,
+        checkOverlayError: null,
+      });
+      // Refresh repo info after setting token, superseding any older request
+      pendingForgeRepoInfo = null;
+      get().fetchForgeRepoInfo();
     } catch (error) {
-      set({ githubError: (error as Error).message });
+      set({ forgeError: (error as Error).message });
     }
   },
 
-  fetchGitHubRepoInfo: async () => {
-    const { repository, githubToken } = get();
+  fetchForgeRepoInfo: async () => {
+    const { repository, forgeTokens } = get();
     if (!repository) return;
+    if (pendingForgeRepoInfo?.repoId === repository.id) {
+      return pendingForgeRepoInfo.request;
+    }
+
+    const isCurrent = () =>
+      pendingForgeRepoInfo?.request === request &&
+      get().repository?.id === repository.id;
+
+    const request = (async () => {
+      // Initialize tokens on backend if we have them stored
+      for (const [host, token] of Object.entries(forgeTokens)) {
+        try {
+          await setForgeTokenApi(host, token);
+        } catch {
+          // Ignore token setting errors
+        }
+      }
 
-    // Initialize token on backend if we have one stored
-    if (githubToken) {
       try {
-        await setGitHubTokenApi(githubToken);
-      } catch {
-        // Ignore token setting errors
+        const repoInfo = await getForgeRepoInfo(repository.id);
+        if (isCurrent()) set({ forgeRepoInfo: repoInfo, forgeError: null });
+      } catch (error) {
+        // Fall back to "no forge" on error so UI can show proper state instead of loading forever
+        if (isCurrent()) {
+          set({
+            forgeRepoInfo: NO_FORGE,
+            forgeError: (error as Error).message,
+          });
+        }
       }
-    }
+    })().finally(() => {
+      if (pendingForgeRepoInfo?.request === request) {
+        pendingForgeRepoInfo = null;
+      }
+    });
 
-    try {
-      const repoInfo = await getGitHubRepoInfo(repository.path);
-      // If null is returned, set isGitHub: false so UI doesn't get stuck
-      set({
-        githubRepoInfo: repoInfo || { isGitHub: false, owner: "", repo: "" },
-        githubError: null,
-      });
-    } catch (error) {
-      // Set isGitHub: false on error so UI can show proper state instead of loading forever
-      set({
-        githubRepoInfo: { isGitHub: false, owner: "", repo: "" },
-        githubError: (error as Error).message,
-      });
-    }
+    pendingForgeRepoInfo = { repoId: repository.id, request };
+    return request;
   },
 
-  fetchCommitGitHubInfo: async (commitHash: string) => {
-    const { repository, githubRepoInfo, commitGitHubInfo } = get();
-    if (!repository || !githubRepoInfo?.isGitHub) return;
+  fetchCommitForgeInfo: async (commitHash: string) => {
+    const { repository, forgeRepoInfo, commitForgeInfo } = get();
+    if (!repository || !forgeRepoInfo?.forge) return;
 
     // Check cache
-    if (commitGitHubInfo.has(commitHash)) return;
+    if (commitForgeInfo.has(commitHash)) return;
 
-    set({ isLoadingGitHubInfo: true, githubError: null });
+    set({ isLoadingForgeInfo: true, forgeError: null });
 
     try {
-      const info = await getCommitGitHubInfo(repository.path, commitHash);
+      const info = await getCommitForgeInfo(repository.id, commitHash);
       set((state) => {
-        const newMap = new Map(state.commitGitHubInfo);
+        const newMap = new Map(state.commitForgeInfo);
         newMap.set(commitHash, info);
-        return { commitGitHubInfo: newMap, isLoadingGitHubInfo: false };
+        return { commitForgeInfo: newMap, isLoadingForgeInfo: false };
       });
     } catch (error) {
       set({
-        githubError: (error as Error).message,
-        isLoadingGitHubInfo: false,
+        forgeError: (error as Error).message,
+        isLoadingForgeInfo: false,
       });
     }
   },
 
+  fetchGraphPullRequests: async (hashes: string[]) => {
+    const { repository, forgeRepoInfo, pullRequestOverlayError } = get();
+    if (!repository || !forgeRepoInfo?.pullRequestOverlay) return;
+    if (pullRequestOverlayError) return;
+
+    try {
+      await runOverlayLookup(
+        pullRequestLookups,
+        get().commitPullRequests,
+        hashes,
+        (batch, signal) =>
+          streamForgePullRequests(repository.id, batch, {
+            signal,
+            onBatch: ({ pullRequests }) => {
+              if (signal.aborted) return;
+              set((state) => {
+                const newMap = new Map(state.commitPullRequests);
+                for (const [hash, prs] of Object.entries(pullRequests)) {
+                  newMap.set(hash, prs);
+                }
+                return { commitPullRequests: newMap };
+              });
+            },
+          }),
+      );
+    } catch (error) {
+      // Rate limits and missing tokens would fail every lookup after this one
+      set({ pullRequestOverlayError: (error as Error).message });
+    }
+  },
+
+  fetchGraphCheckStates: async (hashes: string[]) => {
+    const { repository, forgeRepoInfo, checkOverlayError } = get();
+    if (!repository || !forgeRepoInfo?.checkOverlay) return;
+    if (checkOverlayError) return;
+
+    try {
+      await runOverlayLookup(
+        checkStateLookups,
+        get().commitCheckStates,
+        hashes,
+        (batch, signal) =>
+          streamForgeCheckStates(repository.id, batch, {
+            signal,
+            onBatch: ({ checkStates }) => {
+              if (signal.aborted) return;
+              set((state) => {
+                const newMap = new Map(state.commitCheckStates);
+                for (const [hash, checkState] of Object.entries(checkStates)) {
+                  newMap.set(hash, checkState);
+                }
+                return { commitCheckStates: newMap };
+              });
+            },
+          }),
+      );
+    } catch (error) {
+      set({ checkOverlayError: (error as Error).message });
+    }
+  },
+
   // Submodule navigation actions
   setSelectedSubmodule: (submodule: Submodule | null) => {
     set({ selectedSubmodule: submodule });
@@ -1639,14 +2559,14 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     try {
       // Load the submodule as a repository
       const submoduleRepo = await loadSubmoduleRepository(
-        repository.path,
+        repository.id,
         submodulePath,
       );
 
       // Push current repo to stack for breadcrumb navigation
       const newStack = [
         ...repositoryStack,
-        { path: repository.path, name: repository.name },
+        { id: repository.id, path: repository.path, name: repository.name },
       ];
 
       set({
@@ -1658,17 +2578,23 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
         adjacencyMap: buildAdjacencyMap(submoduleRepo.commits),
         repositoryStack: newStack,
         selectedCommit: null,
+        diffRange: null,
         selectedSubmodule: null,
         submodules: null, // Will be fetched again for nested submodules
         isLoadingSubmodule: false,
-        // Reset GitHub info for new repo
-        githubRepoInfo: null,
-        commitGitHubInfo: new Map<string, CommitGitHubInfo>(),
+        // Reset forge info for new repo
+        forgeRepoInfo: null,
+        commitForgeInfo: new Map<string, CommitForgeInfo>(),
+        commitPullRequests: new Map<string, PullRequest[]>(),
+        pullRequestOverlayError: null,
+        commitCheckStates: new Map<string, CheckState | null>(),
+        checkOverlayError: null,
       });
+      cancelOverlayLookups();
 
-      // Fetch submodules and GitHub info for the new repo
+      // Fetch submodules and forge info for the new repo
       get().fetchSubmodules();
-      get().fetchGitHubRepoInfo();
+      get().fetchForgeRepoInfo();
     } catch (error) {
       set({
         submoduleError: (error as Error).message,
@@ -1687,7 +2613,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
     set({ isLoadingSubmodule: true, submoduleError: null });
 
     try {
-      const repository = await loadRepository(previousRepo.path);
+      const repository = await loadRepository(previousRepo.id);
 
       set({
         repository: {
@@ -1698,17 +2624,23 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
         adjacencyMap: buildAdjacencyMap(repository.commits),
         repositoryStack: newStack,
         selectedCommit: null,
+        diffRange: null,
         selectedSubmodule: null,
         submodules: null,
         isLoadingSubmodule: false,
-        // Reset GitHub info
-        githubRepoInfo: null,
-        commitGitHubInfo: new Map<string, CommitGitHubInfo>(),
+        // Reset forge info
+        forgeRepoInfo: null,
+        commitForgeInfo: new Map<string, CommitForgeInfo>(),
+        commitPullRequests: new Map<string, PullRequest[]>(),
+        pullRequestOverlayError: null,
+        commitCheckStates: new Map<string, CheckState | null>(),
+        checkOverlayError: null,
       });
+      cancelOverlayLookups();
 
-      // Fetch submodules and GitHub info
+      // Fetch submodules and forge info
       get().fetchSubmodules();
-      get().fetchGitHubRepoInfo();
+      get().fetchForgeRepoInfo();
     } catch (error) {
       set({
         submoduleError: (error as Error).message,
@@ -1726,7 +2658,7 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
 
     set({ isLoadingSubmodule: true, submoduleError: null });
 
-    loadRepository(rootRepo.path)
+    loadRepository(rootRepo.id)
       .then((repository) => {
         set({
           repository: {
@@ -1737,15 +2669,21 @@ export const useRepositoryStore = create<RepositoryState>((set, get) => ({
           adjacencyMap: buildAdjacencyMap(repository.commits),
           repositoryStack: [],
           selectedCommit: null,
+          diffRange: null,
           selectedSubmodule: null,
           submodules: null,
           isLoadingSubmodule: false,
-          githubRepoInfo: null,
-          commitGitHubInfo: new Map<string, CommitGitHubInfo>(),
+          forgeRepoInfo: null,
+          commitForgeInfo: new Map<string, CommitForgeInfo>(),
+          commitPullRequests: new Map<string, PullRequest[]>(),
+          pullRequestOverlayError: null,
+          commitCheckStates: new Map<string, CheckState | null>(),
+          checkOverlayError: null,
         });
+        cancelOverlayLookups();
 
         get().fetchSubmodules();
-        get().fetchGitHubRepoInfo();
+        get().fetchForgeRepoInfo();
       })
       .catch((error) => {
         set({
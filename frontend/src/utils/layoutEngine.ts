@@ -1,6 +1,6 @@
 import dagre from "@dagrejs/dagre";
 import type { Node, Edge } from "@xyflow/react";
-import type { Commit, Submodule } from "../types";
+import type { CheckState, Commit, PullRequest, Submodule } from "../types";
 import { assignBranchColors, assignAuthorColors } from "./branchColors";
 
 export interface CommitNodeData extends Record<string, unknown> {
@@ -9,6 +9,9 @@ export interface CommitNodeData extends Record<string, unknown> {
   gradient?: string;
   isCompact: boolean;
   isHighlighted: boolean;
+  isNew?: boolean; // Just arrived from a refresh or the watcher
+  pullRequests?: PullRequest[]; // From the forge overlay, once looked up
+  checkState?: CheckState | null; // Likewise; null when no CI checks ran
 }
 
 export interface SubmoduleNodeData extends Record<string, unknown> {
@@ -0,0 +1,154 @@
+/**
+ * Intra-line word diff for unified diff hunks. Runs of removed lines are
+ * paired with the added lines that follow them, and each pair is diffed
+ * word by word so only the changed spans get highlighted.
+ */
+
+// Half-open character range [start, end) within a line's content
+export type ChangedRange = [number, number];
+
+// Skip the quadratic token diff for very long line pairs
+const MAX_TOKEN_PRODUCT = 250_000;
+
+// Lines sharing less than this fraction of their text are treated as
+// rewritten rather than edited, so highlighting them would just be noise
+const MIN_SIMILARITY = 0.3;
+
+function tokenize(line: string): string[] {
+  return line.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+// Changed ranges for both sides of a line pair, or null if too different
+function diffLinePair(
+  oldLine: string,
+  newLine: string,
+): { old: ChangedRange[]; new: ChangedRange[] } | null {
+  const a = tokenize(oldLine);
+  const b = tokenize(newLine);
+  if (a.length * b.length > MAX_TOKEN_PRODUCT) return null;
+
+  // Longest common subsequence table, filled from the end
+  const lcs: Uint32Array[] = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const oldRanges: ChangedRange[] = [];
+  const newRanges: ChangedRange[] = [];
+  const mark = (ranges: ChangedRange[], start: number, length: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === start) last[1] += length;
+    else ranges.push([start, start + length]);
+  };
+
+  let i = 0;
+  let j = 0;
+  let oldOffset = 0;
+  let newOffset = 0;
+  let common = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      common += a[i].length;
+      oldOffset += a[i++].length;
+      newOffset += b[j++].length;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      mark(oldRanges, oldOffset, a[i].length);
+      oldOffset += a[i++].length;
+    } else {
+      mark(newRanges, newOffset, b[j].length);
+      newOffset += b[j++].length;
+    }
+  }
+
+  const longest = Math.max(oldLine.length, newLine.length);
+  if (longest > 0 && common / longest < MIN_SIMILARITY) return null;
+
+  return { old: oldRanges, new: newRanges };
+}
+
+/**
+ * Changed ranges for the lines of one hunk, keyed by line index. Ranges are
+ * relative to the line content without its leading "+"/"-" marker. Lines
+ * without a counterpart are left out, as they are entirely added or removed.
+ */
+export function computeHunkWordDiff(
+  lines: string[],
+): Map<number, ChangedRange[]> {
+  const result = new Map<number, ChangedRange[]>();
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!lines[index].startsWith("-")) {
+      index++;
+      continue;
+    }
+
+    const removedStart = index;
+    while (index < lines.length && lines[index].startsWith("-")) index++;
+    const addedStart = index;
+    while (index < lines.length && lines[index].startsWith("+")) index++;
+
+    const pairs = Math.min(addedStart - removedStart, index - addedStart);
+    for (let k = 0; k < pairs; k++) {
+      const oldIndex = removedStart + k;
+      const newIndex = addedStart + k;
+      const ranges = diffLinePair(
+        lines[oldIndex].slice(1),
+        lines[newIndex].slice(1),
+      );
+      if (!ranges) continue;
+      result.set(oldIndex, ranges.old);
+      result.set(newIndex, ranges.new);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split `text`, which starts at `offset` within its line, into pieces that
+ * are either entirely inside or entirely outside the changed ranges.
+ */
+export function splitByRanges(
+  text: string,
+  offset: number,
+  ranges: ChangedRange[],
+): { text: string; changed: boolean }[] {
+  const pieces: { text: string; changed: boolean }[] = [];
+  const end = offset + text.length;
+  let position = offset;
+
+  for (const [start, stop] of ranges) {
+    if (stop <= position) continue;
+    if (start >= end) break;
+    if (start > position) {
+      pieces.push({
+        text: text.slice(position - offset, start - offset),
+        changed: false,
+      });
+      position = start;
+    }
+    const pieceEnd = Math.min(stop, end);
+    pieces.push({
+      text: text.slice(position - offset, pieceEnd - offset),
+      changed: true,
+    });
+    position = pieceEnd;
+  }
+
+  if (position < end) {
+    pieces.push({ text: text.slice(position - offset), changed: false });
+  }
+  return pieces;
+}